@@ -155,12 +155,19 @@ export async function loadToolDynamically(
         const result = await execResponse.json();
 
         if (!result.success) {
-          console.error(`❌ Tool execution failed: ${result.error}`);
+          console.error(
+            `❌ Tool execution failed${result.errorCode ? ` [${result.errorCode}]` : ''}: ${result.error}`
+          );
           throw new Error(result.error || 'Tool execution failed');
         }
 
         // Health status is reported by the Railway executor
-        console.log(`✅ Tool executed successfully in ${result.executionTimeMs}ms`);
+        console.log(`✅ Tool executed successfully in ${result.executionTimeMs}ms`, {
+          resolvedVersion: result.resolvedVersion,
+          cacheHit: result.metrics?.cacheHit,
+          peakMemoryBytes: result.metrics?.peakMemoryBytes,
+          logLines: result.logs?.length ?? 0,
+        });
         return result.output;
       },
     });
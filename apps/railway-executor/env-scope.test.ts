@@ -0,0 +1,107 @@
+/**
+ * Tests for per-request environment scopes
+ * Run with: deno test --allow-env env-scope.test.ts
+ */
+
+import { deepStrictEqual as assertEquals } from 'node:assert/strict';
+import process from 'node:process';
+import {
+  getMissingEnvReads,
+  installScopedEnv,
+  normalizeRequestEnv,
+  runWithEnv,
+} from './env-scope.ts';
+
+installScopedEnv();
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+Deno.test('concurrent requests only see their own env vars', async () => {
+  const observe = (apiKey: string, delayMs: number) =>
+    runWithEnv({ TEST_API_KEY: apiKey }, async () => {
+      const seen: Array<string | undefined> = [];
+      for (let i = 0; i < 5; i++) {
+        // Interleave with the other request between every read
+        await sleep(delayMs);
+        seen.push(Deno.env.get('TEST_API_KEY'), process.env.TEST_API_KEY);
+      }
+      return seen;
+    });
+
+  const [first, second] = await Promise.all([observe('secret-a', 3), observe('secret-b', 2)]);
+
+  assertEquals(new Set(first), new Set(['secret-a']));
+  assertEquals(new Set(second), new Set(['secret-b']));
+});
+
+Deno.test('env vars do not outlive the request', async () => {
+  await runWithEnv({ TEST_API_KEY: 'secret-a' }, async () => {
+    assertEquals(Deno.env.get('TEST_API_KEY'), 'secret-a');
+  });
+
+  assertEquals(Deno.env.get('TEST_API_KEY'), undefined);
+  assertEquals(process.env.TEST_API_KEY, undefined);
+  assertEquals(Deno.env.has('TEST_API_KEY'), false);
+});
+
+Deno.test('writes inside a request stay in that request', async () => {
+  let release: () => void = () => {};
+  const gate = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+
+  const writer = runWithEnv({}, async () => {
+    Deno.env.set('TEST_WRITTEN', 'from-writer');
+    process.env.TEST_NODE_WRITTEN = 'from-writer';
+    await gate;
+    return [Deno.env.get('TEST_WRITTEN'), Deno.env.get('TEST_NODE_WRITTEN')];
+  });
+
+  const reader = runWithEnv({}, async () => {
+    const seen = [Deno.env.get('TEST_WRITTEN'), process.env.TEST_NODE_WRITTEN];
+    release();
+    return seen;
+  });
+
+  assertEquals(await reader, [undefined, undefined]);
+  assertEquals(await writer, ['from-writer', 'from-writer']);
+  assertEquals(Deno.env.get('TEST_WRITTEN'), undefined);
+  assertEquals(Deno.env.get('TEST_NODE_WRITTEN'), undefined);
+});
+
+Deno.test('request env overrides and can delete server env without changing it', async () => {
+  Deno.env.set('TEST_SHARED', 'server');
+  try {
+    await runWithEnv({ TEST_SHARED: 'request' }, async () => {
+      assertEquals(Deno.env.get('TEST_SHARED'), 'request');
+      assertEquals(Deno.env.toObject().TEST_SHARED, 'request');
+    });
+
+    await runWithEnv({}, async () => {
+      Deno.env.delete('TEST_SHARED');
+      assertEquals(Deno.env.get('TEST_SHARED'), undefined);
+      assertEquals('TEST_SHARED' in process.env, false);
+    });
+
+    assertEquals(Deno.env.get('TEST_SHARED'), 'server');
+  } finally {
+    Deno.env.delete('TEST_SHARED');
+  }
+});
+
+Deno.test('reads of unset env vars are recorded per request', async () => {
+  const missing = await runWithEnv({ TEST_API_KEY: 'secret-a' }, async () => {
+    Deno.env.get('TEST_API_KEY');
+    Deno.env.get('TEST_UNSET_KEY');
+    return getMissingEnvReads();
+  });
+
+  assertEquals(missing, ['TEST_UNSET_KEY']);
+  assertEquals(getMissingEnvReads(), []);
+});
+
+Deno.test('normalizeRequestEnv keeps string-coercible entries only', () => {
+  assertEquals(normalizeRequestEnv({ A: 'x', B: 1, C: null, D: undefined }), { A: 'x', B: '1' });
+  assertEquals(normalizeRequestEnv(null), {});
+  assertEquals(normalizeRequestEnv(['x']), {});
+});
@@ -0,0 +1,173 @@
+/**
+ * Per-request environment scopes
+ *
+ * Tools read credentials from `Deno.env` (esm.sh imports) or `process.env` (npm imports),
+ * both of which are process-global. Setting request env vars there let concurrent
+ * executions see each other's secrets and left stale keys behind after a request.
+ *
+ * Instead, both are patched once at startup to read through an AsyncLocalStorage scope:
+ * code running inside `runWithEnv` sees the request's variables layered over the server's
+ * own environment, and any writes it makes stay in that scope. Outside a scope the real
+ * environment is used unchanged.
+ *
+ * Scopes cover reads made while a request runs; values read while a module loads live as long
+ * as the module, which is why requests with different env values run in separate workers
+ * (see env-workers.ts).
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import process from 'node:process';
+
+interface EnvScope {
+  vars: Map<string, string>;
+  // Keys deleted inside the scope (hidden even if set in the base environment)
+  deleted: Set<string>;
+  // Keys read inside the scope that were not set anywhere
+  missing: Set<string>;
+}
+
+const envStorage = new AsyncLocalStorage<EnvScope>();
+
+// Env of the env worker this module runs in, used outside request scopes (see env-workers.ts)
+let workerEnv: EnvScope | undefined;
+
+let installed = false;
+
+const createScope = (env: Record<string, string>): EnvScope => ({
+  vars: new Map(Object.entries(env)),
+  deleted: new Set(),
+  missing: new Set(),
+});
+
+const currentScope = (): EnvScope | undefined => envStorage.getStore() ?? workerEnv;
+
+/**
+ * Coerce a request's env object to string values, dropping invalid entries
+ */
+export function normalizeRequestEnv(env: unknown): Record<string, string> {
+  if (!env || typeof env !== 'object' || Array.isArray(env)) return {};
+
+  const normalized: Record<string, string> = {};
+  for (const [key, value] of Object.entries(env as Record<string, unknown>)) {
+    if (!key || value === undefined || value === null) continue;
+    normalized[key] = String(value);
+  }
+  return normalized;
+}
+
+/**
+ * Patch Deno.env and process.env to resolve through the current scope
+ * Safe to call more than once
+ */
+export function installScopedEnv(): void {
+  if (installed) return;
+  installed = true;
+
+  const base = {
+    get: Deno.env.get.bind(Deno.env),
+    set: Deno.env.set.bind(Deno.env),
+    delete: Deno.env.delete.bind(Deno.env),
+    has: Deno.env.has.bind(Deno.env),
+    toObject: Deno.env.toObject.bind(Deno.env),
+  };
+
+  const scopedGet = (key: string): string | undefined => {
+    const scope = currentScope();
+    if (!scope) return base.get(key);
+    if (scope.vars.has(key)) return scope.vars.get(key);
+    const value = scope.deleted.has(key) ? undefined : base.get(key);
+    if (value === undefined) scope.missing.add(key);
+    return value;
+  };
+
+  const scopedSet = (key: string, value: string): void => {
+    const scope = currentScope();
+    if (!scope) {
+      base.set(key, value);
+      return;
+    }
+    scope.deleted.delete(key);
+    scope.vars.set(key, String(value));
+  };
+
+  const scopedDelete = (key: string): void => {
+    const scope = currentScope();
+    if (!scope) {
+      base.delete(key);
+      return;
+    }
+    scope.vars.delete(key);
+    scope.deleted.add(key);
+  };
+
+  const scopedToObject = (): Record<string, string> => {
+    const scope = currentScope();
+    if (!scope) return base.toObject();
+    const merged = base.toObject();
+    for (const key of scope.deleted) delete merged[key];
+    return { ...merged, ...Object.fromEntries(scope.vars) };
+  };
+
+  Deno.env.get = scopedGet;
+  Deno.env.set = scopedSet;
+  Deno.env.delete = scopedDelete;
+  Deno.env.has = (key: string) => scopedGet(key) !== undefined;
+  Deno.env.toObject = scopedToObject;
+
+  // process.env (Node compat) gets the same view, including assignment and deletion
+  const processEnv = new Proxy({} as Record<string, string>, {
+    get: (_target, prop) => (typeof prop === 'string' ? scopedGet(prop) : undefined),
+    set: (_target, prop, value) => {
+      if (typeof prop === 'string') scopedSet(prop, String(value));
+      return true;
+    },
+    deleteProperty: (_target, prop) => {
+      if (typeof prop === 'string') scopedDelete(prop);
+      return true;
+    },
+    has: (_target, prop) => typeof prop === 'string' && scopedGet(prop) !== undefined,
+    ownKeys: () => Object.keys(scopedToObject()),
+    getOwnPropertyDescriptor: (_target, prop) => {
+      if (typeof prop !== 'string') return undefined;
+      const value = scopedGet(prop);
+      return value === undefined
+        ? undefined
+        : { value, writable: true, enumerable: true, configurable: true };
+    },
+  });
+
+  // node:process is what npm modules get as `process` (Deno 1.x has no global process)
+  Object.defineProperty(process, 'env', {
+    value: processEnv,
+    writable: true,
+    enumerable: true,
+    configurable: true,
+  });
+}
+
+/**
+ * Run fn with its own environment scope
+ * Everything fn awaits (imports, factory calls, tool execution) sees only these request vars
+ */
+export function runWithEnv<T>(env: Record<string, string>, fn: () => Promise<T>): Promise<T> {
+  installScopedEnv();
+  return envStorage.run(createScope(env), fn);
+}
+
+/**
+ * Give this whole isolate an env, for code that runs outside any request scope
+ * Env workers serve a single set of env values, and Deno 1.x evaluates dynamically imported
+ * modules outside the importer's AsyncLocalStorage context, so module-level reads land here.
+ */
+export function setWorkerEnv(env: Record<string, string>): void {
+  installScopedEnv();
+  workerEnv = createScope(env);
+}
+
+/**
+ * Env vars the current scope tried to read but that were not set
+ * Used to tell "missing API key" failures apart from other tool errors
+ */
+export function getMissingEnvReads(): string[] {
+  return Array.from(envStorage.getStore()?.missing ?? []);
+}
@@ -0,0 +1,32 @@
+/**
+ * Env worker used by env-workers.test.ts
+ * Its "tool" reads TEST_API_KEY while the module loads, like tools that keep their API key
+ * in a module-level constant.
+ */
+
+import { normalizeRequestEnv, runWithEnv } from './env-scope.ts';
+import { serveEnvWorker } from './env-workers.ts';
+
+const TOOL_URL =
+  'data:application/javascript,export const apiKey = Deno.env.get("TEST_API_KEY") ?? null;';
+
+serveEnvWorker(async (req) => {
+  const { env, fail, chunks } = await req.json();
+  if (fail) throw new Error('Tool request failed');
+
+  if (chunks) {
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+        controller.close();
+      },
+    });
+    return new Response(body, { headers: { 'Content-Type': 'application/x-ndjson' } });
+  }
+
+  return runWithEnv(normalizeRequestEnv(env), async () => {
+    const tool = await import(TOOL_URL);
+    return Response.json({ apiKey: tool.apiKey });
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Tests for per-env workers
+ * Run with: deno test --allow-env --allow-read env-workers.test.ts
+ */
+
+import { deepStrictEqual as assertEquals, rejects as assertRejects } from 'node:assert/strict';
+import { createEnvWorkerPool, hashEnv } from './env-workers.ts';
+
+const FIXTURE_URL = new URL('./env-workers.fixture.ts', import.meta.url).href;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const toolRequest = (body: Record<string, unknown>) =>
+  new Request('http://executor/execute-tool', { method: 'POST', body: JSON.stringify(body) });
+
+Deno.test('env read while a module loads never reaches requests with other env values', async () => {
+  const pool = createEnvWorkerPool(FIXTURE_URL, 60_000);
+  const apiKeyFor = async (env: Record<string, string>) => {
+    const response = await pool.dispatch(toolRequest({ env }), env);
+    return (await response.json()).apiKey;
+  };
+
+  try {
+    assertEquals(await apiKeyFor({ TEST_API_KEY: 'secret-a' }), 'secret-a');
+    assertEquals(await apiKeyFor({ TEST_API_KEY: 'secret-b' }), 'secret-b');
+    assertEquals(await apiKeyFor({}), null);
+    // Same values reuse their worker (and its cached module)
+    assertEquals(await apiKeyFor({ TEST_API_KEY: 'secret-a' }), 'secret-a');
+    assertEquals(pool.size(), 3);
+  } finally {
+    pool.clear();
+  }
+});
+
+Deno.test('response bodies stream back from the worker', async () => {
+  const pool = createEnvWorkerPool(FIXTURE_URL, 60_000);
+  try {
+    const response = await pool.dispatch(toolRequest({ chunks: ['{"a":1}\n', '{"b":2}\n'] }), {});
+
+    assertEquals(response.headers.get('content-type'), 'application/x-ndjson');
+    assertEquals(await response.text(), '{"a":1}\n{"b":2}\n');
+  } finally {
+    pool.clear();
+  }
+});
+
+Deno.test('handler errors reject the forwarded request', async () => {
+  const pool = createEnvWorkerPool(FIXTURE_URL, 60_000);
+  try {
+    await assertRejects(pool.dispatch(toolRequest({ fail: true }), {}), /Tool request failed/);
+  } finally {
+    pool.clear();
+  }
+});
+
+Deno.test('idle workers stop after the TTL', async () => {
+  const pool = createEnvWorkerPool(FIXTURE_URL, 20);
+  try {
+    await (await pool.dispatch(toolRequest({ env: {} }), {})).json();
+    assertEquals(pool.size(), 1);
+
+    await sleep(100);
+    assertEquals(pool.size(), 0);
+  } finally {
+    pool.clear();
+  }
+});
+
+Deno.test('env hashes ignore key order but not values', async () => {
+  assertEquals(await hashEnv({ A: '1', B: '2' }), await hashEnv({ B: '2', A: '1' }));
+  assertEquals((await hashEnv({ A: '1' })) === (await hashEnv({ A: '2' })), false);
+  assertEquals((await hashEnv({ A: '1' })) === (await hashEnv({})), false);
+});
@@ -0,0 +1,295 @@
+/**
+ * Per-env workers
+ *
+ * env-scope.ts gives each request its own view of Deno.env/process.env, but a module is only
+ * evaluated once per isolate: a tool that copies an API key into a top-level constant keeps
+ * the value of whichever request imported it first. Sharing that module would hand one
+ * caller's secret to everyone after them.
+ *
+ * So tool requests run in workers keyed by a hash of their env values. Each distinct env gets
+ * its own isolate, with its own module graph and module cache, and requests with the same
+ * values reuse it. Workers with nothing in flight are stopped after an idle TTL.
+ *
+ * Requests and responses cross the worker boundary as messages; response bodies are streamed
+ * chunk by chunk so NDJSON event streams keep working.
+ */
+
+import { setWorkerEnv } from './env-scope.ts';
+
+/** Worker name that tells a module it runs inside an env worker */
+export const ENV_WORKER_NAME = 'tpmjs-env-worker';
+
+interface ForwardedRequest {
+  id: number;
+  type: 'request';
+  url: string;
+  method: string;
+  headers: [string, string][];
+  body: ArrayBuffer | null;
+}
+
+type WorkerInbound =
+  | { type: 'init'; env: Record<string, string> }
+  | ForwardedRequest
+  | { id: number; type: 'cancel' };
+
+type WorkerOutbound =
+  | { id: number; type: 'head'; status: number; headers: [string, string][] }
+  | { id: number; type: 'chunk'; chunk: Uint8Array }
+  | { id: number; type: 'end' }
+  | { id: number; type: 'error'; message: string };
+
+interface PendingRequest {
+  resolve: (response: Response) => void;
+  reject: (error: Error) => void;
+  // Set once the worker sent the response head
+  body?: ReadableStreamDefaultController<Uint8Array>;
+}
+
+interface EnvWorker {
+  worker: Worker;
+  pending: Map<number, PendingRequest>;
+  idleTimer?: ReturnType<typeof setTimeout>;
+  // Removed from the pool; terminated once its in-flight requests finish
+  retired: boolean;
+}
+
+// Messaging surface of the worker global scope (not part of the main-thread Deno types)
+interface WorkerScope {
+  name?: string;
+  onmessage: ((event: MessageEvent<WorkerInbound>) => void) | null;
+  postMessage(message: WorkerOutbound): void;
+}
+
+const workerScope = globalThis as unknown as WorkerScope;
+
+/**
+ * Whether this module is running inside an env worker
+ */
+export function isEnvWorker(): boolean {
+  return workerScope.name === ENV_WORKER_NAME;
+}
+
+/**
+ * Hash env values into a worker key (order-insensitive)
+ * Only the hash is kept, never the values themselves.
+ */
+export async function hashEnv(env: Record<string, string>): Promise<string> {
+  const entries = Object.entries(env).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(JSON.stringify(entries))
+  );
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Create a pool of env workers that run `moduleUrl`
+ * The module must call `serveEnvWorker` when `isEnvWorker()` is true.
+ */
+export function createEnvWorkerPool(moduleUrl: string, idleTtlMs: number) {
+  const workers = new Map<string, EnvWorker>();
+  let nextRequestId = 0;
+
+  const stop = (key: string, entry: EnvWorker) => {
+    clearTimeout(entry.idleTimer);
+    entry.worker.terminate();
+    if (workers.get(key) === entry) workers.delete(key);
+  };
+
+  const settle = (key: string, entry: EnvWorker, id: number) => {
+    entry.pending.delete(id);
+    if (entry.pending.size > 0) return;
+    if (entry.retired) {
+      stop(key, entry);
+      return;
+    }
+    entry.idleTimer = setTimeout(() => stop(key, entry), idleTtlMs);
+  };
+
+  const spawn = (key: string, env: Record<string, string>): EnvWorker => {
+    const entry: EnvWorker = {
+      worker: new Worker(moduleUrl, { type: 'module', name: ENV_WORKER_NAME }),
+      pending: new Map(),
+      retired: false,
+    };
+    // Delivered before any request; the worker holds the values, the pool only the hash
+    entry.worker.postMessage({ type: 'init', env });
+
+    entry.worker.onmessage = (event: MessageEvent<WorkerOutbound>) => {
+      const message = event.data;
+      const request = entry.pending.get(message.id);
+      if (!request) return;
+
+      switch (message.type) {
+        case 'head': {
+          const body = new ReadableStream<Uint8Array>({
+            start: (controller) => {
+              request.body = controller;
+            },
+            // Client went away: let the worker stop producing the body
+            cancel: () => {
+              entry.worker.postMessage({ id: message.id, type: 'cancel' });
+              settle(key, entry, message.id);
+            },
+          });
+          request.resolve(new Response(body, { status: message.status, headers: message.headers }));
+          break;
+        }
+        case 'chunk':
+          request.body?.enqueue(message.chunk);
+          break;
+        case 'end':
+          request.body?.close();
+          settle(key, entry, message.id);
+          break;
+        case 'error': {
+          const error = new Error(message.message);
+          if (request.body) request.body.error(error);
+          else request.reject(error);
+          settle(key, entry, message.id);
+          break;
+        }
+      }
+    };
+
+    // A crashed worker fails everything it was running; the next request gets a new one
+    entry.worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      console.error('❌ Env worker crashed:', event.message);
+      const error = new Error(`Env worker crashed: ${event.message}`);
+      for (const request of entry.pending.values()) {
+        if (request.body) request.body.error(error);
+        else request.reject(error);
+      }
+      entry.pending.clear();
+      stop(key, entry);
+    };
+
+    workers.set(key, entry);
+    return entry;
+  };
+
+  const send = async (key: string, entry: EnvWorker, req: Request): Promise<Response> => {
+    clearTimeout(entry.idleTimer);
+    const id = nextRequestId++;
+    const response = new Promise<Response>((resolve, reject) => {
+      entry.pending.set(id, { resolve, reject });
+    });
+
+    try {
+      const body = req.body ? await req.arrayBuffer() : null;
+      const message: ForwardedRequest = {
+        id,
+        type: 'request',
+        url: req.url,
+        method: req.method,
+        headers: Array.from(req.headers),
+        body,
+      };
+      entry.worker.postMessage(message, body ? [body] : []);
+    } catch (error) {
+      settle(key, entry, id);
+      throw error;
+    }
+    return response;
+  };
+
+  return {
+    /**
+     * Run a request in the worker for this env, starting one if needed
+     */
+    async dispatch(req: Request, env: Record<string, string>): Promise<Response> {
+      const key = await hashEnv(env);
+      return send(key, workers.get(key) ?? spawn(key, env), req);
+    },
+
+    /**
+     * Send a copy of a request to every live worker
+     */
+    broadcast(req: Request): Promise<Response[]> {
+      return Promise.all(
+        Array.from(workers.entries(), ([key, entry]) => send(key, entry, req.clone()))
+      );
+    },
+
+    /**
+     * Stop all workers, dropping their module caches
+     * Workers with requests in flight stop once those finish. Returns how many were retired.
+     */
+    clear(): number {
+      const size = workers.size;
+      for (const [key, entry] of Array.from(workers.entries())) {
+        entry.retired = true;
+        workers.delete(key);
+        if (entry.pending.size === 0) stop(key, entry);
+      }
+      return size;
+    },
+
+    size(): number {
+      return workers.size;
+    },
+  };
+}
+
+/**
+ * Serve requests forwarded by the pool (call from inside an env worker)
+ */
+export function serveEnvWorker(handler: (req: Request) => Promise<Response>): void {
+  const readers = new Map<number, ReadableStreamDefaultReader<Uint8Array>>();
+
+  const respond = async (message: ForwardedRequest) => {
+    const { id } = message;
+    try {
+      const response = await handler(
+        new Request(message.url, {
+          method: message.method,
+          headers: message.headers,
+          body: message.body,
+        })
+      );
+      workerScope.postMessage({
+        id,
+        type: 'head',
+        status: response.status,
+        headers: Array.from(response.headers),
+      });
+
+      if (response.body) {
+        const reader = response.body.getReader();
+        readers.set(id, reader);
+        try {
+          for (let result = await reader.read(); !result.done; result = await reader.read()) {
+            workerScope.postMessage({ id, type: 'chunk', chunk: result.value });
+          }
+        } finally {
+          readers.delete(id);
+        }
+      }
+      workerScope.postMessage({ id, type: 'end' });
+    } catch (error) {
+      workerScope.postMessage({
+        id,
+        type: 'error',
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  workerScope.onmessage = (event) => {
+    const message = event.data;
+    if (message.type === 'init') {
+      setWorkerEnv(message.env);
+      return;
+    }
+    if (message.type === 'cancel') {
+      readers
+        .get(message.id)
+        ?.cancel()
+        .catch(() => {});
+      return;
+    }
+    respond(message);
+  };
+}
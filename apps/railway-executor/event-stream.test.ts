@@ -0,0 +1,98 @@
+/**
+ * Tests for streaming /execute-tool responses
+ * Run with: deno test event-stream.test.ts
+ */
+
+import { deepStrictEqual as assertEquals } from 'node:assert/strict';
+import {
+  type ExecutionEvent,
+  installConsoleCapture,
+  resolveToolOutput,
+  runWithEventSink,
+  streamEvents,
+} from './event-stream.ts';
+
+installConsoleCapture();
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const readEvents = async (response: Response): Promise<ExecutionEvent[]> =>
+  (await response.text())
+    .split('\n')
+    .filter(Boolean)
+    .map((line) => JSON.parse(line));
+
+Deno.test('console output is attributed to the execution that wrote it', async () => {
+  const capture = (name: string, delayMs: number) => {
+    const messages: string[] = [];
+    const run = runWithEventSink(
+      (event) => {
+        if (event.type === 'log') messages.push(event.message);
+      },
+      async () => {
+        for (let i = 0; i < 3; i++) {
+          await sleep(delayMs);
+          console.info(name, i);
+        }
+      }
+    );
+    return run.then(() => messages);
+  };
+
+  const [first, second] = await Promise.all([capture('a', 3), capture('b', 2)]);
+
+  assertEquals(first, ['a 0', 'a 1', 'a 2']);
+  assertEquals(second, ['b 0', 'b 1', 'b 2']);
+});
+
+Deno.test('async generator results stream partials and return the last value', async () => {
+  const events: ExecutionEvent[] = [];
+  async function* execute() {
+    yield { status: 'searching' };
+    yield { status: 'done', results: 2 };
+  }
+
+  const output = await resolveToolOutput(execute(), (event) => events.push(event));
+
+  assertEquals(output, { status: 'done', results: 2 });
+  assertEquals(
+    events.map((event) => (event.type === 'partial' ? event.output : null)),
+    [{ status: 'searching' }, { status: 'done', results: 2 }]
+  );
+  assertEquals(await resolveToolOutput(Promise.resolve('plain')), 'plain');
+});
+
+Deno.test('streams events as NDJSON and ends with the result', async () => {
+  const response = streamEvents(async (sink) => {
+    sink({ type: 'progress', progress: 0.5, message: 'Halfway', timestamp: 1 });
+    runWithEventSink(sink, () => console.warn('careful'));
+    return Response.json({ success: true, output: { ok: true }, executionTimeMs: 12 });
+  });
+
+  assertEquals(response.headers.get('content-type'), 'application/x-ndjson');
+  const events = await readEvents(response);
+
+  assertEquals(
+    events.map((event) => event.type),
+    ['progress', 'log', 'result']
+  );
+  assertEquals(events[1], { ...events[1], level: 'warn', message: 'careful' });
+  assertEquals(events[2], {
+    type: 'result',
+    success: true,
+    output: { ok: true },
+    executionTimeMs: 12,
+  });
+});
+
+Deno.test('error responses still end with a result event', async () => {
+  const response = streamEvents(async () =>
+    Response.json({ success: false, error: 'Missing required fields' }, { status: 400 })
+  );
+
+  const [result] = await readEvents(response);
+
+  assertEquals(result?.type, 'result');
+  assertEquals(result?.type === 'result' && result.error, 'Missing required fields');
+  assertEquals(result?.type === 'result' && typeof result.executionTimeMs, 'number');
+});
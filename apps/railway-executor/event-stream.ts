@@ -0,0 +1,165 @@
+/**
+ * Streaming /execute-tool responses
+ *
+ * With `Accept: application/x-ndjson`, /execute-tool answers with one JSON event per line
+ * while the tool runs: `log` (console output from the tool), `progress` (reported through
+ * the execution context's `onProgress`), `partial` (values yielded by an async generator
+ * `execute`), and finally one `result` event with the usual response body.
+ *
+ * Console output is attributed to an execution through an AsyncLocalStorage scope, like
+ * request env vars (see env-scope.ts), so concurrent executions never see each other's logs.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { ExecutionMetrics, ExecutorErrorCode, ExecutorLogLine } from './execution-report.ts';
+
+export const STREAM_CONTENT_TYPE = 'application/x-ndjson';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type ExecutionEvent =
+  | { type: 'log'; level: LogLevel; message: string; timestamp: number }
+  | { type: 'progress'; progress?: number; message?: string; timestamp: number }
+  | { type: 'partial'; output?: unknown; timestamp: number }
+  | {
+      type: 'result';
+      success: boolean;
+      output?: unknown;
+      error?: string;
+      executionTimeMs: number;
+      errorCode?: ExecutorErrorCode;
+      logs?: ExecutorLogLine[];
+      metrics?: ExecutionMetrics;
+      resolvedVersion?: string;
+    };
+
+export type EventSink = (event: ExecutionEvent) => void;
+
+const sinkStorage = new AsyncLocalStorage<EventSink>();
+
+const CONSOLE_LEVELS: Record<'log' | 'info' | 'debug' | 'warn' | 'error', LogLevel> = {
+  log: 'info',
+  info: 'info',
+  debug: 'debug',
+  warn: 'warn',
+  error: 'error',
+};
+
+let installed = false;
+
+/**
+ * Whether the client asked for the streaming variant
+ */
+export function wantsEventStream(req: Request): boolean {
+  return (req.headers.get('accept') ?? '').includes(STREAM_CONTENT_TYPE);
+}
+
+function formatLogArg(arg: unknown): string {
+  if (typeof arg === 'string') return arg;
+  if (arg instanceof Error) return arg.stack ?? arg.message;
+  try {
+    return JSON.stringify(arg);
+  } catch {
+    return String(arg);
+  }
+}
+
+/**
+ * Patch console methods to also emit `log` events inside runWithEventSink
+ * Output is still written to the server log. Safe to call more than once
+ */
+export function installConsoleCapture(): void {
+  if (installed) return;
+  installed = true;
+
+  for (const [method, level] of Object.entries(CONSOLE_LEVELS)) {
+    const name = method as keyof typeof CONSOLE_LEVELS;
+    const original = console[name].bind(console);
+    console[name] = (...args: unknown[]) => {
+      original(...args);
+      sinkStorage.getStore()?.({
+        type: 'log',
+        level,
+        message: args.map(formatLogArg).join(' '),
+        timestamp: Date.now(),
+      });
+    };
+  }
+}
+
+/**
+ * Run `fn` with console output forwarded to `sink` (no-op without a sink)
+ */
+export function runWithEventSink<T>(sink: EventSink | undefined, fn: () => T): T {
+  return sink ? sinkStorage.run(sink, fn) : fn();
+}
+
+/**
+ * Resolve a tool's execute() result
+ * Async iterables (AI SDK preliminary results) emit each value as a `partial` event;
+ * the last value is the output
+ */
+export async function resolveToolOutput(result: unknown, sink?: EventSink): Promise<unknown> {
+  const value = await result;
+  if (
+    !value ||
+    typeof value !== 'object' ||
+    typeof (value as AsyncIterable<unknown>)[Symbol.asyncIterator] !== 'function'
+  ) {
+    return value;
+  }
+
+  let last: unknown;
+  for await (const chunk of value as AsyncIterable<unknown>) {
+    last = chunk;
+    sink?.({ type: 'partial', output: chunk, timestamp: Date.now() });
+  }
+  return last;
+}
+
+/**
+ * Stream an endpoint's events as NDJSON
+ * `run` receives the sink and returns the endpoint's JSON response, which becomes the
+ * final `result` event
+ */
+export function streamEvents(run: (sink: EventSink) => Promise<Response>): Response {
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+  const writer = writable.getWriter();
+  const encoder = new TextEncoder();
+  const startTime = Date.now();
+
+  // Writes are chained so events keep their order; a disconnected client just drops them
+  let pending = Promise.resolve();
+  const sink: EventSink = (event) => {
+    pending = pending
+      .then(() => writer.write(encoder.encode(`${JSON.stringify(event)}\n`)))
+      .catch(() => {});
+  };
+
+  (async () => {
+    // biome-ignore lint/suspicious/noExplicitAny: Endpoint responses are plain JSON objects
+    let body: any;
+    try {
+      body = await (await run(sink)).json();
+    } catch (error) {
+      body = { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+    sink({
+      type: 'result',
+      success: Boolean(body?.success),
+      output: body?.output,
+      error: body?.error,
+      executionTimeMs: body?.executionTimeMs ?? Date.now() - startTime,
+      errorCode: body?.errorCode,
+      logs: body?.logs,
+      metrics: body?.metrics,
+      resolvedVersion: body?.resolvedVersion,
+    });
+    await pending;
+    await writer.close().catch(() => {});
+  })();
+
+  return new Response(readable, {
+    headers: { 'Content-Type': STREAM_CONTENT_TYPE, 'Cache-Control': 'no-cache' },
+  });
+}
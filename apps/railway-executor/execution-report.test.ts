@@ -0,0 +1,86 @@
+/**
+ * Tests for structured execution reports
+ * Run with: deno test execution-report.test.ts
+ */
+
+import { deepStrictEqual as assertEquals, rejects } from 'node:assert/strict';
+import { installConsoleCapture, runWithEventSink } from './event-stream.ts';
+import {
+  classifyToolError,
+  collectLogs,
+  ExecutionTimeoutError,
+  validateToolInput,
+  versionFromImportUrl,
+  withExecutionTimeout,
+} from './execution-report.ts';
+
+installConsoleCapture();
+
+Deno.test('console output is collected as stdout/stderr lines', () => {
+  const forwarded: string[] = [];
+  const { sink, logs } = collectLogs((event) => forwarded.push(event.type));
+
+  runWithEventSink(sink, () => {
+    console.log('fetching', { page: 1 });
+    console.warn('rate limited');
+  });
+  sink({ type: 'progress', progress: 0.5, timestamp: 1 });
+
+  assertEquals(
+    logs.map(({ stream, message }) => ({ stream, message })),
+    [
+      { stream: 'stdout', message: 'fetching {"page":1}' },
+      { stream: 'stderr', message: 'rate limited' },
+    ]
+  );
+  assertEquals(forwarded, ['log', 'log', 'progress']);
+});
+
+Deno.test('tool errors are classified into error codes', () => {
+  const zodError = Object.assign(new Error('Invalid'), { name: 'ZodError', issues: [] });
+
+  assertEquals(classifyToolError(new ExecutionTimeoutError(10)), 'TIMEOUT');
+  assertEquals(classifyToolError(zodError), 'INVALID_INPUT');
+  assertEquals(classifyToolError(new Error('Request timed out')), 'TIMEOUT');
+  assertEquals(classifyToolError(new Error('OPENAI_API_KEY is not set')), 'ENV_MISSING');
+  assertEquals(
+    classifyToolError(new Error('Unauthorized: check EXA_API_KEY'), ['EXA_API_KEY']),
+    'ENV_MISSING'
+  );
+  assertEquals(classifyToolError(new Error('Unauthorized: check EXA_API_KEY')), 'TOOL_THREW');
+  assertEquals(classifyToolError('boom'), 'TOOL_THREW');
+});
+
+Deno.test('executions past the time limit are aborted', async () => {
+  const controller = new AbortController();
+
+  await rejects(
+    withExecutionTimeout(() => new Promise(() => {}), 10, controller),
+    ExecutionTimeoutError
+  );
+  assertEquals(controller.signal.aborted, true);
+  assertEquals(await withExecutionTimeout(async () => 'done', 1000, new AbortController()), 'done');
+});
+
+Deno.test('params are checked against Zod-like input schemas only', () => {
+  const schema = {
+    safeParse: (value: { query?: unknown }) =>
+      typeof value.query === 'string'
+        ? { success: true }
+        : { success: false, error: { issues: [{ path: ['query'], message: 'Required' }] } },
+  };
+
+  assertEquals(validateToolInput(schema, { query: 'hi' }), null);
+  assertEquals(validateToolInput(schema, {}), 'Invalid input: query: Required');
+  assertEquals(validateToolInput({ type: 'object' }, {}), null);
+});
+
+Deno.test('exact versions are read from esm.sh URLs', () => {
+  assertEquals(versionFromImportUrl('https://esm.sh/pkg@1.2.3'), '1.2.3');
+  assertEquals(
+    versionFromImportUrl('https://esm.sh/@scope/pkg@2.0.0-beta.1/es2022/x.mjs'),
+    '2.0.0-beta.1'
+  );
+  assertEquals(versionFromImportUrl('https://esm.sh/pkg@latest'), undefined);
+  assertEquals(versionFromImportUrl('https://esm.sh/pkg@^1.0.0?target=deno'), undefined);
+});
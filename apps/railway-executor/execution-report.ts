@@ -0,0 +1,207 @@
+/**
+ * Structured execution reports
+ *
+ * Besides output/error, /execute-tool responses carry what happened during the run:
+ * the tool's console output as stdout/stderr lines, peak memory, whether the tool module
+ * came from the cache, the exact package version that ran, and an `errorCode` so clients
+ * (the health checker, the playground) don't have to guess from error messages.
+ */
+
+import type { EventSink, ExecutionEvent } from './event-stream.ts';
+
+export type ExecutorErrorCode =
+  | 'IMPORT_FAILED'
+  | 'TIMEOUT'
+  | 'ENV_MISSING'
+  | 'INVALID_INPUT'
+  | 'TOOL_THREW';
+
+export interface ExecutorLogLine {
+  stream: 'stdout' | 'stderr';
+  message: string;
+  timestamp: number;
+}
+
+export interface ExecutionMetrics {
+  peakMemoryBytes?: number;
+  cacheHit?: boolean;
+}
+
+// Keep responses bounded for chatty tools; the stream (if any) still gets every line
+export const MAX_LOG_LINES = 200;
+const MAX_LOG_LINE_LENGTH = 2000;
+
+const MEMORY_SAMPLE_INTERVAL_MS = 25;
+
+const ENV_ERROR_PATTERNS = [
+  /is required/i,
+  /is not set/i,
+  /missing.*environment/i,
+  /environment.*missing/i,
+  /api key.*required/i,
+  /api key.*not provided/i,
+  /missing.*api key/i,
+  /must be set/i,
+  /not found.*environment/i,
+  /please set/i,
+  /configure.*environment/i,
+];
+
+const TIMEOUT_ERROR_PATTERNS = [/timed? ?out/i, /timeout/i];
+
+/**
+ * Thrown when an execution exceeds the executor's time limit
+ */
+export class ExecutionTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Execution timed out after ${timeoutMs}ms`);
+    this.name = 'ExecutionTimeoutError';
+  }
+}
+
+/**
+ * Collect the tool's console output as stdout/stderr lines
+ * Returns a sink that records `log` events and forwards every event to `downstream`
+ */
+export function collectLogs(downstream?: EventSink): {
+  sink: EventSink;
+  logs: ExecutorLogLine[];
+} {
+  const logs: ExecutorLogLine[] = [];
+  const sink = (event: ExecutionEvent) => {
+    if (event.type === 'log' && logs.length < MAX_LOG_LINES) {
+      logs.push({
+        stream: event.level === 'warn' || event.level === 'error' ? 'stderr' : 'stdout',
+        message: event.message.slice(0, MAX_LOG_LINE_LENGTH),
+        timestamp: event.timestamp,
+      });
+    }
+    downstream?.(event);
+  };
+  return { sink, logs };
+}
+
+/**
+ * Sample the process RSS until the returned function is called, which yields the peak
+ * The executor is shared, so this is the process peak while the tool ran, not the
+ * tool's own allocation
+ */
+export function trackPeakMemory(): () => number {
+  let peak = Deno.memoryUsage().rss;
+  const interval = setInterval(() => {
+    peak = Math.max(peak, Deno.memoryUsage().rss);
+  }, MEMORY_SAMPLE_INTERVAL_MS);
+
+  return () => {
+    clearInterval(interval);
+    return Math.max(peak, Deno.memoryUsage().rss);
+  };
+}
+
+/**
+ * Run `fn`, aborting `controller` and rejecting with ExecutionTimeoutError after `timeoutMs`
+ */
+export async function withExecutionTimeout<T>(
+  fn: () => Promise<T>,
+  timeoutMs: number,
+  controller: AbortController
+): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new ExecutionTimeoutError(timeoutMs));
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([fn(), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Error code for an error thrown while a tool executed
+ * `missingEnv` lists env vars the tool read but that were not set; a failure after such a
+ * read counts as ENV_MISSING when the message names the variable or reads like a config error
+ */
+export function classifyToolError(error: unknown, missingEnv: string[] = []): ExecutorErrorCode {
+  if (error instanceof ExecutionTimeoutError) return 'TIMEOUT';
+
+  const name = error instanceof Error ? error.name : '';
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (name === 'ZodError' || Array.isArray((error as { issues?: unknown })?.issues)) {
+    return 'INVALID_INPUT';
+  }
+  if (name === 'TimeoutError' || TIMEOUT_ERROR_PATTERNS.some((pattern) => pattern.test(message))) {
+    return 'TIMEOUT';
+  }
+  if (
+    missingEnv.some((key) => message.includes(key)) ||
+    ENV_ERROR_PATTERNS.some((pattern) => pattern.test(message))
+  ) {
+    return 'ENV_MISSING';
+  }
+  return 'TOOL_THREW';
+}
+
+/**
+ * Validate params against a tool's input schema when it is a Zod schema
+ * Returns an error message, or null when the params are valid or the schema can't be checked
+ * (plain JSON Schema). The tool still receives the original params
+ */
+export function validateToolInput(inputSchema: unknown, params: unknown): string | null {
+  const schema = inputSchema as {
+    safeParse?: (value: unknown) => {
+      success: boolean;
+      error?: { issues?: { path?: PropertyKey[]; message: string }[] };
+    };
+  };
+  if (typeof schema?.safeParse !== 'function') return null;
+
+  const result = schema.safeParse(params);
+  if (result.success) return null;
+
+  const issues = result.error?.issues ?? [];
+  if (issues.length === 0) return 'Invalid input';
+  return `Invalid input: ${issues
+    .map((issue) =>
+      issue.path?.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+    )
+    .join('; ')}`;
+}
+
+/**
+ * Exact version in an esm.sh URL such as https://esm.sh/pkg@1.2.3 or https://esm.sh/@scope/pkg@1.2.3/es2022/x.mjs
+ */
+export function versionFromImportUrl(url: string): string | undefined {
+  return url.match(/\/(?:@[^/@]+\/)?[^/@]+@(\d+\.\d+\.\d+(?:[-+][0-9A-Za-z.-]+)?)(?:[/?]|$)/)?.[1];
+}
+
+/**
+ * Resolve the exact package version esm.sh serves for `version` (a tag or range)
+ * Exact versions (in `version` or the import URL) are returned as-is; failed lookups
+ * resolve to undefined
+ */
+export async function resolvePackageVersion(
+  packageName: string,
+  version: string,
+  importUrl?: string
+): Promise<string | undefined> {
+  const fromUrl = importUrl ? versionFromImportUrl(importUrl) : undefined;
+  if (fromUrl) return fromUrl;
+  if (/^\d+\.\d+\.\d+(?:[-+][0-9A-Za-z.-]+)?$/.test(version)) return version;
+
+  try {
+    const response = await fetch(`https://esm.sh/${packageName}@${version}/package.json`, {
+      signal: AbortSignal.timeout(3000),
+    });
+    if (!response.ok) return undefined;
+    const pkg = await response.json();
+    return typeof pkg?.version === 'string' ? pkg.version : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -5,10 +5,44 @@
 
 // Import zod-to-json-schema for Zod v3 support
 import { zodToJsonSchema } from 'https://esm.sh/zod-to-json-schema@3.25.0';
+import {
+  getMissingEnvReads,
+  installScopedEnv,
+  normalizeRequestEnv,
+  runWithEnv,
+} from './env-scope.ts';
+import { createEnvWorkerPool, isEnvWorker, serveEnvWorker } from './env-workers.ts';
+import {
+  type EventSink,
+  installConsoleCapture,
+  resolveToolOutput,
+  runWithEventSink,
+  streamEvents,
+  wantsEventStream,
+} from './event-stream.ts';
+import {
+  classifyToolError,
+  collectLogs,
+  type ExecutionMetrics,
+  type ExecutorErrorCode,
+  type ExecutorLogLine,
+  resolvePackageVersion,
+  trackPeakMemory,
+  validateToolInput,
+  withExecutionTimeout,
+} from './execution-report.ts';
+
+// Request env vars are scoped per execution instead of written to the global environment
+installScopedEnv();
+// Console output during an execution is forwarded to streaming clients
+installConsoleCapture();
 
 // Cache TTL: 2 minutes
 const CACHE_TTL_MS = 2 * 60 * 1000;
 
+// Executions running longer are aborted and fail with TIMEOUT (default: 5 minutes)
+const EXECUTION_TIMEOUT_MS = Number.parseInt(Deno.env.get('EXECUTION_TIMEOUT_MS') || '300000');
+
 // Cache entry with expiration
 interface CacheEntry {
   // biome-ignore lint/suspicious/noExplicitAny: Tool types are dynamic and vary by package
@@ -20,6 +54,37 @@ interface CacheEntry {
 // Cache for imported tool modules with TTL
 const moduleCache = new Map<string, CacheEntry>();
 
+// Exact versions that tags and ranges resolved to, cached for the same TTL as modules
+const versionCache = new Map<string, { version: string | undefined; expiresAt: number }>();
+
+/**
+ * Resolve the exact version a request imports and the module cache key for it
+ * The key includes the version so pinned and latest requests never share a module
+ */
+async function resolveModuleCacheKey(
+  packageName: string,
+  name: string,
+  version: string,
+  importUrl?: string
+): Promise<{ cacheKey: string; resolvedVersion: string | undefined }> {
+  const spec = importUrl || `${packageName}@${version}`;
+  let cached = versionCache.get(spec);
+  if (!cached || Date.now() > cached.expiresAt) {
+    cached = {
+      version: await resolvePackageVersion(packageName, version, importUrl),
+      expiresAt: Date.now() + CACHE_TTL_MS,
+    };
+    versionCache.set(spec, cached);
+  }
+
+  // Unresolved versions fall back to the requested spec
+  const resolvedVersion = cached.version;
+  return {
+    cacheKey: `${resolvedVersion ? `${packageName}@${resolvedVersion}` : spec}::${name}`,
+    resolvedVersion,
+  };
+}
+
 /**
  * Get module from cache if not expired
  */
@@ -39,8 +104,12 @@ function getCachedModule(cacheKey: string): CacheEntry | null {
 /**
  * Store module in cache with TTL
  */
-// biome-ignore lint/suspicious/noExplicitAny: Tool types are dynamic and vary by package
-function setCachedModule(cacheKey: string, module: any, isFactory: boolean): void {
+function setCachedModule(
+  cacheKey: string,
+  // biome-ignore lint/suspicious/noExplicitAny: Tool types are dynamic and vary by package
+  module: any,
+  isFactory: boolean
+): void {
   moduleCache.set(cacheKey, {
     module,
     expiresAt: Date.now() + CACHE_TTL_MS,
@@ -61,6 +130,9 @@ function cleanupExpiredCache(): void {
       cleaned++;
     }
   }
+  for (const [spec, entry] of versionCache.entries()) {
+    if (now > entry.expiresAt) versionCache.delete(spec);
+  }
   if (cleaned > 0) {
     console.log(`🗑️  Cleaned ${cleaned} expired cache entries`);
   }
@@ -80,7 +152,8 @@ async function reportToolHealth(
   packageName: string,
   name: string,
   success: boolean,
-  error?: string
+  error?: string,
+  errorCode?: ExecutorErrorCode
 ): Promise<void> {
   try {
     const response = await fetch(`${TPMJS_API_URL}/api/tools/report-health`, {
@@ -91,6 +164,7 @@ async function reportToolHealth(
         name,
         success,
         error,
+        errorCode,
       }),
     });
 
@@ -229,7 +303,12 @@ async function loadAndDescribe(req: Request): Promise<Response> {
       );
     }
 
-    const cacheKey = `${packageName}::${name}`;
+    const { cacheKey, resolvedVersion } = await resolveModuleCacheKey(
+      packageName,
+      name,
+      version,
+      importUrl
+    );
 
     // biome-ignore lint/suspicious/noImplicitAnyLet: Tool type is determined dynamically after import
     let toolModule;
@@ -241,7 +320,7 @@ async function loadAndDescribe(req: Request): Promise<Response> {
       toolModule = cachedEntry.module;
     } else {
       // Dynamic import from esm.sh (Deno supports this natively!)
-      const url = importUrl || `https://esm.sh/${packageName}@${version}`;
+      const url = importUrl || `https://esm.sh/${packageName}@${resolvedVersion ?? version}`;
       console.log(`📦 Importing: ${url}`);
 
       const module = await import(url);
@@ -505,12 +584,36 @@ async function loadAndDescribe(req: Request): Promise<Response> {
 
 /**
  * Execute a tool with parameters
+ * `sink` receives log/progress/partial events when the client asked for a stream
+ *
+ * Responses include the tool's console output (`logs`), `metrics` (peak memory, module
+ * cache hit), the `resolvedVersion` that ran and, on failure, an `errorCode`
  */
-async function executeTool(req: Request): Promise<Response> {
+async function executeTool(req: Request, sink?: EventSink): Promise<Response> {
   const startTime = Date.now();
   // Declare these before try block so they're available in catch for error reporting
   let packageName = 'unknown';
   let toolName = 'unknown';
+  // Which step failed decides the error code for unexpected errors
+  let stage: 'request' | 'import' | 'execute' = 'request';
+  let resolvedVersion: string | undefined;
+  let logs: ExecutorLogLine[] = [];
+  const metrics: ExecutionMetrics = { cacheHit: false };
+
+  const failure = (status: number, error: string, errorCode: ExecutorErrorCode) =>
+    Response.json(
+      {
+        success: false,
+        error,
+        errorCode,
+        executionTimeMs: Date.now() - startTime,
+        logs,
+        metrics,
+        resolvedVersion,
+      },
+      { status }
+    );
+
   try {
     const body = await req.json();
     const { packageName: pkg, name, version, importUrl, params, env } = body;
@@ -521,49 +624,17 @@ async function executeTool(req: Request): Promise<Response> {
       packageName,
       name: toolName,
       version,
-      envKeys: env ? Object.keys(env) : [],
-      envValues: env || {},
+      envKeys: env && typeof env === 'object' ? Object.keys(env) : [],
     });
 
     if (!packageName || !toolName || !version) {
-      return Response.json(
-        {
-          success: false,
-          error: 'Missing required fields: packageName, name, version',
-        },
-        { status: 400 }
-      );
+      return failure(400, 'Missing required fields: packageName, name, version', 'INVALID_INPUT');
     }
 
-    const cacheKey = `${packageName}::${toolName}`;
-
-    // Inject environment variables FIRST - before cache check and factory calls
-    // This ensures process.env is set when factory functions read from it
-    if (env && typeof env === 'object') {
-      const envKeys = Object.keys(env);
-      if (envKeys.length > 0) {
-        console.log(`🔐 Injecting ${envKeys.length} environment variables:`, envKeys);
-        for (const [key, value] of Object.entries(env)) {
-          const stringValue = String(value);
-
-          // Set in Deno environment (for esm.sh imports)
-          Deno.env.set(key, stringValue);
-
-          // ALSO set in Node.js process.env (for npm: imports)
-          // @ts-ignore - process is available in Node.js compatibility mode
-          if (typeof globalThis.process !== 'undefined' && globalThis.process.env) {
-            // @ts-ignore - process.env exists in Node compat mode
-            globalThis.process.env[key] = stringValue;
-          }
-
-          console.log(`  ✅ Set ${key} = ${stringValue.substring(0, 10)}...`);
-        }
-      } else {
-        console.log('⚠️  No env vars provided in request');
-      }
-    } else {
-      console.log('⚠️  No env object in request body');
-    }
+    stage = 'import';
+    const resolved = await resolveModuleCacheKey(packageName, toolName, version, importUrl);
+    const cacheKey = resolved.cacheKey;
+    resolvedVersion = resolved.resolvedVersion;
 
     // biome-ignore lint/suspicious/noImplicitAnyLet: Tool type is determined dynamically after import
     let toolModule;
@@ -576,26 +647,20 @@ async function executeTool(req: Request): Promise<Response> {
       console.log(`✅ Cache hit (non-factory): ${cacheKey}`);
       toolModule = cachedEntry.module;
       needsImport = false;
+      metrics.cacheHit = true;
     } else if (cachedEntry?.isFactory) {
       console.log(`🏭 Cache hit but factory - will re-import: ${cacheKey}`);
     }
 
     if (needsImport) {
-      const url = importUrl || `https://esm.sh/${packageName}@${version}`;
+      const url = importUrl || `https://esm.sh/${packageName}@${resolvedVersion ?? version}`;
       console.log(`📦 Importing for execution: ${url}`);
 
       const module = await import(url);
       let rawExport = module[toolName];
 
       if (!rawExport) {
-        return Response.json(
-          {
-            success: false,
-            error: 'Tool not found',
-            executionTimeMs: Date.now() - startTime,
-          },
-          { status: 404 }
-        );
+        return failure(404, 'Tool not found', 'IMPORT_FAILED');
       }
 
       // Track if this is a factory function - we won't cache factory-created tools
@@ -608,6 +673,7 @@ async function executeTool(req: Request): Promise<Response> {
         isFactoryFunction = true;
 
         let factoryResult = null;
+        let factoryError: unknown;
 
         // Strategy 1: Try calling with no arguments
         try {
@@ -618,6 +684,7 @@ async function executeTool(req: Request): Promise<Response> {
             rawExport = factoryResult;
           }
         } catch (error) {
+          factoryError = error;
           console.log('  ❌ No-args failed:', error.message);
         }
 
@@ -653,6 +720,7 @@ async function executeTool(req: Request): Promise<Response> {
                 break;
               }
             } catch (error) {
+              factoryError = error;
               console.log('  ❌ Config', Object.keys(config), 'failed:', error.message);
             }
           }
@@ -671,18 +739,20 @@ async function executeTool(req: Request): Promise<Response> {
               }
             }
           } catch (error) {
+            factoryError = error;
             console.log('  ❌ Single-arg failed:', error.message);
           }
         }
 
         if (!factoryResult) {
-          return Response.json(
-            {
-              success: false,
-              error: `Tool "${toolName}" is a factory function but couldn't be initialized`,
-              executionTimeMs: Date.now() - startTime,
-            },
-            { status: 400 }
+          // Factories usually fail because their API key isn't configured
+          const missingEnv =
+            factoryError !== undefined &&
+            classifyToolError(factoryError, getMissingEnvReads()) === 'ENV_MISSING';
+          return failure(
+            400,
+            `Tool "${toolName}" is a factory function but couldn't be initialized`,
+            missingEnv ? 'ENV_MISSING' : 'IMPORT_FAILED'
           );
         }
       }
@@ -690,22 +760,21 @@ async function executeTool(req: Request): Promise<Response> {
       toolModule = rawExport;
 
       if (!toolModule.execute) {
-        return Response.json(
-          {
-            success: false,
-            error: 'Tool missing execute function',
-            executionTimeMs: Date.now() - startTime,
-          },
-          { status: 400 }
-        );
+        return failure(400, 'Tool missing execute function', 'IMPORT_FAILED');
       }
 
       // Cache with TTL - mark factory functions so we know to re-import them
       setCachedModule(cacheKey, toolModule, isFactoryFunction);
     }
 
-    // Note: Environment variables are already injected at the start of this function
-    // before cache check and factory calls, so they're available when tools read process.env
+    // Reject params the tool's own Zod schema rejects before running it
+    const invalidInput = validateToolInput(toolModule.inputSchema, params || {});
+    if (invalidInput) {
+      return failure(400, invalidInput, 'INVALID_INPUT');
+    }
+
+    // Note: Request env vars are visible through Deno.env and process.env for the whole
+    // request (see withRequestEnv), including during import and factory calls
 
     // Execute the tool with AI SDK execution context
     // Some tools expect a second argument with { abortSignal, ... }
@@ -715,10 +784,39 @@ async function executeTool(req: Request): Promise<Response> {
       // Add other context properties that AI SDK tools might expect
       messages: [],
       toolCallId: `exec_${Date.now()}`,
+      // TPMJS extension: progress updates for streaming clients (no-op otherwise)
+      onProgress: (update: { progress?: number; message?: string } = {}) => {
+        sink?.({
+          type: 'progress',
+          progress:
+            typeof update.progress === 'number'
+              ? Math.min(1, Math.max(0, update.progress))
+              : undefined,
+          message: update.message,
+          timestamp: Date.now(),
+        });
+      },
     };
 
     console.log(`🚀 Executing ${cacheKey} with params:`, params);
-    const result = await toolModule.execute(params || {}, executionContext);
+    stage = 'execute';
+    // Only the tool's own console output is captured/streamed, not the executor's logging
+    const collector = collectLogs(sink);
+    logs = collector.logs;
+    const stopMemoryTracking = trackPeakMemory();
+    let result: unknown;
+    try {
+      result = await withExecutionTimeout(
+        () =>
+          runWithEventSink(collector.sink, () =>
+            resolveToolOutput(toolModule.execute(params || {}, executionContext), collector.sink)
+          ),
+        EXECUTION_TIMEOUT_MS,
+        abortController
+      );
+    } finally {
+      metrics.peakMemoryBytes = stopMemoryTracking();
+    }
 
     const executionTimeMs = Date.now() - startTime;
     console.log(`✅ Execution complete in ${executionTimeMs}ms`);
@@ -730,21 +828,27 @@ async function executeTool(req: Request): Promise<Response> {
       success: true,
       output: result,
       executionTimeMs,
+      logs,
+      metrics,
+      resolvedVersion,
     });
   } catch (error) {
-    const executionTimeMs = Date.now() - startTime;
     console.error('❌ Tool execution failed:', error);
 
+    const errorCode: ExecutorErrorCode =
+      stage === 'execute'
+        ? classifyToolError(error, getMissingEnvReads())
+        : stage === 'import'
+          ? 'IMPORT_FAILED'
+          : 'INVALID_INPUT';
+
     // Report failed execution to health service (non-blocking)
-    reportToolHealth(packageName, toolName, false, error.message).catch(() => {});
+    reportToolHealth(packageName, toolName, false, error.message, errorCode).catch(() => {});
 
-    return Response.json(
-      {
-        success: false,
-        error: error.message,
-        executionTimeMs,
-      },
-      { status: 500 }
+    return failure(
+      errorCode === 'TIMEOUT' ? 504 : stage === 'request' ? 400 : 500,
+      error.message,
+      errorCode
     );
   }
 }
@@ -852,7 +956,7 @@ function health(): Response {
   return Response.json({
     status: 'ok',
     timestamp: new Date().toISOString(),
-    cacheSize: moduleCache.size,
+    envWorkers: envWorkers.size(),
     denoVersion: Deno.version.deno,
     v8Version: Deno.version.v8,
     httpImports: true,
@@ -860,7 +964,7 @@ function health(): Response {
 }
 
 /**
- * Cache stats
+ * Cache stats for this worker's module cache
  */
 function cacheStats(): Response {
   const now = Date.now();
@@ -878,20 +982,88 @@ function cacheStats(): Response {
   });
 }
 
+/**
+ * Cache stats across all env workers
+ */
+async function allCacheStats(req: Request): Promise<Response> {
+  const responses = await envWorkers.broadcast(req);
+  const stats: Array<{ cacheSize: number; cachedTools: unknown[] }> = await Promise.all(
+    responses.map((response) => response.json())
+  );
+
+  return Response.json({
+    success: true,
+    envWorkers: stats.length,
+    cacheSize: stats.reduce((total, worker) => total + worker.cacheSize, 0),
+    ttlSeconds: CACHE_TTL_MS / 1000,
+    cachedTools: stats.flatMap((worker) => worker.cachedTools),
+  });
+}
+
 /**
  * Clear cache
+ * Stops the env workers, which drops their module caches along with Deno's own module graph
  */
 function clearCache(): Response {
-  const size = moduleCache.size;
-  moduleCache.clear();
-  console.log(`🗑️  Cleared cache (${size} entries)`);
+  const workers = envWorkers.clear();
+  console.log(`🗑️  Cleared cache (${workers} env workers)`);
 
   return Response.json({
     success: true,
-    message: `Cleared ${size} cached modules`,
+    message: `Cleared module caches of ${workers} env workers`,
   });
 }
 
+/**
+ * Read the request body's env vars (empty when the body has none)
+ */
+async function requestEnv(req: Request): Promise<Record<string, string>> {
+  // biome-ignore lint/suspicious/noExplicitAny: Request body is validated by the endpoint
+  const body: any = await req
+    .clone()
+    .json()
+    .catch(() => null);
+  return normalizeRequestEnv(body?.env);
+}
+
+/**
+ * Run an endpoint with the request body's env vars scoped to it
+ * Concurrent requests never see each other's env, and nothing is left behind afterwards
+ */
+async function withRequestEnv(
+  req: Request,
+  endpoint: (req: Request) => Promise<Response>
+): Promise<Response> {
+  return runWithEnv(await requestEnv(req), () => endpoint(req));
+}
+
+/**
+ * Tool endpoints, served inside the env worker for the request's env values
+ */
+async function handleToolRequest(req: Request): Promise<Response> {
+  const url = new URL(req.url);
+
+  if (url.pathname === '/load-and-describe') {
+    return withRequestEnv(req, loadAndDescribe);
+  }
+  if (url.pathname === '/list-exports') {
+    return withRequestEnv(req, listExports);
+  }
+  if (url.pathname === '/execute-tool') {
+    return withRequestEnv(req, (req) =>
+      wantsEventStream(req)
+        ? Promise.resolve(streamEvents((sink) => executeTool(req, sink)))
+        : executeTool(req)
+    );
+  }
+  if (url.pathname === '/cache/stats') {
+    return cacheStats();
+  }
+  return Response.json({ error: 'Not found' }, { status: 404 });
+}
+
+const TOOL_ENDPOINTS = new Set(['/load-and-describe', '/list-exports', '/execute-tool']);
+
 /**
  * Main request handler
  */
@@ -914,14 +1086,12 @@ async function handler(req: Request): Promise<Response> {
 
     if (url.pathname === '/health' && req.method === 'GET') {
       response = health();
-    } else if (url.pathname === '/load-and-describe' && req.method === 'POST') {
-      response = await loadAndDescribe(req);
-    } else if (url.pathname === '/list-exports' && req.method === 'POST') {
-      response = await listExports(req);
-    } else if (url.pathname === '/execute-tool' && req.method === 'POST') {
-      response = await executeTool(req);
+    } else if (TOOL_ENDPOINTS.has(url.pathname) && req.method === 'POST') {
+      // Modules are imported in the worker for this env, so values they read at load time
+      // never reach requests with other env values (see env-workers.ts)
+      response = await envWorkers.dispatch(req, await requestEnv(req));
     } else if (url.pathname === '/cache/stats' && req.method === 'GET') {
-      response = cacheStats();
+      response = await allCacheStats(req);
     } else if (url.pathname === '/cache/clear' && req.method === 'POST') {
       response = clearCache();
     } else {
@@ -946,17 +1116,26 @@ async function handler(req: Request): Promise<Response> {
   }
 }
 
-// Start server
-const port = Number.parseInt(Deno.env.get('PORT') || '3002');
-
-console.log(`🚀 Railway Tool Executor (Deno) running on port ${port}`);
-console.log('📦 HTTP imports: ENABLED');
-console.log(`🔗 Health check: http://localhost:${port}/health`);
-console.log('🛠️  Endpoints:');
-console.log('   POST /load-and-describe - Load tool and get schema');
-console.log('   POST /list-exports - List all exports and identify valid tools');
-console.log('   POST /execute-tool - Execute a tool with params');
-console.log('   POST /cache/clear - Clear module cache');
-console.log('   GET /cache/stats - Get cache statistics');
-
-Deno.serve({ port }, handler);
+// Env workers load this same module and only serve tool requests
+const envWorkers = createEnvWorkerPool(import.meta.url, CACHE_TTL_MS);
+
+if (isEnvWorker()) {
+  serveEnvWorker(handleToolRequest);
+} else {
+  // Start server
+  const port = Number.parseInt(Deno.env.get('PORT') || '3002');
+
+  console.log(`🚀 Railway Tool Executor (Deno) running on port ${port}`);
+  console.log('📦 HTTP imports: ENABLED');
+  console.log(`🔗 Health check: http://localhost:${port}/health`);
+  console.log('🛠️  Endpoints:');
+  console.log('   POST /load-and-describe - Load tool and get schema');
+  console.log('   POST /list-exports - List all exports and identify valid tools');
+  console.log(
+    '   POST /execute-tool - Execute a tool with params (NDJSON events with Accept: application/x-ndjson)'
+  );
+  console.log('   POST /cache/clear - Clear module cache');
+  console.log('   GET /cache/stats - Get cache statistics');
+
+  Deno.serve({ port }, handler);
+}
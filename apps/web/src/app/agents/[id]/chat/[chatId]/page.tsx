@@ -10,6 +10,12 @@ import { useCallback, useEffect, useRef, useState } from 'react';
 import { Virtuoso, type VirtuosoHandle } from 'react-virtuoso';
 import { AppHeader } from '~/components/AppHeader';
 import { LikeButton } from '~/components/LikeButton';
+import {
+  type PendingToolApproval,
+  ToolApprovalCard,
+  type ToolApprovalDecision,
+} from '~/components/ToolApprovalCard';
+import { ToolOutputArtifacts } from '~/components/ToolOutputArtifacts';
 
 interface AgentTool {
   id: string;
@@ -85,8 +91,15 @@ interface ToolCall {
   input?: unknown;
   output?: unknown;
   status: 'pending' | 'running' | 'success' | 'error';
+  /** Streamed by the executor while the tool runs */
+  progress?: { progress?: number; message?: string };
+  logs?: string[];
+  partial?: unknown;
 }
 
+/** Most recent executor log lines kept per running tool call */
+const MAX_TOOL_LOG_LINES = 50;
+
 /**
  * Tool call debug card component
  */
@@ -151,6 +164,9 @@ function ToolCallCard({
         />
       </button>
 
+      {/* Files and truncation notice (visible without expanding) */}
+      <ToolOutputArtifacts output={toolCall.output} />
+
       {/* Expanded Content */}
       {isExpanded && (
         <div className="border-t border-border">
@@ -184,11 +200,45 @@ function ToolCallCard({
             </div>
           ) : null}
 
+          {/* Streamed executor logs */}
+          {toolCall.logs && toolCall.logs.length > 0 && (
+            <div className="p-3 border-b border-border/50">
+              <div className="flex items-center gap-2 mb-2">
+                <span className="text-[10px] uppercase tracking-wider text-foreground-tertiary">
+                  Logs
+                </span>
+                <div className="flex-1 h-px bg-border/50" />
+              </div>
+              <pre className="text-[11px] text-foreground-secondary overflow-x-auto whitespace-pre-wrap break-all max-h-32 overflow-y-auto">
+                {toolCall.logs.join('\n')}
+              </pre>
+            </div>
+          )}
+
+          {/* Partial output streamed before the final result */}
+          {toolCall.status === 'running' && toolCall.partial !== undefined && !toolCall.output && (
+            <div className="p-3 border-b border-border/50">
+              <div className="flex items-center gap-2 mb-2">
+                <span className="text-[10px] uppercase tracking-wider text-foreground-tertiary">
+                  Partial Output
+                </span>
+                <div className="flex-1 h-px bg-border/50" />
+              </div>
+              <pre className="text-[11px] text-foreground-secondary overflow-x-auto whitespace-pre-wrap break-all max-h-48 overflow-y-auto">
+                {formatJson(toolCall.partial)}
+              </pre>
+            </div>
+          )}
+
           {/* Status indicator for running */}
           {toolCall.status === 'running' && !toolCall.output && (
             <div className="p-3 flex items-center gap-2 text-foreground-tertiary">
               <Icon icon="loader" size="xs" className="animate-spin" />
-              <span>Executing...</span>
+              <span>
+                {toolCall.progress?.message ?? 'Executing...'}
+                {toolCall.progress?.progress !== undefined &&
+                  ` (${Math.round(toolCall.progress.progress * 100)}%)`}
+              </span>
             </div>
           )}
         </div>
@@ -228,6 +278,7 @@ export default function PublicAgentChatPage(): React.ReactElement {
   const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [sidebarOpen, setSidebarOpen] = useState(true);
   const [viewMode, setViewMode] = useState<'chat' | 'debug'>('chat');
+  const [pendingApprovals, setPendingApprovals] = useState<PendingToolApproval[]>([]);
 
   // Track first item index for prepending (Virtuoso pattern)
   const [firstItemIndex, setFirstItemIndex] = useState(10000);
@@ -283,6 +334,7 @@ export default function PublicAgentChatPage(): React.ReactElement {
         const msgs = data.data.messages || [];
         setMessages(msgs);
         setHasMoreMessages(data.pagination?.hasMore ?? false);
+        setPendingApprovals(data.data.pendingApprovals ?? []);
         // Reset first item index when loading fresh
         setFirstItemIndex(10000);
       }
@@ -342,7 +394,121 @@ export default function PublicAgentChatPage(): React.ReactElement {
     }
   }, [agent, fetchMessages]);
 
-  // biome-ignore lint/complexity/noExcessiveCognitiveComplexity: Chat send handler with streaming and tool calls
+  // Stream a turn: a new message, or resuming once every held tool call is decided
+  // biome-ignore lint/complexity/noExcessiveCognitiveComplexity: Chat stream handler with streaming and tool calls
+  const streamTurn = async (agentUid: string, body: { message: string } | { resume: true }) => {
+    const response = await fetch(`/api/agents/${agentUid}/conversation/${conversationId}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to send message');
+    }
+
+    // Handle SSE stream
+    const reader = response.body?.getReader();
+    if (!reader) throw new Error('No response body');
+
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      // Parse SSE events
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || ''; // Keep incomplete line in buffer
+
+      let eventType = '';
+      for (const line of lines) {
+        if (line.startsWith('event: ')) {
+          eventType = line.slice(7);
+        } else if (line.startsWith('data: ')) {
+          const data = JSON.parse(line.slice(6));
+
+          switch (eventType) {
+            case 'chunk':
+              setStreamingContent((prev) => prev + data.text);
+              break;
+            case 'tool_call':
+              // Add tool call to tracking
+              setToolCalls((prev) => [
+                ...prev,
+                {
+                  toolCallId: data.toolCallId,
+                  toolName: data.toolName,
+                  input: data.input,
+                  status: 'running',
+                },
+              ]);
+              // Auto-expand new tool calls
+              setExpandedToolCalls((prev) => new Set([...prev, data.toolCallId]));
+              break;
+            case 'tool_event':
+              // Executor log/progress/partial events while the tool runs
+              setToolCalls((prev) =>
+                prev.map((tc) => {
+                  if (tc.toolCallId !== data.toolCallId) return tc;
+                  const event = data.event;
+                  if (event.type === 'log') {
+                    const logs = [...(tc.logs ?? []), `[${event.level}] ${event.message}`];
+                    return { ...tc, logs: logs.slice(-MAX_TOOL_LOG_LINES) };
+                  }
+                  if (event.type === 'progress') {
+                    return {
+                      ...tc,
+                      progress: { progress: event.progress, message: event.message },
+                    };
+                  }
+                  if (event.type === 'partial') {
+                    return { ...tc, partial: event.output };
+                  }
+                  return tc;
+                })
+              );
+              break;
+            case 'tool_result':
+              // Update tool call with result
+              setToolCalls((prev) =>
+                prev.map((tc) =>
+                  tc.toolCallId === data.toolCallId
+                    ? { ...tc, output: data.output, status: 'success' as const }
+                    : tc
+                )
+              );
+              break;
+            case 'approval_required':
+              // The turn stops here until the call is approved or denied
+              setPendingApprovals((prev) => [
+                ...prev,
+                {
+                  id: data.approvalId,
+                  toolCallId: data.toolCallId,
+                  toolName: data.toolName,
+                  args: data.input,
+                },
+              ]);
+              break;
+            case 'complete':
+              // Refresh messages
+              await fetchMessages();
+              setStreamingContent('');
+              setToolCalls([]);
+              break;
+            case 'error':
+              throw new Error(data.message);
+          }
+        }
+      }
+    }
+  };
+
   const handleSend = async () => {
     if (!input.trim() || !agent || isSending) return;
 
@@ -352,6 +518,8 @@ export default function PublicAgentChatPage(): React.ReactElement {
     setStreamingContent('');
     setError(null);
     setToolCalls([]);
+    // Sending a new message denies the calls still waiting for approval
+    setPendingApprovals([]);
 
     // Optimistically add user message
     const userMessage: Message = {
@@ -363,81 +531,7 @@ export default function PublicAgentChatPage(): React.ReactElement {
     setMessages((prev) => [...prev, userMessage]);
 
     try {
-      const response = await fetch(`/api/agents/${agent.uid}/conversation/${conversationId}`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ message: messageContent }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to send message');
-      }
-
-      // Handle SSE stream
-      const reader = response.body?.getReader();
-      if (!reader) throw new Error('No response body');
-
-      const decoder = new TextDecoder();
-      let buffer = '';
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-
-        // Parse SSE events
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || ''; // Keep incomplete line in buffer
-
-        let eventType = '';
-        for (const line of lines) {
-          if (line.startsWith('event: ')) {
-            eventType = line.slice(7);
-          } else if (line.startsWith('data: ')) {
-            const data = JSON.parse(line.slice(6));
-
-            switch (eventType) {
-              case 'chunk':
-                setStreamingContent((prev) => prev + data.text);
-                break;
-              case 'tool_call':
-                // Add tool call to tracking
-                setToolCalls((prev) => [
-                  ...prev,
-                  {
-                    toolCallId: data.toolCallId,
-                    toolName: data.toolName,
-                    input: data.input,
-                    status: 'running',
-                  },
-                ]);
-                // Auto-expand new tool calls
-                setExpandedToolCalls((prev) => new Set([...prev, data.toolCallId]));
-                break;
-              case 'tool_result':
-                // Update tool call with result
-                setToolCalls((prev) =>
-                  prev.map((tc) =>
-                    tc.toolCallId === data.toolCallId
-                      ? { ...tc, output: data.output, status: 'success' as const }
-                      : tc
-                  )
-                );
-                break;
-              case 'complete':
-                // Refresh messages
-                await fetchMessages();
-                setStreamingContent('');
-                setToolCalls([]);
-                break;
-              case 'error':
-                throw new Error(data.message);
-            }
-          }
-        }
-      }
+      await streamTurn(agent.uid, { message: messageContent });
     } catch (err) {
       console.error('Failed to send message:', err);
       setError(err instanceof Error ? err.message : 'Failed to send message');
@@ -450,6 +544,50 @@ export default function PublicAgentChatPage(): React.ReactElement {
     }
   };
 
+  // Continue the turn once no tool call is waiting for approval
+  const resumeTurn = async (agentUid: string) => {
+    setIsSending(true);
+    setStreamingContent('');
+    setError(null);
+    setToolCalls([]);
+    try {
+      await streamTurn(agentUid, { resume: true });
+    } catch (err) {
+      console.error('Failed to resume turn:', err);
+      setError(err instanceof Error ? err.message : 'Failed to resume');
+    } finally {
+      setIsSending(false);
+      setStreamingContent('');
+    }
+  };
+
+  const handleDecide = async (approval: PendingToolApproval, decision: ToolApprovalDecision) => {
+    if (!agent) return;
+
+    const response = await fetch(
+      `/api/agents/${agent.uid}/conversation/${conversationId}/approvals/${approval.id}`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(decision),
+      }
+    );
+    const data = await response.json();
+    if (!data.success) {
+      // Rejected edited arguments come with the schema errors
+      setError(
+        data.details ? `${data.error}: ${data.details}` : data.error || 'Failed to decide tool call'
+      );
+      return;
+    }
+
+    setPendingApprovals((prev) => prev.filter((a) => a.id !== approval.id));
+    await fetchMessages();
+    if (data.data.pendingApprovals === 0) {
+      await resumeTurn(agent.uid);
+    }
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -802,6 +940,19 @@ export default function PublicAgentChatPage(): React.ReactElement {
                             </div>
                           )}
 
+                          {/* Tool calls waiting for approval (the turn resumes once all are decided) */}
+                          {!isSending &&
+                            pendingApprovals.map((approval) => (
+                              <div key={approval.id} className="flex justify-start">
+                                <div className="max-w-[80%] w-full">
+                                  <ToolApprovalCard
+                                    approval={approval}
+                                    onDecide={(decision) => handleDecide(approval, decision)}
+                                  />
+                                </div>
+                              </div>
+                            ))}
+
                           {isSending && !streamingContent && toolCalls.length === 0 && (
                             <div className="flex justify-start">
                               <div className="rounded-lg p-4 bg-surface-secondary">
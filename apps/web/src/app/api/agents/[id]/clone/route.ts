@@ -1,9 +1,9 @@
 import { prisma } from '@tpmjs/db';
 import { AGENT_LIMITS, CloneAgentSchema } from '@tpmjs/types/agent';
-import { headers } from 'next/headers';
 import type { NextRequest } from 'next/server';
 
 import { logActivity } from '~/lib/activity';
+import { getRequestSession } from '~/lib/api-auth';
 import {
   apiForbidden,
   apiInternalError,
@@ -12,7 +12,6 @@ import {
   apiUnauthorized,
   apiValidationError,
 } from '~/lib/api-response';
-import { auth } from '~/lib/auth';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -74,7 +73,7 @@ export async function POST(request: NextRequest, context: RouteContext) {
   const requestId = crypto.randomUUID();
 
   try {
-    const session = await auth.api.getSession({ headers: await headers() });
+    const session = await getRequestSession('agents:write');
     if (!session?.user?.id) {
       return apiUnauthorized('Authentication required', requestId);
     }
@@ -86,7 +85,7 @@ export async function POST(request: NextRequest, context: RouteContext) {
       where: { id },
       include: {
         tools: {
-          select: { toolId: true, position: true },
+          select: { toolId: true, position: true, version: true },
         },
         collections: {
           select: { collectionId: true, position: true },
@@ -166,6 +165,9 @@ export async function POST(request: NextRequest, context: RouteContext) {
           temperature: sourceAgent.temperature,
           maxToolCallsPerTurn: sourceAgent.maxToolCallsPerTurn,
           maxMessagesInContext: sourceAgent.maxMessagesInContext,
+          maxToolOutputChars: sourceAgent.maxToolOutputChars,
+          memoryMode: sourceAgent.memoryMode,
+          longTermMemory: sourceAgent.longTermMemory, // Memories themselves stay with the source agent
           isPublic: false, // Cloned agents start as private
           likeCount: 1, // Start with 1 like (from owner)
         },
@@ -186,6 +188,7 @@ export async function POST(request: NextRequest, context: RouteContext) {
             agentId: newAgent.id,
             toolId: at.toolId,
             position: at.position,
+            version: at.version,
           })),
         });
       }
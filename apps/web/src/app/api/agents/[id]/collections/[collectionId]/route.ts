@@ -1,9 +1,8 @@
 import { prisma } from '@tpmjs/db';
-import { headers } from 'next/headers';
 import { type NextRequest, NextResponse } from 'next/server';
 
 import { logActivity } from '~/lib/activity';
-import { auth } from '~/lib/auth';
+import { getRequestSession } from '~/lib/api-auth';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -18,7 +17,7 @@ type RouteContext = {
  */
 export async function DELETE(_request: NextRequest, context: RouteContext): Promise<NextResponse> {
   try {
-    const session = await auth.api.getSession({ headers: await headers() });
+    const session = await getRequestSession('agents:write');
     if (!session?.user?.id) {
       return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
     }
@@ -1,10 +1,9 @@
 import { prisma } from '@tpmjs/db';
 import { AGENT_LIMITS, AddCollectionToAgentSchema } from '@tpmjs/types/agent';
-import { headers } from 'next/headers';
 import { type NextRequest, NextResponse } from 'next/server';
 
 import { logActivity } from '~/lib/activity';
-import { auth } from '~/lib/auth';
+import { getRequestSession } from '~/lib/api-auth';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -19,7 +18,7 @@ type RouteContext = {
  */
 export async function GET(_request: NextRequest, context: RouteContext): Promise<NextResponse> {
   try {
-    const session = await auth.api.getSession({ headers: await headers() });
+    const session = await getRequestSession('agents:read');
     const { id } = await context.params;
 
     const agent = await prisma.agent.findUnique({
@@ -81,7 +80,7 @@ export async function GET(_request: NextRequest, context: RouteContext): Promise
  */
 export async function POST(request: NextRequest, context: RouteContext): Promise<NextResponse> {
   try {
-    const session = await auth.api.getSession({ headers: await headers() });
+    const session = await getRequestSession('agents:write');
     if (!session?.user?.id) {
       return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
     }
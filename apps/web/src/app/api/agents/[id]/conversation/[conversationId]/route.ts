@@ -1,8 +1,9 @@
 /**
  * Agent Conversation Endpoint (ID-based version)
  *
- * POST: Send a message and stream the AI response
- * GET: Retrieve conversation history
+ * POST: Send a message (or resume after tool approvals) and stream the AI response
+ * GET: Retrieve conversation history (with the rolling summary and pending tool approvals)
+ * PATCH: Edit the rolling summary
  * DELETE: Delete a conversation
  *
  * This endpoint uses agent id directly for dashboard usage
@@ -10,10 +11,12 @@
 
 import { Prisma, prisma } from '@tpmjs/db';
 import type { AIProvider } from '@tpmjs/types/agent';
-import { SendMessageSchema } from '@tpmjs/types/agent';
+import { SendMessageSchema, UpdateConversationSummarySchema } from '@tpmjs/types/agent';
+import type { ExecuteToolStreamEvent, ExecutorRouting } from '@tpmjs/types/executor';
 import type { LanguageModel, ModelMessage } from 'ai';
 import { type NextRequest, NextResponse } from 'next/server';
 import { decryptApiKey } from '@/lib/crypto/api-keys';
+import { getRequestSession } from '~/lib/api-auth';
 import { checkRateLimit, type RateLimitConfig } from '~/lib/rate-limit';
 
 /**
@@ -70,6 +73,9 @@ async function getProviderModel(
 /**
  * POST /api/agents/[id]/conversation/[conversationId]
  * Send a message and stream the AI response via SSE
+ *
+ * Calls to tools that require approval stop the turn with an `approval_required` event per
+ * call; once each is decided (…/approvals/[approvalId]), `{ resume: true }` continues the turn
  */
 export async function POST(request: NextRequest, context: RouteContext): Promise<Response> {
   // Check rate limit first to prevent expensive LLM calls
@@ -91,7 +97,9 @@ export async function POST(request: NextRequest, context: RouteContext): Promise
     }
 
     // Fetch agent with all tool relations using agent ID
-    const { fetchAgentWithTools, buildAgentTools } = await import('@/lib/agents/build-tools');
+    const { fetchAgentWithTools, buildAgentTools, estimateAgentToolTokens } = await import(
+      '@/lib/agents/build-tools'
+    );
     const agent = await fetchAgentWithTools(agentId);
 
     if (!agent) {
@@ -148,34 +156,75 @@ export async function POST(request: NextRequest, context: RouteContext): Promise
       },
     });
 
+    const userMessage = parsed.data.message;
+
     if (!conversation) {
+      if (!userMessage) {
+        return NextResponse.json(
+          { success: false, error: 'Conversation not found' },
+          { status: 404 }
+        );
+      }
       conversation = await prisma.conversation.create({
         data: {
           agentId: agent.id,
           slug: conversationId,
-          title: parsed.data.message.slice(0, 100),
+          title: userMessage.slice(0, 100),
         },
       });
     }
 
-    // Fetch recent messages for context
-    const recentMessages = await prisma.message.findMany({
-      where: { conversationId: conversation.id },
-      orderBy: { createdAt: 'desc' },
-      take: agent.maxMessagesInContext,
-    });
+    // Tool calls held for approval: resuming needs them all decided, a new message denies them.
+    // The turn answers the new message (a resumed turn continues the last one)
+    const { prepareTurn, recordApprovalRequests, stepToolResults, toolResultOutput } = await import(
+      '@/lib/agents/tool-approvals'
+    );
+    const turnMessage = await prepareTurn(conversation.id, userMessage);
+    if (turnMessage === null) {
+      return NextResponse.json(
+        { success: false, error: 'Tool calls are waiting for approval or still running' },
+        { status: 409 }
+      );
+    }
 
-    // Reverse to get chronological order
-    recentMessages.reverse();
+    // Get the provider model
+    const model = await getProviderModel(agent.provider, agent.modelId, apiKey);
 
-    // Save user message
-    await prisma.message.create({
-      data: {
-        conversationId: conversation.id,
-        role: 'USER',
-        content: parsed.data.message,
-      },
+    // System prompt for this turn, with the relevant long-term memories if the agent has them.
+    // Memories span all of the agent's conversations, so only the owner's own chats use them
+    const { buildMemoryTools, buildSystemPrompt, canUseLongTermMemory } = await import(
+      '@/lib/agents/long-term-memory'
+    );
+    const session = await getRequestSession('agents:write');
+    const useMemory = canUseLongTermMemory(agent, session?.user.id);
+    const systemPrompt = await buildSystemPrompt(agent, turnMessage, useMemory);
+
+    // History for context: the recent window, or (rolling summary memory) the summary plus
+    // unsummarized messages, summarizing older turns first if they no longer fit. Either way it
+    // is fitted to what the model's context window leaves after tools, prompt and response
+    const { computeContextBudget, loadConversationHistory, summaryMessage } = await import(
+      '@/lib/agents/conversation-memory'
+    );
+    const budget = computeContextBudget({
+      provider: agent.provider,
+      modelId: agent.modelId,
+      toolTokens: estimateAgentToolTokens(agent),
+      systemPrompt,
+      message: userMessage ?? '',
     });
+    const history = await loadConversationHistory(agent, conversation, model, budget);
+    const recentMessages = history.messages;
+
+    // Save user message
+    if (userMessage) {
+      await prisma.message.create({
+        data: {
+          conversationId: conversation.id,
+          role: 'USER',
+          content: userMessage,
+        },
+      });
+    }
 
     // Build AI SDK messages from conversation history
     const { streamText, stepCountIs } = await import('ai');
@@ -183,13 +232,18 @@ export async function POST(request: NextRequest, context: RouteContext): Promise
     const messages: ModelMessage[] = [];
 
     // Add system prompt if defined
-    if (agent.systemPrompt) {
+    if (systemPrompt) {
       messages.push({
         role: 'system',
-        content: agent.systemPrompt,
+        content: systemPrompt,
       });
     }
 
+    // Summary of the turns no longer in the history
+    if (history.summary) {
+      messages.push(summaryMessage(history.summary));
+    }
+
     // Add conversation history - properly format for AI SDK
     for (const msg of recentMessages) {
       if (msg.role === 'USER') {
@@ -233,10 +287,7 @@ export async function POST(request: NextRequest, context: RouteContext): Promise
               type: 'tool-result' as const,
               toolCallId: msg.toolCallId || '',
               toolName: msg.toolName || '',
-              output: {
-                type: 'json' as const,
-                value: msg.toolResult,
-              },
+              output: toolResultOutput(msg.toolResult),
             },
           ],
         });
@@ -244,24 +295,60 @@ export async function POST(request: NextRequest, context: RouteContext): Promise
     }
 
     // Add new user message
-    messages.push({ role: 'user', content: parsed.data.message });
+    if (userMessage) {
+      messages.push({ role: 'user', content: userMessage });
+    }
 
     // Build tools from agent configuration
-    const tools = buildAgentTools(agent);
-
-    // Get the provider model
-    const model = await getProviderModel(agent.provider, agent.modelId, apiKey);
+    // Executor that served each tool call (persisted with the tool result)
+    const executorRoutings = new Map<string, ExecutorRouting>();
+    // Streamed executor events go out on the SSE stream once it is open
+    let sendExecutorEvent:
+      | ((toolCallId: string, event: ExecuteToolStreamEvent) => void)
+      | undefined;
+    // Files and oversized results are stored as artifacts owned by this conversation
+    const { createArtifactSaver } = await import('@/lib/artifacts/store');
+    const agentTools = buildAgentTools(agent, {
+      saveArtifact: createArtifactSaver({ conversationId: conversation.id }),
+      onExecutorEvent: (toolCallId, event) => sendExecutorEvent?.(toolCallId, event),
+      onRouting: (toolCallId, routing) => {
+        executorRoutings.set(toolCallId, routing);
+        if (routing.failedOver || routing.attempts.length > 1) {
+          console.warn('[Agent] Executor failover:', {
+            toolCallId,
+            servedBy: routing.servedBy,
+            attempts: routing.attempts.map(
+              (a) => `${a.executor}#${a.attempt}: ${a.errorClass ?? 'ok'}`
+            ),
+          });
+        }
+      },
+    });
+    // Built-in memory tools (they take their names over registry tools)
+    const tools = useMemory
+      ? { ...agentTools, ...buildMemoryTools(agent.id, conversation.id) }
+      : agentTools;
 
     // Create SSE stream
+    // Once the client disconnects, events are dropped while the turn finishes and is saved
+    let closed = false;
     const stream = new ReadableStream({
       async start(controller) {
         const encoder = new TextEncoder();
 
         const sendEvent = (event: string, data: unknown) => {
+          if (closed) return;
           const message = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
           controller.enqueue(encoder.encode(message));
         };
 
+        // Executor log/progress/partial events while a tool runs (the result arrives as tool_result)
+        sendExecutorEvent = (toolCallId, event) => {
+          if (event.type !== 'result') {
+            sendEvent('tool_event', { toolCallId, event });
+          }
+        };
+
         try {
           const startTime = Date.now();
           let fullContent = '';
@@ -308,7 +395,7 @@ export async function POST(request: NextRequest, context: RouteContext): Promise
                 });
               }
             },
-            onStepFinish: async ({ toolCalls, toolResults, usage }) => {
+            onStepFinish: async ({ toolCalls, content, usage }) => {
               // Capture tool calls from step finish (backup in case onChunk missed any)
               if (toolCalls && Array.isArray(toolCalls)) {
                 for (const tc of toolCalls) {
@@ -326,40 +413,36 @@ export async function POST(request: NextRequest, context: RouteContext): Promise
               }
 
               // Send tool results via SSE but don't save yet (save after assistant message for correct order)
-              if (toolResults && toolResults.length > 0) {
-                for (const tr of toolResults) {
-                  // Check if this is an error result (AI SDK wraps errors in the output)
-                  const isError =
-                    tr.output && typeof tr.output === 'object' && 'error' in tr.output;
-
-                  // Log tool results for debugging
-                  if (isError) {
-                    console.error('[Agent] Tool execution failed:', {
-                      toolName: tr.toolName,
-                      toolCallId: tr.toolCallId,
-                      error: tr.output,
-                    });
-                  } else {
-                    console.log('[Agent] Tool execution success:', {
-                      toolName: tr.toolName,
-                      toolCallId: tr.toolCallId,
-                      outputPreview: JSON.stringify(tr.output).slice(0, 200),
-                    });
-                  }
-
-                  sendEvent('tool_result', {
+              // Calls whose tool threw are included, as `{ error }` results
+              for (const tr of stepToolResults(content)) {
+                // Log tool results for debugging
+                if (tr.isError) {
+                  console.error('[Agent] Tool execution failed:', {
+                    toolName: tr.toolName,
                     toolCallId: tr.toolCallId,
-                    output: tr.output,
-                    isError,
+                    error: tr.output,
                   });
-
-                  // Collect tool results to save after assistant message
-                  pendingToolResults.push({
-                    toolCallId: tr.toolCallId,
+                } else {
+                  console.log('[Agent] Tool execution success:', {
                     toolName: tr.toolName,
-                    output: tr.output,
+                    toolCallId: tr.toolCallId,
+                    outputPreview: JSON.stringify(tr.output).slice(0, 200),
                   });
                 }
+
+                sendEvent('tool_result', {
+                  toolCallId: tr.toolCallId,
+                  output: tr.output,
+                  isError: tr.isError,
+                  executor: executorRoutings.get(tr.toolCallId),
+                });
+
+                // Collect tool results to save after assistant message
+                pendingToolResults.push({
+                  toolCallId: tr.toolCallId,
+                  toolName: tr.toolName,
+                  output: tr.output,
+                });
               }
 
               // Track token usage
@@ -414,10 +497,27 @@ export async function POST(request: NextRequest, context: RouteContext): Promise
                 toolCallId: tr.toolCallId,
                 toolName: tr.toolName,
                 toolResult: tr.output as object,
+                executor: executorRoutings.has(tr.toolCallId)
+                  ? (executorRoutings.get(tr.toolCallId) as unknown as Prisma.InputJsonValue)
+                  : Prisma.JsonNull,
               },
             });
           }
 
+          // Calls the turn stopped at, waiting for the user's decision
+          const approvalRequests = (await result.steps)
+            .flatMap((step) => step.content)
+            .filter((part) => part.type === 'tool-approval-request');
+          const approvals = await recordApprovalRequests(conversation.id, approvalRequests);
+          for (const approval of approvals) {
+            sendEvent('approval_required', {
+              approvalId: approval.id,
+              toolCallId: approval.toolCallId,
+              toolName: approval.toolName,
+              input: approval.args,
+            });
+          }
+
           // Update conversation timestamp
           await prisma.conversation.update({
             where: { id: conversation.id },
@@ -438,6 +538,7 @@ export async function POST(request: NextRequest, context: RouteContext): Promise
             messageId: assistantMessage.id,
             conversationId: conversation.id,
             executionTimeMs,
+            pendingApprovals: approvals.length,
           });
         } catch (error) {
           // Log detailed error for debugging
@@ -451,9 +552,15 @@ export async function POST(request: NextRequest, context: RouteContext): Promise
             message: error instanceof Error ? error.message : 'Unknown error',
           });
         } finally {
-          controller.close();
+          if (!closed) {
+            closed = true;
+            controller.close();
+          }
         }
       },
+      cancel() {
+        closed = true;
+      },
     });
 
     return new NextResponse(stream, {
@@ -560,6 +667,8 @@ export async function GET(request: NextRequest, context: RouteContext): Promise<
           id: conversation.id,
           slug: conversation.slug,
           title: conversation.title,
+          summary: conversation.summary,
+          summarizedUntil: conversation.summarizedUntil,
           createdAt: conversation.createdAt,
           updatedAt: conversation.updatedAt,
           messageCount: allMessages.length,
@@ -627,6 +736,13 @@ export async function GET(request: NextRequest, context: RouteContext): Promise<
       paginatedMessages = paginatedMessages.reverse();
     }
 
+    // Tool calls waiting for the user's decision
+    const pendingApprovals = await prisma.toolApproval.findMany({
+      where: { conversationId: conversation.id, status: 'PENDING' },
+      orderBy: { createdAt: 'asc' },
+      select: { id: true, toolCallId: true, toolName: true, args: true, createdAt: true },
+    });
+
     const mappedMessages = paginatedMessages.map((m) => ({
       id: m.id,
       role: m.role,
@@ -646,9 +762,13 @@ export async function GET(request: NextRequest, context: RouteContext): Promise<
         id: conversation.id,
         slug: conversation.slug,
         title: conversation.title,
+        summary: conversation.summary,
+        summarizedUntil: conversation.summarizedUntil,
+        summaryUpdatedAt: conversation.summaryUpdatedAt,
         createdAt: conversation.createdAt,
         updatedAt: conversation.updatedAt,
         messages: mappedMessages,
+        pendingApprovals,
       },
       pagination: {
         limit,
@@ -666,6 +786,84 @@ export async function GET(request: NextRequest, context: RouteContext): Promise<
   }
 }
 
+/**
+ * PATCH /api/agents/[id]/conversation/[conversationId]
+ * Edit the conversation's rolling summary (null clears it and brings back the full history).
+ * Agent owner only: the summary is sent to the model on every later turn.
+ */
+export async function PATCH(request: NextRequest, context: RouteContext): Promise<NextResponse> {
+  const { id: agentId, conversationId } = await context.params;
+
+  try {
+    const session = await getRequestSession('agents:write');
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const parsed = UpdateConversationSummarySchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    // Fetch agent by ID
+    const agent = await prisma.agent.findUnique({
+      where: { id: agentId },
+      select: { id: true, userId: true },
+    });
+
+    if (!agent) {
+      return NextResponse.json({ success: false, error: 'Agent not found' }, { status: 404 });
+    }
+    if (agent.userId !== session.user.id) {
+      return NextResponse.json({ success: false, error: 'Access denied' }, { status: 403 });
+    }
+
+    const conversation = await prisma.conversation.findUnique({
+      where: {
+        agentId_slug: {
+          agentId: agent.id,
+          slug: conversationId,
+        },
+      },
+      select: { id: true },
+    });
+
+    if (!conversation) {
+      return NextResponse.json(
+        { success: false, error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    const { summary } = parsed.data;
+    const updated = await prisma.conversation.update({
+      where: { id: conversation.id },
+      data: {
+        summary,
+        summaryUpdatedAt: new Date(),
+        // Without a summary, nothing counts as summarized
+        ...(summary === null && { summarizedUntil: null }),
+      },
+      select: { summary: true, summarizedUntil: true, summaryUpdatedAt: true },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: updated,
+    });
+  } catch (error) {
+    console.error('Failed to update conversation summary:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update conversation summary' },
+      { status: 500 }
+    );
+  }
+}
+
 /**
  * DELETE /api/agents/[id]/conversation/[conversationId]
  * Delete a conversation
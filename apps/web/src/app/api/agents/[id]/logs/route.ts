@@ -5,6 +5,7 @@
  */
 
 import { prisma } from '@tpmjs/db';
+import type { ExecutorRouting } from '@tpmjs/types/executor';
 import { type NextRequest, NextResponse } from 'next/server';
 
 export const runtime = 'nodejs';
@@ -18,7 +19,7 @@ type RouteContext = {
 interface LogEntry {
   id: string;
   timestamp: string;
-  type: 'message' | 'tool_call' | 'tool_result' | 'conversation_start';
+  type: 'message' | 'tool_call' | 'tool_result' | 'executor_failover' | 'conversation_start';
   conversationId: string;
   conversationSlug: string;
   role?: string;
@@ -27,6 +28,14 @@ interface LogEntry {
   toolCallId?: string;
   inputTokens?: number;
   outputTokens?: number;
+  executor?: ExecutorRouting;
+}
+
+/**
+ * Whether a tool call needed retries or a fallback executor
+ */
+function hadFailover(routing: ExecutorRouting | undefined): routing is ExecutorRouting {
+  return Boolean(routing && (routing.failedOver || routing.attempts.length > 1));
 }
 
 /**
@@ -41,7 +50,7 @@ export async function GET(request: NextRequest, context: RouteContext): Promise<
   const limit = Math.min(Number.parseInt(searchParams.get('limit') || '100', 10), 500);
   const offset = Number.parseInt(searchParams.get('offset') || '0', 10);
   const conversationSlug = searchParams.get('conversation') || undefined;
-  const type = searchParams.get('type') || undefined; // 'message' | 'tool_call' | 'all'
+  const type = searchParams.get('type') || undefined; // 'message' | 'tool_call' | 'executor_failover' | 'all'
 
   try {
     // Fetch agent by id or uid
@@ -58,7 +67,7 @@ export async function GET(request: NextRequest, context: RouteContext): Promise<
 
     // Build role filter based on type
     const roleFilter =
-      type === 'tool_call'
+      type === 'tool_call' || type === 'executor_failover'
         ? { in: ['TOOL' as const] }
         : type === 'message'
           ? { in: ['USER' as const, 'ASSISTANT' as const] }
@@ -106,6 +115,7 @@ export async function GET(request: NextRequest, context: RouteContext): Promise<
           toolName: msg.toolName || undefined,
           toolCallId: msg.toolCallId || undefined,
           content: msg.content.slice(0, 500), // Truncate for logs view
+          executor: (msg.executor as ExecutorRouting | null) ?? undefined,
         };
       }
 
@@ -144,8 +154,32 @@ export async function GET(request: NextRequest, context: RouteContext): Promise<
       }
     }
 
+    // Failover events for tool calls that needed retries or a fallback executor
+    const failoverLogs: LogEntry[] = [];
+    for (const msg of data) {
+      const routing = msg.executor as ExecutorRouting | null;
+      if (msg.role !== 'TOOL' || !hadFailover(routing ?? undefined) || !routing) continue;
+
+      const failures = routing.attempts.filter((attempt) => !attempt.success);
+      failoverLogs.push({
+        id: `${msg.id}-failover`,
+        timestamp: msg.createdAt.toISOString(),
+        type: 'executor_failover',
+        conversationId: msg.conversation.id,
+        conversationSlug: msg.conversation.slug,
+        toolName: msg.toolName || undefined,
+        toolCallId: msg.toolCallId || undefined,
+        content: `Served by ${routing.servedBy} after ${failures.length} failed attempt(s): ${failures
+          .map((attempt) => `${attempt.executor} (${attempt.errorClass ?? 'error'})`)
+          .join(', ')}`,
+        executor: routing,
+      });
+    }
+
     // Merge and sort all logs
-    const allLogs = [...logs, ...toolCallLogs].sort(
+    const filteredLogs =
+      type === 'executor_failover' ? failoverLogs : [...logs, ...toolCallLogs, ...failoverLogs];
+    const allLogs = filteredLogs.sort(
       (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
     );
 
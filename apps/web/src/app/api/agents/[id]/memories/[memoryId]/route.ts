@@ -0,0 +1,50 @@
+import { prisma } from '@tpmjs/db';
+import { type NextRequest, NextResponse } from 'next/server';
+
+import { getRequestSession } from '~/lib/api-auth';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type RouteContext = {
+  params: Promise<{ id: string; memoryId: string }>;
+};
+
+/**
+ * DELETE /api/agents/[id]/memories/[memoryId]
+ * Forget a single memory
+ */
+export async function DELETE(_request: NextRequest, context: RouteContext): Promise<NextResponse> {
+  try {
+    const session = await getRequestSession('agents:write');
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, memoryId } = await context.params;
+
+    // Check agent ownership
+    const agent = await prisma.agent.findUnique({
+      where: { id },
+      select: { userId: true },
+    });
+    if (!agent) {
+      return NextResponse.json({ success: false, error: 'Agent not found' }, { status: 404 });
+    }
+    if (agent.userId !== session.user.id) {
+      return NextResponse.json({ success: false, error: 'Access denied' }, { status: 403 });
+    }
+
+    const { count } = await prisma.agentMemory.deleteMany({
+      where: { id: memoryId, agentId: id },
+    });
+    if (count === 0) {
+      return NextResponse.json({ success: false, error: 'Memory not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Failed to delete agent memory:', error);
+    return NextResponse.json({ success: false, error: 'Failed to delete memory' }, { status: 500 });
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Agent Long-Term Memory Endpoint
+ *
+ * GET: List an agent's memories, newest first, or the best BM25 matches for `q`
+ * DELETE: Forget all of an agent's memories
+ *
+ * Memories can hold anything users told the agent, so only the owner can see them
+ */
+
+import { prisma } from '@tpmjs/db';
+import { MEMORY_LIMITS } from '@tpmjs/types/agent';
+import { type NextRequest, NextResponse } from 'next/server';
+
+import { rankMemories } from '@/lib/agents/long-term-memory';
+import { getRequestSession } from '~/lib/api-auth';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * Load an agent and verify the caller owns it
+ */
+async function getOwnedAgent(id: string, userId: string) {
+  const agent = await prisma.agent.findUnique({
+    where: { id },
+    select: { id: true, userId: true },
+  });
+  if (!agent) return { error: 'not_found' as const };
+  if (agent.userId !== userId) return { error: 'forbidden' as const };
+  return { agent };
+}
+
+/**
+ * GET /api/agents/[id]/memories
+ * List memories (`q` searches them instead)
+ */
+export async function GET(request: NextRequest, context: RouteContext): Promise<NextResponse> {
+  const { searchParams } = new URL(request.url);
+  const query = searchParams.get('q')?.trim() || '';
+  const limit = Math.min(Number.parseInt(searchParams.get('limit') || '50', 10), 100);
+  const offset = Number.parseInt(searchParams.get('offset') || '0', 10);
+
+  try {
+    const session = await getRequestSession('agents:read');
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const result = await getOwnedAgent(id, session.user.id);
+    if (result.error === 'not_found') {
+      return NextResponse.json({ success: false, error: 'Agent not found' }, { status: 404 });
+    }
+    if (result.error === 'forbidden') {
+      return NextResponse.json({ success: false, error: 'Access denied' }, { status: 403 });
+    }
+
+    const total = await prisma.agentMemory.count({ where: { agentId: id } });
+
+    let memories: Awaited<ReturnType<typeof prisma.agentMemory.findMany>>;
+    let hasMore = false;
+    if (query) {
+      // Search without counting as a recall
+      const all = await prisma.agentMemory.findMany({
+        where: { agentId: id },
+        orderBy: { createdAt: 'desc' },
+        take: MEMORY_LIMITS.MAX_MEMORIES_PER_AGENT,
+      });
+      memories = rankMemories(all, query, limit);
+    } else {
+      const page = await prisma.agentMemory.findMany({
+        where: { agentId: id },
+        orderBy: { createdAt: 'desc' },
+        take: limit + 1,
+        skip: offset,
+      });
+      hasMore = page.length > limit;
+      memories = hasMore ? page.slice(0, limit) : page;
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: memories.map((memory) => ({
+        id: memory.id,
+        content: memory.content,
+        conversationId: memory.conversationId,
+        recallCount: memory.recallCount,
+        lastRecalledAt: memory.lastRecalledAt,
+        createdAt: memory.createdAt,
+        updatedAt: memory.updatedAt,
+      })),
+      total,
+      pagination: {
+        limit,
+        offset: query ? 0 : offset,
+        hasMore,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to fetch agent memories:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch memories' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/agents/[id]/memories
+ * Forget everything
+ */
+export async function DELETE(_request: NextRequest, context: RouteContext): Promise<NextResponse> {
+  try {
+    const session = await getRequestSession('agents:write');
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const result = await getOwnedAgent(id, session.user.id);
+    if (result.error === 'not_found') {
+      return NextResponse.json({ success: false, error: 'Agent not found' }, { status: 404 });
+    }
+    if (result.error === 'forbidden') {
+      return NextResponse.json({ success: false, error: 'Access denied' }, { status: 403 });
+    }
+
+    const { count } = await prisma.agentMemory.deleteMany({ where: { agentId: id } });
+
+    return NextResponse.json({ success: true, data: { deleted: count } });
+  } catch (error) {
+    console.error('Failed to clear agent memories:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to clear memories' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,9 @@
 import { Prisma, prisma } from '@tpmjs/db';
 import { UpdateAgentSchema } from '@tpmjs/types/agent';
-import { headers } from 'next/headers';
 import type { NextRequest } from 'next/server';
 
 import { logActivity } from '~/lib/activity';
+import { getRequestSession } from '~/lib/api-auth';
 import {
   apiConflict,
   apiForbidden,
@@ -13,7 +13,7 @@ import {
   apiUnauthorized,
   apiValidationError,
 } from '~/lib/api-response';
-import { auth } from '~/lib/auth';
+import { getUpgradeVersion } from '~/lib/versions';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -30,7 +30,7 @@ export async function GET(_request: NextRequest, context: RouteContext) {
   const requestId = crypto.randomUUID();
 
   try {
-    const session = await auth.api.getSession({ headers: await headers() });
+    const session = await getRequestSession('agents:read');
     const { id } = await context.params;
 
     const agent = await prisma.agent.findUnique({
@@ -59,6 +59,7 @@ export async function GET(_request: NextRequest, context: RouteContext) {
                 package: {
                   select: {
                     npmPackageName: true,
+                    npmVersion: true,
                     category: true,
                   },
                 },
@@ -109,6 +110,9 @@ export async function GET(_request: NextRequest, context: RouteContext) {
           id: at.id,
           toolId: at.toolId,
           position: at.position,
+          version: at.version,
+          upgradeVersion: getUpgradeVersion(at.version, at.tool.package.npmVersion),
+          requiresApproval: at.requiresApproval,
           addedAt: at.addedAt,
           tool: at.tool,
         })),
@@ -130,7 +134,7 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
   const requestId = crypto.randomUUID();
 
   try {
-    const session = await auth.api.getSession({ headers: await headers() });
+    const session = await getRequestSession('agents:write');
     if (!session?.user?.id) {
       return apiUnauthorized('Authentication required', requestId);
     }
@@ -235,7 +239,7 @@ export async function DELETE(_request: NextRequest, context: RouteContext) {
   const requestId = crypto.randomUUID();
 
   try {
-    const session = await auth.api.getSession({ headers: await headers() });
+    const session = await getRequestSession('agents:write');
     if (!session?.user?.id) {
       return apiUnauthorized('Authentication required', requestId);
     }
@@ -1,9 +1,10 @@
 import { prisma } from '@tpmjs/db';
-import { headers } from 'next/headers';
+import { UpdateAgentToolSchema } from '@tpmjs/types/agent';
 import { type NextRequest, NextResponse } from 'next/server';
 
 import { logActivity } from '~/lib/activity';
-import { auth } from '~/lib/auth';
+import { getRequestSession } from '~/lib/api-auth';
+import { getUpgradeVersion, isValidVersionPin } from '~/lib/versions';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -12,13 +13,94 @@ type RouteContext = {
   params: Promise<{ id: string; toolId: string }>;
 };
 
+/**
+ * PATCH /api/agents/[id]/tools/[toolId]
+ * Pin an individual tool to a version or range (null tracks latest) and/or set whether its
+ * calls need the user's approval
+ */
+export async function PATCH(request: NextRequest, context: RouteContext): Promise<NextResponse> {
+  try {
+    const session = await getRequestSession('agents:write');
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, toolId } = await context.params;
+    const body = await request.json();
+    const parsed = UpdateAgentToolSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+    if (parsed.data.version && !isValidVersionPin(parsed.data.version)) {
+      return NextResponse.json(
+        { success: false, error: 'Version must be a valid semver version or range' },
+        { status: 400 }
+      );
+    }
+
+    // Check agent ownership
+    const agent = await prisma.agent.findUnique({
+      where: { id },
+      select: { userId: true },
+    });
+    if (!agent) {
+      return NextResponse.json({ success: false, error: 'Agent not found' }, { status: 404 });
+    }
+    if (agent.userId !== session.user.id) {
+      return NextResponse.json({ success: false, error: 'Access denied' }, { status: 403 });
+    }
+
+    const existing = await prisma.agentTool.findUnique({
+      where: { agentId_toolId: { agentId: id, toolId } },
+    });
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: 'Tool not found on agent' },
+        { status: 404 }
+      );
+    }
+
+    const { version, requiresApproval } = parsed.data;
+    const agentTool = await prisma.agentTool.update({
+      where: { id: existing.id },
+      data: {
+        ...(version !== undefined && { version: version || null }),
+        ...(requiresApproval !== undefined && { requiresApproval }),
+      },
+      include: {
+        tool: { select: { package: { select: { npmVersion: true } } } },
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        id: agentTool.id,
+        toolId: agentTool.toolId,
+        position: agentTool.position,
+        version: agentTool.version,
+        latestVersion: agentTool.tool.package.npmVersion,
+        upgradeVersion: getUpgradeVersion(agentTool.version, agentTool.tool.package.npmVersion),
+        requiresApproval: agentTool.requiresApproval,
+        addedAt: agentTool.addedAt,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to update agent tool:', error);
+    return NextResponse.json({ success: false, error: 'Failed to update tool' }, { status: 500 });
+  }
+}
+
 /**
  * DELETE /api/agents/[id]/tools/[toolId]
  * Remove an individual tool from an agent
  */
 export async function DELETE(_request: NextRequest, context: RouteContext): Promise<NextResponse> {
   try {
-    const session = await auth.api.getSession({ headers: await headers() });
+    const session = await getRequestSession('agents:write');
     if (!session?.user?.id) {
       return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
     }
@@ -1,10 +1,10 @@
 import { prisma } from '@tpmjs/db';
 import { AGENT_LIMITS, AddToolToAgentSchema } from '@tpmjs/types/agent';
-import { headers } from 'next/headers';
 import { type NextRequest, NextResponse } from 'next/server';
 
 import { logActivity } from '~/lib/activity';
-import { auth } from '~/lib/auth';
+import { getRequestSession } from '~/lib/api-auth';
+import { getUpgradeVersion, isValidVersionPin } from '~/lib/versions';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -19,7 +19,7 @@ type RouteContext = {
  */
 export async function GET(_request: NextRequest, context: RouteContext): Promise<NextResponse> {
   try {
-    const session = await auth.api.getSession({ headers: await headers() });
+    const session = await getRequestSession('agents:read');
     const { id } = await context.params;
 
     const agent = await prisma.agent.findUnique({
@@ -47,6 +47,7 @@ export async function GET(_request: NextRequest, context: RouteContext): Promise
             package: {
               select: {
                 npmPackageName: true,
+                npmVersion: true,
               },
             },
           },
@@ -61,6 +62,10 @@ export async function GET(_request: NextRequest, context: RouteContext): Promise
         id: at.id,
         toolId: at.toolId,
         position: at.position,
+        version: at.version,
+        latestVersion: at.tool.package.npmVersion,
+        upgradeVersion: getUpgradeVersion(at.version, at.tool.package.npmVersion),
+        requiresApproval: at.requiresApproval,
         addedAt: at.addedAt,
         tool: {
           id: at.tool.id,
@@ -85,7 +90,7 @@ export async function GET(_request: NextRequest, context: RouteContext): Promise
  */
 export async function POST(request: NextRequest, context: RouteContext): Promise<NextResponse> {
   try {
-    const session = await auth.api.getSession({ headers: await headers() });
+    const session = await getRequestSession('agents:write');
     if (!session?.user?.id) {
       return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
     }
@@ -99,6 +104,12 @@ export async function POST(request: NextRequest, context: RouteContext): Promise
         { status: 400 }
       );
     }
+    if (parsed.data.version && !isValidVersionPin(parsed.data.version)) {
+      return NextResponse.json(
+        { success: false, error: 'Version must be a valid semver version or range' },
+        { status: 400 }
+      );
+    }
 
     // Check agent ownership
     const agent = await prisma.agent.findUnique({
@@ -159,6 +170,7 @@ export async function POST(request: NextRequest, context: RouteContext): Promise
         agentId: id,
         toolId: parsed.data.toolId,
         position,
+        version: parsed.data.version || null,
       },
       include: {
         tool: {
@@ -190,6 +202,8 @@ export async function POST(request: NextRequest, context: RouteContext): Promise
           id: agentTool.id,
           toolId: agentTool.toolId,
           position: agentTool.position,
+          version: agentTool.version,
+          requiresApproval: agentTool.requiresApproval,
           addedAt: agentTool.addedAt,
           tool: agentTool.tool,
         },
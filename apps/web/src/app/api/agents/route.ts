@@ -1,10 +1,9 @@
 import { prisma } from '@tpmjs/db';
 import { AGENT_LIMITS, CreateAgentSchema } from '@tpmjs/types/agent';
-import { headers } from 'next/headers';
 import { type NextRequest, NextResponse } from 'next/server';
 
 import { logActivity } from '~/lib/activity';
-import { auth } from '~/lib/auth';
+import { getRequestSession } from '~/lib/api-auth';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -28,7 +27,7 @@ function generateUid(name: string): string {
  */
 export async function GET(request: NextRequest): Promise<NextResponse> {
   try {
-    const session = await auth.api.getSession({ headers: await headers() });
+    const session = await getRequestSession('agents:read');
     if (!session?.user?.id) {
       return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
     }
@@ -49,6 +48,9 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
         temperature: true,
         maxToolCallsPerTurn: true,
         maxMessagesInContext: true,
+        maxToolOutputChars: true,
+        memoryMode: true,
+        longTermMemory: true,
         isPublic: true,
         createdAt: true,
         updatedAt: true,
@@ -94,7 +96,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
  */
 export async function POST(request: NextRequest): Promise<NextResponse> {
   try {
-    const session = await auth.api.getSession({ headers: await headers() });
+    const session = await getRequestSession('agents:write');
     if (!session?.user?.id) {
       return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
     }
@@ -129,6 +131,9 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       temperature,
       maxToolCallsPerTurn,
       maxMessagesInContext,
+      maxToolOutputChars,
+      memoryMode,
+      longTermMemory,
       isPublic,
       collectionIds,
       toolIds,
@@ -169,6 +174,9 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
           temperature,
           maxToolCallsPerTurn,
           maxMessagesInContext,
+          maxToolOutputChars,
+          memoryMode,
+          longTermMemory,
           isPublic,
           likeCount: 1, // Start with 1 like (from owner)
           collections: collectionIds?.length
@@ -199,6 +207,9 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
           temperature: true,
           maxToolCallsPerTurn: true,
           maxMessagesInContext: true,
+          maxToolOutputChars: true,
+          memoryMode: true,
+          longTermMemory: true,
           isPublic: true,
           createdAt: true,
           updatedAt: true,
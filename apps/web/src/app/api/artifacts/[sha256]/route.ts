@@ -0,0 +1,80 @@
+/**
+ * Tool Artifact Download
+ *
+ * GET /api/artifacts/[sha256]
+ *
+ * Serves a file or full result stored from a tool call. Artifacts are content-addressed, so
+ * responses are immutable, but the hash alone doesn't grant access: the artifact must come
+ * from a public agent's conversation or a public collection, or from an agent/collection the
+ * caller owns. Anything else is a 404, so the route can't be used to probe for content.
+ * `?download=1` asks the browser to save the file instead of displaying it.
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '~/lib/api-auth';
+import { apiInternalError, apiNotFound, apiValidationError } from '~/lib/api-response';
+import { readArtifactForViewer } from '~/lib/artifacts/store';
+import { checkRateLimit } from '~/lib/rate-limit';
+
+export const runtime = 'nodejs';
+
+const SHA256_PATTERN = /^[0-9a-f]{64}$/;
+
+type RouteContext = {
+  params: Promise<{ sha256: string }>;
+};
+
+export async function GET(request: NextRequest, context: RouteContext): Promise<Response> {
+  const rateLimitResponse = checkRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  const requestId = crypto.randomUUID();
+
+  try {
+    const { sha256 } = await context.params;
+    if (!SHA256_PATTERN.test(sha256)) {
+      return apiValidationError('Invalid artifact hash', undefined, requestId);
+    }
+
+    const [agentsSession, collectionsSession] = await Promise.all([
+      getRequestSession('agents:read'),
+      getRequestSession('collections:read'),
+    ]);
+    const artifact = await readArtifactForViewer(sha256, {
+      agentsUserId: agentsSession?.user.id,
+      collectionsUserId: collectionsSession?.user.id,
+    });
+    if (!artifact) {
+      return apiNotFound('Artifact', requestId);
+    }
+
+    if (artifact.blobUrl) {
+      return NextResponse.redirect(artifact.blobUrl, 307);
+    }
+    if (!artifact.data) {
+      return apiNotFound('Artifact', requestId);
+    }
+
+    const download = request.nextUrl.searchParams.get('download') === '1';
+    const filename = (artifact.filename ?? sha256).replace(/["\r\n]/g, '');
+
+    return new NextResponse(new Uint8Array(artifact.data), {
+      headers: {
+        'Content-Type': artifact.mediaType,
+        'Content-Length': artifact.sizeBytes.toString(),
+        'Content-Disposition': `${download ? 'attachment' : 'inline'}; filename="${filename}"`,
+        // Private: access depends on the caller
+        'Cache-Control': 'private, max-age=31536000, immutable',
+        // Tool output is untrusted: never let it run as a page on our origin
+        'Content-Security-Policy':
+          "default-src 'none'; img-src 'self' data:; style-src 'unsafe-inline'; sandbox",
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  } catch (error) {
+    console.error('Failed to serve artifact:', error);
+    return apiInternalError('Failed to load artifact', requestId);
+  }
+}
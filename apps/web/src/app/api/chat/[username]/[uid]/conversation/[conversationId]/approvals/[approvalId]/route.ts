@@ -0,0 +1,127 @@
+/**
+ * Tool Approval Endpoint
+ *
+ * POST: Approve (optionally with edited arguments) or deny a tool call held for approval
+ *
+ * Route: /api/chat/[username]/[uid]/conversation/[conversationId]/approvals/[approvalId]
+ *
+ * Only the agent's owner can decide (session or PAT with `agents:write`)
+ *
+ * Once no call is pending, POST `{ resume: true }` to the conversation to continue the turn
+ */
+
+import { prisma } from '@tpmjs/db';
+import { DecideToolApprovalSchema } from '@tpmjs/types/agent';
+import { type NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '~/lib/api-auth';
+import { checkRateLimit, type RateLimitConfig } from '~/lib/rate-limit';
+
+/**
+ * Approved calls run the tool, so they share the chat rate limit: 30 requests per minute
+ */
+const APPROVAL_RATE_LIMIT: RateLimitConfig = {
+  limit: 30,
+  windowSeconds: 60,
+};
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+type RouteContext = {
+  params: Promise<{ username: string; uid: string; conversationId: string; approvalId: string }>;
+};
+
+/**
+ * POST /api/chat/[username]/[uid]/conversation/[conversationId]/approvals/[approvalId]
+ * Decide a pending tool call; denials go back to the model as a tool error
+ */
+export async function POST(request: NextRequest, context: RouteContext): Promise<NextResponse> {
+  const rateLimitResponse = checkRateLimit(request, APPROVAL_RATE_LIMIT);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  const { username, uid, conversationId, approvalId } = await context.params;
+
+  try {
+    const session = await getRequestSession('agents:write');
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const parsed = DecideToolApprovalSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { fetchAgentByUsernameAndUidWithTools } = await import('@/lib/agents/build-tools');
+    const agent = await fetchAgentByUsernameAndUidWithTools(username, uid);
+
+    if (!agent) {
+      return NextResponse.json({ success: false, error: 'Agent not found' }, { status: 404 });
+    }
+    if (agent.userId !== session.user.id) {
+      return NextResponse.json({ success: false, error: 'Access denied' }, { status: 403 });
+    }
+
+    const conversation = await prisma.conversation.findUnique({
+      where: {
+        agentId_slug: {
+          agentId: agent.id,
+          slug: conversationId,
+        },
+      },
+      select: { id: true },
+    });
+
+    if (!conversation) {
+      return NextResponse.json(
+        { success: false, error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    const { decideToolApproval } = await import('@/lib/agents/tool-approvals');
+    const result = await decideToolApproval(agent, conversation.id, approvalId, parsed.data);
+
+    if ('error' in result) {
+      switch (result.error) {
+        case 'not_found':
+          return NextResponse.json(
+            { success: false, error: 'Approval not found' },
+            { status: 404 }
+          );
+        case 'invalid_args':
+          return NextResponse.json(
+            { success: false, error: 'Invalid arguments', details: result.message },
+            { status: 400 }
+          );
+        default:
+          return NextResponse.json(
+            { success: false, error: 'Tool call was already decided' },
+            { status: 409 }
+          );
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        approval: result.approval,
+        output: result.output,
+        pendingApprovals: result.pendingApprovals,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to decide tool approval:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to decide tool approval' },
+      { status: 500 }
+    );
+  }
+}
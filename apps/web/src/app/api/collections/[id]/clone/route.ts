@@ -1,9 +1,9 @@
 import { prisma } from '@tpmjs/db';
-import { COLLECTION_LIMITS, CloneCollectionSchema } from '@tpmjs/types/collection';
-import { headers } from 'next/headers';
+import { CloneCollectionSchema, COLLECTION_LIMITS } from '@tpmjs/types/collection';
 import type { NextRequest } from 'next/server';
 
 import { logActivity } from '~/lib/activity';
+import { getRequestSession } from '~/lib/api-auth';
 import {
   apiForbidden,
   apiInternalError,
@@ -12,7 +12,6 @@ import {
   apiUnauthorized,
   apiValidationError,
 } from '~/lib/api-response';
-import { auth } from '~/lib/auth';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -74,7 +73,7 @@ export async function POST(request: NextRequest, context: RouteContext) {
   const requestId = crypto.randomUUID();
 
   try {
-    const session = await auth.api.getSession({ headers: await headers() });
+    const session = await getRequestSession('collections:write');
     if (!session?.user?.id) {
       return apiUnauthorized('Authentication required', requestId);
     }
@@ -86,7 +85,16 @@ export async function POST(request: NextRequest, context: RouteContext) {
       where: { id },
       include: {
         tools: {
-          select: { toolId: true, position: true, note: true },
+          select: { toolId: true, position: true, note: true, version: true },
+        },
+        prompts: {
+          select: {
+            name: true,
+            description: true,
+            template: true,
+            arguments: true,
+            position: true,
+          },
         },
       },
     });
@@ -165,6 +173,21 @@ export async function POST(request: NextRequest, context: RouteContext) {
             toolId: ct.toolId,
             position: ct.position,
             note: ct.note,
+            version: ct.version,
+          })),
+        });
+      }
+
+      // Clone prompt templates
+      if (sourceCollection.prompts.length > 0) {
+        await tx.collectionPrompt.createMany({
+          data: sourceCollection.prompts.map((prompt) => ({
+            collectionId: newCollection.id,
+            name: prompt.name,
+            description: prompt.description,
+            template: prompt.template,
+            arguments: prompt.arguments ?? [],
+            position: prompt.position,
           })),
         });
       }
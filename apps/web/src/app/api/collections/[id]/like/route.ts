@@ -1,8 +1,7 @@
 import { prisma } from '@tpmjs/db';
-import { headers } from 'next/headers';
 import { type NextRequest, NextResponse } from 'next/server';
 import { logActivity } from '~/lib/activity';
-import { auth } from '~/lib/auth';
+import { getRequestSession } from '~/lib/api-auth';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -41,9 +40,7 @@ export async function GET(
   const { id } = await context.params;
 
   try {
-    const session = await auth.api.getSession({
-      headers: await headers(),
-    });
+    const session = await getRequestSession('user:read');
 
     if (!session) {
       return NextResponse.json(
@@ -103,9 +100,7 @@ export async function POST(
   const { id } = await context.params;
 
   try {
-    const session = await auth.api.getSession({
-      headers: await headers(),
-    });
+    const session = await getRequestSession('user:write');
 
     if (!session) {
       return NextResponse.json(
@@ -211,9 +206,7 @@ export async function DELETE(
   const { id } = await context.params;
 
   try {
-    const session = await auth.api.getSession({
-      headers: await headers(),
-    });
+    const session = await getRequestSession('user:write');
 
     if (!session) {
       return NextResponse.json(
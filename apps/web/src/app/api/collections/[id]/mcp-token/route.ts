@@ -0,0 +1,99 @@
+import { prisma } from '@tpmjs/db';
+import type { NextRequest } from 'next/server';
+
+import { getRequestSession } from '~/lib/api-auth';
+import {
+  apiForbidden,
+  apiInternalError,
+  apiNotFound,
+  apiSuccess,
+  apiUnauthorized,
+} from '~/lib/api-response';
+import { generateApiToken, MCP_TOKEN_PREFIX } from '~/lib/crypto/api-tokens';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * Load a collection and verify the caller owns it
+ */
+async function getOwnedCollection(id: string, userId: string) {
+  const collection = await prisma.collection.findUnique({
+    where: { id },
+    select: { id: true, userId: true },
+  });
+  if (!collection) return { error: 'not_found' as const };
+  if (collection.userId !== userId) return { error: 'forbidden' as const };
+  return { collection };
+}
+
+/**
+ * POST /api/collections/[id]/mcp-token
+ * Generate (or rotate) the collection's MCP access token.
+ * The plaintext token is only returned in this response; any previous token stops working.
+ */
+export async function POST(_request: NextRequest, context: RouteContext) {
+  const requestId = crypto.randomUUID();
+
+  try {
+    const session = await getRequestSession('collections:write');
+    if (!session?.user?.id) {
+      return apiUnauthorized('Authentication required', requestId);
+    }
+
+    const { id } = await context.params;
+    const result = await getOwnedCollection(id, session.user.id);
+    if (result.error === 'not_found') return apiNotFound('Collection', requestId);
+    if (result.error === 'forbidden') {
+      return apiForbidden('You can only manage tokens for your own collections', requestId);
+    }
+
+    const { token, tokenHash, tokenPrefix } = generateApiToken(MCP_TOKEN_PREFIX);
+
+    await prisma.collection.update({
+      where: { id },
+      data: { mcpTokenHash: tokenHash, mcpTokenPrefix: tokenPrefix },
+    });
+
+    return apiSuccess({ token, tokenPrefix }, { requestId, status: 201 });
+  } catch (error) {
+    console.error('[API Error] POST /api/collections/[id]/mcp-token:', error);
+    return apiInternalError('Failed to generate MCP token', requestId);
+  }
+}
+
+/**
+ * DELETE /api/collections/[id]/mcp-token
+ * Remove the collection's MCP access token
+ */
+export async function DELETE(_request: NextRequest, context: RouteContext) {
+  const requestId = crypto.randomUUID();
+
+  try {
+    const session = await getRequestSession('collections:write');
+    if (!session?.user?.id) {
+      return apiUnauthorized('Authentication required', requestId);
+    }
+
+    const { id } = await context.params;
+    const result = await getOwnedCollection(id, session.user.id);
+    if (result.error === 'not_found') return apiNotFound('Collection', requestId);
+    if (result.error === 'forbidden') {
+      return apiForbidden('You can only manage tokens for your own collections', requestId);
+    }
+
+    await prisma.collection.update({
+      where: { id },
+      data: { mcpTokenHash: null, mcpTokenPrefix: null },
+    });
+
+    return apiSuccess({ revoked: true }, { requestId });
+  } catch (error) {
+    console.error('[API Error] DELETE /api/collections/[id]/mcp-token:', error);
+    return apiInternalError('Failed to revoke MCP token', requestId);
+  }
+}
@@ -0,0 +1,240 @@
+import { prisma } from '@tpmjs/db';
+import { UpdateCollectionPromptSchema } from '@tpmjs/types/collection';
+import { type NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '~/lib/api-auth';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const API_VERSION = '1.0.0';
+
+interface ApiResponse<T = unknown> {
+  success: boolean;
+  data?: T;
+  error?: {
+    code: string;
+    message: string;
+    details?: Record<string, unknown>;
+  };
+  meta: {
+    version: string;
+    timestamp: string;
+    requestId?: string;
+  };
+}
+
+interface RouteContext {
+  params: Promise<{ id: string; promptId: string }>;
+}
+
+/**
+ * Load a prompt and verify the caller owns its collection
+ */
+async function getOwnedPrompt(collectionId: string, promptId: string, userId: string) {
+  const prompt = await prisma.collectionPrompt.findFirst({
+    where: { id: promptId, collectionId },
+    include: { collection: { select: { userId: true } } },
+  });
+  if (!prompt) return { error: 'not_found' as const };
+  if (prompt.collection.userId !== userId) return { error: 'forbidden' as const };
+  return { prompt };
+}
+
+/**
+ * PATCH /api/collections/[id]/prompts/[promptId]
+ * Update a prompt template
+ */
+export async function PATCH(
+  request: NextRequest,
+  context: RouteContext
+): Promise<NextResponse<ApiResponse>> {
+  const requestId = crypto.randomUUID();
+  const { id: collectionId, promptId } = await context.params;
+
+  try {
+    // Check authentication
+    const session = await getRequestSession('collections:write');
+
+    if (!session) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+          meta: { version: API_VERSION, timestamp: new Date().toISOString(), requestId },
+        },
+        { status: 401 }
+      );
+    }
+
+    const result = await getOwnedPrompt(collectionId, promptId, session.user.id);
+
+    if (result.error === 'not_found') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'NOT_FOUND', message: 'Prompt not found in this collection' },
+          meta: { version: API_VERSION, timestamp: new Date().toISOString(), requestId },
+        },
+        { status: 404 }
+      );
+    }
+
+    if (result.error === 'forbidden') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'FORBIDDEN', message: 'Access denied' },
+          meta: { version: API_VERSION, timestamp: new Date().toISOString(), requestId },
+        },
+        { status: 403 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const parseResult = UpdateCollectionPromptSchema.safeParse(body);
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: { errors: parseResult.error.flatten().fieldErrors },
+          },
+          meta: { version: API_VERSION, timestamp: new Date().toISOString(), requestId },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { name, description, template, arguments: promptArguments, position } = parseResult.data;
+
+    // Renaming must not collide with another prompt in the collection
+    if (name && name !== result.prompt.name) {
+      const existingPrompt = await prisma.collectionPrompt.findUnique({
+        where: { collectionId_name: { collectionId, name } },
+      });
+
+      if (existingPrompt) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: { code: 'DUPLICATE_PROMPT', message: 'A prompt with this name already exists' },
+            meta: { version: API_VERSION, timestamp: new Date().toISOString(), requestId },
+          },
+          { status: 409 }
+        );
+      }
+    }
+
+    const prompt = await prisma.collectionPrompt.update({
+      where: { id: promptId },
+      data: {
+        ...(name !== undefined && { name }),
+        ...(description !== undefined && { description }),
+        ...(template !== undefined && { template }),
+        ...(promptArguments !== undefined && { arguments: promptArguments }),
+        ...(position !== undefined && { position }),
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        id: prompt.id,
+        name: prompt.name,
+        description: prompt.description,
+        template: prompt.template,
+        arguments: prompt.arguments,
+        position: prompt.position,
+        createdAt: prompt.createdAt,
+        updatedAt: prompt.updatedAt,
+      },
+      meta: { version: API_VERSION, timestamp: new Date().toISOString(), requestId },
+    });
+  } catch (error) {
+    console.error('[API Error] PATCH /api/collections/[id]/prompts/[promptId]:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to update prompt' },
+        meta: { version: API_VERSION, timestamp: new Date().toISOString(), requestId },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/collections/[id]/prompts/[promptId]
+ * Remove a prompt template from a collection
+ */
+export async function DELETE(
+  _request: NextRequest,
+  context: RouteContext
+): Promise<NextResponse<ApiResponse>> {
+  const requestId = crypto.randomUUID();
+  const { id: collectionId, promptId } = await context.params;
+
+  try {
+    // Check authentication
+    const session = await getRequestSession('collections:write');
+
+    if (!session) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+          meta: { version: API_VERSION, timestamp: new Date().toISOString(), requestId },
+        },
+        { status: 401 }
+      );
+    }
+
+    const result = await getOwnedPrompt(collectionId, promptId, session.user.id);
+
+    if (result.error === 'not_found') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'NOT_FOUND', message: 'Prompt not found in this collection' },
+          meta: { version: API_VERSION, timestamp: new Date().toISOString(), requestId },
+        },
+        { status: 404 }
+      );
+    }
+
+    if (result.error === 'forbidden') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'FORBIDDEN', message: 'Access denied' },
+          meta: { version: API_VERSION, timestamp: new Date().toISOString(), requestId },
+        },
+        { status: 403 }
+      );
+    }
+
+    await prisma.collectionPrompt.delete({
+      where: { id: promptId },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { deleted: true },
+      meta: { version: API_VERSION, timestamp: new Date().toISOString(), requestId },
+    });
+  } catch (error) {
+    console.error('[API Error] DELETE /api/collections/[id]/prompts/[promptId]:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to remove prompt' },
+        meta: { version: API_VERSION, timestamp: new Date().toISOString(), requestId },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,256 @@
+import { prisma } from '@tpmjs/db';
+import { COLLECTION_LIMITS, CreateCollectionPromptSchema } from '@tpmjs/types/collection';
+import { type NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '~/lib/api-auth';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const API_VERSION = '1.0.0';
+
+interface ApiResponse<T = unknown> {
+  success: boolean;
+  data?: T;
+  error?: {
+    code: string;
+    message: string;
+    details?: Record<string, unknown>;
+  };
+  meta: {
+    version: string;
+    timestamp: string;
+    requestId?: string;
+  };
+}
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/collections/[id]/prompts
+ * List a collection's prompt templates
+ */
+export async function GET(
+  _request: NextRequest,
+  context: RouteContext
+): Promise<NextResponse<ApiResponse>> {
+  const requestId = crypto.randomUUID();
+  const { id: collectionId } = await context.params;
+
+  try {
+    // Check authentication
+    const session = await getRequestSession('collections:read');
+
+    if (!session) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+          meta: { version: API_VERSION, timestamp: new Date().toISOString(), requestId },
+        },
+        { status: 401 }
+      );
+    }
+
+    const collection = await prisma.collection.findUnique({
+      where: { id: collectionId },
+      include: { prompts: { orderBy: { position: 'asc' } } },
+    });
+
+    if (!collection) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'NOT_FOUND', message: 'Collection not found' },
+          meta: { version: API_VERSION, timestamp: new Date().toISOString(), requestId },
+        },
+        { status: 404 }
+      );
+    }
+
+    // Check ownership (unless collection is public)
+    if (collection.userId !== session.user.id && !collection.isPublic) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'FORBIDDEN', message: 'Access denied' },
+          meta: { version: API_VERSION, timestamp: new Date().toISOString(), requestId },
+        },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: collection.prompts.map((prompt) => ({
+        id: prompt.id,
+        name: prompt.name,
+        description: prompt.description,
+        template: prompt.template,
+        arguments: prompt.arguments,
+        position: prompt.position,
+        createdAt: prompt.createdAt,
+        updatedAt: prompt.updatedAt,
+      })),
+      meta: { version: API_VERSION, timestamp: new Date().toISOString(), requestId },
+    });
+  } catch (error) {
+    console.error('[API Error] GET /api/collections/[id]/prompts:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch prompts' },
+        meta: { version: API_VERSION, timestamp: new Date().toISOString(), requestId },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/collections/[id]/prompts
+ * Add a prompt template to a collection
+ */
+export async function POST(
+  request: NextRequest,
+  context: RouteContext
+): Promise<NextResponse<ApiResponse>> {
+  const requestId = crypto.randomUUID();
+  const { id: collectionId } = await context.params;
+
+  try {
+    // Check authentication
+    const session = await getRequestSession('collections:write');
+
+    if (!session) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+          meta: { version: API_VERSION, timestamp: new Date().toISOString(), requestId },
+        },
+        { status: 401 }
+      );
+    }
+
+    // Verify collection exists and user owns it
+    const collection = await prisma.collection.findUnique({
+      where: { id: collectionId },
+      include: { _count: { select: { prompts: true } } },
+    });
+
+    if (!collection) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'NOT_FOUND', message: 'Collection not found' },
+          meta: { version: API_VERSION, timestamp: new Date().toISOString(), requestId },
+        },
+        { status: 404 }
+      );
+    }
+
+    if (collection.userId !== session.user.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'FORBIDDEN', message: 'Access denied' },
+          meta: { version: API_VERSION, timestamp: new Date().toISOString(), requestId },
+        },
+        { status: 403 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const parseResult = CreateCollectionPromptSchema.safeParse(body);
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: { errors: parseResult.error.flatten().fieldErrors },
+          },
+          meta: { version: API_VERSION, timestamp: new Date().toISOString(), requestId },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { name, description, template, arguments: promptArguments } = parseResult.data;
+
+    // Check prompt limit
+    if (collection._count.prompts >= COLLECTION_LIMITS.MAX_PROMPTS_PER_COLLECTION) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'LIMIT_EXCEEDED',
+            message: `Maximum ${COLLECTION_LIMITS.MAX_PROMPTS_PER_COLLECTION} prompts per collection`,
+          },
+          meta: { version: API_VERSION, timestamp: new Date().toISOString(), requestId },
+        },
+        { status: 400 }
+      );
+    }
+
+    // Prompt names must be unique within the collection (they are MCP identifiers)
+    const existingPrompt = await prisma.collectionPrompt.findUnique({
+      where: { collectionId_name: { collectionId, name } },
+    });
+
+    if (existingPrompt) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'DUPLICATE_PROMPT', message: 'A prompt with this name already exists' },
+          meta: { version: API_VERSION, timestamp: new Date().toISOString(), requestId },
+        },
+        { status: 409 }
+      );
+    }
+
+    const prompt = await prisma.collectionPrompt.create({
+      data: {
+        collectionId,
+        name,
+        description: description || null,
+        template,
+        arguments: promptArguments,
+        position: collection._count.prompts,
+      },
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          id: prompt.id,
+          name: prompt.name,
+          description: prompt.description,
+          template: prompt.template,
+          arguments: prompt.arguments,
+          position: prompt.position,
+          createdAt: prompt.createdAt,
+          updatedAt: prompt.updatedAt,
+        },
+        meta: { version: API_VERSION, timestamp: new Date().toISOString(), requestId },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('[API Error] POST /api/collections/[id]/prompts:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to add prompt to collection' },
+        meta: { version: API_VERSION, timestamp: new Date().toISOString(), requestId },
+      },
+      { status: 500 }
+    );
+  }
+}
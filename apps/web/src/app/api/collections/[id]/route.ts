@@ -1,9 +1,9 @@
 import { Prisma, prisma } from '@tpmjs/db';
 import { UpdateCollectionSchema } from '@tpmjs/types/collection';
-import { headers } from 'next/headers';
 import { type NextRequest, NextResponse } from 'next/server';
 import { logActivity } from '~/lib/activity';
-import { auth } from '~/lib/auth';
+import { getRequestSession } from '~/lib/api-auth';
+import { getUpgradeVersion } from '~/lib/versions';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -55,9 +55,7 @@ export async function GET(
 
   try {
     // Check authentication
-    const session = await auth.api.getSession({
-      headers: await headers(),
-    });
+    const session = await getRequestSession('collections:read');
 
     if (!session) {
       return NextResponse.json(
@@ -82,6 +80,7 @@ export async function GET(
                   select: {
                     id: true,
                     npmPackageName: true,
+                    npmVersion: true,
                     category: true,
                   },
                 },
@@ -92,6 +91,7 @@ export async function GET(
           take: toolsLimit + 1, // Fetch one extra to check hasMore
           skip: toolsOffset,
         },
+        user: { select: { username: true } },
         _count: { select: { tools: true } },
       },
     });
@@ -107,8 +107,10 @@ export async function GET(
       );
     }
 
+    const isOwner = collection.userId === session.user.id;
+
     // Check ownership (unless collection is public)
-    if (collection.userId !== session.user.id && !collection.isPublic) {
+    if (!isOwner && !collection.isPublic) {
       return NextResponse.json(
         {
           success: false,
@@ -128,17 +130,25 @@ export async function GET(
       data: {
         id: collection.id,
         name: collection.name,
+        slug: collection.slug,
+        username: collection.user.username,
         description: collection.description,
         isPublic: collection.isPublic,
         toolCount: collection._count.tools,
+        // Only the owner can see which MCP token is active
+        mcpTokenPrefix: isOwner ? collection.mcpTokenPrefix : null,
         createdAt: collection.createdAt,
         updatedAt: collection.updatedAt,
-        isOwner: collection.userId === session.user.id,
+        isOwner,
         tools: paginatedTools.map((ct) => ({
           id: ct.id,
           toolId: ct.toolId,
           position: ct.position,
           note: ct.note,
+          version: ct.version,
+          // Suggested pin when a newer release falls outside the current pin
+          upgradeVersion: getUpgradeVersion(ct.version, ct.tool.package.npmVersion),
+          requiresApproval: ct.requiresApproval,
           addedAt: ct.addedAt,
           tool: {
             id: ct.tool.id,
@@ -183,9 +193,7 @@ export async function PATCH(
 
   try {
     // Check authentication
-    const session = await auth.api.getSession({
-      headers: await headers(),
-    });
+    const session = await getRequestSession('collections:write');
 
     if (!session) {
       return NextResponse.json(
@@ -341,9 +349,7 @@ export async function DELETE(
 
   try {
     // Check authentication
-    const session = await auth.api.getSession({
-      headers: await headers(),
-    });
+    const session = await getRequestSession('collections:write');
 
     if (!session) {
       return NextResponse.json(
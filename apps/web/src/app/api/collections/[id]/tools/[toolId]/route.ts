@@ -1,8 +1,9 @@
 import { prisma } from '@tpmjs/db';
-import { headers } from 'next/headers';
+import { UpdateCollectionToolSchema } from '@tpmjs/types/collection';
 import { type NextRequest, NextResponse } from 'next/server';
 import { logActivity } from '~/lib/activity';
-import { auth } from '~/lib/auth';
+import { getRequestSession } from '~/lib/api-auth';
+import { isValidVersionPin } from '~/lib/versions';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -29,6 +30,151 @@ interface RouteContext {
   params: Promise<{ id: string; toolId: string }>;
 }
 
+/**
+ * PATCH /api/collections/[id]/tools/[toolId]
+ * Update a tool's note, position, pinned version, or whether its calls need approval
+ */
+export async function PATCH(
+  request: NextRequest,
+  context: RouteContext
+): Promise<NextResponse<ApiResponse>> {
+  const requestId = crypto.randomUUID();
+  const { id: collectionId, toolId } = await context.params;
+
+  try {
+    // Check authentication
+    const session = await getRequestSession('collections:write');
+
+    if (!session) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+          meta: { version: API_VERSION, timestamp: new Date().toISOString(), requestId },
+        },
+        { status: 401 }
+      );
+    }
+
+    // Verify collection exists and user owns it
+    const collection = await prisma.collection.findUnique({
+      where: { id: collectionId },
+    });
+
+    if (!collection) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'NOT_FOUND', message: 'Collection not found' },
+          meta: { version: API_VERSION, timestamp: new Date().toISOString(), requestId },
+        },
+        { status: 404 }
+      );
+    }
+
+    if (collection.userId !== session.user.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'FORBIDDEN', message: 'Access denied' },
+          meta: { version: API_VERSION, timestamp: new Date().toISOString(), requestId },
+        },
+        { status: 403 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const parseResult = UpdateCollectionToolSchema.safeParse(body);
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: { errors: parseResult.error.flatten().fieldErrors },
+          },
+          meta: { version: API_VERSION, timestamp: new Date().toISOString(), requestId },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { note, position, version, requiresApproval } = parseResult.data;
+
+    if (version && !isValidVersionPin(version)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: { errors: { version: ['Version must be a valid semver version or range'] } },
+          },
+          meta: { version: API_VERSION, timestamp: new Date().toISOString(), requestId },
+        },
+        { status: 400 }
+      );
+    }
+
+    const existingEntry = await prisma.collectionTool.findUnique({
+      where: {
+        collectionId_toolId: {
+          collectionId,
+          toolId,
+        },
+      },
+    });
+
+    if (!existingEntry) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'NOT_FOUND', message: 'Tool not found in this collection' },
+          meta: { version: API_VERSION, timestamp: new Date().toISOString(), requestId },
+        },
+        { status: 404 }
+      );
+    }
+
+    const collectionTool = await prisma.collectionTool.update({
+      where: { id: existingEntry.id },
+      data: {
+        ...(note !== undefined && { note: note || null }),
+        ...(position !== undefined && { position }),
+        ...(version !== undefined && { version: version || null }),
+        ...(requiresApproval !== undefined && { requiresApproval }),
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        id: collectionTool.id,
+        toolId: collectionTool.toolId,
+        position: collectionTool.position,
+        note: collectionTool.note,
+        version: collectionTool.version,
+        requiresApproval: collectionTool.requiresApproval,
+        addedAt: collectionTool.addedAt,
+      },
+      meta: { version: API_VERSION, timestamp: new Date().toISOString(), requestId },
+    });
+  } catch (error) {
+    console.error('[API Error] PATCH /api/collections/[id]/tools/[toolId]:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to update collection tool' },
+        meta: { version: API_VERSION, timestamp: new Date().toISOString(), requestId },
+      },
+      { status: 500 }
+    );
+  }
+}
+
 /**
  * DELETE /api/collections/[id]/tools/[toolId]
  * Remove a tool from a collection
@@ -42,9 +188,7 @@ export async function DELETE(
 
   try {
     // Check authentication
-    const session = await auth.api.getSession({
-      headers: await headers(),
-    });
+    const session = await getRequestSession('collections:write');
 
     if (!session) {
       return NextResponse.json(
@@ -1,9 +1,9 @@
 import { prisma } from '@tpmjs/db';
 import { AddToolToCollectionSchema, COLLECTION_LIMITS } from '@tpmjs/types/collection';
-import { headers } from 'next/headers';
 import { type NextRequest, NextResponse } from 'next/server';
 import { logActivity } from '~/lib/activity';
-import { auth } from '~/lib/auth';
+import { getRequestSession } from '~/lib/api-auth';
+import { isValidVersionPin } from '~/lib/versions';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -43,9 +43,7 @@ export async function POST(
 
   try {
     // Check authentication
-    const session = await auth.api.getSession({
-      headers: await headers(),
-    });
+    const session = await getRequestSession('collections:write');
 
     if (!session) {
       return NextResponse.json(
@@ -105,7 +103,22 @@ export async function POST(
       );
     }
 
-    const { toolId, note, position } = parseResult.data;
+    const { toolId, note, position, version } = parseResult.data;
+
+    if (version && !isValidVersionPin(version)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: { errors: { version: ['Version must be a valid semver version or range'] } },
+          },
+          meta: { version: API_VERSION, timestamp: new Date().toISOString(), requestId },
+        },
+        { status: 400 }
+      );
+    }
 
     // Check tool limit
     if (collection._count.tools >= COLLECTION_LIMITS.MAX_TOOLS_PER_COLLECTION) {
@@ -182,6 +195,7 @@ export async function POST(
         toolId,
         note: note || null,
         position: maxPosition,
+        version: version || null,
       },
     });
 
@@ -204,6 +218,8 @@ export async function POST(
           toolId: collectionTool.toolId,
           position: collectionTool.position,
           note: collectionTool.note,
+          version: collectionTool.version,
+          requiresApproval: collectionTool.requiresApproval,
           addedAt: collectionTool.addedAt,
           tool: {
             id: tool.id,
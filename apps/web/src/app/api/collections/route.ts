@@ -1,9 +1,8 @@
 import { prisma } from '@tpmjs/db';
 import { COLLECTION_LIMITS, CreateCollectionSchema } from '@tpmjs/types/collection';
-import { headers } from 'next/headers';
 import { type NextRequest, NextResponse } from 'next/server';
 import { logActivity } from '~/lib/activity';
-import { auth } from '~/lib/auth';
+import { getRequestSession } from '~/lib/api-auth';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -89,9 +88,7 @@ export async function GET(request: NextRequest): Promise<NextResponse<ApiRespons
 
   try {
     // Check authentication
-    const session = await auth.api.getSession({
-      headers: await headers(),
-    });
+    const session = await getRequestSession('collections:read');
 
     if (!session) {
       return NextResponse.json(
@@ -169,9 +166,7 @@ export async function POST(request: NextRequest): Promise<NextResponse<ApiRespon
 
   try {
     // Check authentication
-    const session = await auth.api.getSession({
-      headers: await headers(),
-    });
+    const session = await getRequestSession('collections:write');
 
     if (!session) {
       return NextResponse.json(
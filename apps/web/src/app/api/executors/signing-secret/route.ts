@@ -0,0 +1,52 @@
+/**
+ * Executor Signing Secret Endpoint
+ *
+ * POST: Generate a new HMAC signing secret for a custom executor
+ */
+
+import { NextResponse } from 'next/server';
+
+import { getRequestSession } from '~/lib/api-auth';
+import { generateExecutorSigningSecret } from '~/lib/crypto/executor-secrets';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/executors/signing-secret
+ * Generate (or rotate) a signing secret
+ *
+ * Returns the plaintext secret once, for the executor's EXECUTOR_SIGNING_SECRET, and its
+ * encrypted form to save as `signingSecret` in the collection/agent executorConfig.
+ * Nothing is stored until that config is saved.
+ */
+export async function POST(): Promise<NextResponse> {
+  try {
+    const session = await getRequestSession('user:write');
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const { secret, signingSecret } = generateExecutorSigningSecret();
+
+    return NextResponse.json({
+      success: true,
+      data: { secret, signingSecret },
+    });
+  } catch (error) {
+    console.error('Failed to generate executor signing secret:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'SIGNING_SECRET_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to generate signing secret',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -7,6 +7,8 @@
 import { VerifyExecutorRequestSchema } from '@tpmjs/types/executor';
 import { type NextRequest, NextResponse } from 'next/server';
 
+import { getRequestSession } from '~/lib/api-auth';
+import { decryptExecutorSigningSecret } from '~/lib/crypto/executor-secrets';
 import { verifyExecutor } from '~/lib/executors';
 
 export const runtime = 'nodejs';
@@ -37,7 +39,7 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       );
     }
 
-    const { url, apiKey } = parsed.data;
+    const { url, apiKey, signingSecret } = parsed.data;
 
     // Validate URL format and security
     try {
@@ -93,8 +95,37 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       );
     }
 
+    // Decrypt the signing secret so the test requests are signed like real ones
+    let secret: string | undefined;
+    if (signingSecret) {
+      const session = await getRequestSession();
+      if (!session?.user?.id) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: { code: 'UNAUTHORIZED', message: 'Authentication required for signed requests' },
+          },
+          { status: 401 }
+        );
+      }
+      try {
+        secret = decryptExecutorSigningSecret(signingSecret);
+      } catch (error) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: 'INVALID_SIGNING_SECRET',
+              message: error instanceof Error ? error.message : 'Invalid signing secret',
+            },
+          },
+          { status: 400 }
+        );
+      }
+    }
+
     // Verify the executor
-    const result = await verifyExecutor(url, apiKey);
+    const result = await verifyExecutor(url, apiKey, secret);
 
     return NextResponse.json({
       success: true,
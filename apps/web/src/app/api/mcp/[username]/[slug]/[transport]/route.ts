@@ -1,13 +1,36 @@
 import { prisma } from '@tpmjs/db';
 import { type NextRequest, NextResponse } from 'next/server';
 
-import { handleInitialize, handleToolsCall, handleToolsList } from '~/lib/mcp/handlers';
+import { verifyApiToken } from '~/lib/api-auth';
+import { extractApiToken, MCP_TOKEN_PREFIX, matchesTokenHash } from '~/lib/crypto/api-tokens';
+import {
+  handleInitialize,
+  handlePromptsGet,
+  handlePromptsList,
+  handleResourcesList,
+  handleResourcesRead,
+  handleToolsCall,
+  handleToolsList,
+} from '~/lib/mcp/handlers';
+import {
+  cancelRequest,
+  createMcpSession,
+  deleteMcpSession,
+  getMcpSession,
+  isRequestCancelled,
+  type McpSession,
+  registerInFlightRequest,
+} from '~/lib/mcp/sessions';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 export const maxDuration = 60;
 
 const DB_TIMEOUT_MS = 10000; // 10 second timeout for database queries
+const MCP_SESSION_HEADER = 'Mcp-Session-Id';
+const PROGRESS_INTERVAL_MS = 5000; // Progress notifications while a tool runs
+const SSE_KEEPALIVE_MS = 15000;
+const SERVER_STREAM_DURATION_MS = 55000; // Close GET streams before maxDuration
 
 interface RouteContext {
   params: Promise<{ username: string; slug: string; transport: string }>;
@@ -31,21 +54,62 @@ function withTimeout<T>(promise: Promise<T>, ms: number, errorMessage: string):
 }
 
 /**
- * Find a public collection by username and slug
+ * Check whether the request carries a token that grants access to a private collection.
+ * Accepts either the collection's own MCP token or the owner's personal access token
+ * (with the `collections:read` scope).
  */
-async function getPublicCollectionByUsernameAndSlug(username: string, slug: string) {
-  return withTimeout(
+async function hasPrivateCollectionAccess(
+  request: NextRequest,
+  collection: { userId: string; mcpTokenHash: string | null }
+): Promise<boolean> {
+  const authorization = request.headers.get('authorization');
+
+  const mcpToken = extractApiToken(authorization, MCP_TOKEN_PREFIX);
+  if (mcpToken) {
+    return !!collection.mcpTokenHash && matchesTokenHash(mcpToken, collection.mcpTokenHash);
+  }
+
+  const apiToken = extractApiToken(authorization);
+  if (apiToken) {
+    const verified = await verifyApiToken(apiToken, 'collections:read');
+    return verified?.userId === collection.userId;
+  }
+
+  return false;
+}
+
+/**
+ * Find a collection by username and slug that the request may access.
+ * Public collections are always served; private collections require a token.
+ * Returns null (404) for private collections without valid credentials so their
+ * existence isn't revealed.
+ */
+async function getAccessibleCollection(request: NextRequest, username: string, slug: string) {
+  const collection = await withTimeout(
     prisma.collection.findFirst({
       where: {
         slug,
-        isPublic: true,
         user: { username },
       },
-      select: { id: true, name: true, description: true },
+      select: {
+        id: true,
+        name: true,
+        description: true,
+        isPublic: true,
+        userId: true,
+        mcpTokenHash: true,
+      },
     }),
     DB_TIMEOUT_MS,
     `Database query timed out after ${DB_TIMEOUT_MS}ms`
   );
+
+  if (!collection) return null;
+  if (!collection.isPublic && !(await hasPrivateCollectionAccess(request, collection))) {
+    return null;
+  }
+
+  return { id: collection.id, name: collection.name, description: collection.description };
 }
 
 interface JsonRpcResponse {
@@ -55,31 +119,148 @@ interface JsonRpcResponse {
   error?: { code: number; message: string };
 }
 
+interface ToolsCallParams {
+  name: string;
+  arguments?: Record<string, unknown>;
+  _meta?: { progressToken?: string | number };
+}
+
+const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache',
+  Connection: 'keep-alive',
+};
+
+/**
+ * Format a JSON-RPC message as an SSE event
+ */
+function sseEvent(message: unknown): string {
+  return `data: ${JSON.stringify(message)}\n\n`;
+}
+
+/**
+ * Whether the client accepts an SSE response (always true for the sse transport)
+ */
+function wantsEventStream(request: NextRequest, transport: string): boolean {
+  return transport === 'sse' || (request.headers.get('accept') ?? '').includes('text/event-stream');
+}
+
+/**
+ * Resolve the Mcp-Session-Id header.
+ * Requests without the header are served statelessly (no cancellation support).
+ * Unknown or expired sessions get a 404 so the client re-initializes.
+ */
+async function resolveSession(
+  request: NextRequest,
+  collectionId: string
+): Promise<{ session: McpSession | null; error?: Response }> {
+  const sessionId = request.headers.get(MCP_SESSION_HEADER);
+  if (!sessionId) return { session: null };
+
+  const session = await getMcpSession(sessionId);
+  if (!session || session.collectionId !== collectionId) {
+    return {
+      session: null,
+      error: NextResponse.json(
+        { jsonrpc: '2.0', error: { code: -32001, message: 'Session not found' }, id: null },
+        { status: 404 }
+      ),
+    };
+  }
+  return { session };
+}
+
+/**
+ * Abort signal for a request that a notifications/cancelled can abort, including one received by
+ * another instance (polled every PROGRESS_INTERVAL_MS). Call `done` once the request finishes.
+ */
+function trackCancellation(
+  session: McpSession | null,
+  requestId: string | number | null
+): { signal: AbortSignal; done: () => void } {
+  const abortController = new AbortController();
+  if (!session || requestId === null) {
+    return { signal: abortController.signal, done: () => {} };
+  }
+
+  const unregister = registerInFlightRequest(session.id, requestId, abortController);
+  const pollInterval = setInterval(() => {
+    isRequestCancelled(session.id, requestId)
+      .then((cancelled) => {
+        if (cancelled) abortController.abort();
+      })
+      // Keep polling: a failed check only delays the cancellation to the next tick
+      .catch((error) => console.error('[MCP] Cancellation check failed:', error));
+  }, PROGRESS_INTERVAL_MS);
+
+  return {
+    signal: abortController.signal,
+    done: () => {
+      clearInterval(pollInterval);
+      unregister();
+    },
+  };
+}
+
+/**
+ * Run a tools/call that the client can cancel
+ */
+async function callTool(
+  collectionId: string,
+  body: JsonRpcRequest,
+  session: McpSession | null
+): Promise<JsonRpcResponse> {
+  const { signal, done } = trackCancellation(session, body.id ?? null);
+  try {
+    return await handleToolsCall(collectionId, body.params as ToolsCallParams, body.id ?? null, {
+      signal,
+    });
+  } finally {
+    done();
+  }
+}
+
 /**
  * Process a JSON-RPC request and return the response
  */
 async function processJsonRpcRequest(
   collectionId: string,
   collectionName: string,
-  body: JsonRpcRequest
+  body: JsonRpcRequest,
+  session: McpSession | null
 ): Promise<JsonRpcResponse> {
   const requestId = body.id ?? null;
 
   switch (body.method) {
     case 'initialize':
-      return handleInitialize(collectionName, requestId);
+      return handleInitialize(
+        collectionName,
+        requestId,
+        (body.params as { protocolVersion?: unknown } | undefined)?.protocolVersion
+      );
 
     case 'tools/list':
       return await handleToolsList(collectionId, requestId);
 
     case 'tools/call':
-      return await handleToolsCall(
+      return await callTool(collectionId, body, session);
+
+    case 'resources/list':
+      return await handleResourcesList(collectionId, requestId);
+
+    case 'resources/read':
+      return await handleResourcesRead(collectionId, body.params as { uri?: string }, requestId);
+
+    case 'prompts/list':
+      return await handlePromptsList(collectionId, requestId);
+
+    case 'prompts/get':
+      return await handlePromptsGet(
         collectionId,
-        body.params as { name: string; arguments?: Record<string, unknown> },
+        body.params as { name?: string; arguments?: Record<string, string> },
         requestId
       );
 
-    case 'notifications/initialized':
     case 'ping':
       return { jsonrpc: '2.0', id: requestId, result: {} };
 
@@ -93,116 +274,277 @@ async function processJsonRpcRequest(
 }
 
 /**
- * POST /api/mcp/[username]/[slug]/http
- * Streamable HTTP transport - JSON-RPC over HTTP
+ * Stream a tools/call over SSE.
+ * Sends notifications/progress while the executor runs (when the client supplied a
+ * progressToken), then the JSON-RPC response. A notifications/cancelled for this request
+ * aborts the executor fetch and the stream closes without a response. A client disconnect
+ * stops the events but not the tool (MCP doesn't treat disconnects as cancellation).
  */
-async function handleHttpTransport(
-  request: NextRequest,
+function streamToolsCall(
   collectionId: string,
-  collectionName: string
-): Promise<NextResponse> {
-  let body: JsonRpcRequest;
-  try {
-    body = await request.json();
-  } catch {
-    return NextResponse.json(
-      { jsonrpc: '2.0', error: { code: -32700, message: 'Parse error' }, id: null },
-      { status: 400 }
-    );
-  }
+  body: JsonRpcRequest,
+  session: McpSession | null
+): Response {
+  const encoder = new TextEncoder();
+  const requestId = body.id ?? null;
+  const params = body.params as ToolsCallParams;
+  const progressToken = params?._meta?.progressToken;
+  const { signal, done } = trackCancellation(session, requestId);
+  let closed = false;
+  let progressInterval: ReturnType<typeof setInterval> | undefined;
 
-  const response = await processJsonRpcRequest(collectionId, collectionName, body);
-  return NextResponse.json(response);
-}
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (message: unknown) => {
+        if (!closed) controller.enqueue(encoder.encode(sseEvent(message)));
+      };
 
-/**
- * POST /api/mcp/[username]/[slug]/sse
- * SSE transport - Server-Sent Events for streaming
- */
-async function handleSseTransport(
-  request: NextRequest,
-  collectionId: string,
-  collectionName: string
-): Promise<Response> {
-  let body: JsonRpcRequest;
-  try {
-    body = await request.json();
-  } catch {
-    return new Response(
-      `data: ${JSON.stringify({ jsonrpc: '2.0', error: { code: -32700, message: 'Parse error' }, id: null })}\n\n`,
-      {
-        status: 400,
-        headers: {
-          'Content-Type': 'text/event-stream',
-          'Cache-Control': 'no-cache',
-          Connection: 'keep-alive',
-        },
+      const startedAt = Date.now();
+      let progress = 0;
+      if (progressToken !== undefined) {
+        progressInterval = setInterval(() => {
+          progress += 1;
+          const elapsedSeconds = Math.round((Date.now() - startedAt) / 1000);
+          send({
+            jsonrpc: '2.0',
+            method: 'notifications/progress',
+            params: {
+              progressToken,
+              progress,
+              message: `Running ${params?.name ?? 'tool'} (${elapsedSeconds}s elapsed)`,
+            },
+          });
+        }, PROGRESS_INTERVAL_MS);
       }
-    );
-  }
 
-  const response = await processJsonRpcRequest(collectionId, collectionName, body);
-
-  // For SSE, we send the response as an event and then close
-  const encoder = new TextEncoder();
-  const stream = new ReadableStream({
-    start(controller) {
-      // Send the JSON-RPC response as an SSE event
-      const eventData = `data: ${JSON.stringify(response)}\n\n`;
-      controller.enqueue(encoder.encode(eventData));
-      controller.close();
+      try {
+        const response = await handleToolsCall(collectionId, params, requestId, { signal });
+        // Cancelled requests get no response
+        if (!signal.aborted) {
+          send(response);
+        }
+      } finally {
+        clearInterval(progressInterval);
+        done();
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
     },
-  });
-
-  return new Response(stream, {
-    headers: {
-      'Content-Type': 'text/event-stream',
-      'Cache-Control': 'no-cache',
-      Connection: 'keep-alive',
+    cancel() {
+      closed = true;
+      clearInterval(progressInterval);
     },
   });
+
+  return new Response(stream, { headers: SSE_HEADERS });
 }
 
 /**
- * GET /api/mcp/[username]/[slug]/sse
- * SSE endpoint for establishing event stream connection
+ * GET stream for server-to-client messages.
+ * The server has no unsolicited messages yet, so this only sends keep-alive comments and
+ * closes before the function time limit; clients reconnect as needed.
  */
-function handleSseGet(
-  username: string,
-  slug: string,
-  collectionName: string,
-  collectionDescription: string | null
-): Response {
+function openServerStream(request: NextRequest): Response {
   const encoder = new TextEncoder();
+  let keepAliveInterval: ReturnType<typeof setInterval> | undefined;
+  let closeTimeout: ReturnType<typeof setTimeout> | undefined;
+
   const stream = new ReadableStream({
     start(controller) {
-      // Send server info as initial event
-      const serverInfo = {
-        type: 'server_info',
-        name: `TPMJS: ${collectionName}`,
-        description: collectionDescription,
-        protocol: 'mcp',
-        transport: 'sse',
-        endpoint: `/api/mcp/${username}/${slug}/sse`,
+      let closed = false;
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(keepAliveInterval);
+        clearTimeout(closeTimeout);
+        controller.close();
       };
-      const eventData = `data: ${JSON.stringify(serverInfo)}\n\n`;
-      controller.enqueue(encoder.encode(eventData));
-      // Keep connection open for future events
-    },
-  });
 
-  return new Response(stream, {
-    headers: {
-      'Content-Type': 'text/event-stream',
-      'Cache-Control': 'no-cache',
-      Connection: 'keep-alive',
+      controller.enqueue(encoder.encode(': connected\n\n'));
+      keepAliveInterval = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(': keep-alive\n\n'));
+      }, SSE_KEEPALIVE_MS);
+      closeTimeout = setTimeout(close, SERVER_STREAM_DURATION_MS);
+      request.signal.addEventListener('abort', close, { once: true });
+    },
+    cancel() {
+      clearInterval(keepAliveInterval);
+      clearTimeout(closeTimeout);
     },
   });
+
+  return new Response(stream, { headers: SSE_HEADERS });
+}
+
+/**
+ * Whether a parsed value is a JSON-RPC request or notification
+ */
+function isJsonRpcRequest(message: unknown): message is JsonRpcRequest {
+  return (
+    !!message &&
+    typeof message === 'object' &&
+    !Array.isArray(message) &&
+    (message as { jsonrpc?: unknown }).jsonrpc === '2.0' &&
+    typeof (message as { method?: unknown }).method === 'string'
+  );
+}
+
+/**
+ * Whether a parsed value is a JSON-RPC response (the client answering a server request)
+ */
+function isJsonRpcResponse(message: unknown): boolean {
+  return (
+    !!message &&
+    typeof message === 'object' &&
+    'id' in message &&
+    ('result' in message || 'error' in message)
+  );
+}
+
+function invalidRequest(id: string | number | null = null): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, error: { code: -32600, message: 'Invalid Request' } };
+}
+
+/**
+ * Handle a client notification (a request without an id)
+ */
+async function handleNotification(body: JsonRpcRequest, session: McpSession | null) {
+  if (body.method === 'notifications/cancelled') {
+    const { requestId } = (body.params ?? {}) as { requestId?: string | number };
+    if (session && requestId !== undefined) {
+      await cancelRequest(session.id, requestId);
+    }
+  }
+  // notifications/initialized and others need no action
+}
+
+/**
+ * Send a JSON-RPC payload as JSON, or as a single SSE event for the sse transport
+ */
+function respond(
+  payload: JsonRpcResponse | JsonRpcResponse[],
+  transport: string,
+  headers: Record<string, string> = {}
+): Response {
+  if (transport === 'sse') {
+    return new Response(sseEvent(payload), { headers: { ...SSE_HEADERS, ...headers } });
+  }
+  return NextResponse.json(payload, { headers });
+}
+
+/**
+ * Handle a JSON-RPC batch. Requests run in parallel and are answered together;
+ * notifications and responses in the batch produce no output.
+ * initialize must be sent on its own (it creates the session).
+ */
+async function handleBatch(
+  request: NextRequest,
+  transport: string,
+  collection: { id: string; name: string },
+  batch: unknown[]
+): Promise<Response> {
+  if (batch.length === 0) {
+    return NextResponse.json(invalidRequest(), { status: 400 });
+  }
+
+  const { session, error: sessionError } = await resolveSession(request, collection.id);
+  if (sessionError) return sessionError;
+
+  const responses = await Promise.all(
+    batch.map(async (message): Promise<JsonRpcResponse | null> => {
+      if (!isJsonRpcRequest(message)) {
+        return isJsonRpcResponse(message) ? null : invalidRequest();
+      }
+      if (message.id === undefined) {
+        await handleNotification(message, session);
+        return null;
+      }
+      if (message.method === 'initialize') {
+        return {
+          jsonrpc: '2.0',
+          id: message.id,
+          error: { code: -32600, message: 'initialize must not be part of a batch' },
+        };
+      }
+      return processJsonRpcRequest(collection.id, collection.name, message, session);
+    })
+  );
+
+  const results = responses.filter((response): response is JsonRpcResponse => response !== null);
+  if (results.length === 0) {
+    return new Response(null, { status: 202 });
+  }
+  return respond(results, transport);
+}
+
+/**
+ * Handle a JSON-RPC message (or batch) for an accessible collection
+ */
+async function handleMessage(
+  request: NextRequest,
+  transport: string,
+  collection: { id: string; name: string },
+  body: unknown
+): Promise<Response> {
+  if (Array.isArray(body)) {
+    return handleBatch(request, transport, collection, body);
+  }
+
+  if (!isJsonRpcRequest(body)) {
+    // Responses to server requests are acknowledged; anything else is malformed
+    if (isJsonRpcResponse(body)) return new Response(null, { status: 202 });
+    return NextResponse.json(invalidRequest(), { status: 400 });
+  }
+
+  // initialize starts a new session
+  if (body.method === 'initialize') {
+    const response = handleInitialize(
+      collection.name,
+      body.id ?? null,
+      (body.params as { protocolVersion?: unknown } | undefined)?.protocolVersion
+    );
+    const { protocolVersion } = response.result as { protocolVersion: string };
+    let session: McpSession;
+    try {
+      session = await createMcpSession(collection.id, protocolVersion);
+    } catch (error) {
+      console.error('[MCP] Failed to create session:', error);
+      return NextResponse.json(
+        {
+          jsonrpc: '2.0',
+          error: { code: -32603, message: 'Failed to create session, please retry' },
+          id: body.id ?? null,
+        },
+        { status: 500 }
+      );
+    }
+    return respond(response, transport, { [MCP_SESSION_HEADER]: session.id });
+  }
+
+  const { session, error: sessionError } = await resolveSession(request, collection.id);
+  if (sessionError) return sessionError;
+
+  // Notifications get 202 Accepted with no body
+  if (body.id === undefined) {
+    await handleNotification(body, session);
+    return new Response(null, { status: 202 });
+  }
+
+  if (body.method === 'tools/call' && wantsEventStream(request, transport)) {
+    return streamToolsCall(collection.id, body, session);
+  }
+
+  const response = await processJsonRpcRequest(collection.id, collection.name, body, session);
+  return respond(response, transport);
 }
 
 /**
  * POST /api/mcp/[username]/[slug]/[transport]
- * MCP JSON-RPC endpoint for tool execution
+ * Streamable HTTP transport - JSON-RPC over HTTP.
+ * Responds with JSON, or with an SSE stream for tools/call when the client accepts
+ * text/event-stream (always for the sse transport).
  */
 export async function POST(request: NextRequest, context: RouteContext): Promise<Response> {
   try {
@@ -219,7 +561,7 @@ export async function POST(request: NextRequest, context: RouteContext): Promise
       );
     }
 
-    const collection = await getPublicCollectionByUsernameAndSlug(username, slug);
+    const collection = await getAccessibleCollection(request, username, slug);
 
     if (!collection) {
       return NextResponse.json(
@@ -228,11 +570,17 @@ export async function POST(request: NextRequest, context: RouteContext): Promise
       );
     }
 
-    if (transport === 'sse') {
-      return handleSseTransport(request, collection.id, collection.name);
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { jsonrpc: '2.0', error: { code: -32700, message: 'Parse error' }, id: null },
+        { status: 400 }
+      );
     }
 
-    return handleHttpTransport(request, collection.id, collection.name);
+    return await handleMessage(request, transport, collection, body);
   } catch (error) {
     console.error('[MCP POST] Error:', error);
     const message = error instanceof Error ? error.message : 'Internal server error';
@@ -245,9 +593,10 @@ export async function POST(request: NextRequest, context: RouteContext): Promise
 
 /**
  * GET /api/mcp/[username]/[slug]/[transport]
- * Returns server info (for http) or establishes SSE connection (for sse)
+ * Opens the server-to-client SSE stream (Accept: text/event-stream, or the sse transport);
+ * otherwise returns server info
  */
-export async function GET(_request: NextRequest, context: RouteContext): Promise<Response> {
+export async function GET(request: NextRequest, context: RouteContext): Promise<Response> {
   try {
     const { username, slug, transport } = await context.params;
 
@@ -255,14 +604,16 @@ export async function GET(_request: NextRequest, context: RouteContext): Promise
       return NextResponse.json({ error: `Invalid transport: ${transport}` }, { status: 400 });
     }
 
-    const collection = await getPublicCollectionByUsernameAndSlug(username, slug);
+    const collection = await getAccessibleCollection(request, username, slug);
 
     if (!collection) {
       return NextResponse.json({ error: 'Collection not found' }, { status: 404 });
     }
 
-    if (transport === 'sse') {
-      return handleSseGet(username, slug, collection.name, collection.description);
+    if (wantsEventStream(request, transport)) {
+      const { error: sessionError } = await resolveSession(request, collection.id);
+      if (sessionError) return sessionError;
+      return openServerStream(request);
     }
 
     // HTTP transport - return server info
@@ -279,3 +630,32 @@ export async function GET(_request: NextRequest, context: RouteContext): Promise
     return NextResponse.json({ error: message }, { status: 500 });
   }
 }
+
+/**
+ * DELETE /api/mcp/[username]/[slug]/[transport]
+ * Terminates the session named by the Mcp-Session-Id header
+ */
+export async function DELETE(request: NextRequest, context: RouteContext): Promise<Response> {
+  try {
+    const { username, slug } = await context.params;
+
+    const collection = await getAccessibleCollection(request, username, slug);
+
+    if (!collection) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 });
+    }
+
+    const { session, error: sessionError } = await resolveSession(request, collection.id);
+    if (sessionError) return sessionError;
+    if (!session) {
+      return NextResponse.json({ error: `Missing ${MCP_SESSION_HEADER} header` }, { status: 400 });
+    }
+
+    await deleteMcpSession(session.id);
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    console.error('[MCP DELETE] Error:', error);
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
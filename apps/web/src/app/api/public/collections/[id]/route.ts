@@ -108,6 +108,7 @@ export async function GET(
           toolId: ct.toolId,
           position: ct.position,
           note: ct.note,
+          version: ct.version,
           addedAt: ct.addedAt,
           tool: {
             id: ct.tool.id,
@@ -93,6 +93,7 @@ export async function GET(_request: NextRequest, context: RouteContext) {
           toolId: ct.toolId,
           position: ct.position,
           note: ct.note,
+          version: ct.version,
           tool: ct.tool,
         })),
       },
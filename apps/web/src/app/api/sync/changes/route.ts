@@ -5,11 +5,14 @@ import type { TpmjsToolDefinition } from '@tpmjs/types/tpmjs';
 import { type NextRequest, NextResponse } from 'next/server';
 import { env } from '~/env';
 import { performHealthCheck } from '~/lib/health-check/health-check-service';
+import { recordPackageVersion, recordToolVersion } from '~/lib/package-versions';
+import { resolvePackagePublisher } from '~/lib/publishers/verification';
 import {
   convertJsonSchemaToParameters,
   extractToolSchema,
   listToolExports,
 } from '~/lib/schema-extraction';
+import { indexPackageSearchTerms } from '~/lib/search/inverted-index';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -88,6 +91,9 @@ export async function POST(request: NextRequest) {
         // Extract repository URL and GitHub stars
         const githubStars: number | null = null;
 
+        // Who published this version, and whether they are a verified publisher
+        const publisher = await resolvePackagePublisher(pkg);
+
         // Upsert Package record
         const packageRecord = await prisma.package.upsert({
           where: { npmPackageName: pkg.name },
@@ -108,7 +114,7 @@ export async function POST(request: NextRequest) {
             frameworks: validation.packageData.frameworks || [],
             tier: validation.tier || 'minimal',
             discoveryMethod: 'changes-feed',
-            isOfficial: pkg.keywords?.includes('tpmjs') || false,
+            ...publisher,
             npmDownloadsLastMonth: 0, // Will be updated by metrics sync
             githubStars: githubStars,
           },
@@ -127,10 +133,17 @@ export async function POST(request: NextRequest) {
             env: validation.packageData.env ?? undefined,
             frameworks: validation.packageData.frameworks || [],
             tier: validation.tier || 'minimal',
-            isOfficial: pkg.keywords?.includes('tpmjs') || false,
+            ...publisher,
           },
         });
 
+        // Keep this version's tpmjs field, schemas and health in the version history
+        const packageVersion = await recordPackageVersion(packageRecord.id, {
+          version: pkg.version,
+          publishedAt: pkg.publishedAt,
+          tpmjs: pkg.tpmjs,
+        });
+
         // Get existing tools for this package
         const existingTools = await prisma.tool.findMany({
           where: { packageId: packageRecord.id },
@@ -246,6 +259,8 @@ export async function POST(request: NextRequest) {
             });
           }
 
+          await recordToolVersion(packageVersion.id, toolName, toolDef, schemaResult);
+
           // Trigger health check (non-blocking) for execution testing
           performHealthCheck(upsertedTool.id, 'sync').catch((err) => {
             console.error(
@@ -269,6 +284,9 @@ export async function POST(request: NextRequest) {
           console.log(`Deleted ${orphanedTools.length} orphaned tools from package: ${pkg.name}`);
         }
 
+        // Keep the search index in step with the package's tools
+        await indexPackageSearchTerms(packageRecord.id);
+
         processed++;
       } catch (error) {
         errors++;
@@ -0,0 +1,110 @@
+import { prisma } from '@tpmjs/db';
+import { type NextRequest, NextResponse } from 'next/server';
+import { env } from '~/env';
+import { findStaleToolIds, indexToolEmbeddings, searchEmbedder } from '~/lib/search/semantic';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300; // 5 minutes max for cron jobs
+
+// Tools embedded per run and per batch
+const MAX_TOOLS_PER_RUN = 5000;
+const BATCH_SIZE = 100;
+
+/**
+ * POST /api/sync/embeddings
+ * Embed new and changed tools for semantic search
+ *
+ * This endpoint is called by Vercel Cron (every 6 hours)
+ * Requires Authorization: Bearer <CRON_SECRET>
+ */
+export async function POST(request: NextRequest) {
+  // Verify cron secret for security
+  const authHeader = request.headers.get('authorization');
+  const token = authHeader?.replace('Bearer ', '');
+
+  if (env.CRON_SECRET && token !== env.CRON_SECRET) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const startTime = Date.now();
+  const model = searchEmbedder().id;
+  let processed = 0;
+  let skipped = 0;
+
+  try {
+    const staleIds = await findStaleToolIds(MAX_TOOLS_PER_RUN);
+
+    for (let i = 0; i < staleIds.length; i += BATCH_SIZE) {
+      const batch = staleIds.slice(i, i + BATCH_SIZE);
+      const embedded = await indexToolEmbeddings(batch);
+      processed += embedded;
+      skipped += batch.length - embedded;
+    }
+
+    await prisma.syncCheckpoint.upsert({
+      where: { source: 'embeddings' },
+      create: {
+        source: 'embeddings',
+        checkpoint: { lastRun: new Date().toISOString(), model },
+      },
+      update: {
+        checkpoint: { lastRun: new Date().toISOString(), model },
+      },
+    });
+
+    await prisma.syncLog.create({
+      data: {
+        source: 'embeddings',
+        status: 'success',
+        processed,
+        skipped,
+        errors: 0,
+        message: `Embedded ${processed} tools with ${model}`,
+        metadata: {
+          durationMs: Date.now() - startTime,
+          staleTools: staleIds.length,
+          model,
+        },
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        processed,
+        skipped,
+        model,
+        // More stale tools remain for the next run
+        hasMore: staleIds.length === MAX_TOOLS_PER_RUN,
+        durationMs: Date.now() - startTime,
+      },
+    });
+  } catch (error) {
+    console.error('Embeddings sync failed:', error);
+
+    await prisma.syncLog.create({
+      data: {
+        source: 'embeddings',
+        status: 'error',
+        processed,
+        skipped,
+        errors: 1,
+        message: error instanceof Error ? error.message : 'Unknown error',
+        metadata: {
+          durationMs: Date.now() - startTime,
+          model,
+        },
+      },
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Sync failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
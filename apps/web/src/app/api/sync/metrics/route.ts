@@ -1,7 +1,9 @@
-import { prisma } from '@tpmjs/db';
+import { type Prisma, prisma } from '@tpmjs/db';
 import { fetchDownloadStats, fetchGitHubStarsFromRepository } from '@tpmjs/npm-client';
 import { type NextRequest, NextResponse } from 'next/server';
 import { env } from '~/env';
+import { computeQualityScore } from '~/lib/quality/score';
+import { loadExecutionSignals, loadHealthSignal } from '~/lib/quality/signals';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -38,6 +40,13 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    // Execution outcomes of agent conversations and playground runs, for all tools at once
+    const executionSignals = await loadExecutionSignals(
+      packages.flatMap((pkg) =>
+        pkg.tools.map((tool) => ({ ...tool, package: { npmPackageName: pkg.npmPackageName } }))
+      )
+    );
+
     // Process each package
     for (const pkg of packages) {
       try {
@@ -60,19 +69,22 @@ export async function POST(request: NextRequest) {
 
         // Calculate and update quality score for each tool in this package
         for (const tool of pkg.tools) {
-          const qualityScore = calculateQualityScore({
-            tier: pkg.tier, // Tier is at package level
+          const breakdown = computeQualityScore({
+            health: await loadHealthSignal(tool.id),
+            executions: executionSignals.get(tool.id) ?? { succeeded: 0, failed: 0 },
+            inputSchema: tool.inputSchema,
+            parameters: tool.parameters,
+            likeCount: tool.likeCount,
+            publishedAt: pkg.npmPublishedAt,
             downloads, // Package downloads
             githubStars, // Use freshly fetched stars
-            hasParameters: !!tool.parameters,
-            hasReturns: !!tool.returns,
-            hasAiAgent: !!tool.aiAgent,
           });
 
           await prisma.tool.update({
             where: { id: tool.id },
             data: {
-              qualityScore,
+              qualityScore: breakdown.score,
+              qualityBreakdown: breakdown as unknown as Prisma.InputJsonValue,
             },
           });
         }
@@ -165,45 +177,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
-/**
- * Calculate quality score based on multiple factors
- * Returns a value between 0.00 and 1.00
- *
- * Score components:
- * - Tier (0.4 minimal, 0.6 rich)
- * - Downloads (logarithmic, max 0.2)
- * - GitHub stars (logarithmic, max 0.1)
- * - Tool metadata richness (0.1 for each: parameters, returns, aiAgent)
- */
-function calculateQualityScore(params: {
-  tier: string;
-  downloads: number;
-  githubStars: number;
-  hasParameters: boolean;
-  hasReturns: boolean;
-  hasAiAgent: boolean;
-}): number {
-  const { tier, downloads, githubStars, hasParameters, hasReturns, hasAiAgent } = params;
-
-  // Base score from tier
-  const tierScore = tier === 'rich' ? 0.6 : 0.4;
-
-  // Downloads score (logarithmic scale, max 0.2)
-  const downloadsScore = Math.min(0.2, Math.log10(downloads + 1) / 15);
-
-  // GitHub stars score (logarithmic scale, max 0.1)
-  const starsScore = Math.min(0.1, Math.log10(githubStars + 1) / 10);
-
-  // Tool metadata richness score (max 0.1)
-  let richnessScore = 0;
-  if (hasParameters) richnessScore += 0.04;
-  if (hasReturns) richnessScore += 0.03;
-  if (hasAiAgent) richnessScore += 0.03;
-
-  // Total score (capped at 1.00)
-  const totalScore = Math.min(1.0, tierScore + downloadsScore + starsScore + richnessScore);
-
-  // Round to 2 decimal places
-  return Math.round(totalScore * 100) / 100;
-}
@@ -5,11 +5,14 @@ import { validateTpmjsField } from '@tpmjs/types/tpmjs';
 import { type NextRequest, NextResponse } from 'next/server';
 import { env } from '~/env';
 import { performHealthCheck } from '~/lib/health-check/health-check-service';
+import { recordPackageVersion, recordToolVersion } from '~/lib/package-versions';
+import { resolvePackagePublisher } from '~/lib/publishers/verification';
 import {
   convertJsonSchemaToParameters,
   extractToolSchema,
   listToolExports,
 } from '~/lib/schema-extraction';
+import { indexPackageSearchTerms } from '~/lib/search/inverted-index';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -100,6 +103,9 @@ export async function POST(request: NextRequest) {
           ? pkg.author.name
           : 'unknown';
 
+    // Who published this version, and whether they are a verified publisher
+    const publisher = await resolvePackagePublisher(pkg);
+
     // Upsert Package record
     const packageRecord = await prisma.package.upsert({
       where: { npmPackageName: pkg.name },
@@ -120,7 +126,7 @@ export async function POST(request: NextRequest) {
         frameworks: packageData.frameworks || [],
         tier: validation.tier || 'minimal',
         discoveryMethod: 'manual',
-        isOfficial: false,
+        ...publisher,
         npmDownloadsLastMonth: 0,
         githubStars: null,
       },
@@ -139,9 +145,17 @@ export async function POST(request: NextRequest) {
         env: packageData.env ?? undefined,
         frameworks: packageData.frameworks || [],
         tier: validation.tier || 'minimal',
+        ...publisher,
       },
     });
 
+    // Keep this version's tpmjs field, schemas and health in the version history
+    const packageVersion = await recordPackageVersion(packageRecord.id, {
+      version: pkg.version,
+      publishedAt: pkg.publishedAt,
+      tpmjs: pkg.tpmjs,
+    });
+
     // Determine tools to process
     let toolsToProcess: TpmjsToolDefinition[] = validation.tools || [];
     let toolDiscoverySource: 'auto' | 'manual' = 'manual';
@@ -238,6 +252,8 @@ export async function POST(request: NextRequest) {
         });
       }
 
+      await recordToolVersion(packageVersion.id, toolName, toolDef, schemaResult);
+
       // Trigger health check
       performHealthCheck(upsertedTool.id, 'sync').catch((err) => {
         console.error(`Health check failed for ${pkg.name}/${toolName}:`, err);
@@ -246,6 +262,9 @@ export async function POST(request: NextRequest) {
       syncedTools.push(toolName);
     }
 
+    // Keep the search index in step with the package's tools
+    await indexPackageSearchTerms(packageRecord.id);
+
     return NextResponse.json({
       success: true,
       data: {
@@ -0,0 +1,106 @@
+import { prisma } from '@tpmjs/db';
+import { type NextRequest, NextResponse } from 'next/server';
+import { env } from '~/env';
+import { findStaleSearchToolIds, indexToolSearchTerms } from '~/lib/search/inverted-index';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300; // 5 minutes max for cron jobs
+
+// Tools indexed per run and per batch
+const MAX_TOOLS_PER_RUN = 5000;
+const BATCH_SIZE = 100;
+
+/**
+ * POST /api/sync/search-index
+ * Index tools the package syncs missed (new tools, backfills, failed syncs) for keyword search
+ *
+ * This endpoint is called by Vercel Cron (every hour)
+ * Requires Authorization: Bearer <CRON_SECRET>
+ */
+export async function POST(request: NextRequest) {
+  // Verify cron secret for security
+  const authHeader = request.headers.get('authorization');
+  const token = authHeader?.replace('Bearer ', '');
+
+  if (env.CRON_SECRET && token !== env.CRON_SECRET) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const startTime = Date.now();
+  let processed = 0;
+  let skipped = 0;
+
+  try {
+    const staleIds = await findStaleSearchToolIds(MAX_TOOLS_PER_RUN);
+
+    for (let i = 0; i < staleIds.length; i += BATCH_SIZE) {
+      const batch = staleIds.slice(i, i + BATCH_SIZE);
+      const indexed = await indexToolSearchTerms(batch);
+      processed += indexed;
+      skipped += batch.length - indexed;
+    }
+
+    await prisma.syncCheckpoint.upsert({
+      where: { source: 'search-index' },
+      create: {
+        source: 'search-index',
+        checkpoint: { lastRun: new Date().toISOString() },
+      },
+      update: {
+        checkpoint: { lastRun: new Date().toISOString() },
+      },
+    });
+
+    await prisma.syncLog.create({
+      data: {
+        source: 'search-index',
+        status: 'success',
+        processed,
+        skipped,
+        errors: 0,
+        message: `Indexed ${processed} tools`,
+        metadata: {
+          durationMs: Date.now() - startTime,
+          staleTools: staleIds.length,
+        },
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        processed,
+        skipped,
+        // More stale tools remain for the next run
+        hasMore: staleIds.length === MAX_TOOLS_PER_RUN,
+        durationMs: Date.now() - startTime,
+      },
+    });
+  } catch (error) {
+    console.error('Search index sync failed:', error);
+
+    await prisma.syncLog.create({
+      data: {
+        source: 'search-index',
+        status: 'error',
+        processed,
+        skipped,
+        errors: 1,
+        message: error instanceof Error ? error.message : 'Unknown error',
+        metadata: {
+          durationMs: Date.now() - startTime,
+        },
+      },
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Sync failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
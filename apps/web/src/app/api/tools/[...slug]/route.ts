@@ -205,6 +205,9 @@ export async function POST(
         executionStatus: result.executionStatus,
         executionError: result.executionError,
         executionTimeMs: result.executionTimeMs,
+        executionErrorCode: result.executionErrorCode,
+        executionMetrics: result.executionMetrics,
+        resolvedVersion: result.resolvedVersion,
         overallStatus: result.overallStatus,
       },
     });
@@ -130,6 +130,10 @@ export async function POST(
             (tokens) => {
               // Stream token updates
               sendEvent('tokens', tokens);
+            },
+            (report) => {
+              // Executor logs, metrics and error code for each tool call
+              sendEvent('execution', report);
             }
           );
 
@@ -1,72 +1,19 @@
 import { prisma } from '@tpmjs/db';
+import { ExecutorErrorCodeSchema } from '@tpmjs/types/executor';
 import { type NextRequest, NextResponse } from 'next/server';
+import { isNonBreakingError } from '~/lib/health-check/error-classification';
 import { checkRateLimit } from '~/lib/rate-limit';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
-/**
- * Check if an error is due to missing environment variables (configuration issue)
- * rather than a broken tool (code issue)
- */
-function isEnvironmentConfigError(error: string): boolean {
-  const envErrorPatterns = [
-    /is required/i,
-    /is not set/i,
-    /missing.*environment/i,
-    /environment.*missing/i,
-    /api key.*required/i,
-    /api key.*not provided/i,
-    /missing.*api key/i,
-    /must be set/i,
-    /not found.*environment/i,
-    /please set/i,
-    /please provide/i,
-    /configure.*environment/i,
-  ];
-
-  return envErrorPatterns.some((pattern) => pattern.test(error));
-}
-
-/**
- * Check if an error is due to input validation (Zod validation, URL format, etc.)
- * These errors mean the tool is working correctly - it's validating input as expected
- */
-function isInputValidationError(error: string): boolean {
-  const validationErrorPatterns = [
-    /must have a valid.*domain/i,
-    /valid.*path/i,
-    /invalid.*url/i,
-    /invalid.*format/i,
-    /expected.*received/i,
-    /must be.*string/i,
-    /must be.*number/i,
-    /must be.*boolean/i,
-    /must be.*array/i,
-    /must be.*object/i,
-    /validation.*failed/i,
-    /does not match/i,
-    /too short/i,
-    /too long/i,
-    /minimum.*length/i,
-    /maximum.*length/i,
-  ];
-
-  return validationErrorPatterns.some((pattern) => pattern.test(error));
-}
-
-/**
- * Check if an error is a configuration or input issue (not a broken tool)
- */
-function isNonBreakingError(error: string): boolean {
-  return isEnvironmentConfigError(error) || isInputValidationError(error);
-}
-
 interface ReportHealthRequest {
   packageName: string;
   name: string;
   success: boolean;
   error?: string;
+  /** Executor error code (see ExecutorErrorCode); preferred over matching the message */
+  errorCode?: string;
 }
 
 /**
@@ -76,7 +23,8 @@ interface ReportHealthRequest {
  * All health status logic is here - playground and other clients just report results.
  *
  * This endpoint determines whether a failure should mark the tool as BROKEN or HEALTHY
- * based on the error type (env vars, validation = HEALTHY, infrastructure = BROKEN).
+ * based on the error type (env vars, validation = HEALTHY, infrastructure = BROKEN),
+ * using the executor's `errorCode` when it sends one.
  */
 export async function POST(request: NextRequest): Promise<NextResponse> {
   // Check rate limit
@@ -88,6 +36,8 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
   try {
     const body: ReportHealthRequest = await request.json();
     const { packageName, name, success, error } = body;
+    // Unknown codes (e.g. from newer executors) fall back to matching the message
+    const errorCode = ExecutorErrorCodeSchema.safeParse(body.errorCode).data;
 
     if (!packageName || !name) {
       return NextResponse.json(
@@ -116,7 +66,7 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     if (success) {
       // Successful execution = HEALTHY
       healthStatus = 'HEALTHY';
-    } else if (error && isNonBreakingError(error)) {
+    } else if (error && isNonBreakingError(error, errorCode)) {
       // Failed due to config/validation = HEALTHY (tool works, just needs setup)
       healthStatus = 'HEALTHY';
       console.log(`ℹ️  ${packageName}/${name} failed due to config issue (not broken): ${error}`);
@@ -1,7 +1,22 @@
-import { type Prisma, prisma } from '@tpmjs/db';
+import { prisma } from '@tpmjs/db';
+import type { ToolFacets } from '@tpmjs/types/tool';
 import { kv } from '@vercel/kv';
 import { type NextRequest, NextResponse } from 'next/server';
 import { checkRateLimit } from '~/lib/rate-limit';
+import {
+  type FacetCountRow,
+  type FacetFilters,
+  facetCountsSql,
+  facetsFromCounts,
+  facetWhere,
+  parseFacetFilters,
+} from '~/lib/search/facets';
+import {
+  parseToolListFilters,
+  type ToolListFilters,
+  toolListWhere,
+  toolListWhereSql,
+} from '~/lib/search/tool-filters';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -41,10 +56,6 @@ const MAX_LIMIT = 1000;
 const MIN_LIMIT = 1;
 const API_VERSION = '1.0.0';
 
-// Valid enum values
-const VALID_HEALTH_STATUSES = ['HEALTHY', 'BROKEN', 'UNKNOWN'] as const;
-type HealthStatus = (typeof VALID_HEALTH_STATUSES)[number];
-
 /**
  * Standard API response structure
  */
@@ -67,6 +78,7 @@ interface ApiResponse<T = unknown> {
     count: number;
     hasMore: boolean;
   };
+  facets?: ToolFacets;
 }
 
 /**
@@ -78,95 +90,6 @@ interface ValidationError {
   received?: unknown;
 }
 
-/**
- * Validate health status parameter
- */
-function validateHealthStatus(value: string | null, fieldName: string): HealthStatus | null {
-  if (!value) return null;
-  if (VALID_HEALTH_STATUSES.includes(value as HealthStatus)) {
-    return value as HealthStatus;
-  }
-  throw new Error(`Invalid ${fieldName}: must be one of ${VALID_HEALTH_STATUSES.join(', ')}`);
-}
-
-/**
- * Build health filters from query parameters
- */
-function buildHealthFilters(
-  brokenParam: string | null,
-  importHealth: string | null,
-  executionHealth: string | null
-): Prisma.ToolWhereInput[] {
-  const healthFilters: Prisma.ToolWhereInput[] = [];
-
-  if (brokenParam === 'true') {
-    healthFilters.push({
-      OR: [{ importHealth: 'BROKEN' }, { executionHealth: 'BROKEN' }],
-    });
-  } else {
-    const validImportHealth = validateHealthStatus(importHealth, 'importHealth');
-    const validExecutionHealth = validateHealthStatus(executionHealth, 'executionHealth');
-
-    if (validImportHealth) {
-      healthFilters.push({ importHealth: validImportHealth });
-    }
-    if (validExecutionHealth) {
-      healthFilters.push({ executionHealth: validExecutionHealth });
-    }
-  }
-
-  return healthFilters;
-}
-
-/**
- * Build package filters from query parameters
- */
-function buildPackageFilter(
-  category: string | null,
-  officialParam: string | null
-): Prisma.PackageWhereInput {
-  const packageFilter: Prisma.PackageWhereInput = {};
-
-  if (category) {
-    packageFilter.category = category;
-  }
-
-  if (officialParam !== null) {
-    packageFilter.isOfficial = officialParam === 'true';
-  }
-
-  return packageFilter;
-}
-
-/**
- * Build where clause for tool query
- */
-function buildWhereClause(
-  query: string | null,
-  packageFilter: Prisma.PackageWhereInput,
-  healthFilters: Prisma.ToolWhereInput[]
-): Prisma.ToolWhereInput {
-  const where: Prisma.ToolWhereInput = {};
-
-  // Search filter (searches tool description and package name)
-  if (query) {
-    where.OR = [
-      { description: { contains: query, mode: 'insensitive' } },
-      { package: { npmPackageName: { contains: query, mode: 'insensitive' }, ...packageFilter } },
-    ];
-  } else if (Object.keys(packageFilter).length > 0) {
-    // Apply package filter if no search query
-    where.package = packageFilter;
-  }
-
-  // Apply health filters as AND conditions
-  if (healthFilters.length > 0) {
-    where.AND = healthFilters;
-  }
-
-  return where;
-}
-
 /**
  * Create standardized error response
  */
@@ -252,10 +175,18 @@ function validatePagination(
  * Query params:
  * - q: Search query (searches package name, tool description)
  * - category: Filter by category
+ * - framework: Filter by supported framework (e.g. vercel-ai)
+ * - license: Filter by npm license (e.g. MIT)
+ * - tier: Filter by metadata tier (minimal, rich)
+ * - health: Filter by overall health (HEALTHY, BROKEN, UNKNOWN)
+ * - env: Filter by env var requirements (none = needs no API keys, required)
+ * - quality: Filter by quality bucket (high ≥ 0.7, medium ≥ 0.4, low, unscored)
  * - official: Filter by official status (true/false)
  * - importHealth: Filter by import health (HEALTHY, BROKEN, UNKNOWN)
  * - executionHealth: Filter by execution health (HEALTHY, BROKEN, UNKNOWN)
  * - broken: Shorthand for "at least one health check failed" (true/false)
+ * - facets: Include tool counts per category, framework, license, tier, health, env and
+ *   quality for the current query and filters (true/false)
  * - limit: Results per page (default: 20, max: 1000, min: 1)
  * - offset: Pagination offset (default: 0, min: 0)
  *
@@ -276,13 +207,9 @@ export async function GET(request: NextRequest) {
 
     // Parse query parameters
     const query = searchParams.get('q');
-    const category = searchParams.get('category');
-    const officialParam = searchParams.get('official');
-    const importHealth = searchParams.get('importHealth');
-    const executionHealth = searchParams.get('executionHealth');
-    const brokenParam = searchParams.get('broken');
     const limitParam = searchParams.get('limit');
     const offsetParam = searchParams.get('offset');
+    const includeFacets = searchParams.get('facets') === 'true';
 
     // Build cache key from query params
     const cacheKey = `${CACHE_PREFIX}${searchParams.toString() || 'default'}`;
@@ -317,14 +244,12 @@ export async function GET(request: NextRequest) {
     }
 
     // Build filters with validation
-    let packageFilter: Prisma.PackageWhereInput;
-    let healthFilters: Prisma.ToolWhereInput[];
-    let where: Prisma.ToolWhereInput;
+    let listFilters: ToolListFilters;
+    let facetFilters: FacetFilters;
 
     try {
-      packageFilter = buildPackageFilter(category, officialParam);
-      healthFilters = buildHealthFilters(brokenParam, importHealth, executionHealth);
-      where = buildWhereClause(query, packageFilter, healthFilters);
+      listFilters = parseToolListFilters(searchParams);
+      facetFilters = parseFacetFilters(searchParams);
     } catch (error) {
       return createErrorResponse(
         'VALIDATION_ERROR',
@@ -333,41 +258,52 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const where = toolListWhere(listFilters, facetWhere(facetFilters));
+
     // Execute query - fetch tools with package relation
     // We fetch limit+1 to check if there are more results (avoid expensive count)
-    const tools = await prisma.tool.findMany({
-      where,
-      include: {
-        package: {
-          select: {
-            id: true,
-            npmPackageName: true,
-            npmVersion: true,
-            npmDescription: true,
-            npmRepository: true,
-            npmHomepage: true,
-            npmLicense: true,
-            npmKeywords: true,
-            npmPublishedAt: true,
-            category: true,
-            env: true,
-            frameworks: true,
-            tier: true,
-            isOfficial: true,
-            npmDownloadsLastMonth: true,
-            githubStars: true,
-            // Explicitly exclude npmReadme, npmAuthor, npmMaintainers to reduce payload
+    // Facets are counted in SQL over the query and non-facet filters (each facet applies the
+    // other facets' filters)
+    const [tools, facetRows] = await Promise.all([
+      prisma.tool.findMany({
+        where,
+        include: {
+          package: {
+            select: {
+              id: true,
+              npmPackageName: true,
+              npmVersion: true,
+              npmDescription: true,
+              npmRepository: true,
+              npmHomepage: true,
+              npmLicense: true,
+              npmKeywords: true,
+              npmPublishedAt: true,
+              category: true,
+              env: true,
+              frameworks: true,
+              tier: true,
+              isOfficial: true,
+              npmDownloadsLastMonth: true,
+              githubStars: true,
+              // Explicitly exclude npmReadme, npmAuthor, npmMaintainers to reduce payload
+            },
           },
         },
-      },
-      orderBy: [
-        { qualityScore: 'desc' }, // Tool quality score
-        { package: { npmDownloadsLastMonth: 'desc' } }, // Package downloads
-        { createdAt: 'desc' }, // Tool creation time
-      ],
-      take: limit + 1, // Fetch one extra to check if there are more
-      skip: offset,
-    });
+        orderBy: [
+          { qualityScore: 'desc' }, // Tool quality score
+          { package: { npmDownloadsLastMonth: 'desc' } }, // Package downloads
+          { createdAt: 'desc' }, // Tool creation time
+        ],
+        take: limit + 1, // Fetch one extra to check if there are more
+        skip: offset,
+      }),
+      includeFacets
+        ? prisma.$queryRaw<FacetCountRow[]>(
+            facetCountsSql(toolListWhereSql(listFilters), facetFilters)
+          )
+        : null,
+    ]);
 
     // Check if there are more results
     const hasMore = tools.length > limit;
@@ -389,6 +325,7 @@ export async function GET(request: NextRequest) {
         count: actualTools.length,
         hasMore,
       },
+      ...(facetRows && { facets: facetsFromCounts(facetRows) }),
     };
 
     // Cache response for non-search queries
@@ -1,30 +1,19 @@
 import { prisma } from '@tpmjs/db';
 import { type NextRequest, NextResponse } from 'next/server';
 import { STRICT_RATE_LIMIT, checkRateLimit } from '~/lib/rate-limit';
+import { tokenize } from '~/lib/search/bm25';
+import { type HybridScore, hybridScores } from '~/lib/search/hybrid';
+import { searchToolIndex } from '~/lib/search/inverted-index';
+import { type SemanticMatch, semanticSearch } from '~/lib/search/semantic';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 export const maxDuration = 60;
 
-// BM25 parameters
-const k1 = 1.5; // term frequency saturation parameter
-const b = 0.75; // length normalization parameter
-
-// Split camelCase and PascalCase into words
-function splitCamelCase(text: string): string {
-  return text
-    .replace(/([a-z])([A-Z])/g, '$1 $2') // camelCase -> camel Case
-    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2'); // XMLParser -> XML Parser
-}
-
-// Tokenize text into words (handles camelCase)
-function tokenize(text: string): string[] {
-  return splitCamelCase(text)
-    .toLowerCase()
-    .replace(/[^\w\s]/g, ' ')
-    .split(/\s+/)
-    .filter((t) => t.length > 0);
-}
+// Candidates ranked from the keyword index and semantic neighbours, and how similar those must be
+const KEYWORD_CANDIDATES = 500;
+const SEMANTIC_CANDIDATES = 100;
+const MIN_SIMILARITY = 0.2;
 
 // Check for exact tool name match (case-insensitive)
 function hasExactNameMatch(query: string, toolName: string): boolean {
@@ -33,43 +22,20 @@ function hasExactNameMatch(query: string, toolName: string): boolean {
   return queryLower.includes(nameLower) || nameLower.includes(queryLower);
 }
 
-// Calculate term frequency
-function termFrequency(term: string, tokens: string[]): number {
-  return tokens.filter((t) => t === term).length;
-}
-
-// Calculate BM25 score
-function calculateBM25(
-  query: string,
-  document: string,
-  avgDocLength: number,
-  totalDocs: number,
-  docFrequencies: Map<string, number>
-): number {
-  const queryTokens = tokenize(query);
-  const docTokens = tokenize(document);
-  const docLength = docTokens.length;
-
-  let score = 0;
-
-  for (const term of queryTokens) {
-    const tf = termFrequency(term, docTokens);
-    if (tf === 0) continue;
-
-    // IDF calculation
-    const docFreq = docFrequencies.get(term) || 0;
-    const idf = Math.log((totalDocs - docFreq + 0.5) / (docFreq + 0.5) + 1);
-
-    // BM25 formula
-    const numerator = tf * (k1 + 1);
-    const denominator = tf + k1 * (1 - b + b * (docLength / avgDocLength));
-
-    score += idf * (numerator / denominator);
+// Nearest tools by embedding; keyword search still works if the semantic index is unavailable
+async function findSemanticMatches(query: string): Promise<SemanticMatch[]> {
+  try {
+    return await semanticSearch(query, {
+      limit: SEMANTIC_CANDIDATES,
+      minSimilarity: MIN_SIMILARITY,
+    });
+  } catch (error) {
+    console.warn('[SEARCH API] Semantic search failed, using keyword search only:', error);
+    return [];
   }
-
-  return score;
 }
 
+// biome-ignore lint/complexity/noExcessiveCognitiveComplexity: Sequential search pipeline (parse, pre-filter, rank, format)
 export async function GET(request: NextRequest) {
   console.log('🔎 [SEARCH API] Request received');
 
@@ -105,92 +71,58 @@ export async function GET(request: NextRequest) {
       `🔎 [SEARCH API] Query: "${query}", Category: ${category}, Limit: ${limit}, Messages: ${recentMessages.length}`
     );
 
-    // Extract search tokens for database-level pre-filtering
-    const searchTokens = tokenize(query).filter((t) => t.length >= 2);
-    const hasSearchQuery = searchTokens.length > 0;
-
-    // Build database filter - pre-filter at DB level to reduce in-memory processing
-    // Use OR conditions to find tools that match ANY search token
-    const dbFilter = {
-      ...(category && { package: { category } }),
-      ...(hasSearchQuery && {
-        OR: [
-          // Match tool name
-          { name: { contains: query, mode: 'insensitive' as const } },
-          // Match tool description
-          { description: { contains: query, mode: 'insensitive' as const } },
-          // Match package name
-          { package: { npmPackageName: { contains: query, mode: 'insensitive' as const } } },
-          // Match package description
-          { package: { npmDescription: { contains: query, mode: 'insensitive' as const } } },
-          // Also try individual tokens for partial matches
-          ...searchTokens
-            .slice(0, 3)
-            .flatMap((token) => [
-              { name: { contains: token, mode: 'insensitive' as const } },
-              { description: { contains: token, mode: 'insensitive' as const } },
-            ]),
-        ],
-      }),
-    };
-
-    // Fetch filtered tools with package info (max 500 for BM25 scoring)
-    const tools = await prisma.tool.findMany({
-      include: { package: true },
-      where: dbFilter,
-      take: hasSearchQuery ? 500 : 100, // Limit results for performance
-      orderBy: hasSearchQuery ? undefined : { qualityScore: 'desc' },
-    });
-
-    console.log(`📊 [SEARCH API] Found ${tools.length} tools in database`);
+    const hasSearchQuery = tokenize(query).length > 0;
 
     // Combine query with recent messages for better context
     const fullQuery = [query, ...recentMessages].filter(Boolean).join(' ');
     console.log(`🔍 [SEARCH API] Full search context: "${fullQuery.slice(0, 100)}..."`);
 
-    // Build all documents first
-    const documents = tools.map((tool) => ({
-      tool,
-      text: [
-        tool.description,
-        tool.name,
-        tool.package.npmPackageName,
-        tool.package.npmDescription || '',
-        ...(tool.package.npmKeywords || []),
-      ].join(' '),
-    }));
-
-    // Calculate document frequencies (IDF)
-    const docFrequencies = new Map<string, number>();
-    const queryTokens = tokenize(fullQuery);
-
-    for (const term of queryTokens) {
-      let count = 0;
-      for (const doc of documents) {
-        const docTokens = tokenize(doc.text);
-        if (docTokens.includes(term)) {
-          count++;
-        }
-      }
-      docFrequencies.set(term, count);
-    }
+    // Keyword matches come from the inverted index (BM25F with registry-wide IDF); semantic
+    // neighbours find tools described in other words than the query
+    const keywordMatches = hasSearchQuery
+      ? await searchToolIndex(fullQuery, { limit: KEYWORD_CANDIDATES, category })
+      : [];
+    const semanticMatches = hasSearchQuery ? await findSemanticMatches(fullQuery) : [];
+    const bm25Scores = new Map(keywordMatches.map((m) => [m.toolId, m.score]));
+    const similarities = new Map(semanticMatches.map((m) => [m.toolId, m.similarity]));
 
-    // Calculate average document length
-    const totalTokens = documents.reduce((sum, doc) => sum + tokenize(doc.text).length, 0);
-    const avgDocLength = totalTokens / documents.length;
+    // Load the matched tools; without a query, the best tools overall
+    const tools = await prisma.tool.findMany({
+      include: { package: true },
+      where: {
+        ...(category && { package: { category } }),
+        ...(hasSearchQuery && {
+          id: { in: [...new Set([...bm25Scores.keys(), ...similarities.keys()])] },
+        }),
+      },
+      take: hasSearchQuery ? undefined : 100,
+      orderBy: hasSearchQuery ? undefined : { qualityScore: 'desc' },
+    });
+
+    console.log(
+      `📊 [SEARCH API] ${keywordMatches.length} keyword and ${semanticMatches.length} semantic matches, ${tools.length} tools`
+    );
 
-    // Calculate BM25 scores
-    const scoredResults = documents.map(({ tool, text }) => {
-      const bm25Score = calculateBM25(fullQuery, text, avgDocLength, tools.length, docFrequencies);
+    const exactNames = tools.map((tool) => hasExactNameMatch(query, tool.name));
+    const relevance = hybridScores(
+      tools.map((tool, index) => ({
+        bm25: bm25Scores.get(tool.id) ?? 0,
+        similarity: similarities.get(tool.id) ?? 0,
+        exactName: exactNames[index] ?? false,
+      }))
+    );
+    const scoredResults = tools.map((tool, index) => {
+      const { score: hybridScore, matchType } = relevance[index] as HybridScore;
       const qualityBoost = Number(tool.qualityScore ?? 0) * 0.5;
       const downloadBoost = Math.log10((tool.package.npmDownloadsLastMonth || 0) + 1) * 0.1;
 
       // Massive boost for exact tool name match (when user mentions tool by name)
-      const exactNameBoost = hasExactNameMatch(query, tool.name) ? 100 : 0;
+      const exactNameBoost = exactNames[index] ? 100 : 0;
 
-      const finalScore = bm25Score + qualityBoost + downloadBoost + exactNameBoost;
+      // Keyword/semantic relevance (0-10) dominates quality and popularity
+      const finalScore = hybridScore * 10 + qualityBoost + downloadBoost + exactNameBoost;
 
-      return { tool, score: finalScore };
+      return { tool, score: finalScore, matchType };
     });
 
     // Sort by score and take top N
@@ -212,7 +144,7 @@ export async function GET(request: NextRequest) {
       results: {
         total: scoredResults.filter(({ score }) => score > 0).length,
         returned: results.length,
-        tools: results.map(({ tool }) => ({
+        tools: results.map(({ tool, score, matchType }) => ({
           id: tool.id,
           name: tool.name,
           description: tool.description,
@@ -221,6 +153,8 @@ export async function GET(request: NextRequest) {
           executionHealth: tool.executionHealth,
           healthCheckError: tool.healthCheckError,
           lastHealthCheck: tool.lastHealthCheck,
+          matchType,
+          score,
           package: {
             npmPackageName: tool.package.npmPackageName,
             npmVersion: tool.package.npmVersion,
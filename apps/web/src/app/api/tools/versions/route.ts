@@ -0,0 +1,110 @@
+import { prisma } from '@tpmjs/db';
+import { type NextRequest, NextResponse } from 'next/server';
+import { checkRateLimit } from '~/lib/rate-limit';
+import { diffInputSchemas } from '~/lib/schema-diff';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 30;
+
+const MAX_VERSIONS = 50;
+
+/**
+ * GET /api/tools/versions
+ *
+ * Version history for a tool: the schema and health recorded for each synced package
+ * version, newest first. Each entry includes the parameter changes since the previous
+ * version with a schema (null when this version's schema is unknown or no older version
+ * has one).
+ *
+ * Query params:
+ * - packageName: npm package name (required)
+ * - name: tool/export name (required)
+ *
+ * Example: /api/tools/versions?packageName=@tpmjs/hello&name=helloWorldTool
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  // Check rate limit
+  const rateLimitResponse = checkRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const packageName = searchParams.get('packageName');
+    const name = searchParams.get('name');
+
+    if (!packageName || !name) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Missing required parameters',
+          message: 'Both packageName and name query parameters are required',
+        },
+        { status: 400 }
+      );
+    }
+
+    const pkg = await prisma.package.findUnique({
+      where: { npmPackageName: packageName },
+      select: { id: true, npmVersion: true },
+    });
+
+    if (!pkg) {
+      return NextResponse.json({ success: false, error: 'Package not found' }, { status: 404 });
+    }
+
+    const toolVersions = await prisma.toolVersion.findMany({
+      where: { toolName: name, packageVersion: { packageId: pkg.id } },
+      include: {
+        packageVersion: { select: { version: true, publishedAt: true, createdAt: true } },
+      },
+      orderBy: [{ packageVersion: { publishedAt: 'desc' } }, { createdAt: 'desc' }],
+      take: MAX_VERSIONS,
+    });
+
+    const versions = toolVersions.map((toolVersion, index) => {
+      // Skip older versions whose schema extraction failed
+      const previous = toolVersions.slice(index + 1).find((older) => older.inputSchema);
+      const changes =
+        previous?.inputSchema && toolVersion.inputSchema
+          ? diffInputSchemas(previous.inputSchema, toolVersion.inputSchema)
+          : null;
+
+      return {
+        version: toolVersion.packageVersion.version,
+        publishedAt: toolVersion.packageVersion.publishedAt,
+        syncedAt: toolVersion.packageVersion.createdAt,
+        description: toolVersion.description,
+        inputSchema: toolVersion.inputSchema,
+        schemaSource: toolVersion.schemaSource,
+        importHealth: toolVersion.importHealth,
+        executionHealth: toolVersion.executionHealth,
+        lastHealthCheck: toolVersion.lastHealthCheck,
+        healthCheckError: toolVersion.healthCheckError,
+        changes,
+      };
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        packageName,
+        name,
+        latestVersion: pkg.npmVersion,
+        versions,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching tool versions:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch tool versions',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,6 @@
 import { prisma } from '@tpmjs/db';
-import { headers } from 'next/headers';
 import { type NextRequest, NextResponse } from 'next/server';
-import { auth } from '~/lib/auth';
+import { getRequestSession } from '~/lib/api-auth';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -41,9 +40,7 @@ export async function GET(request: NextRequest): Promise<NextResponse<ApiRespons
   const requestId = crypto.randomUUID();
 
   try {
-    const session = await auth.api.getSession({
-      headers: await headers(),
-    });
+    const session = await getRequestSession('user:read');
 
     if (!session) {
       return NextResponse.json(
@@ -1,9 +1,8 @@
 import { prisma } from '@tpmjs/db';
-import { headers } from 'next/headers';
 import { type NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 
-import { auth } from '~/lib/auth';
+import { getRequestSession } from '~/lib/api-auth';
 import { encryptApiKey, getKeyHint } from '~/lib/crypto/api-keys';
 
 export const runtime = 'nodejs';
@@ -20,7 +19,7 @@ const AddKeySchema = z.object({
  */
 export async function GET(): Promise<NextResponse> {
   try {
-    const session = await auth.api.getSession({ headers: await headers() });
+    const session = await getRequestSession('user:read');
     if (!session?.user?.id) {
       return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
     }
@@ -53,7 +52,7 @@ export async function GET(): Promise<NextResponse> {
  */
 export async function POST(request: NextRequest): Promise<NextResponse> {
   try {
-    const session = await auth.api.getSession({ headers: await headers() });
+    const session = await getRequestSession('user:write');
     if (!session?.user?.id) {
       return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
     }
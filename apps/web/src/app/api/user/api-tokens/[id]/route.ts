@@ -0,0 +1,44 @@
+import { prisma } from '@tpmjs/db';
+import { headers } from 'next/headers';
+import type { NextRequest } from 'next/server';
+
+import { apiInternalError, apiNotFound, apiSuccess, apiUnauthorized } from '~/lib/api-response';
+import { auth } from '~/lib/auth';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * DELETE /api/user/api-tokens/[id]
+ * Revoke a personal access token. Revoked tokens are kept for audit purposes.
+ */
+export async function DELETE(_request: NextRequest, context: RouteContext) {
+  const requestId = crypto.randomUUID();
+
+  try {
+    const session = await auth.api.getSession({ headers: await headers() });
+    if (!session?.user?.id) {
+      return apiUnauthorized('Authentication required', requestId);
+    }
+
+    const { id } = await context.params;
+
+    const result = await prisma.apiToken.updateMany({
+      where: { id, userId: session.user.id, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    if (result.count === 0) {
+      return apiNotFound('API token', requestId);
+    }
+
+    return apiSuccess({ revoked: true }, { requestId });
+  } catch (error) {
+    console.error('[API Error] DELETE /api/user/api-tokens/[id]:', error);
+    return apiInternalError('Failed to revoke API token', requestId);
+  }
+}
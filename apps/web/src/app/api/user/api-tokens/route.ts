@@ -0,0 +1,112 @@
+import { prisma } from '@tpmjs/db';
+import { API_TOKEN_LIMITS, CreateApiTokenSchema } from '@tpmjs/types/user';
+import { headers } from 'next/headers';
+import type { NextRequest } from 'next/server';
+
+import {
+  apiError,
+  apiInternalError,
+  apiSuccess,
+  apiUnauthorized,
+  apiValidationError,
+} from '~/lib/api-response';
+import { auth } from '~/lib/auth';
+import { generateApiToken } from '~/lib/crypto/api-tokens';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const TOKEN_SELECT = {
+  id: true,
+  name: true,
+  tokenPrefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  revokedAt: true,
+  createdAt: true,
+} as const;
+
+/**
+ * GET /api/user/api-tokens
+ * List the user's personal access tokens (never returns the token itself)
+ *
+ * Token management requires a browser session - tokens cannot mint other tokens.
+ */
+export async function GET() {
+  const requestId = crypto.randomUUID();
+
+  try {
+    const session = await auth.api.getSession({ headers: await headers() });
+    if (!session?.user?.id) {
+      return apiUnauthorized('Authentication required', requestId);
+    }
+
+    const tokens = await prisma.apiToken.findMany({
+      where: { userId: session.user.id },
+      select: TOKEN_SELECT,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return apiSuccess(tokens, { requestId });
+  } catch (error) {
+    console.error('[API Error] GET /api/user/api-tokens:', error);
+    return apiInternalError('Failed to list API tokens', requestId);
+  }
+}
+
+/**
+ * POST /api/user/api-tokens
+ * Create a personal access token. The plaintext token is only returned in this response.
+ */
+export async function POST(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+
+  try {
+    const session = await auth.api.getSession({ headers: await headers() });
+    if (!session?.user?.id) {
+      return apiUnauthorized('Authentication required', requestId);
+    }
+
+    const body = await request.json();
+    const parsed = CreateApiTokenSchema.safeParse(body);
+    if (!parsed.success) {
+      return apiValidationError(
+        'Invalid request body',
+        { errors: parsed.error.flatten().fieldErrors },
+        requestId
+      );
+    }
+
+    const activeCount = await prisma.apiToken.count({
+      where: { userId: session.user.id, revokedAt: null, expiresAt: { gt: new Date() } },
+    });
+    if (activeCount >= API_TOKEN_LIMITS.MAX_TOKENS_PER_USER) {
+      return apiError(
+        'LIMIT_EXCEEDED',
+        `Maximum ${API_TOKEN_LIMITS.MAX_TOKENS_PER_USER} active tokens allowed`,
+        { status: 400, requestId }
+      );
+    }
+
+    const { name, scopes, expiresInDays } = parsed.data;
+    const { token, tokenHash, tokenPrefix } = generateApiToken();
+
+    const apiToken = await prisma.apiToken.create({
+      data: {
+        userId: session.user.id,
+        name,
+        tokenHash,
+        tokenPrefix,
+        scopes: Array.from(new Set(scopes)),
+        expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+      },
+      select: TOKEN_SELECT,
+    });
+
+    return apiSuccess({ ...apiToken, token }, { requestId, status: 201 });
+  } catch (error) {
+    console.error('[API Error] POST /api/user/api-tokens:', error);
+    return apiInternalError('Failed to create API token', requestId);
+  }
+}
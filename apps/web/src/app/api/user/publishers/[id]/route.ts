@@ -0,0 +1,39 @@
+import type { NextRequest } from 'next/server';
+
+import { getRequestSession } from '~/lib/api-auth';
+import { apiInternalError, apiNotFound, apiSuccess, apiUnauthorized } from '~/lib/api-response';
+import { unlinkPublisherAccount } from '~/lib/publishers/verification';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * DELETE /api/user/publishers/[id]
+ * Unlink a publisher account. Packages it published are no longer shown as verified.
+ */
+export async function DELETE(_request: NextRequest, context: RouteContext) {
+  const requestId = crypto.randomUUID();
+
+  try {
+    const session = await getRequestSession('user:write');
+    if (!session?.user?.id) {
+      return apiUnauthorized('Authentication required', requestId);
+    }
+
+    const { id } = await context.params;
+
+    const unlinked = await unlinkPublisherAccount(session.user.id, id);
+    if (!unlinked) {
+      return apiNotFound('Publisher account', requestId);
+    }
+
+    return apiSuccess({ unlinked: true }, { requestId });
+  } catch (error) {
+    console.error('[API Error] DELETE /api/user/publishers/[id]:', error);
+    return apiInternalError('Failed to unlink publisher account', requestId);
+  }
+}
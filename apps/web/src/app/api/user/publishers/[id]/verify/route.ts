@@ -0,0 +1,64 @@
+import type { NextRequest } from 'next/server';
+
+import { getRequestSession } from '~/lib/api-auth';
+import {
+  apiConflict,
+  apiError,
+  apiInternalError,
+  apiNotFound,
+  apiSuccess,
+  apiUnauthorized,
+} from '~/lib/api-response';
+import { verifyPublisherAccount } from '~/lib/publishers/verification';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * POST /api/user/publishers/[id]/verify
+ * Check ownership of a linked account:
+ * - NPM: the account's public npm email must match the user's verified email
+ * - GITHUB_ORG: the org's .github repository must contain the verification token file
+ */
+export async function POST(_request: NextRequest, context: RouteContext) {
+  const requestId = crypto.randomUUID();
+
+  try {
+    const session = await getRequestSession('user:write');
+    if (!session?.user?.id) {
+      return apiUnauthorized('Authentication required', requestId);
+    }
+
+    const { id } = await context.params;
+
+    const result = await verifyPublisherAccount(session.user.id, id);
+    if ('error' in result) {
+      return result.error === 'not_found'
+        ? apiNotFound('Publisher account', requestId)
+        : apiConflict('This account is already verified by another user', requestId);
+    }
+
+    if (!result.check.verified) {
+      return apiError('VERIFICATION_FAILED', result.check.reason, { status: 422, requestId });
+    }
+
+    return apiSuccess(
+      {
+        id: result.account.id,
+        type: result.account.type,
+        name: result.account.name,
+        verificationToken: result.account.verificationToken,
+        verifiedAt: result.account.verifiedAt,
+        createdAt: result.account.createdAt,
+      },
+      { requestId }
+    );
+  } catch (error) {
+    console.error('[API Error] POST /api/user/publishers/[id]/verify:', error);
+    return apiInternalError('Failed to verify publisher account', requestId);
+  }
+}
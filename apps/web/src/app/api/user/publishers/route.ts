@@ -0,0 +1,116 @@
+import { prisma } from '@tpmjs/db';
+import { LinkPublisherAccountSchema, PUBLISHER_ACCOUNT_LIMITS } from '@tpmjs/types/user';
+import type { NextRequest } from 'next/server';
+
+import { getRequestSession } from '~/lib/api-auth';
+import {
+  apiConflict,
+  apiError,
+  apiInternalError,
+  apiSuccess,
+  apiUnauthorized,
+  apiValidationError,
+} from '~/lib/api-response';
+import { generateVerificationToken } from '~/lib/publishers/verification';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const ACCOUNT_SELECT = {
+  id: true,
+  type: true,
+  name: true,
+  verificationToken: true,
+  verifiedAt: true,
+  createdAt: true,
+} as const;
+
+/**
+ * GET /api/user/publishers
+ * List the npm accounts and GitHub orgs the user linked as a publisher
+ */
+export async function GET() {
+  const requestId = crypto.randomUUID();
+
+  try {
+    const session = await getRequestSession('user:read');
+    if (!session?.user?.id) {
+      return apiUnauthorized('Authentication required', requestId);
+    }
+
+    const accounts = await prisma.publisherAccount.findMany({
+      where: { userId: session.user.id },
+      select: ACCOUNT_SELECT,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return apiSuccess(accounts, { requestId });
+  } catch (error) {
+    console.error('[API Error] GET /api/user/publishers:', error);
+    return apiInternalError('Failed to list publisher accounts', requestId);
+  }
+}
+
+/**
+ * POST /api/user/publishers
+ * Link an npm account or GitHub org. It stays unverified until
+ * POST /api/user/publishers/[id]/verify proves ownership.
+ */
+export async function POST(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+
+  try {
+    const session = await getRequestSession('user:write');
+    if (!session?.user?.id) {
+      return apiUnauthorized('Authentication required', requestId);
+    }
+
+    const body = await request.json();
+    const parsed = LinkPublisherAccountSchema.safeParse(body);
+    if (!parsed.success) {
+      return apiValidationError(
+        'Invalid request body',
+        { errors: parsed.error.flatten().fieldErrors },
+        requestId
+      );
+    }
+
+    const { type, name } = parsed.data;
+    const userId = session.user.id;
+
+    const existing = await prisma.publisherAccount.findUnique({
+      where: { userId_type_name: { userId, type, name } },
+      select: ACCOUNT_SELECT,
+    });
+    if (existing) {
+      return apiSuccess(existing, { requestId });
+    }
+
+    const claimed = await prisma.publisherAccount.findFirst({
+      where: { type, name, verifiedAt: { not: null } },
+      select: { id: true },
+    });
+    if (claimed) {
+      return apiConflict('This account is already verified by another user', requestId);
+    }
+
+    const count = await prisma.publisherAccount.count({ where: { userId } });
+    if (count >= PUBLISHER_ACCOUNT_LIMITS.MAX_ACCOUNTS_PER_USER) {
+      return apiError(
+        'LIMIT_EXCEEDED',
+        `Maximum ${PUBLISHER_ACCOUNT_LIMITS.MAX_ACCOUNTS_PER_USER} publisher accounts allowed`,
+        { status: 400, requestId }
+      );
+    }
+
+    const account = await prisma.publisherAccount.create({
+      data: { userId, type, name, verificationToken: generateVerificationToken() },
+      select: ACCOUNT_SELECT,
+    });
+
+    return apiSuccess(account, { requestId, status: 201 });
+  } catch (error) {
+    console.error('[API Error] POST /api/user/publishers:', error);
+    return apiInternalError('Failed to link publisher account', requestId);
+  }
+}
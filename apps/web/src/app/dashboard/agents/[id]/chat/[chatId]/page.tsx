@@ -7,6 +7,12 @@ import Link from 'next/link';
 import { useParams, useRouter } from 'next/navigation';
 import { useCallback, useEffect, useRef, useState } from 'react';
 import { DashboardLayout } from '~/components/dashboard/DashboardLayout';
+import {
+  type PendingToolApproval,
+  ToolApprovalCard,
+  type ToolApprovalDecision,
+} from '~/components/ToolApprovalCard';
+import { ToolOutputArtifacts } from '~/components/ToolOutputArtifacts';
 
 interface Agent {
   id: string;
@@ -40,8 +46,15 @@ interface ToolCall {
   input?: unknown;
   output?: unknown;
   status: 'pending' | 'running' | 'success' | 'error';
+  /** Streamed by the executor while the tool runs */
+  progress?: { progress?: number; message?: string };
+  logs?: string[];
+  partial?: unknown;
 }
 
+/** Most recent executor log lines kept per running tool call */
+const MAX_TOOL_LOG_LINES = 50;
+
 /**
  * Check if a tool output contains an error
  */
@@ -154,6 +167,9 @@ function ToolCallCard({
         />
       </button>
 
+      {/* Files and truncation notice (visible without expanding) */}
+      <ToolOutputArtifacts output={toolCall.output} />
+
       {/* Expanded Content */}
       {isExpanded && (
         <div className="border-t border-border">
@@ -202,11 +218,45 @@ function ToolCallCard({
             </div>
           ) : null}
 
+          {/* Streamed executor logs */}
+          {toolCall.logs && toolCall.logs.length > 0 && (
+            <div className="p-3 border-b border-border/50">
+              <div className="flex items-center gap-2 mb-2">
+                <span className="text-[10px] uppercase tracking-wider text-foreground-tertiary">
+                  Logs
+                </span>
+                <div className="flex-1 h-px bg-border/50" />
+              </div>
+              <pre className="text-[11px] text-foreground-secondary overflow-x-auto whitespace-pre-wrap break-all max-h-32 overflow-y-auto">
+                {toolCall.logs.join('\n')}
+              </pre>
+            </div>
+          )}
+
+          {/* Partial output streamed before the final result */}
+          {toolCall.status === 'running' && toolCall.partial !== undefined && !toolCall.output && (
+            <div className="p-3 border-b border-border/50">
+              <div className="flex items-center gap-2 mb-2">
+                <span className="text-[10px] uppercase tracking-wider text-foreground-tertiary">
+                  Partial Output
+                </span>
+                <div className="flex-1 h-px bg-border/50" />
+              </div>
+              <pre className="text-[11px] text-foreground-secondary overflow-x-auto whitespace-pre-wrap break-all max-h-48 overflow-y-auto">
+                {formatJson(toolCall.partial)}
+              </pre>
+            </div>
+          )}
+
           {/* Status indicator for running */}
           {toolCall.status === 'running' && !toolCall.output && (
             <div className="p-3 flex items-center gap-2 text-foreground-tertiary">
               <Icon icon="loader" size="xs" className="animate-spin" />
-              <span>Executing...</span>
+              <span>
+                {toolCall.progress?.message ?? 'Executing...'}
+                {toolCall.progress?.progress !== undefined &&
+                  ` (${Math.round(toolCall.progress.progress * 100)}%)`}
+              </span>
             </div>
           )}
         </div>
@@ -215,6 +265,62 @@ function ToolCallCard({
   );
 }
 
+/**
+ * Rolling summary of the turns the agent no longer sees verbatim, editable by the owner
+ */
+function ConversationSummaryPanel({
+  summary,
+  onSave,
+}: {
+  summary: string;
+  onSave: (summary: string | null) => Promise<void>;
+}) {
+  const [draft, setDraft] = useState(summary);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setDraft(summary);
+  }, [summary]);
+
+  const save = async (value: string | null) => {
+    setIsSaving(true);
+    try {
+      await onSave(value);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <details className="border-b border-border bg-surface-secondary/30 px-4 py-2 text-sm">
+      <summary className="cursor-pointer text-foreground-secondary">
+        Conversation summary (older messages are condensed into this)
+      </summary>
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        rows={6}
+        aria-label="Conversation summary"
+        className="mt-2 w-full px-3 py-2 bg-surface border border-border rounded-lg text-foreground text-xs font-mono focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary"
+      />
+      <div className="mt-2 flex justify-end gap-2">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => save(null)}
+          disabled={isSaving}
+          title="Clear the summary and use the full history again"
+        >
+          Clear
+        </Button>
+        <Button size="sm" onClick={() => save(draft)} disabled={isSaving || draft === summary}>
+          Save
+        </Button>
+      </div>
+    </details>
+  );
+}
+
 interface Conversation {
   id: string;
   slug: string;
@@ -253,6 +359,8 @@ export default function AgentChatPage(): React.ReactElement {
   const [error, setError] = useState<string | null>(null);
   const [toolCalls, setToolCalls] = useState<ToolCall[]>([]);
   const [expandedToolCalls, setExpandedToolCalls] = useState<Set<string>>(new Set());
+  const [summary, setSummary] = useState<string | null>(null);
+  const [pendingApprovals, setPendingApprovals] = useState<PendingToolApproval[]>([]);
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
@@ -322,12 +430,28 @@ export default function AgentChatPage(): React.ReactElement {
           msgs.map((m: Message) => ({ role: m.role, toolName: m.toolName }))
         );
         setMessages(msgs);
+        setSummary(data.data.summary ?? null);
+        setPendingApprovals(data.data.pendingApprovals ?? []);
       }
     } catch (err) {
       console.error('Failed to fetch messages:', err);
     }
   }, [agent, agentId, activeConversationId]);
 
+  const saveSummary = async (value: string | null) => {
+    const response = await fetch(`/api/agents/${agentId}/conversation/${activeConversationId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ summary: value }),
+    });
+    const data = await response.json();
+    if (data.success) {
+      setSummary(data.data.summary);
+    } else {
+      setError(data.error || 'Failed to update summary');
+    }
+  };
+
   useEffect(() => {
     const init = async () => {
       await fetchAgent();
@@ -343,6 +467,8 @@ export default function AgentChatPage(): React.ReactElement {
   }, [agent, fetchConversations]);
 
   useEffect(() => {
+    setSummary(null);
+    setPendingApprovals([]);
     if (activeConversationId) {
       fetchMessages();
     } else {
@@ -359,6 +485,126 @@ export default function AgentChatPage(): React.ReactElement {
     router.push(`/dashboard/agents/${agentId}/chat/${convSlug}`);
   };
 
+  // Stream a turn: a new message, or resuming once every held tool call is decided
+  const streamTurn = async (body: { message: string } | { resume: true }) => {
+    // Use the chatId from URL
+    const conversationId = activeConversationId || chatId;
+
+    const response = await fetch(`/api/agents/${agentId}/conversation/${conversationId}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to send message');
+    }
+
+    // Handle SSE stream
+    const reader = response.body?.getReader();
+    if (!reader) throw new Error('No response body');
+
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      // Parse SSE events
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || ''; // Keep incomplete line in buffer
+
+      let eventType = '';
+      for (const line of lines) {
+        if (line.startsWith('event: ')) {
+          eventType = line.slice(7);
+        } else if (line.startsWith('data: ')) {
+          const data = JSON.parse(line.slice(6));
+
+          switch (eventType) {
+            case 'chunk':
+              setStreamingContent((prev) => prev + data.text);
+              break;
+            case 'tool_call':
+              // Add tool call to tracking
+              setToolCalls((prev) => [
+                ...prev,
+                {
+                  toolCallId: data.toolCallId,
+                  toolName: data.toolName,
+                  input: data.input,
+                  status: 'running',
+                },
+              ]);
+              // Auto-expand new tool calls
+              setExpandedToolCalls((prev) => new Set([...prev, data.toolCallId]));
+              break;
+            case 'tool_event':
+              // Executor log/progress/partial events while the tool runs
+              setToolCalls((prev) =>
+                prev.map((tc) => {
+                  if (tc.toolCallId !== data.toolCallId) return tc;
+                  const event = data.event;
+                  if (event.type === 'log') {
+                    const logs = [...(tc.logs ?? []), `[${event.level}] ${event.message}`];
+                    return { ...tc, logs: logs.slice(-MAX_TOOL_LOG_LINES) };
+                  }
+                  if (event.type === 'progress') {
+                    return {
+                      ...tc,
+                      progress: { progress: event.progress, message: event.message },
+                    };
+                  }
+                  if (event.type === 'partial') {
+                    return { ...tc, partial: event.output };
+                  }
+                  return tc;
+                })
+              );
+              break;
+            case 'tool_result':
+              // Update tool call with result
+              setToolCalls((prev) =>
+                prev.map((tc) =>
+                  tc.toolCallId === data.toolCallId
+                    ? { ...tc, output: data.output, status: 'success' as const }
+                    : tc
+                )
+              );
+              break;
+            case 'approval_required':
+              // The turn stops here until the call is approved or denied
+              setPendingApprovals((prev) => [
+                ...prev,
+                {
+                  id: data.approvalId,
+                  toolCallId: data.toolCallId,
+                  toolName: data.toolName,
+                  args: data.input,
+                },
+              ]);
+              break;
+            case 'complete':
+              // Refresh messages
+              console.log('[SSE] Complete event received, fetching messages...');
+              await fetchMessages();
+              await fetchConversations();
+              setStreamingContent('');
+              setToolCalls([]);
+              console.log('[SSE] Messages and conversations refreshed');
+              break;
+            case 'error':
+              throw new Error(data.message);
+          }
+        }
+      }
+    }
+  };
+
   const handleSend = async () => {
     if (!input.trim() || !agent || isSending) return;
 
@@ -368,9 +614,8 @@ export default function AgentChatPage(): React.ReactElement {
     setStreamingContent('');
     setError(null);
     setToolCalls([]);
-
-    // Use the chatId from URL
-    const conversationId = activeConversationId || chatId;
+    // Sending a new message denies the calls still waiting for approval
+    setPendingApprovals([]);
 
     // Optimistically add user message
     const userMessage: Message = {
@@ -382,84 +627,7 @@ export default function AgentChatPage(): React.ReactElement {
     setMessages((prev) => [...prev, userMessage]);
 
     try {
-      const response = await fetch(`/api/agents/${agentId}/conversation/${conversationId}`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ message: messageContent }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to send message');
-      }
-
-      // Handle SSE stream
-      const reader = response.body?.getReader();
-      if (!reader) throw new Error('No response body');
-
-      const decoder = new TextDecoder();
-      let buffer = '';
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-
-        // Parse SSE events
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || ''; // Keep incomplete line in buffer
-
-        let eventType = '';
-        for (const line of lines) {
-          if (line.startsWith('event: ')) {
-            eventType = line.slice(7);
-          } else if (line.startsWith('data: ')) {
-            const data = JSON.parse(line.slice(6));
-
-            switch (eventType) {
-              case 'chunk':
-                setStreamingContent((prev) => prev + data.text);
-                break;
-              case 'tool_call':
-                // Add tool call to tracking
-                setToolCalls((prev) => [
-                  ...prev,
-                  {
-                    toolCallId: data.toolCallId,
-                    toolName: data.toolName,
-                    input: data.input,
-                    status: 'running',
-                  },
-                ]);
-                // Auto-expand new tool calls
-                setExpandedToolCalls((prev) => new Set([...prev, data.toolCallId]));
-                break;
-              case 'tool_result':
-                // Update tool call with result
-                setToolCalls((prev) =>
-                  prev.map((tc) =>
-                    tc.toolCallId === data.toolCallId
-                      ? { ...tc, output: data.output, status: 'success' as const }
-                      : tc
-                  )
-                );
-                break;
-              case 'complete':
-                // Refresh messages
-                console.log('[SSE] Complete event received, fetching messages...');
-                await fetchMessages();
-                await fetchConversations();
-                setStreamingContent('');
-                setToolCalls([]);
-                console.log('[SSE] Messages and conversations refreshed');
-                break;
-              case 'error':
-                throw new Error(data.message);
-            }
-          }
-        }
-      }
+      await streamTurn({ message: messageContent });
     } catch (err) {
       console.error('Failed to send message:', err);
       setError(err instanceof Error ? err.message : 'Failed to send message');
@@ -472,6 +640,48 @@ export default function AgentChatPage(): React.ReactElement {
     }
   };
 
+  // Continue the turn once no tool call is waiting for approval
+  const resumeTurn = async () => {
+    setIsSending(true);
+    setStreamingContent('');
+    setError(null);
+    setToolCalls([]);
+    try {
+      await streamTurn({ resume: true });
+    } catch (err) {
+      console.error('Failed to resume turn:', err);
+      setError(err instanceof Error ? err.message : 'Failed to resume');
+    } finally {
+      setIsSending(false);
+      setStreamingContent('');
+    }
+  };
+
+  const handleDecide = async (approval: PendingToolApproval, decision: ToolApprovalDecision) => {
+    const response = await fetch(
+      `/api/agents/${agentId}/conversation/${activeConversationId}/approvals/${approval.id}`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(decision),
+      }
+    );
+    const data = await response.json();
+    if (!data.success) {
+      // Rejected edited arguments come with the schema errors
+      setError(
+        data.details ? `${data.error}: ${data.details}` : data.error || 'Failed to decide tool call'
+      );
+      return;
+    }
+
+    setPendingApprovals((prev) => prev.filter((a) => a.id !== approval.id));
+    await fetchMessages();
+    if (data.data.pendingApprovals === 0) {
+      await resumeTurn();
+    }
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -592,6 +802,8 @@ export default function AgentChatPage(): React.ReactElement {
 
         {/* Chat Area */}
         <div className="flex-1 flex flex-col">
+          {summary !== null && <ConversationSummaryPanel summary={summary} onSave={saveSummary} />}
+
           {/* Messages */}
           <div className="flex-1 overflow-y-auto p-4 space-y-4">
             {messages.length === 0 && !streamingContent && (
@@ -713,6 +925,19 @@ export default function AgentChatPage(): React.ReactElement {
               </div>
             )}
 
+            {/* Tool calls waiting for approval (the turn resumes once all are decided) */}
+            {!isSending &&
+              pendingApprovals.map((approval) => (
+                <div key={approval.id} className="flex justify-start">
+                  <div className="max-w-[80%] w-full">
+                    <ToolApprovalCard
+                      approval={approval}
+                      onDecide={(decision) => handleDecide(approval, decision)}
+                    />
+                  </div>
+                </div>
+              ))}
+
             {isSending && !streamingContent && toolCalls.length === 0 && (
               <div className="flex justify-start">
                 <div className="rounded-lg p-4 bg-surface-secondary">
@@ -0,0 +1,285 @@
+'use client';
+
+import { Button } from '@tpmjs/ui/Button/Button';
+import { Icon } from '@tpmjs/ui/Icon/Icon';
+import { Input } from '@tpmjs/ui/Input/Input';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableEmpty,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@tpmjs/ui/Table/Table';
+import { useParams, useRouter } from 'next/navigation';
+import { useCallback, useEffect, useState } from 'react';
+import { DashboardLayout } from '~/components/dashboard/DashboardLayout';
+
+interface Memory {
+  id: string;
+  content: string;
+  conversationId: string | null;
+  recallCount: number;
+  lastRecalledAt: string | null;
+  createdAt: string;
+}
+
+const PAGE_SIZE = 50;
+
+function formatDate(dateString: string): string {
+  const date = new Date(dateString);
+  return date.toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+function MemorySkeletonRows(): React.ReactElement {
+  return (
+    <>
+      {[0, 1, 2].map((idx) => (
+        <TableRow key={`memory-skeleton-${idx}`}>
+          <TableCell>
+            <div className="h-4 w-80 bg-surface-secondary rounded animate-pulse" />
+          </TableCell>
+          <TableCell>
+            <div className="h-4 w-12 bg-surface-secondary rounded animate-pulse" />
+          </TableCell>
+          <TableCell>
+            <div className="h-4 w-24 bg-surface-secondary rounded animate-pulse" />
+          </TableCell>
+          <TableCell>
+            <div className="h-8 w-8 bg-surface-secondary rounded animate-pulse ml-auto" />
+          </TableCell>
+        </TableRow>
+      ))}
+    </>
+  );
+}
+
+function MemoriesEmpty({ isSearch }: { isSearch: boolean }): React.ReactElement {
+  return (
+    <TableEmpty
+      colSpan={4}
+      icon={
+        <div className="w-16 h-16 rounded-full bg-primary/10 flex items-center justify-center">
+          <Icon icon="info" size="lg" className="text-primary" />
+        </div>
+      }
+      title={isSearch ? 'No matching memories' : 'No memories yet'}
+      description={
+        isSearch
+          ? 'No memory contains these words.'
+          : 'With long-term memory on, the agent saves facts here using its remember tool.'
+      }
+    />
+  );
+}
+
+function MemoryRow({
+  memory,
+  isDeleting,
+  onDelete,
+}: {
+  memory: Memory;
+  isDeleting: boolean;
+  onDelete: () => void;
+}): React.ReactElement {
+  return (
+    <TableRow>
+      <TableCell>
+        <p className="text-sm text-foreground whitespace-pre-wrap">{memory.content}</p>
+        <p className="text-xs text-foreground-tertiary font-mono mt-1">{memory.id}</p>
+      </TableCell>
+      <TableCell>
+        <span className="text-foreground-secondary text-sm">
+          {memory.recallCount}×
+          {memory.lastRecalledAt && (
+            <span className="block text-xs text-foreground-tertiary">
+              last {formatDate(memory.lastRecalledAt)}
+            </span>
+          )}
+        </span>
+      </TableCell>
+      <TableCell>
+        <span className="text-foreground-secondary text-sm">{formatDate(memory.createdAt)}</span>
+      </TableCell>
+      <TableCell>
+        <div className="flex items-center justify-end">
+          <Button size="sm" variant="ghost" onClick={onDelete} disabled={isDeleting}>
+            <Icon icon="trash" size="xs" />
+          </Button>
+        </div>
+      </TableCell>
+    </TableRow>
+  );
+}
+
+export default function AgentMemoriesPage(): React.ReactElement {
+  const params = useParams();
+  const router = useRouter();
+  const agentId = params.id as string;
+
+  const [memories, setMemories] = useState<Memory[]>([]);
+  const [total, setTotal] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [query, setQuery] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const fetchMemories = useCallback(
+    async (search: string, offset = 0) => {
+      try {
+        const searchParams = new URLSearchParams({
+          limit: String(PAGE_SIZE),
+          offset: String(offset),
+        });
+        if (search) searchParams.set('q', search);
+        const response = await fetch(`/api/agents/${agentId}/memories?${searchParams}`);
+        const data = await response.json();
+
+        if (data.success) {
+          setMemories((prev) => (offset > 0 ? [...prev, ...data.data] : data.data));
+          setTotal(data.total);
+          setHasMore(data.pagination.hasMore);
+          setError(null);
+        } else {
+          if (response.status === 401) {
+            router.push('/sign-in');
+            return;
+          }
+          setError(data.error || 'Failed to fetch memories');
+        }
+      } catch (err) {
+        console.error('Failed to fetch memories:', err);
+        setError('Failed to fetch memories');
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [agentId, router]
+  );
+
+  // Search as the user types (debounced)
+  useEffect(() => {
+    const timeout = setTimeout(() => fetchMemories(query.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [fetchMemories, query]);
+
+  const handleDelete = async (id: string) => {
+    setDeletingId(id);
+    try {
+      const response = await fetch(`/api/agents/${agentId}/memories/${id}`, {
+        method: 'DELETE',
+      });
+
+      const result = await response.json();
+
+      if (result.success) {
+        setMemories((prev) => prev.filter((m) => m.id !== id));
+        setTotal((prev) => prev - 1);
+      } else {
+        throw new Error(result.error || 'Failed to delete memory');
+      }
+    } catch (err) {
+      console.error('Failed to delete memory:', err);
+      alert(err instanceof Error ? err.message : 'Failed to delete memory');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const handleClear = async () => {
+    if (!confirm('Forget all memories of this agent? This action cannot be undone.')) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/agents/${agentId}/memories`, { method: 'DELETE' });
+      const result = await response.json();
+
+      if (result.success) {
+        setMemories([]);
+        setTotal(0);
+        setHasMore(false);
+      } else {
+        throw new Error(result.error || 'Failed to clear memories');
+      }
+    } catch (err) {
+      console.error('Failed to clear memories:', err);
+      alert(err instanceof Error ? err.message : 'Failed to clear memories');
+    }
+  };
+
+  return (
+    <DashboardLayout
+      title="Memories"
+      subtitle={total > 0 ? `${total} memor${total !== 1 ? 'ies' : 'y'}` : undefined}
+      showBackButton
+      backUrl={`/dashboard/agents/${agentId}`}
+      actions={
+        <Button variant="outline" onClick={handleClear} disabled={total === 0}>
+          <Icon icon="trash" size="sm" className="mr-2" />
+          Forget All
+        </Button>
+      }
+    >
+      <div className="mb-4">
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search memories..."
+        />
+      </div>
+
+      {error ? (
+        <div className="text-center py-16">
+          <Icon icon="alertCircle" size="lg" className="mx-auto text-error mb-4" />
+          <h2 className="text-lg font-medium text-foreground mb-2">Error</h2>
+          <p className="text-foreground-secondary mb-4">{error}</p>
+          <Button onClick={() => fetchMemories(query.trim())}>Try Again</Button>
+        </div>
+      ) : (
+        <div className="bg-white border border-border rounded-lg overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Memory</TableHead>
+                <TableHead className="w-[120px]">Recalled</TableHead>
+                <TableHead className="w-[140px]">Saved</TableHead>
+                <TableHead className="w-[80px] text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <MemorySkeletonRows />
+              ) : memories.length === 0 ? (
+                <MemoriesEmpty isSearch={Boolean(query)} />
+              ) : (
+                memories.map((memory) => (
+                  <MemoryRow
+                    key={memory.id}
+                    memory={memory}
+                    isDeleting={deletingId === memory.id}
+                    onDelete={() => handleDelete(memory.id)}
+                  />
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {hasMore && !query && (
+        <div className="flex justify-center mt-4">
+          <Button variant="outline" onClick={() => fetchMemories('', memories.length)}>
+            Load More
+          </Button>
+        </div>
+      )}
+    </DashboardLayout>
+  );
+}
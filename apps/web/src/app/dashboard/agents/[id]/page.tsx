@@ -1,8 +1,16 @@
 'use client';
 
-import type { AIProvider } from '@tpmjs/types/agent';
-import { PROVIDER_MODELS, SUPPORTED_PROVIDERS } from '@tpmjs/types/agent';
-import type { ExecutorConfig } from '@tpmjs/types/executor';
+import type { AIProvider, MemoryMode } from '@tpmjs/types/agent';
+import {
+  DEFAULT_MAX_TOOL_OUTPUT_CHARS,
+  PROVIDER_MODELS,
+  SUPPORTED_PROVIDERS,
+} from '@tpmjs/types/agent';
+import type {
+  ChainExecutorConfig,
+  ExecutorConfig,
+  ExecutorSigningSecret,
+} from '@tpmjs/types/executor';
 import { Button } from '@tpmjs/ui/Button/Button';
 import { CodeBlock } from '@tpmjs/ui/CodeBlock/CodeBlock';
 import { Icon } from '@tpmjs/ui/Icon/Icon';
@@ -23,6 +31,7 @@ import { useCallback, useEffect, useRef, useState } from 'react';
 import { DashboardLayout } from '~/components/dashboard/DashboardLayout';
 import { EnvVarsEditor } from '~/components/EnvVarsEditor';
 import { ExecutorConfigPanel } from '~/components/ExecutorConfigPanel';
+import { ToolVersionPin } from '~/components/ToolVersionPin';
 
 interface Agent {
   id: string;
@@ -35,9 +44,16 @@ interface Agent {
   temperature: number;
   maxToolCallsPerTurn: number;
   maxMessagesInContext: number;
+  maxToolOutputChars: number;
+  memoryMode: MemoryMode;
+  longTermMemory: boolean;
   isPublic: boolean;
   executorType: string | null;
-  executorConfig: { url: string; apiKey?: string } | null;
+  executorConfig:
+    | { url: string; apiKey?: string; signingSecret?: ExecutorSigningSecret }
+    | { memoryLimitMb?: number; timeoutMs?: number }
+    | { executors: ChainExecutorConfig['executors'] }
+    | null;
   envVars: Record<string, string> | null;
   toolCount: number;
   collectionCount: number;
@@ -48,6 +64,10 @@ interface Agent {
 interface AgentTool {
   id: string;
   toolId: string;
+  version: string | null;
+  latestVersion: string | null;
+  upgradeVersion: string | null;
+  requiresApproval: boolean;
   tool: {
     id: string;
     name: string;
@@ -301,6 +321,9 @@ export default function AgentDetailPage(): React.ReactElement {
     temperature: 0.7,
     maxToolCallsPerTurn: 20,
     maxMessagesInContext: 10,
+    maxToolOutputChars: DEFAULT_MAX_TOOL_OUTPUT_CHARS,
+    memoryMode: 'WINDOW' as MemoryMode,
+    longTermMemory: false,
     isPublic: true,
   });
 
@@ -325,15 +348,31 @@ export default function AgentDetailPage(): React.ReactElement {
           temperature: data.data.temperature,
           maxToolCallsPerTurn: data.data.maxToolCallsPerTurn,
           maxMessagesInContext: data.data.maxMessagesInContext,
+          maxToolOutputChars: data.data.maxToolOutputChars,
+          memoryMode: data.data.memoryMode,
+          longTermMemory: data.data.longTermMemory,
           isPublic: data.data.isPublic,
         });
         // Initialize executor config state from agent data
-        if (data.data.executorType === 'custom_url' && data.data.executorConfig) {
+        if (
+          data.data.executorType === 'custom_url' &&
+          data.data.executorConfig &&
+          'url' in data.data.executorConfig
+        ) {
           setExecutorConfig({
             type: 'custom_url',
             url: data.data.executorConfig.url,
             apiKey: data.data.executorConfig.apiKey,
+            signingSecret: data.data.executorConfig.signingSecret,
           });
+        } else if (
+          data.data.executorType === 'chain' &&
+          data.data.executorConfig &&
+          'executors' in data.data.executorConfig
+        ) {
+          setExecutorConfig({ type: 'chain', executors: data.data.executorConfig.executors });
+        } else if (data.data.executorType === 'local_process') {
+          setExecutorConfig({ type: 'local_process', ...data.data.executorConfig });
         } else {
           setExecutorConfig(data.data.executorType ? { type: 'default' } : null);
         }
@@ -540,6 +579,46 @@ export default function AgentDetailPage(): React.ReactElement {
     }
   };
 
+  // Pin an individual tool's version (null tracks latest)
+  const updateToolVersion = async (toolId: string, version: string | null) => {
+    try {
+      const response = await fetch(`/api/agents/${agentId}/tools/${toolId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ version }),
+      });
+      const data = await response.json();
+      if (data.success) {
+        await fetchAgentTools();
+      } else {
+        alert(data.error || 'Failed to update version');
+      }
+    } catch (err) {
+      console.error('Failed to update tool version:', err);
+      alert('Failed to update version');
+    }
+  };
+
+  // Hold an individual tool's calls for the user's approval
+  const updateToolApproval = async (toolId: string, requiresApproval: boolean) => {
+    try {
+      const response = await fetch(`/api/agents/${agentId}/tools/${toolId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ requiresApproval }),
+      });
+      const data = await response.json();
+      if (data.success) {
+        await fetchAgentTools();
+      } else {
+        alert(data.error || 'Failed to update approval setting');
+      }
+    } catch (err) {
+      console.error('Failed to update tool approval setting:', err);
+      alert('Failed to update approval setting');
+    }
+  };
+
   // Add collection to agent
   const addCollection = async (collectionId: string) => {
     try {
@@ -611,6 +690,7 @@ export default function AgentDetailPage(): React.ReactElement {
       temperature: Number.parseFloat(formData.temperature.toString()),
       maxToolCallsPerTurn: Number.parseInt(formData.maxToolCallsPerTurn.toString(), 10),
       maxMessagesInContext: Number.parseInt(formData.maxMessagesInContext.toString(), 10),
+      maxToolOutputChars: Number.parseInt(formData.maxToolOutputChars.toString(), 10),
       description: formData.description || null,
       systemPrompt: formData.systemPrompt || null,
       isPublic: formData.isPublic,
@@ -623,6 +703,14 @@ export default function AgentDetailPage(): React.ReactElement {
         updatePayload.executorConfig = {
           url: executorConfig.url,
           apiKey: executorConfig.apiKey,
+          signingSecret: executorConfig.signingSecret,
+        };
+      } else if (executorConfig.type === 'chain') {
+        updatePayload.executorConfig = { executors: executorConfig.executors };
+      } else if (executorConfig.type === 'local_process') {
+        updatePayload.executorConfig = {
+          memoryLimitMb: executorConfig.memoryLimitMb,
+          timeoutMs: executorConfig.timeoutMs,
         };
       } else {
         updatePayload.executorConfig = null;
@@ -843,7 +931,7 @@ export default function AgentDetailPage(): React.ReactElement {
               />
             </div>
 
-            <div className="grid gap-4 sm:grid-cols-3">
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
               <div>
                 <label
                   htmlFor="temperature"
@@ -899,6 +987,64 @@ export default function AgentDetailPage(): React.ReactElement {
                   className="w-full px-3 py-2 bg-surface border border-border rounded-lg text-foreground focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary"
                 />
               </div>
+              <div>
+                <label
+                  htmlFor="maxToolOutputChars"
+                  className="block text-sm font-medium text-foreground mb-1"
+                >
+                  Max Tool Output
+                </label>
+                <input
+                  type="number"
+                  id="maxToolOutputChars"
+                  name="maxToolOutputChars"
+                  value={formData.maxToolOutputChars}
+                  onChange={handleChange}
+                  min={1000}
+                  max={1000000}
+                  step={1000}
+                  className="w-full px-3 py-2 bg-surface border border-border rounded-lg text-foreground focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label
+                htmlFor="memoryMode"
+                className="block text-sm font-medium text-foreground mb-1"
+              >
+                Memory
+              </label>
+              <select
+                id="memoryMode"
+                name="memoryMode"
+                value={formData.memoryMode}
+                onChange={handleChange}
+                className="w-full px-3 py-2 bg-surface border border-border rounded-lg text-foreground focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary"
+              >
+                <option value="WINDOW">Recent messages only</option>
+                <option value="ROLLING_SUMMARY">Rolling summary</option>
+              </select>
+              <p className="text-xs text-foreground-tertiary mt-1">
+                Rolling summary condenses older turns instead of dropping them once the history
+                outgrows the model&apos;s context
+              </p>
+            </div>
+
+            <div className="flex items-center justify-between p-4 bg-surface rounded-lg border border-border">
+              <div>
+                <p className="text-sm font-medium text-foreground">Long-term Memory</p>
+                <p className="text-xs text-foreground-secondary">
+                  Let the agent remember facts across your conversations with built-in remember,
+                  recall and forget tools (only in chats you start while signed in)
+                </p>
+              </div>
+              <Switch
+                checked={formData.longTermMemory}
+                onChange={(checked) =>
+                  setFormData((prev) => ({ ...prev, longTermMemory: checked }))
+                }
+              />
             </div>
 
             <div className="flex items-center justify-between p-4 bg-surface rounded-lg border border-border">
@@ -948,15 +1094,31 @@ export default function AgentDetailPage(): React.ReactElement {
                     temperature: agent.temperature,
                     maxToolCallsPerTurn: agent.maxToolCallsPerTurn,
                     maxMessagesInContext: agent.maxMessagesInContext,
+                    maxToolOutputChars: agent.maxToolOutputChars,
+                    memoryMode: agent.memoryMode,
+                    longTermMemory: agent.longTermMemory,
                     isPublic: agent.isPublic,
                   });
                   // Reset executor config to agent's current value
-                  if (agent.executorType === 'custom_url' && agent.executorConfig) {
+                  if (
+                    agent.executorType === 'custom_url' &&
+                    agent.executorConfig &&
+                    'url' in agent.executorConfig
+                  ) {
                     setExecutorConfig({
                       type: 'custom_url',
                       url: agent.executorConfig.url,
                       apiKey: agent.executorConfig.apiKey,
+                      signingSecret: agent.executorConfig.signingSecret,
                     });
+                  } else if (
+                    agent.executorType === 'chain' &&
+                    agent.executorConfig &&
+                    'executors' in agent.executorConfig
+                  ) {
+                    setExecutorConfig({ type: 'chain', executors: agent.executorConfig.executors });
+                  } else if (agent.executorType === 'local_process') {
+                    setExecutorConfig({ type: 'local_process', ...agent.executorConfig });
                   } else {
                     setExecutorConfig(agent.executorType ? { type: 'default' } : null);
                   }
@@ -993,6 +1155,32 @@ export default function AgentDetailPage(): React.ReactElement {
               <dt className="text-sm text-foreground-secondary">Context Messages</dt>
               <dd className="text-foreground">{agent.maxMessagesInContext}</dd>
             </div>
+            <div>
+              <dt className="text-sm text-foreground-secondary">Max Tool Output</dt>
+              <dd className="text-foreground">
+                {agent.maxToolOutputChars.toLocaleString()} characters
+              </dd>
+            </div>
+            <div>
+              <dt className="text-sm text-foreground-secondary">Memory</dt>
+              <dd className="text-foreground">
+                {agent.memoryMode === 'ROLLING_SUMMARY'
+                  ? 'Rolling summary'
+                  : 'Recent messages only'}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-sm text-foreground-secondary">Long-term Memory</dt>
+              <dd className="text-foreground flex items-center gap-2">
+                {agent.longTermMemory ? 'On' : 'Off'}
+                <Link
+                  href={`/dashboard/agents/${agent.id}/memories`}
+                  className="text-sm text-primary hover:underline"
+                >
+                  Browse memories
+                </Link>
+              </dd>
+            </div>
             <div>
               <dt className="text-sm text-foreground-secondary">Visibility</dt>
               <dd className="text-foreground flex items-center gap-2">
@@ -1082,13 +1270,15 @@ export default function AgentDetailPage(): React.ReactElement {
             <TableRow>
               <TableHead>Tool</TableHead>
               <TableHead>Package</TableHead>
+              <TableHead>Version</TableHead>
+              <TableHead className="w-[120px]">Approval</TableHead>
               <TableHead className="w-[80px] text-right">Actions</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
             {agentTools.length === 0 ? (
               <TableEmpty
-                colSpan={3}
+                colSpan={5}
                 icon={
                   <div className="w-12 h-12 rounded-full bg-primary/10 flex items-center justify-center">
                     <Icon icon="puzzle" size="md" className="text-primary" />
@@ -1113,6 +1303,23 @@ export default function AgentDetailPage(): React.ReactElement {
                       {at.tool.npmPackageName}
                     </span>
                   </TableCell>
+                  <TableCell>
+                    <ToolVersionPin
+                      version={at.version}
+                      latestVersion={at.latestVersion}
+                      upgradeVersion={at.upgradeVersion}
+                      onChange={(version) => updateToolVersion(at.toolId, version)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      size="sm"
+                      checked={at.requiresApproval}
+                      onChange={(checked) => updateToolApproval(at.toolId, checked)}
+                      aria-label="Require approval before each call"
+                      title="Require approval before each call"
+                    />
+                  </TableCell>
                   <TableCell>
                     <div className="flex items-center justify-end">
                       <Button
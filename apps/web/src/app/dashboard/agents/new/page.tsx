@@ -1,9 +1,14 @@
 'use client';
 
-import type { AIProvider } from '@tpmjs/types/agent';
-import { PROVIDER_MODELS, SUPPORTED_PROVIDERS } from '@tpmjs/types/agent';
+import type { AIProvider, MemoryMode } from '@tpmjs/types/agent';
+import {
+  DEFAULT_MAX_TOOL_OUTPUT_CHARS,
+  PROVIDER_MODELS,
+  SUPPORTED_PROVIDERS,
+} from '@tpmjs/types/agent';
 import { Button } from '@tpmjs/ui/Button/Button';
 import { Icon } from '@tpmjs/ui/Icon/Icon';
+import { Switch } from '@tpmjs/ui/Switch/Switch';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { useState } from 'react';
@@ -27,6 +32,9 @@ interface FormData {
   temperature: number;
   maxToolCallsPerTurn: number;
   maxMessagesInContext: number;
+  maxToolOutputChars: number;
+  memoryMode: MemoryMode;
+  longTermMemory: boolean;
 }
 
 export default function NewAgentPage(): React.ReactElement {
@@ -43,6 +51,9 @@ export default function NewAgentPage(): React.ReactElement {
     temperature: 0.7,
     maxToolCallsPerTurn: 20,
     maxMessagesInContext: 10,
+    maxToolOutputChars: DEFAULT_MAX_TOOL_OUTPUT_CHARS,
+    memoryMode: 'WINDOW',
+    longTermMemory: false,
   });
 
   const handleChange = (
@@ -90,6 +101,7 @@ export default function NewAgentPage(): React.ReactElement {
           temperature: Number.parseFloat(formData.temperature.toString()),
           maxToolCallsPerTurn: Number.parseInt(formData.maxToolCallsPerTurn.toString(), 10),
           maxMessagesInContext: Number.parseInt(formData.maxMessagesInContext.toString(), 10),
+          maxToolOutputChars: Number.parseInt(formData.maxToolOutputChars.toString(), 10),
         }),
       });
 
@@ -265,7 +277,7 @@ export default function NewAgentPage(): React.ReactElement {
                 </p>
               </div>
 
-              <div className="grid gap-4 sm:grid-cols-3">
+              <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
                 <div>
                   <label
                     htmlFor="temperature"
@@ -330,6 +342,68 @@ export default function NewAgentPage(): React.ReactElement {
                     Recent messages to include
                   </p>
                 </div>
+
+                <div>
+                  <label
+                    htmlFor="maxToolOutputChars"
+                    className="block text-sm font-medium text-foreground mb-1"
+                  >
+                    Max Tool Output
+                  </label>
+                  <input
+                    type="number"
+                    id="maxToolOutputChars"
+                    name="maxToolOutputChars"
+                    value={formData.maxToolOutputChars}
+                    onChange={handleChange}
+                    min={1000}
+                    max={1000000}
+                    step={1000}
+                    className="w-full px-3 py-2 bg-surface border border-border rounded-lg text-foreground focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary"
+                  />
+                  <p className="text-xs text-foreground-tertiary mt-1">
+                    Characters; larger results are stored as files
+                  </p>
+                </div>
+              </div>
+
+              <div>
+                <label
+                  htmlFor="memoryMode"
+                  className="block text-sm font-medium text-foreground mb-1"
+                >
+                  Memory
+                </label>
+                <select
+                  id="memoryMode"
+                  name="memoryMode"
+                  value={formData.memoryMode}
+                  onChange={handleChange}
+                  className="w-full px-3 py-2 bg-surface border border-border rounded-lg text-foreground focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary"
+                >
+                  <option value="WINDOW">Recent messages only</option>
+                  <option value="ROLLING_SUMMARY">Rolling summary</option>
+                </select>
+                <p className="text-xs text-foreground-tertiary mt-1">
+                  Rolling summary condenses older turns instead of dropping them once the history
+                  outgrows the model&apos;s context
+                </p>
+              </div>
+
+              <div className="flex items-center justify-between p-4 bg-surface rounded-lg border border-border">
+                <div>
+                  <p className="text-sm font-medium text-foreground">Long-term Memory</p>
+                  <p className="text-xs text-foreground-secondary">
+                    Let the agent remember facts across your conversations with built-in remember,
+                    recall and forget tools (only in chats you start while signed in)
+                  </p>
+                </div>
+                <Switch
+                  checked={formData.longTermMemory}
+                  onChange={(checked) =>
+                    setFormData((prev) => ({ ...prev, longTermMemory: checked }))
+                  }
+                />
               </div>
             </div>
           </div>
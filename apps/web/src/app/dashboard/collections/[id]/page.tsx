@@ -1,26 +1,96 @@
 'use client';
 
-import type { ExecutorConfig } from '@tpmjs/types/executor';
+import type {
+  ChainExecutorConfig,
+  ExecutorConfig,
+  ExecutorSigningSecret,
+} from '@tpmjs/types/executor';
 import { Badge } from '@tpmjs/ui/Badge/Badge';
 import { Button } from '@tpmjs/ui/Button/Button';
 import { Icon } from '@tpmjs/ui/Icon/Icon';
 import Link from 'next/link';
 import { useParams, useRouter } from 'next/navigation';
 import { useCallback, useEffect, useState } from 'react';
+import { CopyButton } from '~/components/CopyButton';
 import { AddToolSearch } from '~/components/collections/AddToolSearch';
 import { CollectionForm } from '~/components/collections/CollectionForm';
+import { CollectionPromptList } from '~/components/collections/CollectionPromptList';
 import { CollectionToolList } from '~/components/collections/CollectionToolList';
 import { DashboardLayout } from '~/components/dashboard/DashboardLayout';
 import { EnvVarsEditor } from '~/components/EnvVarsEditor';
 import { ExecutorConfigPanel } from '~/components/ExecutorConfigPanel';
 
-function McpUrlSection({ collectionId }: { collectionId: string }) {
+interface McpUrlSectionProps {
+  collectionId: string;
+  username: string;
+  slug: string;
+  isPublic: boolean;
+  isOwner: boolean;
+  mcpTokenPrefix: string | null;
+  onTokenChange: (tokenPrefix: string | null) => void;
+}
+
+function McpUrlSection({
+  collectionId,
+  username,
+  slug,
+  isPublic,
+  isOwner,
+  mcpTokenPrefix,
+  onTokenChange,
+}: McpUrlSectionProps) {
   const [copiedUrl, setCopiedUrl] = useState<'http' | 'sse' | null>(null);
   const [showConfig, setShowConfig] = useState(false);
+  // Plaintext MCP token, only available right after generating it
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const [tokenBusy, setTokenBusy] = useState(false);
 
   const baseUrl = typeof window !== 'undefined' ? window.location.origin : 'https://tpmjs.com';
-  const httpUrl = `${baseUrl}/api/collections/${collectionId}/mcp/http`;
-  const sseUrl = `${baseUrl}/api/collections/${collectionId}/mcp/sse`;
+  const httpUrl = `${baseUrl}/api/mcp/${username}/${slug}/http`;
+  const sseUrl = `${baseUrl}/api/mcp/${username}/${slug}/sse`;
+
+  const handleGenerateToken = async () => {
+    if (
+      mcpTokenPrefix &&
+      !confirm('Rotate the MCP token? Clients using the current token will lose access.')
+    ) {
+      return;
+    }
+    setTokenBusy(true);
+    try {
+      const response = await fetch(`/api/collections/${collectionId}/mcp-token`, {
+        method: 'POST',
+      });
+      const result = await response.json();
+      if (result.success) {
+        setNewToken(result.data.token);
+        onTokenChange(result.data.tokenPrefix);
+      }
+    } catch (err) {
+      console.error('Failed to generate MCP token:', err);
+    } finally {
+      setTokenBusy(false);
+    }
+  };
+
+  const handleRevokeToken = async () => {
+    if (!confirm('Revoke the MCP token? Clients using it will lose access.')) return;
+    setTokenBusy(true);
+    try {
+      const response = await fetch(`/api/collections/${collectionId}/mcp-token`, {
+        method: 'DELETE',
+      });
+      const result = await response.json();
+      if (result.success) {
+        setNewToken(null);
+        onTokenChange(null);
+      }
+    } catch (err) {
+      console.error('Failed to revoke MCP token:', err);
+    } finally {
+      setTokenBusy(false);
+    }
+  };
 
   const copyToClipboard = async (url: string, type: 'http' | 'sse') => {
     await navigator.clipboard.writeText(url);
@@ -28,13 +98,19 @@ function McpUrlSection({ collectionId }: { collectionId: string }) {
     setTimeout(() => setCopiedUrl(null), 2000);
   };
 
+  const authArgs = isPublic
+    ? ''
+    : `,
+        "--header",
+        "Authorization: Bearer ${newToken ?? '<YOUR_MCP_TOKEN>'}"`;
+
   const configSnippet = `{
   "mcpServers": {
     "tpmjs-collection": {
       "command": "npx",
       "args": [
         "mcp-remote",
-        "${httpUrl}"
+        "${httpUrl}"${authArgs}
       ]
     }
   }
@@ -48,10 +124,56 @@ function McpUrlSection({ collectionId }: { collectionId: string }) {
         </div>
         <h3 className="font-semibold text-foreground">MCP Server URLs</h3>
         <Badge variant="secondary" size="sm">
-          Public
+          {isPublic ? 'Public' : 'Private'}
         </Badge>
       </div>
 
+      {/* Private collections need a token */}
+      {!isPublic && isOwner && (
+        <div className="mb-4 p-3 bg-surface border border-border rounded-lg">
+          <p className="text-sm text-foreground-secondary mb-3">
+            This collection is private. MCP clients must send{' '}
+            <code className="font-mono text-xs">Authorization: Bearer &lt;token&gt;</code> using
+            this collection&apos;s MCP token or one of your API tokens with the{' '}
+            <code className="font-mono text-xs">collections:read</code> scope.
+          </p>
+          {newToken && (
+            <div className="mb-3">
+              <p className="text-xs text-foreground-tertiary mb-1">
+                Copy this token now. It won&apos;t be shown again.
+              </p>
+              <div className="flex items-center gap-2 px-3 py-2 bg-white border border-border rounded-lg">
+                <code className="flex-1 font-mono text-sm text-foreground break-all">
+                  {newToken}
+                </code>
+                <CopyButton text={newToken} successMessage="Token copied" />
+              </div>
+            </div>
+          )}
+          <div className="flex items-center gap-2">
+            {mcpTokenPrefix && !newToken && (
+              <span className="font-mono text-xs text-foreground-tertiary mr-2">
+                {mcpTokenPrefix}…
+              </span>
+            )}
+            <Button
+              size="sm"
+              variant="secondary"
+              onClick={handleGenerateToken}
+              disabled={tokenBusy}
+            >
+              <Icon icon="key" size="xs" className="mr-1" />
+              {mcpTokenPrefix ? 'Rotate Token' : 'Generate Token'}
+            </Button>
+            {mcpTokenPrefix && (
+              <Button size="sm" variant="ghost" onClick={handleRevokeToken} disabled={tokenBusy}>
+                Revoke
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
       <div className="space-y-3">
         {/* HTTP Transport */}
         <div className="group">
@@ -149,6 +271,8 @@ interface CollectionTool {
   toolId: string;
   position: number;
   note: string | null;
+  version: string | null;
+  upgradeVersion?: string | null;
   addedAt: string;
   tool: {
     id: string;
@@ -157,6 +281,7 @@ interface CollectionTool {
     package: {
       id: string;
       npmPackageName: string;
+      npmVersion?: string;
       category: string;
     };
   };
@@ -165,11 +290,18 @@ interface CollectionTool {
 interface Collection {
   id: string;
   name: string;
+  slug: string | null;
+  username: string | null;
   description: string | null;
   isPublic: boolean;
+  mcpTokenPrefix: string | null;
   toolCount: number;
   executorType: string | null;
-  executorConfig: { url: string; apiKey?: string } | null;
+  executorConfig:
+    | { url: string; apiKey?: string; signingSecret?: ExecutorSigningSecret }
+    | { memoryLimitMb?: number; timeoutMs?: number }
+    | { executors: ChainExecutorConfig['executors'] }
+    | null;
   envVars: Record<string, string> | null;
   createdAt: string;
   updatedAt: string;
@@ -204,12 +336,25 @@ export default function CollectionDetailPage(): React.ReactElement {
       if (data.success) {
         setCollection(data.data);
         // Initialize executor config state from collection data
-        if (data.data.executorType === 'custom_url' && data.data.executorConfig) {
+        if (
+          data.data.executorType === 'custom_url' &&
+          data.data.executorConfig &&
+          'url' in data.data.executorConfig
+        ) {
           setExecutorConfig({
             type: 'custom_url',
             url: data.data.executorConfig.url,
             apiKey: data.data.executorConfig.apiKey,
+            signingSecret: data.data.executorConfig.signingSecret,
           });
+        } else if (
+          data.data.executorType === 'chain' &&
+          data.data.executorConfig &&
+          'executors' in data.data.executorConfig
+        ) {
+          setExecutorConfig({ type: 'chain', executors: data.data.executorConfig.executors });
+        } else if (data.data.executorType === 'local_process') {
+          setExecutorConfig({ type: 'local_process', ...data.data.executorConfig });
         } else {
           setExecutorConfig(data.data.executorType ? { type: 'default' } : null);
         }
@@ -255,6 +400,14 @@ export default function CollectionDetailPage(): React.ReactElement {
         updatePayload.executorConfig = {
           url: executorConfig.url,
           apiKey: executorConfig.apiKey,
+          signingSecret: executorConfig.signingSecret,
+        };
+      } else if (executorConfig.type === 'chain') {
+        updatePayload.executorConfig = { executors: executorConfig.executors };
+      } else if (executorConfig.type === 'local_process') {
+        updatePayload.executorConfig = {
+          memoryLimitMb: executorConfig.memoryLimitMb,
+          timeoutMs: executorConfig.timeoutMs,
         };
       } else {
         updatePayload.executorConfig = null;
@@ -345,6 +498,7 @@ export default function CollectionDetailPage(): React.ReactElement {
       toolId: tool.id,
       position: collection.tools.length,
       note: null,
+      version: null,
       addedAt: new Date().toISOString(),
       tool: {
         id: tool.id,
@@ -400,6 +554,50 @@ export default function CollectionDetailPage(): React.ReactElement {
     }
   };
 
+  const handleVersionChange = async (toolId: string, version: string | null) => {
+    try {
+      const response = await fetch(`/api/collections/${collectionId}/tools/${toolId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ version }),
+      });
+
+      const result = await response.json();
+
+      if (!result.success) {
+        const versionError = result.error?.details?.errors?.version?.[0];
+        throw new Error(versionError || result.error?.message || 'Failed to update version');
+      }
+
+      // Refetch so the upgrade suggestion reflects the new pin
+      await fetchCollection();
+    } catch (err) {
+      console.error('Failed to update tool version:', err);
+      alert(err instanceof Error ? err.message : 'Failed to update version');
+    }
+  };
+
+  const handleApprovalChange = async (toolId: string, requiresApproval: boolean) => {
+    try {
+      const response = await fetch(`/api/collections/${collectionId}/tools/${toolId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ requiresApproval }),
+      });
+
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error?.message || 'Failed to update approval setting');
+      }
+
+      await fetchCollection();
+    } catch (err) {
+      console.error('Failed to update tool approval setting:', err);
+      alert(err instanceof Error ? err.message : 'Failed to update approval setting');
+    }
+  };
+
   if (isLoading) {
     return (
       <DashboardLayout title="Loading..." showBackButton backUrl="/dashboard/collections">
@@ -508,8 +706,20 @@ export default function CollectionDetailPage(): React.ReactElement {
         <p className="text-foreground-secondary mb-8">{collection.description}</p>
       )}
 
-      {/* MCP URLs - only for public collections */}
-      {collection.isPublic && <McpUrlSection collectionId={collection.id} />}
+      {/* MCP URLs - public collections, or private ones for their owner */}
+      {(collection.isPublic || collection.isOwner) && collection.username && collection.slug && (
+        <McpUrlSection
+          collectionId={collection.id}
+          username={collection.username}
+          slug={collection.slug}
+          isPublic={collection.isPublic}
+          isOwner={collection.isOwner}
+          mcpTokenPrefix={collection.mcpTokenPrefix}
+          onTokenChange={(mcpTokenPrefix) =>
+            setCollection((prev) => (prev ? { ...prev, mcpTokenPrefix } : null))
+          }
+        />
+      )}
 
       {/* Add Tool Search */}
       {collection.isOwner && (
@@ -529,10 +739,18 @@ export default function CollectionDetailPage(): React.ReactElement {
         <CollectionToolList
           tools={collection.tools}
           onRemove={collection.isOwner ? handleRemoveTool : undefined}
+          onVersionChange={collection.isOwner ? handleVersionChange : undefined}
+          onApprovalChange={collection.isOwner ? handleApprovalChange : undefined}
           removingId={removingToolId}
           isOwner={collection.isOwner}
         />
       </div>
+
+      {/* Prompt templates (served as MCP prompts) */}
+      <div className="mt-8">
+        <h2 className="text-sm font-medium text-foreground mb-3">Prompts</h2>
+        <CollectionPromptList collectionId={collection.id} isOwner={collection.isOwner} />
+      </div>
     </DashboardLayout>
   );
 }
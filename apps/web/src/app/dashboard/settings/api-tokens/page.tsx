@@ -0,0 +1,396 @@
+'use client';
+
+import { API_TOKEN_SCOPES, type ApiTokenScope } from '@tpmjs/types/user';
+import { Badge } from '@tpmjs/ui/Badge/Badge';
+import { Button } from '@tpmjs/ui/Button/Button';
+import { Icon } from '@tpmjs/ui/Icon/Icon';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableEmpty,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@tpmjs/ui/Table/Table';
+import { useRouter } from 'next/navigation';
+import { useCallback, useEffect, useState } from 'react';
+import { CopyButton } from '~/components/CopyButton';
+import { DashboardLayout } from '~/components/dashboard/DashboardLayout';
+
+interface ApiTokenInfo {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: ApiTokenScope[];
+  expiresAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+const EXPIRY_OPTIONS = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 365, label: '1 year' },
+];
+
+function formatDate(dateString: string): string {
+  const date = new Date(dateString);
+  return date.toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+function getTokenStatus(token: ApiTokenInfo): {
+  label: string;
+  variant: 'success' | 'error' | 'secondary';
+} {
+  if (token.revokedAt) return { label: 'Revoked', variant: 'error' };
+  if (new Date(token.expiresAt) <= new Date()) return { label: 'Expired', variant: 'secondary' };
+  return { label: 'Active', variant: 'success' };
+}
+
+export default function ApiTokensPage(): React.ReactElement {
+  const router = useRouter();
+  const [tokens, setTokens] = useState<ApiTokenInfo[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Create token form
+  const [showCreateForm, setShowCreateForm] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [newScopes, setNewScopes] = useState<ApiTokenScope[]>(['collections:read', 'agents:read']);
+  const [newExpiryDays, setNewExpiryDays] = useState(90);
+  const [creating, setCreating] = useState(false);
+  const [createError, setCreateError] = useState<string | null>(null);
+
+  // Plaintext token, shown once after creation
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const fetchTokens = useCallback(async () => {
+    try {
+      const response = await fetch('/api/user/api-tokens');
+      const data = await response.json();
+      if (data.success) {
+        setTokens(data.data);
+      } else {
+        if (response.status === 401) {
+          router.push('/sign-in');
+          return;
+        }
+        setError(data.error?.message || 'Failed to fetch tokens');
+      }
+    } catch (err) {
+      console.error('Failed to fetch tokens:', err);
+      setError('Failed to fetch tokens');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [router]);
+
+  useEffect(() => {
+    fetchTokens();
+  }, [fetchTokens]);
+
+  const toggleScope = useCallback((scope: ApiTokenScope) => {
+    setNewScopes((prev) =>
+      prev.includes(scope) ? prev.filter((s) => s !== scope) : [...prev, scope]
+    );
+  }, []);
+
+  const handleCreate = useCallback(async () => {
+    if (!newName.trim() || newScopes.length === 0) return;
+
+    setCreating(true);
+    setCreateError(null);
+
+    try {
+      const response = await fetch('/api/user/api-tokens', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: newName.trim(),
+          scopes: newScopes,
+          expiresInDays: newExpiryDays,
+        }),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setCreatedToken(result.data.token);
+        setNewName('');
+        setShowCreateForm(false);
+        fetchTokens();
+      } else {
+        setCreateError(result.error?.message || 'Failed to create token');
+      }
+    } catch (err) {
+      console.error('Failed to create token:', err);
+      setCreateError('Failed to create token');
+    } finally {
+      setCreating(false);
+    }
+  }, [newName, newScopes, newExpiryDays, fetchTokens]);
+
+  const handleRevoke = useCallback(async (token: ApiTokenInfo) => {
+    if (!confirm(`Revoke "${token.name}"? Requests using it will stop working immediately.`)) {
+      return;
+    }
+
+    setRevokingId(token.id);
+    try {
+      const response = await fetch(`/api/user/api-tokens/${token.id}`, { method: 'DELETE' });
+      const result = await response.json();
+      if (result.success) {
+        setTokens((prev) =>
+          prev.map((t) => (t.id === token.id ? { ...t, revokedAt: new Date().toISOString() } : t))
+        );
+      }
+    } catch (err) {
+      console.error('Failed to revoke:', err);
+    } finally {
+      setRevokingId(null);
+    }
+  }, []);
+
+  if (error) {
+    return (
+      <DashboardLayout title="API Tokens">
+        <div className="text-center py-16">
+          <Icon icon="alertCircle" size="lg" className="mx-auto text-error mb-4" />
+          <h2 className="text-lg font-medium text-foreground mb-2">Error</h2>
+          <p className="text-foreground-secondary mb-4">{error}</p>
+          <Button onClick={fetchTokens}>Try Again</Button>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  const activeCount = tokens.filter((t) => getTokenStatus(t).label === 'Active').length;
+
+  return (
+    <DashboardLayout
+      title="API Tokens"
+      subtitle={
+        activeCount > 0 ? `${activeCount} active token${activeCount !== 1 ? 's' : ''}` : undefined
+      }
+      actions={
+        !showCreateForm && (
+          <Button onClick={() => setShowCreateForm(true)}>
+            <Icon icon="plus" size="sm" className="mr-2" />
+            New Token
+          </Button>
+        )
+      }
+    >
+      {/* Newly created token (shown once) */}
+      {createdToken && (
+        <div className="bg-success/5 border border-success/30 rounded-lg p-6 mb-6">
+          <h2 className="text-lg font-medium text-foreground mb-2">Token created</h2>
+          <p className="text-sm text-foreground-secondary mb-4">
+            Copy this token now. It won&apos;t be shown again.
+          </p>
+          <div className="flex items-center gap-2 bg-surface border border-border rounded-lg px-3 py-2">
+            <code className="flex-1 font-mono text-sm text-foreground break-all">
+              {createdToken}
+            </code>
+            <CopyButton text={createdToken} successMessage="Token copied" />
+          </div>
+          <p className="text-xs text-foreground-tertiary mt-3 font-mono">
+            curl -H &quot;Authorization: Bearer {createdToken.slice(0, 14)}...&quot;
+            https://tpmjs.com/api/collections
+          </p>
+          <div className="mt-4">
+            <Button variant="outline" size="sm" onClick={() => setCreatedToken(null)}>
+              Done
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Create token form */}
+      {showCreateForm && (
+        <div className="bg-surface border border-border rounded-lg p-6 mb-6">
+          <h2 className="text-lg font-medium text-foreground mb-4">New Personal Access Token</h2>
+          {createError && <p className="text-error text-sm mb-3">{createError}</p>}
+          <div className="space-y-4">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="Token name (e.g., CI deploy)"
+              maxLength={100}
+              className="w-full px-3 py-2 bg-surface border border-border rounded-lg text-foreground text-sm placeholder:text-foreground-tertiary focus:outline-none focus:ring-2 focus:ring-primary/50"
+            />
+            <div>
+              <p className="text-sm font-medium text-foreground mb-2">Scopes</p>
+              <div className="grid grid-cols-2 gap-2">
+                {API_TOKEN_SCOPES.map((scope) => (
+                  <label
+                    key={scope}
+                    className="flex items-center gap-2 text-sm text-foreground-secondary cursor-pointer"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={newScopes.includes(scope)}
+                      onChange={() => toggleScope(scope)}
+                    />
+                    <span className="font-mono">{scope}</span>
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-foreground-tertiary mt-2">
+                Write scopes include read access for the same resource.
+              </p>
+            </div>
+            <div>
+              <p className="text-sm font-medium text-foreground mb-2">Expires in</p>
+              <select
+                value={newExpiryDays}
+                onChange={(e) => setNewExpiryDays(Number(e.target.value))}
+                className="px-3 py-2 bg-surface border border-border rounded-lg text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-primary/50"
+              >
+                {EXPIRY_OPTIONS.map((option) => (
+                  <option key={option.days} value={option.days}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="flex items-center gap-2 mt-4">
+            <Button
+              onClick={handleCreate}
+              disabled={creating || !newName.trim() || newScopes.length === 0}
+            >
+              {creating ? 'Creating...' : 'Create Token'}
+            </Button>
+            <Button variant="outline" onClick={() => setShowCreateForm(false)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Tokens Table */}
+      <div className="bg-surface border border-border rounded-lg overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[220px]">Name</TableHead>
+              <TableHead>Scopes</TableHead>
+              <TableHead>Last Used</TableHead>
+              <TableHead>Expires</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="w-[80px] text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              [0, 1, 2].map((idx) => (
+                <TableRow key={`token-skeleton-${idx}`}>
+                  <TableCell>
+                    <div className="h-4 w-40 bg-surface-secondary rounded animate-pulse" />
+                  </TableCell>
+                  <TableCell>
+                    <div className="h-4 w-32 bg-surface-secondary rounded animate-pulse" />
+                  </TableCell>
+                  <TableCell>
+                    <div className="h-4 w-24 bg-surface-secondary rounded animate-pulse" />
+                  </TableCell>
+                  <TableCell>
+                    <div className="h-4 w-24 bg-surface-secondary rounded animate-pulse" />
+                  </TableCell>
+                  <TableCell>
+                    <div className="h-4 w-16 bg-surface-secondary rounded animate-pulse" />
+                  </TableCell>
+                  <TableCell>
+                    <div className="h-8 w-8 bg-surface-secondary rounded animate-pulse ml-auto" />
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : tokens.length === 0 ? (
+              <TableEmpty
+                colSpan={6}
+                icon={
+                  <div className="w-16 h-16 rounded-full bg-primary/10 flex items-center justify-center">
+                    <Icon icon="link" size="lg" className="text-primary" />
+                  </div>
+                }
+                title="No API tokens yet"
+                description="Personal access tokens let scripts, CI jobs and services call the TPMJS API with an Authorization: Bearer header."
+                action={
+                  <Button onClick={() => setShowCreateForm(true)}>
+                    <Icon icon="plus" size="sm" className="mr-2" />
+                    Create Your First Token
+                  </Button>
+                }
+              />
+            ) : (
+              tokens.map((token) => {
+                const status = getTokenStatus(token);
+                return (
+                  <TableRow key={token.id}>
+                    <TableCell>
+                      <div className="flex flex-col">
+                        <span className="text-sm text-foreground">{token.name}</span>
+                        <span className="font-mono text-xs text-foreground-tertiary">
+                          {token.tokenPrefix}…
+                        </span>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {token.scopes.map((scope) => (
+                          <Badge key={scope} variant="outline" size="sm">
+                            {scope}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <span className="text-foreground-secondary text-sm">
+                        {token.lastUsedAt ? formatDate(token.lastUsedAt) : 'Never'}
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      <span className="text-foreground-secondary text-sm">
+                        {formatDate(token.expiresAt)}
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={status.variant} size="sm">
+                        {status.label}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center justify-end">
+                        {status.label === 'Active' && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => handleRevoke(token)}
+                            disabled={revokingId === token.id}
+                            title="Revoke token"
+                          >
+                            <Icon icon="trash" size="xs" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,365 @@
+'use client';
+
+import { GITHUB_VERIFICATION_FILE, type PublisherAccountType } from '@tpmjs/types/user';
+import { Badge } from '@tpmjs/ui/Badge/Badge';
+import { Button } from '@tpmjs/ui/Button/Button';
+import { Icon } from '@tpmjs/ui/Icon/Icon';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableEmpty,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@tpmjs/ui/Table/Table';
+import { useRouter } from 'next/navigation';
+import { useCallback, useEffect, useState } from 'react';
+import { CopyButton } from '~/components/CopyButton';
+import { DashboardLayout } from '~/components/dashboard/DashboardLayout';
+
+interface PublisherAccountInfo {
+  id: string;
+  type: PublisherAccountType;
+  name: string;
+  verificationToken: string;
+  verifiedAt: string | null;
+  createdAt: string;
+}
+
+const TYPE_LABELS: Record<PublisherAccountType, string> = {
+  NPM: 'npm account',
+  GITHUB_ORG: 'GitHub org',
+};
+
+function formatDate(dateString: string): string {
+  const date = new Date(dateString);
+  return date.toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+function VerificationInstructions({
+  account,
+}: {
+  account: PublisherAccountInfo;
+}): React.ReactElement {
+  if (account.type === 'NPM') {
+    return (
+      <p className="text-xs text-foreground-tertiary mt-1">
+        The public email of npm account <span className="font-mono">{account.name}</span> must match
+        your verified TPMJS email.
+      </p>
+    );
+  }
+
+  return (
+    <div className="text-xs text-foreground-tertiary mt-1 space-y-1">
+      <p>
+        Add <span className="font-mono">{GITHUB_VERIFICATION_FILE}</span> containing this token to
+        the default branch of <span className="font-mono">{account.name}/.github</span>:
+      </p>
+      <div className="flex items-center gap-2">
+        <code className="font-mono text-foreground-secondary break-all">
+          {account.verificationToken}
+        </code>
+        <CopyButton text={account.verificationToken} successMessage="Token copied" />
+      </div>
+    </div>
+  );
+}
+
+export default function PublishersPage(): React.ReactElement {
+  const router = useRouter();
+  const [accounts, setAccounts] = useState<PublisherAccountInfo[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Link account form
+  const [showLinkForm, setShowLinkForm] = useState(false);
+  const [newType, setNewType] = useState<PublisherAccountType>('NPM');
+  const [newName, setNewName] = useState('');
+  const [linking, setLinking] = useState(false);
+  const [linkError, setLinkError] = useState<string | null>(null);
+
+  const [verifyingId, setVerifyingId] = useState<string | null>(null);
+  const [verifyErrors, setVerifyErrors] = useState<Record<string, string>>({});
+  const [unlinkingId, setUnlinkingId] = useState<string | null>(null);
+
+  const fetchAccounts = useCallback(async () => {
+    try {
+      const response = await fetch('/api/user/publishers');
+      const data = await response.json();
+      if (data.success) {
+        setAccounts(data.data);
+      } else {
+        if (response.status === 401) {
+          router.push('/sign-in');
+          return;
+        }
+        setError(data.error?.message || 'Failed to fetch publisher accounts');
+      }
+    } catch (err) {
+      console.error('Failed to fetch publisher accounts:', err);
+      setError('Failed to fetch publisher accounts');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [router]);
+
+  useEffect(() => {
+    fetchAccounts();
+  }, [fetchAccounts]);
+
+  const handleLink = useCallback(async () => {
+    if (!newName.trim()) return;
+
+    setLinking(true);
+    setLinkError(null);
+
+    try {
+      const response = await fetch('/api/user/publishers', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ type: newType, name: newName.trim() }),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setNewName('');
+        setShowLinkForm(false);
+        fetchAccounts();
+      } else {
+        setLinkError(result.error?.message || 'Failed to link account');
+      }
+    } catch (err) {
+      console.error('Failed to link account:', err);
+      setLinkError('Failed to link account');
+    } finally {
+      setLinking(false);
+    }
+  }, [newType, newName, fetchAccounts]);
+
+  const handleVerify = useCallback(async (account: PublisherAccountInfo) => {
+    setVerifyingId(account.id);
+    setVerifyErrors(({ [account.id]: _, ...rest }) => rest);
+
+    try {
+      const response = await fetch(`/api/user/publishers/${account.id}/verify`, {
+        method: 'POST',
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setAccounts((prev) => prev.map((a) => (a.id === account.id ? result.data : a)));
+      } else {
+        setVerifyErrors((prev) => ({
+          ...prev,
+          [account.id]: result.error?.message || 'Verification failed',
+        }));
+      }
+    } catch (err) {
+      console.error('Failed to verify account:', err);
+      setVerifyErrors((prev) => ({ ...prev, [account.id]: 'Verification failed' }));
+    } finally {
+      setVerifyingId(null);
+    }
+  }, []);
+
+  const handleUnlink = useCallback(async (account: PublisherAccountInfo) => {
+    if (
+      !confirm(
+        `Unlink ${TYPE_LABELS[account.type]} "${account.name}"? Its packages will no longer show as verified.`
+      )
+    ) {
+      return;
+    }
+
+    setUnlinkingId(account.id);
+    try {
+      const response = await fetch(`/api/user/publishers/${account.id}`, { method: 'DELETE' });
+      const result = await response.json();
+      if (result.success) {
+        setAccounts((prev) => prev.filter((a) => a.id !== account.id));
+      }
+    } catch (err) {
+      console.error('Failed to unlink:', err);
+    } finally {
+      setUnlinkingId(null);
+    }
+  }, []);
+
+  if (error) {
+    return (
+      <DashboardLayout title="Publishers">
+        <div className="text-center py-16">
+          <Icon icon="alertCircle" size="lg" className="mx-auto text-error mb-4" />
+          <h2 className="text-lg font-medium text-foreground mb-2">Error</h2>
+          <p className="text-foreground-secondary mb-4">{error}</p>
+          <Button onClick={fetchAccounts}>Try Again</Button>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  const verifiedCount = accounts.filter((a) => a.verifiedAt).length;
+
+  return (
+    <DashboardLayout
+      title="Publishers"
+      subtitle={
+        verifiedCount > 0
+          ? `${verifiedCount} verified account${verifiedCount !== 1 ? 's' : ''}`
+          : undefined
+      }
+      actions={
+        !showLinkForm && (
+          <Button onClick={() => setShowLinkForm(true)}>
+            <Icon icon="plus" size="sm" className="mr-2" />
+            Link Account
+          </Button>
+        )
+      }
+    >
+      {/* Link account form */}
+      {showLinkForm && (
+        <div className="bg-surface border border-border rounded-lg p-6 mb-6">
+          <h2 className="text-lg font-medium text-foreground mb-4">Link Publisher Account</h2>
+          {linkError && <p className="text-error text-sm mb-3">{linkError}</p>}
+          <div className="flex flex-col sm:flex-row gap-2">
+            <select
+              value={newType}
+              onChange={(e) => setNewType(e.target.value as PublisherAccountType)}
+              className="px-3 py-2 bg-surface border border-border rounded-lg text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-primary/50"
+            >
+              {(Object.keys(TYPE_LABELS) as PublisherAccountType[]).map((type) => (
+                <option key={type} value={type}>
+                  {TYPE_LABELS[type]}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder={newType === 'NPM' ? 'npm username' : 'GitHub org name'}
+              maxLength={214}
+              className="flex-1 px-3 py-2 bg-surface border border-border rounded-lg text-foreground text-sm placeholder:text-foreground-tertiary focus:outline-none focus:ring-2 focus:ring-primary/50"
+            />
+          </div>
+          <div className="flex items-center gap-2 mt-4">
+            <Button onClick={handleLink} disabled={linking || !newName.trim()}>
+              {linking ? 'Linking...' : 'Link Account'}
+            </Button>
+            <Button variant="outline" onClick={() => setShowLinkForm(false)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Accounts Table */}
+      <div className="bg-surface border border-border rounded-lg overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Account</TableHead>
+              <TableHead className="w-[140px]">Linked</TableHead>
+              <TableHead className="w-[120px]">Status</TableHead>
+              <TableHead className="w-[140px] text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              [0, 1, 2].map((idx) => (
+                <TableRow key={`publisher-skeleton-${idx}`}>
+                  <TableCell>
+                    <div className="h-4 w-40 bg-surface-secondary rounded animate-pulse" />
+                  </TableCell>
+                  <TableCell>
+                    <div className="h-4 w-24 bg-surface-secondary rounded animate-pulse" />
+                  </TableCell>
+                  <TableCell>
+                    <div className="h-4 w-16 bg-surface-secondary rounded animate-pulse" />
+                  </TableCell>
+                  <TableCell>
+                    <div className="h-8 w-8 bg-surface-secondary rounded animate-pulse ml-auto" />
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : accounts.length === 0 ? (
+              <TableEmpty
+                colSpan={4}
+                icon={
+                  <div className="w-16 h-16 rounded-full bg-primary/10 flex items-center justify-center">
+                    <Icon icon="check" size="lg" className="text-primary" />
+                  </div>
+                }
+                title="No publisher accounts yet"
+                description="Link the npm account or GitHub org you publish tools from. Once verified, your packages show a verified publisher badge."
+                action={
+                  <Button onClick={() => setShowLinkForm(true)}>
+                    <Icon icon="plus" size="sm" className="mr-2" />
+                    Link Your First Account
+                  </Button>
+                }
+              />
+            ) : (
+              accounts.map((account) => (
+                <TableRow key={account.id}>
+                  <TableCell>
+                    <div className="flex flex-col">
+                      <span className="text-sm text-foreground font-mono">{account.name}</span>
+                      <span className="text-xs text-foreground-tertiary">
+                        {TYPE_LABELS[account.type]}
+                      </span>
+                      {!account.verifiedAt && <VerificationInstructions account={account} />}
+                      {verifyErrors[account.id] && (
+                        <p className="text-xs text-error mt-1">{verifyErrors[account.id]}</p>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <span className="text-foreground-secondary text-sm">
+                      {formatDate(account.createdAt)}
+                    </span>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={account.verifiedAt ? 'success' : 'secondary'} size="sm">
+                      {account.verifiedAt ? 'Verified' : 'Unverified'}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center justify-end gap-1">
+                      {!account.verifiedAt && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleVerify(account)}
+                          disabled={verifyingId === account.id}
+                        >
+                          {verifyingId === account.id ? 'Checking...' : 'Verify'}
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleUnlink(account)}
+                        disabled={unlinkingId === account.id}
+                        title="Unlink account"
+                      >
+                        <Icon icon="trash" size="xs" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </DashboardLayout>
+  );
+}
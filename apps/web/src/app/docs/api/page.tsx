@@ -356,9 +356,19 @@ export default function APIDocsPage(): React.ReactElement {
             <DocSection id="authentication" title="Authentication">
               <p className="text-foreground-secondary mb-6">
                 Most public endpoints don&apos;t require authentication. Private endpoints (creating
-                collections, managing agents) require a session cookie from signing in.
+                collections, managing agents) require either a session cookie from signing in or a
+                personal access token. Create tokens under Dashboard → API Tokens and choose the
+                scopes they need (e.g. <code>collections:write</code>, <code>agents:read</code>).
               </p>
 
+              <div className="mb-6">
+                <CodeBlock
+                  language="bash"
+                  code={`curl "https://tpmjs.com/api/collections" \\
+  -H "Authorization: Bearer tpmjs_pat_..." | jq`}
+                />
+              </div>
+
               <div className="space-y-4">
                 <div className="p-4 border border-green-500/30 rounded-lg bg-green-500/5">
                   <h3 className="font-semibold text-foreground mb-2">Public (No Auth)</h3>
@@ -366,7 +376,10 @@ export default function APIDocsPage(): React.ReactElement {
                     <li>GET /api/tools - List and search tools</li>
                     <li>GET /api/public/collections - List public collections</li>
                     <li>GET /api/public/agents - List public agents</li>
-                    <li>POST /api/mcp/[user]/[slug]/http - MCP protocol for public collections</li>
+                    <li>
+                      POST /api/mcp/[user]/[slug]/http - MCP protocol (private collections need a
+                      bearer token)
+                    </li>
                     <li>GET /api/stats - Platform statistics</li>
                   </ul>
                 </div>
@@ -592,13 +605,46 @@ export default function APIDocsPage(): React.ReactElement {
                   <code className="text-sm text-foreground-secondary block">
                     Content-Type: application/json
                   </code>
+                  <p className="text-sm text-foreground-secondary mt-2">
+                    Private collections also require{' '}
+                    <code className="text-primary">Authorization: Bearer &lt;token&gt;</code>, using
+                    the collection&apos;s MCP token (generated on the collection page) or the
+                    owner&apos;s API token with the{' '}
+                    <code className="text-primary">collections:read</code> scope.
+                  </p>
                 </div>
                 <div className="p-4 border border-border rounded-lg bg-surface">
                   <h4 className="font-semibold text-foreground mb-2">Protocol</h4>
                   <p className="text-sm text-foreground-secondary">
                     JSON-RPC 2.0 with MCP methods: <code className="text-primary">initialize</code>,{' '}
                     <code className="text-primary">tools/list</code>,{' '}
-                    <code className="text-primary">tools/call</code>
+                    <code className="text-primary">tools/call</code>,{' '}
+                    <code className="text-primary">resources/list</code>,{' '}
+                    <code className="text-primary">resources/read</code>,{' '}
+                    <code className="text-primary">prompts/list</code>,{' '}
+                    <code className="text-primary">prompts/get</code>
+                  </p>
+                  <p className="text-sm text-foreground-secondary mt-2">
+                    Resources expose the collection description, tool notes, and package READMEs.
+                    Prompts are the collection&apos;s prompt templates, with{' '}
+                    <code className="text-primary">{'{{argument}}'}</code> placeholders filled from
+                    the request arguments.
+                  </p>
+                </div>
+                <div className="p-4 border border-border rounded-lg bg-surface">
+                  <h4 className="font-semibold text-foreground mb-2">Sessions &amp; Streaming</h4>
+                  <p className="text-sm text-foreground-secondary">
+                    <code className="text-primary">initialize</code> returns an{' '}
+                    <code className="text-primary">Mcp-Session-Id</code> header; send it on later
+                    requests (and <code className="text-primary">DELETE</code> the endpoint with it
+                    to end the session). With{' '}
+                    <code className="text-primary">Accept: text/event-stream</code>,{' '}
+                    <code className="text-primary">tools/call</code> streams{' '}
+                    <code className="text-primary">notifications/progress</code> (when a{' '}
+                    <code className="text-primary">progressToken</code> is given) before the result,
+                    and <code className="text-primary">notifications/cancelled</code> aborts the
+                    running execution. A <code className="text-primary">GET</code> with the same
+                    Accept header opens the server-to-client stream.
                   </p>
                 </div>
               </div>
@@ -616,6 +662,7 @@ export default function APIDocsPage(): React.ReactElement {
                   code={`{
   "jsonrpc": "2.0",
   "method": "initialize",
+  "params": { "protocolVersion": "2025-03-26" },
   "id": 1
 }`}
                 />
@@ -626,17 +673,26 @@ export default function APIDocsPage(): React.ReactElement {
   "jsonrpc": "2.0",
   "id": 1,
   "result": {
-    "protocolVersion": "2024-11-05",
+    "protocolVersion": "2025-03-26",
     "serverInfo": {
       "name": "TPMJS: My Collection",
       "version": "1.0.0"
     },
     "capabilities": {
-      "tools": {}
+      "tools": {},
+      "resources": {},
+      "prompts": {}
     }
   }
 }`}
                 />
+                <p className="text-sm text-foreground-secondary mt-4">
+                  Supported protocol versions are <code>2025-03-26</code> and{' '}
+                  <code>2024-11-05</code>. The requested version is echoed back when supported;
+                  otherwise the latest is returned. Requests may also be sent as JSON-RPC batch
+                  arrays (except <code>initialize</code>), and notifications are answered with{' '}
+                  <code>202 Accepted</code>.
+                </p>
               </EndpointCard>
             </DocSection>
 
@@ -1004,21 +1004,20 @@ while (true) {
 
             <DocSection id="quality-score" title="Quality Score">
               <p className="text-foreground-secondary mb-6">
-                Every tool receives a quality score (0.00-1.00) that affects search ranking.
+                Every tool receives a quality score (0.00-1.00) that affects search ranking. It is
+                recomputed hourly from how the tool actually behaves and how well it is documented,
+                and the tool page shows the breakdown.
               </p>
               <CodeBlock
                 language="typescript"
-                code={`function calculateQualityScore(params: {
-  tier: 'minimal' | 'basic' | 'rich';
-  downloads: number;
-  githubStars: number;
-}): number {
-  const tierScore = tier === 'rich' ? 0.6 : tier === 'basic' ? 0.4 : 0.2;
-  const downloadsScore = Math.min(0.3, Math.log10(downloads + 1) / 10);
-  const starsScore = Math.min(0.1, Math.log10(githubStars + 1) / 10);
-
-  return Math.min(1.0, tierScore + downloadsScore + starsScore);
-}`}
+                code={`qualityScore =
+    0.25 * health      // pass rate of recent health checks
+  + 0.20 * executions  // success rate of agent and playground runs
+  + 0.20 * schema      // share of inputSchema properties with a description and type
+  + 0.10 * latency     // p95 execution time (1s or less scores best)
+  + 0.10 * likes       // log scale, 100 likes scores full marks
+  + 0.10 * popularity  // npm downloads and GitHub stars, log scale
+  + 0.05 * recency     // halves every year since the last publish`}
               />
             </DocSection>
 
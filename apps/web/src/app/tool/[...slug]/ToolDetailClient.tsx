@@ -1,5 +1,7 @@
 'use client';
 
+import type { PackageProvenance } from '@tpmjs/npm-client';
+import type { QualityBreakdown } from '@tpmjs/types/tool';
 import { Badge } from '@tpmjs/ui/Badge/Badge';
 import { Button } from '@tpmjs/ui/Button/Button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@tpmjs/ui/Card/Card';
@@ -15,6 +17,7 @@ import { BundleSize } from '~/components/BundleSize';
 import { DownloadSparkline } from '~/components/DownloadSparkline';
 import { Markdown } from '~/components/Markdown';
 import { ToolPlayground } from '~/components/ToolPlayground';
+import { ToolVersionHistory } from '~/components/ToolVersionHistory';
 
 interface Package {
   id: string;
@@ -25,6 +28,9 @@ interface Package {
   category: string;
   npmRepository: { url: string; type: string } | null;
   isOfficial: boolean;
+  npmPublisher: string | null;
+  provenance: PackageProvenance | null;
+  verifiedPublisher: { name: string; username: string | null } | null;
   npmDownloadsLastMonth: number | null;
   npmKeywords: string[];
   npmReadme: string | null;
@@ -63,6 +69,7 @@ export interface Tool {
     examples?: string[];
   } | null;
   qualityScore: string | null;
+  qualityBreakdown: QualityBreakdown | null;
   importHealth?: 'HEALTHY' | 'BROKEN' | 'UNKNOWN';
   executionHealth?: 'HEALTHY' | 'BROKEN' | 'UNKNOWN';
   healthCheckError?: string | null;
@@ -224,11 +231,19 @@ export function ToolDetailClient({ tool, slug }: ToolDetailClientProps): React.R
                 </p>
               )}
             </div>
-            {pkg.isOfficial && (
-              <Badge variant="default" size="lg">
-                Official
-              </Badge>
-            )}
+            <div className="flex flex-wrap gap-2">
+              {pkg.isOfficial && (
+                <Badge variant="default" size="lg">
+                  Official
+                </Badge>
+              )}
+              {pkg.verifiedPublisher && (
+                <Badge variant="success" size="lg">
+                  <Icon icon="check" size="xs" className="mr-1" />
+                  Verified publisher
+                </Badge>
+              )}
+            </div>
           </div>
           <div className="flex flex-wrap gap-2">
             <Badge variant="secondary">{pkg.category}</Badge>
@@ -538,6 +553,13 @@ console.log(result.text);`}
               </CardContent>
             </Card>
 
+            {/* Version History / Schema Diff */}
+            <ToolVersionHistory
+              packageName={pkg.npmPackageName}
+              toolName={tool.name}
+              latestVersion={pkg.npmVersion}
+            />
+
             {/* README */}
             {pkg.npmReadme && (
               <Card>
@@ -590,10 +612,84 @@ console.log(result.text);`}
                     size="md"
                     showLabel={true}
                   />
+                  {tool.qualityBreakdown && (
+                    <ul className="mt-3 space-y-2">
+                      {tool.qualityBreakdown.components.map((component) => (
+                        <li key={component.key} className="text-xs">
+                          <div className="flex items-center justify-between gap-2">
+                            <span className="text-foreground">
+                              {component.label}{' '}
+                              <span className="text-foreground-tertiary">
+                                ({Math.round(component.weight * 100)}%)
+                              </span>
+                            </span>
+                            <span className="font-mono text-foreground-secondary">
+                              {Math.round(component.score * 100)}
+                            </span>
+                          </div>
+                          <p className="text-foreground-tertiary">{component.detail}</p>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
                 </div>
               </CardContent>
             </Card>
 
+            {/* Publisher */}
+            {(pkg.npmPublisher || pkg.provenance) && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Publisher</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3 text-sm">
+                  {pkg.npmPublisher && (
+                    <div>
+                      <p className="text-foreground-secondary mb-1">Published by</p>
+                      <p className="text-foreground font-mono">{pkg.npmPublisher}</p>
+                    </div>
+                  )}
+                  {pkg.verifiedPublisher && (
+                    <div>
+                      <p className="text-foreground-secondary mb-1">Verified as</p>
+                      {pkg.verifiedPublisher.username ? (
+                        <Link
+                          href={`/${pkg.verifiedPublisher.username}`}
+                          className="text-primary hover:underline"
+                        >
+                          {pkg.verifiedPublisher.name}
+                        </Link>
+                      ) : (
+                        <span className="text-foreground">{pkg.verifiedPublisher.name}</span>
+                      )}
+                    </div>
+                  )}
+                  {pkg.provenance ? (
+                    <div>
+                      <p className="text-foreground-secondary mb-1">Provenance</p>
+                      <a
+                        href={pkg.provenance.repository}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-primary hover:underline break-all"
+                      >
+                        {pkg.provenance.repository.replace(/^https?:\/\//, '')}
+                      </a>
+                      {(pkg.provenance.workflow || pkg.provenance.commit) && (
+                        <p className="text-xs text-foreground-tertiary font-mono mt-1 break-all">
+                          {[pkg.provenance.workflow, pkg.provenance.commit?.slice(0, 7)]
+                            .filter(Boolean)
+                            .join(' @ ')}
+                        </p>
+                      )}
+                    </div>
+                  ) : (
+                    <p className="text-xs text-foreground-tertiary">Published without provenance</p>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
             {/* Bundle Size */}
             <BundleSize packageName={pkg.npmPackageName} version={pkg.npmVersion} />
 
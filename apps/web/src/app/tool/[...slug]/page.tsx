@@ -52,7 +52,9 @@ async function getTool(slug: string[]): Promise<Tool | null> {
       ...(exportName && { name: exportName }),
     },
     include: {
-      package: true,
+      package: {
+        include: { verifiedPublisher: { select: { name: true, username: true } } },
+      },
     },
     orderBy: { qualityScore: 'desc' },
   });
@@ -74,6 +76,7 @@ async function getTool(slug: string[]): Promise<Tool | null> {
     returns: tool.returns as Tool['returns'],
     aiAgent: tool.aiAgent as Tool['aiAgent'],
     qualityScore: tool.qualityScore?.toString() ?? null,
+    qualityBreakdown: tool.qualityBreakdown as Tool['qualityBreakdown'],
     importHealth: tool.importHealth ?? undefined,
     executionHealth: tool.executionHealth ?? undefined,
     healthCheckError: tool.healthCheckError ?? null,
@@ -89,6 +92,9 @@ async function getTool(slug: string[]): Promise<Tool | null> {
       category: tool.package.category,
       npmRepository: tool.package.npmRepository as Tool['package']['npmRepository'],
       isOfficial: tool.package.isOfficial,
+      npmPublisher: tool.package.npmPublisher,
+      provenance: tool.package.provenance as Tool['package']['provenance'],
+      verifiedPublisher: tool.package.verifiedPublisher,
       npmDownloadsLastMonth: tool.package.npmDownloadsLastMonth,
       npmKeywords: tool.package.npmKeywords,
       npmReadme: tool.package.npmReadme,
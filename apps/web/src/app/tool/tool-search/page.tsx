@@ -1,5 +1,6 @@
 'use client';
 
+import type { ToolFacetKey, ToolFacets } from '@tpmjs/types/tool';
 import { Badge } from '@tpmjs/ui/Badge/Badge';
 import { Button } from '@tpmjs/ui/Button/Button';
 import { Card, CardContent } from '@tpmjs/ui/Card/Card';
@@ -42,6 +43,36 @@ interface Tool {
 
 type SortOption = 'downloads' | 'likes' | 'recent' | 'name';
 
+type FacetFilters = Partial<Record<ToolFacetKey, string>>;
+
+const FACET_LABELS: Record<ToolFacetKey, string> = {
+  category: 'Category',
+  health: 'Health',
+  env: 'API Keys',
+  quality: 'Quality',
+  framework: 'Framework',
+  license: 'License',
+  tier: 'Metadata',
+};
+
+const FACET_VALUE_LABELS: Partial<Record<ToolFacetKey, Record<string, string>>> = {
+  health: { HEALTHY: 'Healthy', BROKEN: 'Broken', UNKNOWN: 'Not checked' },
+  env: { none: 'No keys needed', required: 'Keys required' },
+  quality: {
+    high: 'High (≥ 0.7)',
+    medium: 'Medium (0.4–0.7)',
+    low: 'Low (< 0.4)',
+    unscored: 'Not scored',
+  },
+};
+
+// Values shown per facet before "Show all"
+const FACET_PREVIEW = 6;
+
+function facetValueLabel(key: ToolFacetKey, value: string): string {
+  return FACET_VALUE_LABELS[key]?.[value] ?? value.charAt(0).toUpperCase() + value.slice(1);
+}
+
 function formatDownloads(count: number): string {
   if (count >= 1000000) return `${(count / 1000000).toFixed(1)}M`;
   if (count >= 1000) return `${(count / 1000).toFixed(1)}k`;
@@ -90,55 +121,120 @@ function sortTools(tools: Tool[], sortBy: SortOption): Tool[] {
   });
 }
 
+/** Facet counts for the current search; clicking a value toggles it as a filter */
+function FacetPanel({
+  facets,
+  filters,
+  onToggle,
+}: {
+  facets: ToolFacets | null;
+  filters: FacetFilters;
+  onToggle: (key: ToolFacetKey, value: string) => void;
+}): React.ReactElement {
+  const [expanded, setExpanded] = useState<Set<ToolFacetKey>>(new Set());
+
+  if (!facets) {
+    return <aside />;
+  }
+
+  return (
+    <aside className="space-y-5">
+      {(Object.keys(FACET_LABELS) as ToolFacetKey[]).map((key) => {
+        const values = facets[key] ?? [];
+        if (values.length === 0) return null;
+        const shown = expanded.has(key) ? values : values.slice(0, FACET_PREVIEW);
+
+        return (
+          <div key={key}>
+            <h3 className="text-xs font-medium uppercase tracking-wide text-foreground-tertiary mb-2">
+              {FACET_LABELS[key]}
+            </h3>
+            <ul className="space-y-0.5">
+              {shown.map(({ value, count }) => {
+                const active = filters[key] === value;
+                return (
+                  <li key={value}>
+                    <button
+                      type="button"
+                      onClick={() => onToggle(key, value)}
+                      className={`w-full flex items-center justify-between gap-2 rounded px-2 py-1 text-sm text-left transition-colors ${
+                        active
+                          ? 'bg-primary/10 text-primary font-medium'
+                          : 'text-foreground-secondary hover:bg-surface'
+                      }`}
+                    >
+                      <span className="truncate">{facetValueLabel(key, value)}</span>
+                      <span className="text-xs text-foreground-tertiary tabular-nums">{count}</span>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+            {values.length > FACET_PREVIEW && (
+              <button
+                type="button"
+                onClick={() =>
+                  setExpanded((prev) => {
+                    const next = new Set(prev);
+                    if (next.has(key)) next.delete(key);
+                    else next.add(key);
+                    return next;
+                  })
+                }
+                className="mt-1 px-2 text-xs text-foreground-tertiary hover:text-foreground"
+              >
+                {expanded.has(key) ? 'Show less' : `Show all (${values.length})`}
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </aside>
+  );
+}
+
 export default function ToolSearchPage(): React.ReactElement {
   const [searchQuery, setSearchQuery] = useState('');
-  const [categoryFilter, setCategoryFilter] = useState('all');
-  const [healthFilter, setHealthFilter] = useState('all');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [filters, setFilters] = useState<FacetFilters>({});
   const [sortBy, setSortBy] = useState<SortOption>('downloads');
   const [tools, setTools] = useState<Tool[]>([]);
+  const [facets, setFacets] = useState<ToolFacets | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [availableCategories, setAvailableCategories] = useState<string[]>([]);
   const [packageManager, setPackageManager] = usePackageManager();
 
-  // Fetch tools from API
+  const hasFilters = Object.keys(filters).length > 0;
+
+  // Search as the user types (debounced)
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(searchQuery.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  // Fetch tools and facet counts from API
   useEffect(() => {
     const fetchTools = async () => {
       try {
         setLoading(true);
-        const params = new URLSearchParams();
+        const params = new URLSearchParams(filters as Record<string, string>);
 
-        if (categoryFilter !== 'all') {
-          params.set('category', categoryFilter);
-        }
-
-        if (healthFilter === 'healthy') {
-          params.set('importHealth', 'HEALTHY');
-          params.set('executionHealth', 'HEALTHY');
-        } else if (healthFilter === 'broken') {
-          params.set('broken', 'true');
+        if (debouncedQuery) {
+          params.set('q', debouncedQuery);
         }
 
         // Fetch all tools (no pagination limit)
         params.set('limit', '1000');
+        params.set('facets', 'true');
         const toolsResponse = await fetch(`/api/tools?${params.toString()}`);
         const toolsData = await toolsResponse.json();
 
         if (toolsData.success) {
-          const fetchedTools = toolsData.data;
-          setTools(fetchedTools);
+          setTools(toolsData.data);
+          setFacets(toolsData.facets ?? null);
           setError(null);
-
-          // Extract unique categories from all tools
-          const categories = new Set<string>();
-          for (const tool of fetchedTools) {
-            if (tool.package.category) {
-              categories.add(tool.package.category);
-            }
-          }
-          setAvailableCategories(Array.from(categories).sort());
         } else {
-          setError(toolsData.error || 'Failed to fetch tools');
+          setError(toolsData.error?.message || 'Failed to fetch tools');
         }
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Unknown error');
@@ -148,26 +244,16 @@ export default function ToolSearchPage(): React.ReactElement {
     };
 
     fetchTools();
-  }, [categoryFilter, healthFilter]);
-
-  // Filter and sort tools
-  const filteredTools = useMemo(() => {
-    let result = tools;
-
-    // Apply search filter
-    if (searchQuery) {
-      const query = searchQuery.toLowerCase();
-      result = result.filter(
-        (tool) =>
-          tool.name.toLowerCase().includes(query) ||
-          tool.package.npmPackageName.toLowerCase().includes(query) ||
-          tool.description.toLowerCase().includes(query)
-      );
-    }
+  }, [debouncedQuery, filters]);
+
+  const toggleFilter = useCallback((key: ToolFacetKey, value: string) => {
+    setFilters(({ [key]: current, ...rest }) =>
+      current === value ? rest : { ...rest, [key]: value }
+    );
+  }, []);
 
-    // Sort tools
-    return sortTools(result, sortBy);
-  }, [tools, searchQuery, sortBy]);
+  // Sort tools
+  const sortedTools = useMemo(() => sortTools(tools, sortBy), [tools, sortBy]);
 
   const TableHeader = useCallback(
     () => (
@@ -249,8 +335,8 @@ export default function ToolSearchPage(): React.ReactElement {
             Tool Registry
           </h1>
           <p className="text-lg text-foreground-secondary">
-            Search npm packages indexed as AI agent tools. Filter by category, health status, or
-            keyword.
+            Search npm packages indexed as AI agent tools. Filter by category, framework, health,
+            API key requirements, quality, or keyword.
           </p>
         </div>
 
@@ -265,44 +351,6 @@ export default function ToolSearchPage(): React.ReactElement {
 
           {/* Filter row */}
           <div className="flex flex-col sm:flex-row flex-wrap gap-3 sm:gap-4 items-start sm:items-center">
-            {/* Category filter */}
-            <div className="flex items-center gap-2">
-              <span className="text-sm font-medium text-foreground-secondary whitespace-nowrap">
-                Category:
-              </span>
-              <Select
-                value={categoryFilter}
-                onChange={(e) => setCategoryFilter(e.target.value)}
-                size="sm"
-                className="min-w-[150px]"
-                options={[
-                  { value: 'all', label: 'All Categories' },
-                  ...availableCategories.map((cat) => ({
-                    value: cat,
-                    label: cat.charAt(0).toUpperCase() + cat.slice(1),
-                  })),
-                ]}
-              />
-            </div>
-
-            {/* Health filter */}
-            <div className="flex items-center gap-2">
-              <span className="text-sm font-medium text-foreground-secondary whitespace-nowrap">
-                Health:
-              </span>
-              <Select
-                value={healthFilter}
-                onChange={(e) => setHealthFilter(e.target.value)}
-                size="sm"
-                className="min-w-[130px]"
-                options={[
-                  { value: 'all', label: 'All Tools' },
-                  { value: 'healthy', label: 'Healthy Only' },
-                  { value: 'broken', label: 'Broken Only' },
-                ]}
-              />
-            </div>
-
             {/* Sort dropdown */}
             <div className="flex items-center gap-2">
               <span className="text-sm font-medium text-foreground-secondary whitespace-nowrap">
@@ -323,15 +371,8 @@ export default function ToolSearchPage(): React.ReactElement {
             </div>
 
             {/* Clear filters button */}
-            {(categoryFilter !== 'all' || healthFilter !== 'all') && (
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={() => {
-                  setCategoryFilter('all');
-                  setHealthFilter('all');
-                }}
-              >
+            {hasFilters && (
+              <Button variant="ghost" size="sm" onClick={() => setFilters({})}>
                 Clear Filters
               </Button>
             )}
@@ -341,143 +382,140 @@ export default function ToolSearchPage(): React.ReactElement {
           <PackageManagerSelector value={packageManager} onChange={setPackageManager} />
         </div>
 
-        {/* Loading state */}
-        {loading && (
-          <div className="flex items-center justify-center py-24 gap-4">
-            <Spinner size="lg" />
-            <span className="text-foreground-secondary font-mono text-sm tracking-wide">
-              Loading tools...
-            </span>
-          </div>
-        )}
-
-        {/* Error state */}
-        {error && <div className="text-center py-12 text-red-500">Error: {error}</div>}
-
-        {/* Tool table */}
-        {!loading && !error && filteredTools.length > 0 && (
-          <div className="border border-border rounded-lg overflow-hidden">
-            <TableVirtuoso
-              style={{ height: 'calc(100vh - 400px)', minHeight: '400px' }}
-              data={filteredTools}
-              overscan={50}
-              fixedHeaderContent={TableHeader}
-              itemContent={TableRow}
-              components={{
-                Table: (props) => (
-                  <table
-                    {...props}
-                    className="w-full border-collapse text-sm"
-                    style={{ tableLayout: 'fixed' }}
-                  />
-                ),
-                TableHead: (props) => <thead {...props} className="bg-surface sticky top-0 z-10" />,
-                TableBody: (props) => <tbody {...props} />,
-                TableRow: (props) => (
-                  <tr
-                    {...props}
-                    className="border-b border-border hover:bg-surface/50 transition-colors"
-                  />
-                ),
-              }}
-            />
-          </div>
-        )}
+        <div className="grid grid-cols-1 lg:grid-cols-[220px_1fr] gap-6">
+          {/* Facets */}
+          <FacetPanel facets={facets} filters={filters} onToggle={toggleFilter} />
+
+          <div className="min-w-0">
+            {/* Loading state */}
+            {loading && (
+              <div className="flex items-center justify-center py-24 gap-4">
+                <Spinner size="lg" />
+                <span className="text-foreground-secondary font-mono text-sm tracking-wide">
+                  Loading tools...
+                </span>
+              </div>
+            )}
 
-        {/* Results count */}
-        {!loading && !error && filteredTools.length > 0 && (
-          <div className="mt-4 text-sm text-foreground-tertiary">
-            Showing {filteredTools.length} tool{filteredTools.length !== 1 ? 's' : ''}
-            {searchQuery && ` matching "${searchQuery}"`}
-          </div>
-        )}
-
-        {/* Empty States */}
-        {!loading && !error && filteredTools.length === 0 && (
-          <div className="flex items-center justify-center py-24">
-            <Card className="max-w-2xl w-full">
-              <CardContent className="pt-6 pb-6 text-center space-y-6">
-                <div className="flex justify-center">
-                  <div className="w-16 h-16 rounded-full bg-muted flex items-center justify-center">
-                    <Icon icon="x" size="lg" className="text-foreground-tertiary" />
-                  </div>
-                </div>
-
-                {searchQuery && (
-                  <>
-                    <div className="space-y-2">
-                      <h3 className="text-xl font-semibold text-foreground">
-                        No tools found matching &ldquo;{searchQuery}&rdquo;
-                      </h3>
-                      <p className="text-foreground-secondary">
-                        We couldn&apos;t find any tools matching your search. Try adjusting your
-                        search terms or filters.
-                      </p>
+            {/* Error state */}
+            {error && <div className="text-center py-12 text-red-500">Error: {error}</div>}
+
+            {/* Tool table */}
+            {!loading && !error && sortedTools.length > 0 && (
+              <div className="border border-border rounded-lg overflow-hidden">
+                <TableVirtuoso
+                  style={{ height: 'calc(100vh - 400px)', minHeight: '400px' }}
+                  data={sortedTools}
+                  overscan={50}
+                  fixedHeaderContent={TableHeader}
+                  itemContent={TableRow}
+                  components={{
+                    Table: (props) => (
+                      <table
+                        {...props}
+                        className="w-full border-collapse text-sm"
+                        style={{ tableLayout: 'fixed' }}
+                      />
+                    ),
+                    TableHead: (props) => (
+                      <thead {...props} className="bg-surface sticky top-0 z-10" />
+                    ),
+                    TableBody: (props) => <tbody {...props} />,
+                    TableRow: (props) => (
+                      <tr
+                        {...props}
+                        className="border-b border-border hover:bg-surface/50 transition-colors"
+                      />
+                    ),
+                  }}
+                />
+              </div>
+            )}
+
+            {/* Results count */}
+            {!loading && !error && sortedTools.length > 0 && (
+              <div className="mt-4 text-sm text-foreground-tertiary">
+                Showing {sortedTools.length} tool{sortedTools.length !== 1 ? 's' : ''}
+                {debouncedQuery && ` matching "${debouncedQuery}"`}
+              </div>
+            )}
+
+            {/* Empty States */}
+            {!loading && !error && sortedTools.length === 0 && (
+              <div className="flex items-center justify-center py-24">
+                <Card className="max-w-2xl w-full">
+                  <CardContent className="pt-6 pb-6 text-center space-y-6">
+                    <div className="flex justify-center">
+                      <div className="w-16 h-16 rounded-full bg-muted flex items-center justify-center">
+                        <Icon icon="x" size="lg" className="text-foreground-tertiary" />
+                      </div>
                     </div>
-                    <div className="flex flex-col sm:flex-row gap-3 justify-center">
-                      <Button variant="default" onClick={() => setSearchQuery('')}>
-                        Clear Search
-                      </Button>
-                      {(categoryFilter !== 'all' || healthFilter !== 'all') && (
+
+                    {debouncedQuery && (
+                      <>
+                        <div className="space-y-2">
+                          <h3 className="text-xl font-semibold text-foreground">
+                            No tools found matching &ldquo;{debouncedQuery}&rdquo;
+                          </h3>
+                          <p className="text-foreground-secondary">
+                            We couldn&apos;t find any tools matching your search. Try adjusting your
+                            search terms or filters.
+                          </p>
+                        </div>
+                        <div className="flex flex-col sm:flex-row gap-3 justify-center">
+                          <Button variant="default" onClick={() => setSearchQuery('')}>
+                            Clear Search
+                          </Button>
+                          {hasFilters && (
+                            <Button variant="outline" onClick={() => setFilters({})}>
+                              Clear All Filters
+                            </Button>
+                          )}
+                        </div>
+                      </>
+                    )}
+
+                    {!debouncedQuery && hasFilters && (
+                      <>
+                        <div className="space-y-2">
+                          <h3 className="text-xl font-semibold text-foreground">
+                            No tools match your filters
+                          </h3>
+                          <p className="text-foreground-secondary">
+                            Try adjusting or clearing your filters to see more tools.
+                          </p>
+                        </div>
+                        <Button variant="default" onClick={() => setFilters({})}>
+                          Clear All Filters
+                        </Button>
+                      </>
+                    )}
+
+                    {!debouncedQuery && !hasFilters && (
+                      <>
+                        <div className="space-y-2">
+                          <h3 className="text-xl font-semibold text-foreground">No tools yet</h3>
+                          <p className="text-foreground-secondary">
+                            Be the first to publish a tool and help AI agents gain new capabilities.
+                          </p>
+                        </div>
                         <Button
-                          variant="outline"
-                          onClick={() => {
-                            setCategoryFilter('all');
-                            setHealthFilter('all');
-                          }}
+                          variant="default"
+                          onClick={() =>
+                            window.open('https://github.com/tpmjs/tpmjs', '_blank', 'noopener')
+                          }
                         >
-                          Clear All Filters
+                          <Icon icon="github" size="sm" className="mr-2" />
+                          View Documentation
                         </Button>
-                      )}
-                    </div>
-                  </>
-                )}
-
-                {!searchQuery && (categoryFilter !== 'all' || healthFilter !== 'all') && (
-                  <>
-                    <div className="space-y-2">
-                      <h3 className="text-xl font-semibold text-foreground">
-                        No tools match your filters
-                      </h3>
-                      <p className="text-foreground-secondary">
-                        Try adjusting or clearing your filters to see more tools.
-                      </p>
-                    </div>
-                    <Button
-                      variant="default"
-                      onClick={() => {
-                        setCategoryFilter('all');
-                        setHealthFilter('all');
-                      }}
-                    >
-                      Clear All Filters
-                    </Button>
-                  </>
-                )}
-
-                {!searchQuery && categoryFilter === 'all' && healthFilter === 'all' && (
-                  <>
-                    <div className="space-y-2">
-                      <h3 className="text-xl font-semibold text-foreground">No tools yet</h3>
-                      <p className="text-foreground-secondary">
-                        Be the first to publish a tool and help AI agents gain new capabilities.
-                      </p>
-                    </div>
-                    <Button
-                      variant="default"
-                      onClick={() =>
-                        window.open('https://github.com/tpmjs/tpmjs', '_blank', 'noopener')
-                      }
-                    >
-                      <Icon icon="github" size="sm" className="mr-2" />
-                      View Documentation
-                    </Button>
-                  </>
-                )}
-              </CardContent>
-            </Card>
+                      </>
+                    )}
+                  </CardContent>
+                </Card>
+              </div>
+            )}
           </div>
-        )}
+        </div>
       </Container>
     </div>
   );
@@ -1,6 +1,6 @@
 'use client';
 
-import type { ExecutorConfig } from '@tpmjs/types/executor';
+import type { ExecutorConfig, ExecutorSigningSecret } from '@tpmjs/types/executor';
 import { Button } from '@tpmjs/ui/Button/Button';
 import { FormField } from '@tpmjs/ui/FormField/FormField';
 import { Icon } from '@tpmjs/ui/Icon/Icon';
@@ -33,22 +33,34 @@ export function ExecutorConfigPanel({
   onChange,
   disabled = false,
 }: ExecutorConfigPanelProps): React.ReactElement {
-  const [executorType, setExecutorType] = useState<'default' | 'custom_url'>(
-    value?.type === 'custom_url' ? 'custom_url' : 'default'
+  const [executorType, setExecutorType] = useState<ExecutorConfig['type']>(
+    value?.type ?? 'default'
   );
   const [customUrl, setCustomUrl] = useState(value?.type === 'custom_url' ? value.url : '');
   const [apiKey, setApiKey] = useState(value?.type === 'custom_url' ? (value.apiKey ?? '') : '');
+  const [signingSecret, setSigningSecret] = useState<ExecutorSigningSecret | undefined>(
+    value?.type === 'custom_url' ? value.signingSecret : undefined
+  );
+  // Plaintext of a just-generated secret; shown once, never saved
+  const [revealedSecret, setRevealedSecret] = useState<string | null>(null);
+  const [isGeneratingSecret, setIsGeneratingSecret] = useState(false);
+  const [secretError, setSecretError] = useState<string | null>(null);
   const [isVerifying, setIsVerifying] = useState(false);
   const [verificationResult, setVerificationResult] = useState<VerificationResult | null>(null);
   const [urlError, setUrlError] = useState<string | null>(null);
 
-  const handleTypeChange = (type: 'default' | 'custom_url') => {
+  // Local process execution is for development; still shown if already configured
+  const showLocalProcess = process.env.NODE_ENV !== 'production' || value?.type === 'local_process';
+
+  const handleTypeChange = (type: ExecutorConfig['type']) => {
     setExecutorType(type);
     setVerificationResult(null);
     setUrlError(null);
 
     if (type === 'default') {
       onChange({ type: 'default' });
+    } else if (type === 'local_process') {
+      onChange(value?.type === 'local_process' ? value : { type: 'local_process' });
     } else {
       // Don't update parent until URL is provided
       if (customUrl) {
@@ -56,6 +68,7 @@ export function ExecutorConfigPanel({
           type: 'custom_url',
           url: customUrl,
           apiKey: apiKey || undefined,
+          signingSecret,
         });
       }
     }
@@ -71,6 +84,7 @@ export function ExecutorConfigPanel({
         type: 'custom_url',
         url,
         apiKey: apiKey || undefined,
+        signingSecret,
       });
     }
   };
@@ -83,10 +97,51 @@ export function ExecutorConfigPanel({
         type: 'custom_url',
         url: customUrl,
         apiKey: key || undefined,
+        signingSecret,
       });
     }
   };
 
+  const updateSigningSecret = (secret: ExecutorSigningSecret | undefined) => {
+    setSigningSecret(secret);
+    setVerificationResult(null);
+
+    if (customUrl) {
+      onChange({
+        type: 'custom_url',
+        url: customUrl,
+        apiKey: apiKey || undefined,
+        signingSecret: secret,
+      });
+    }
+  };
+
+  const handleGenerateSecret = async () => {
+    setIsGeneratingSecret(true);
+    setSecretError(null);
+
+    try {
+      const response = await fetch('/api/executors/signing-secret', { method: 'POST' });
+      const data = await response.json();
+
+      if (data.success) {
+        setRevealedSecret(data.data.secret);
+        updateSigningSecret(data.data.signingSecret);
+      } else {
+        setSecretError(data.error?.message || 'Failed to generate signing secret');
+      }
+    } catch (error) {
+      setSecretError(error instanceof Error ? error.message : 'Failed to generate signing secret');
+    } finally {
+      setIsGeneratingSecret(false);
+    }
+  };
+
+  const handleRemoveSecret = () => {
+    setRevealedSecret(null);
+    updateSigningSecret(undefined);
+  };
+
   const handleVerify = async () => {
     if (!customUrl) {
       setUrlError('URL is required');
@@ -109,7 +164,7 @@ export function ExecutorConfigPanel({
       const response = await fetch('/api/executors/verify', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ url: customUrl, apiKey: apiKey || undefined }),
+        body: JSON.stringify({ url: customUrl, apiKey: apiKey || undefined, signingSecret }),
       });
 
       const data = await response.json();
@@ -203,8 +258,68 @@ export function ExecutorConfigPanel({
             Self-hosted executor on your infrastructure
           </p>
         </button>
+
+        {showLocalProcess && (
+          <button
+            type="button"
+            onClick={() => handleTypeChange('local_process')}
+            disabled={disabled}
+            className={`flex-1 p-3 rounded-lg border-2 text-left transition-colors ${
+              executorType === 'local_process'
+                ? 'border-primary bg-primary/5'
+                : 'border-border hover:border-foreground-secondary'
+            } ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+          >
+            <div className="flex items-center gap-2">
+              <div
+                className={`w-4 h-4 rounded-full border-2 ${
+                  executorType === 'local_process'
+                    ? 'border-primary bg-primary'
+                    : 'border-foreground-tertiary'
+                }`}
+              >
+                {value?.type === 'chain' && executorType === 'chain' && (
+                  <p className="text-xs text-foreground-tertiary pt-2 border-t border-border">
+                    Failover chain:{' '}
+                    {value.executors
+                      .map(({ executor }) =>
+                        executor.type === 'custom_url'
+                          ? 'Custom'
+                          : executor.type === 'local_process'
+                            ? 'Local process'
+                            : 'TPMJS Default'
+                      )
+                      .join(' → ')}
+                    . Chains and retry policies are configured via the API; choosing an executor
+                    above replaces the chain.
+                  </p>
+                )}
+
+                {executorType === 'local_process' && (
+                  <div className="w-full h-full flex items-center justify-center">
+                    <div className="w-1.5 h-1.5 bg-white rounded-full" />
+                  </div>
+                )}
+              </div>
+              <span className="font-medium text-sm text-foreground">Local Process</span>
+            </div>
+            <p className="text-xs text-foreground-tertiary mt-1 ml-6">
+              Child Node process on this server (development only)
+            </p>
+          </button>
+        )}
       </div>
 
+      {executorType === 'local_process' && (
+        <p className="text-xs text-foreground-tertiary pt-2 border-t border-border">
+          Tools run with the locally installed package version, a{' '}
+          {value?.type === 'local_process' && value.memoryLimitMb ? value.memoryLimitMb : 256} MB
+          heap limit and a{' '}
+          {value?.type === 'local_process' && value.timeoutMs ? value.timeoutMs / 1000 : 60}s time
+          limit. Disabled in production unless LOCAL_PROCESS_EXECUTOR_ENABLED is set.
+        </p>
+      )}
+
       {/* Custom URL Configuration */}
       {executorType === 'custom_url' && (
         <div className="space-y-3 pt-2 border-t border-border">
@@ -242,6 +357,64 @@ export function ExecutorConfigPanel({
             />
           </FormField>
 
+          <FormField
+            label="Request Signing (Optional)"
+            htmlFor="executor-signing-secret"
+            error={secretError ?? undefined}
+            state={secretError ? 'error' : 'default'}
+            helperText="Requests are signed with HMAC-SHA256 (timestamp + body digest). Set the secret as EXECUTOR_SIGNING_SECRET on your executor and verify with verifyExecutorRequest from @tpmjs/types/executor."
+          >
+            <div className="space-y-2">
+              {revealedSecret ? (
+                <div className="p-2 rounded-md bg-yellow-500/10 border border-yellow-500/30">
+                  <p className="text-xs text-foreground-secondary mb-1">
+                    Copy this secret now; it will not be shown again. Save to apply it.
+                  </p>
+                  <code
+                    id="executor-signing-secret"
+                    className="block text-xs font-mono text-foreground break-all select-all"
+                  >
+                    {revealedSecret}
+                  </code>
+                </div>
+              ) : (
+                <p id="executor-signing-secret" className="text-xs text-foreground-secondary">
+                  {signingSecret
+                    ? `Signing enabled (secret ending in ${signingSecret.hint ?? '****'}${
+                        signingSecret.createdAt
+                          ? `, created ${new Date(signingSecret.createdAt).toLocaleDateString()}`
+                          : ''
+                      })`
+                    : 'Requests are not signed'}
+                </p>
+              )}
+              <div className="flex items-center gap-2">
+                <Button
+                  type="button"
+                  variant="secondary"
+                  size="sm"
+                  onClick={handleGenerateSecret}
+                  loading={isGeneratingSecret}
+                  disabled={disabled || !customUrl}
+                >
+                  <Icon icon="key" className="w-4 h-4 mr-1" />
+                  {signingSecret ? 'Rotate Secret' : 'Generate Secret'}
+                </Button>
+                {signingSecret && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={handleRemoveSecret}
+                    disabled={disabled}
+                  >
+                    Disable Signing
+                  </Button>
+                )}
+              </div>
+            </div>
+          </FormField>
+
           <div className="flex items-center gap-3">
             <Button
               type="button"
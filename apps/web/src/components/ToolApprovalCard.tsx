@@ -0,0 +1,111 @@
+'use client';
+
+import { Button } from '@tpmjs/ui/Button/Button';
+import { Icon } from '@tpmjs/ui/Icon/Icon';
+import { Input } from '@tpmjs/ui/Input/Input';
+import { useState } from 'react';
+
+export interface PendingToolApproval {
+  /** Approval id (decide it through …/approvals/[approvalId]) */
+  id: string;
+  toolCallId: string;
+  toolName: string;
+  /** Arguments the model called the tool with */
+  args: unknown;
+}
+
+export interface ToolApprovalDecision {
+  approved: boolean;
+  /** Edited arguments, when they differ from the model's */
+  args?: Record<string, unknown>;
+  reason?: string;
+}
+
+interface ToolApprovalCardProps {
+  approval: PendingToolApproval;
+  onDecide: (decision: ToolApprovalDecision) => Promise<void>;
+}
+
+/**
+ * A tool call held for the user's approval: approve as-is, edit the arguments, or deny
+ */
+export function ToolApprovalCard({
+  approval,
+  onDecide,
+}: ToolApprovalCardProps): React.ReactElement {
+  const originalArgs = JSON.stringify(approval.args ?? {}, null, 2);
+  const [draft, setDraft] = useState(originalArgs);
+  const [reason, setReason] = useState('');
+  const [argsError, setArgsError] = useState<string | null>(null);
+  const [isDeciding, setIsDeciding] = useState(false);
+
+  const decide = async (decision: ToolApprovalDecision) => {
+    setIsDeciding(true);
+    try {
+      await onDecide(decision);
+    } finally {
+      setIsDeciding(false);
+    }
+  };
+
+  const approve = () => {
+    if (draft === originalArgs) {
+      decide({ approved: true });
+      return;
+    }
+    try {
+      const args = JSON.parse(draft);
+      if (!args || typeof args !== 'object' || Array.isArray(args)) {
+        setArgsError('Arguments must be a JSON object');
+        return;
+      }
+      setArgsError(null);
+      decide({ approved: true, args });
+    } catch {
+      setArgsError('Arguments are not valid JSON');
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-yellow-300 dark:border-yellow-500/30 bg-yellow-50 dark:bg-yellow-500/10 p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <Icon icon="alertCircle" size="sm" className="text-yellow-700 dark:text-yellow-400" />
+        <p className="text-sm font-medium text-foreground">
+          Approve call to <span className="font-mono">{approval.toolName}</span>?
+        </p>
+      </div>
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        rows={Math.min(12, draft.split('\n').length + 1)}
+        aria-label="Tool call arguments"
+        disabled={isDeciding}
+        className="w-full px-3 py-2 bg-surface border border-border rounded-lg text-foreground text-xs font-mono focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary"
+      />
+      {argsError && <p className="text-xs text-error">{argsError}</p>}
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          size="sm"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="Reason for denying (optional, sent to the agent)"
+          aria-label="Reason for denying"
+          className="flex-1 min-w-[200px]"
+          maxLength={1000}
+          disabled={isDeciding}
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => decide({ approved: false, reason: reason.trim() || undefined })}
+          disabled={isDeciding}
+        >
+          Deny
+        </Button>
+        <Button size="sm" onClick={approve} loading={isDeciding} disabled={isDeciding}>
+          {draft === originalArgs ? 'Approve' : 'Approve edited'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+'use client';
+
+import type { ToolArtifactRef, TruncatedToolOutput } from '@tpmjs/types/agent';
+import { Icon } from '@tpmjs/ui/Icon/Icon';
+
+// Artifact references are only looked for this deep in a tool result
+const MAX_SCAN_DEPTH = 8;
+
+function isArtifactRef(value: unknown): value is ToolArtifactRef {
+  if (!value || typeof value !== 'object') return false;
+  const obj = value as Record<string, unknown>;
+  return obj.type === 'artifact' && typeof obj.sha256 === 'string' && typeof obj.url === 'string';
+}
+
+function isTruncated(value: unknown): value is TruncatedToolOutput {
+  if (!value || typeof value !== 'object') return false;
+  const obj = value as Record<string, unknown>;
+  return obj.truncated === true && isArtifactRef(obj.fullResult);
+}
+
+/**
+ * Artifact references in a tool result (files the tool produced), deduplicated by hash
+ */
+function collectArtifacts(value: unknown, found: Map<string, ToolArtifactRef>, depth = 0): void {
+  if (isArtifactRef(value)) {
+    found.set(value.sha256, value);
+    return;
+  }
+  if (depth >= MAX_SCAN_DEPTH || !value || typeof value !== 'object') return;
+  for (const item of Array.isArray(value) ? value : Object.values(value)) {
+    collectArtifacts(item, found, depth + 1);
+  }
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Files and truncation notice for a tool result
+ * Renders nothing for results without artifacts
+ */
+export function ToolOutputArtifacts({ output }: { output: unknown }): React.ReactElement | null {
+  const truncated = isTruncated(output) ? output : null;
+  const artifacts = new Map<string, ToolArtifactRef>();
+  collectArtifacts(truncated ? null : output, artifacts);
+
+  if (!truncated && artifacts.size === 0) return null;
+
+  return (
+    <div className="p-3 border-b border-border/50 space-y-2">
+      {truncated && (
+        <div className="flex items-center gap-2 text-[11px] text-amber-700 dark:text-amber-400">
+          <Icon icon="info" size="xs" />
+          <span className="flex-1">
+            Output truncated: the model saw {truncated.preview.length.toLocaleString()} of{' '}
+            {truncated.originalChars.toLocaleString()} characters.
+          </span>
+          <a
+            href={`${truncated.fullResult.url}?download=1`}
+            className="inline-flex items-center gap-1 underline hover:no-underline"
+          >
+            Full result ({formatSize(truncated.fullResult.sizeBytes)})
+            <Icon icon="externalLink" size="xs" />
+          </a>
+        </div>
+      )}
+
+      {artifacts.size > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {[...artifacts.values()].map((artifact) => (
+            <a
+              key={artifact.sha256}
+              href={
+                artifact.mediaType.startsWith('image/')
+                  ? artifact.url
+                  : `${artifact.url}?download=1`
+              }
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex flex-col gap-1 rounded border border-border bg-background p-2 hover:border-foreground-tertiary transition-colors max-w-[220px]"
+            >
+              {artifact.mediaType.startsWith('image/') && (
+                // biome-ignore lint/performance/noImgElement: Artifacts may redirect to Blob storage, which next/image doesn't know about
+                <img
+                  src={artifact.url}
+                  alt={artifact.filename ?? 'Tool output image'}
+                  className="max-h-40 rounded object-contain"
+                  loading="lazy"
+                />
+              )}
+              <span className="flex items-center gap-1 text-[11px] text-foreground truncate">
+                <Icon icon="externalLink" size="xs" />
+                {artifact.filename ?? artifact.sha256.slice(0, 12)}
+              </span>
+              <span className="text-[10px] text-foreground-tertiary">
+                {artifact.mediaType} · {formatSize(artifact.sizeBytes)}
+              </span>
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
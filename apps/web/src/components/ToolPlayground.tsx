@@ -5,7 +5,10 @@
  * Interactive playground for executing TPMJS tools with AI agents
  */
 
-import type { TokenBreakdown as TokenData } from '@/lib/ai-agent/tool-executor-agent';
+import type {
+  ExecutionReport,
+  TokenBreakdown as TokenData,
+} from '@/lib/ai-agent/tool-executor-agent';
 import type { Package, Tool } from '@tpmjs/db';
 import { Spinner } from '@tpmjs/ui/Spinner/Spinner';
 import { useState } from 'react';
@@ -25,6 +28,79 @@ interface ExecutionLog {
   timestamp: Date;
 }
 
+function formatBytes(bytes: number): string {
+  return bytes >= 1024 * 1024 * 1024
+    ? `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`
+    : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Log entries for an executor report: the tool's stdout/stderr, then a summary line
+ */
+function executionReportLogs(report: ExecutionReport): ExecutionLog[] {
+  const toolLogs: ExecutionLog[] = (report.logs ?? []).map((line) => ({
+    level: line.stream === 'stderr' ? 'warning' : 'info',
+    message: `[${line.stream}] ${line.message}`,
+    timestamp: new Date(line.timestamp),
+  }));
+
+  const details = [
+    report.resolvedVersion && `v${report.resolvedVersion}`,
+    report.metrics?.cacheHit !== undefined &&
+      (report.metrics.cacheHit ? 'module cache hit' : 'module cache miss'),
+    report.metrics?.peakMemoryBytes !== undefined &&
+      `peak memory ${formatBytes(report.metrics.peakMemoryBytes)}`,
+  ].filter(Boolean);
+
+  return [
+    ...toolLogs,
+    {
+      level: report.success ? 'debug' : 'error',
+      message: `Executor: ${report.success ? 'succeeded' : `failed${report.errorCode ? ` (${report.errorCode})` : ''}`} in ${report.executionTimeMs}ms${details.length > 0 ? ` · ${details.join(' · ')}` : ''}`,
+      timestamp: new Date(),
+    },
+  ];
+}
+
+/**
+ * Summary of the executor's report for the last tool call
+ */
+function ExecutionDetails({ report }: { report: ExecutionReport }): React.ReactElement {
+  const items: { label: string; value: string }[] = [
+    { label: 'Status', value: report.success ? 'Succeeded' : 'Failed' },
+    ...(report.errorCode ? [{ label: 'Error code', value: report.errorCode }] : []),
+    { label: 'Executor time', value: `${report.executionTimeMs}ms` },
+    ...(report.resolvedVersion ? [{ label: 'Version', value: report.resolvedVersion }] : []),
+    ...(report.metrics?.cacheHit !== undefined
+      ? [{ label: 'Module cache', value: report.metrics.cacheHit ? 'Hit' : 'Miss' }]
+      : []),
+    ...(report.metrics?.peakMemoryBytes !== undefined
+      ? [{ label: 'Peak memory', value: formatBytes(report.metrics.peakMemoryBytes) }]
+      : []),
+    ...(report.logs?.length ? [{ label: 'Console lines', value: String(report.logs.length) }] : []),
+  ];
+
+  return (
+    <div className="rounded-lg border border-border bg-muted/30 p-4">
+      <h3 className="text-sm font-medium text-foreground mb-3">Execution</h3>
+      <dl className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+        {items.map((item) => (
+          <div key={item.label}>
+            <dt className="text-xs text-foreground-tertiary">{item.label}</dt>
+            <dd
+              className={`text-sm font-mono ${
+                item.label === 'Error code' ? 'text-red-600 dark:text-red-400' : 'text-foreground'
+              }`}
+            >
+              {item.value}
+            </dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+}
+
 // biome-ignore lint/complexity/noExcessiveCognitiveComplexity: Playground component has many tabs with different content
 export function ToolPlayground({ tool }: ToolPlaygroundProps): React.ReactElement {
   const [activeTab, setActiveTab] = useState<Tab>('input');
@@ -33,6 +109,7 @@ export function ToolPlayground({ tool }: ToolPlaygroundProps): React.ReactElemen
   const [output, setOutput] = useState('');
   const [logs, setLogs] = useState<ExecutionLog[]>([]);
   const [tokens, setTokens] = useState<TokenData | null>(null);
+  const [execution, setExecution] = useState<ExecutionReport | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [rateLimitInfo, setRateLimitInfo] = useState<{ remaining: number } | null>(null);
 
@@ -45,6 +122,7 @@ export function ToolPlayground({ tool }: ToolPlaygroundProps): React.ReactElemen
     setError(null);
     setLogs([]);
     setTokens(null);
+    setExecution(null);
     setActiveTab('output');
 
     try {
@@ -122,6 +200,11 @@ export function ToolPlayground({ tool }: ToolPlaygroundProps): React.ReactElemen
                   ]);
                   break;
 
+                case 'execution':
+                  setExecution(data as ExecutionReport);
+                  setLogs((prev) => [...prev, ...executionReportLogs(data as ExecutionReport)]);
+                  break;
+
                 case 'complete':
                   // Don't replace output - keep the streamed text
                   // setOutput(data.output); // Removed: this was overwriting streamed content
@@ -273,6 +356,7 @@ export function ToolPlayground({ tool }: ToolPlaygroundProps): React.ReactElemen
 
         {activeTab === 'output' && (
           <div className="space-y-4">
+            {execution && <ExecutionDetails report={execution} />}
             {error ? (
               <div className="p-4 rounded-lg bg-red-50 dark:bg-red-950/30 border border-red-200 dark:border-red-900">
                 <p className="text-sm text-red-700 dark:text-red-400 font-medium">Error</p>
@@ -0,0 +1,214 @@
+'use client';
+
+import { Badge } from '@tpmjs/ui/Badge/Badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@tpmjs/ui/Card/Card';
+import { Select } from '@tpmjs/ui/Select/Select';
+import { useEffect, useState } from 'react';
+import { diffInputSchemas, type SchemaChange, type SchemaDiff } from '~/lib/schema-diff';
+
+type HealthStatus = 'HEALTHY' | 'BROKEN' | 'UNKNOWN';
+
+interface ToolVersionEntry {
+  version: string;
+  publishedAt: string | null;
+  inputSchema: Record<string, unknown> | null;
+  importHealth: HealthStatus;
+  executionHealth: HealthStatus;
+  healthCheckError: string | null;
+  changes: SchemaDiff | null;
+}
+
+interface ToolVersionHistoryProps {
+  packageName: string;
+  toolName: string;
+  latestVersion: string;
+}
+
+function describeChange(change: SchemaChange): string {
+  switch (change.kind) {
+    case 'added':
+      return `Added optional parameter ${change.parameter}`;
+    case 'removed':
+      return `Removed parameter ${change.parameter}`;
+    case 'newly_required':
+      return `${change.parameter} is now required`;
+    case 'no_longer_required':
+      return `${change.parameter} is now optional`;
+    case 'type_changed':
+      return `${change.parameter} changed type from ${change.from} to ${change.to}`;
+  }
+}
+
+function HealthBadge({ entry }: { entry: ToolVersionEntry }): React.ReactElement {
+  if (entry.importHealth === 'BROKEN' || entry.executionHealth === 'BROKEN') {
+    return (
+      <Badge variant="error" size="sm" title={entry.healthCheckError ?? undefined}>
+        Broken
+      </Badge>
+    );
+  }
+  if (entry.importHealth === 'HEALTHY' && entry.executionHealth === 'HEALTHY') {
+    return (
+      <Badge variant="success" size="sm">
+        Healthy
+      </Badge>
+    );
+  }
+  return (
+    <Badge variant="outline" size="sm">
+      Unchecked
+    </Badge>
+  );
+}
+
+/**
+ * Per-version schema and health history with a schema diff between any two versions
+ */
+export function ToolVersionHistory({
+  packageName,
+  toolName,
+  latestVersion,
+}: ToolVersionHistoryProps): React.ReactElement | null {
+  const [versions, setVersions] = useState<ToolVersionEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [fromVersion, setFromVersion] = useState('');
+  const [toVersion, setToVersion] = useState('');
+
+  useEffect(() => {
+    const fetchVersions = async () => {
+      setLoading(true);
+      try {
+        const params = new URLSearchParams({ packageName, name: toolName });
+        const response = await fetch(`/api/tools/versions?${params}`);
+        const result = await response.json();
+        if (result.success) {
+          const entries: ToolVersionEntry[] = result.data.versions;
+          setVersions(entries);
+          // Default to comparing the two most recent versions
+          setToVersion(entries[0]?.version ?? '');
+          setFromVersion(entries[1]?.version ?? '');
+        }
+      } catch (err) {
+        console.error('Failed to fetch tool versions:', err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchVersions();
+  }, [packageName, toolName]);
+
+  // Nothing to compare until at least one version has been recorded
+  if (!loading && versions.length === 0) {
+    return null;
+  }
+
+  const from = versions.find((entry) => entry.version === fromVersion);
+  const to = versions.find((entry) => entry.version === toVersion);
+  const diff =
+    from?.inputSchema && to?.inputSchema
+      ? diffInputSchemas(from.inputSchema, to.inputSchema)
+      : null;
+  const versionOptions = versions.map((entry) => ({ value: entry.version, label: entry.version }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Version History</CardTitle>
+        <CardDescription>Schema and health for each synced version</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <div className="space-y-2 animate-pulse">
+            <div className="h-4 bg-muted rounded w-48" />
+            <div className="h-4 bg-muted rounded w-40" />
+          </div>
+        ) : (
+          <>
+            <div className="divide-y divide-border border border-border rounded-lg overflow-hidden">
+              {versions.map((entry) => (
+                <div key={entry.version} className="flex flex-wrap items-center gap-2 p-3">
+                  <code className="text-sm font-mono text-foreground">{entry.version}</code>
+                  {entry.version === latestVersion && (
+                    <Badge variant="info" size="sm">
+                      Latest
+                    </Badge>
+                  )}
+                  <HealthBadge entry={entry} />
+                  {entry.changes?.breaking ? (
+                    <Badge variant="error" size="sm">
+                      Breaking changes
+                    </Badge>
+                  ) : entry.changes && entry.changes.changes.length > 0 ? (
+                    <Badge variant="secondary" size="sm">
+                      Schema changed
+                    </Badge>
+                  ) : null}
+                  {!entry.inputSchema && (
+                    <Badge variant="outline" size="sm">
+                      No schema
+                    </Badge>
+                  )}
+                  {entry.publishedAt && (
+                    <span className="ml-auto text-xs text-foreground-tertiary">
+                      {new Date(entry.publishedAt).toLocaleDateString()}
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {versions.length > 1 && (
+              <div>
+                <div className="flex items-center gap-2 mb-3">
+                  <Select
+                    aria-label="Compare from version"
+                    value={fromVersion}
+                    onChange={(e) => setFromVersion(e.target.value)}
+                    options={versionOptions}
+                    size="sm"
+                    fullWidth={false}
+                  />
+                  <span className="text-sm text-foreground-tertiary">→</span>
+                  <Select
+                    aria-label="Compare to version"
+                    value={toVersion}
+                    onChange={(e) => setToVersion(e.target.value)}
+                    options={versionOptions}
+                    size="sm"
+                    fullWidth={false}
+                  />
+                </div>
+                {!diff ? (
+                  <p className="text-sm text-foreground-secondary">
+                    No schema was extracted for one of these versions.
+                  </p>
+                ) : diff.changes.length === 0 ? (
+                  <p className="text-sm text-foreground-secondary">No parameter changes.</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {diff.changes.map((change) => (
+                      <li
+                        key={`${change.kind}:${change.parameter}`}
+                        className="flex items-center justify-between gap-2 text-sm"
+                      >
+                        <span className="font-mono text-foreground-secondary">
+                          {describeChange(change)}
+                        </span>
+                        {change.breaking && (
+                          <Badge variant="error" size="sm">
+                            Breaking
+                          </Badge>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,118 @@
+'use client';
+
+import { Badge } from '@tpmjs/ui/Badge/Badge';
+import { Button } from '@tpmjs/ui/Button/Button';
+import { Icon } from '@tpmjs/ui/Icon/Icon';
+import { Input } from '@tpmjs/ui/Input/Input';
+import { useState } from 'react';
+
+interface ToolVersionPinProps {
+  /** Pinned version or semver range (null = latest) */
+  version: string | null;
+  /** Latest published version of the tool's package */
+  latestVersion?: string | null;
+  /** Suggested pin when the latest version falls outside the current pin */
+  upgradeVersion?: string | null;
+  /** Save a new pin (null unpins); omit to render read-only */
+  onChange?: (version: string | null) => Promise<void>;
+}
+
+/**
+ * Shows a tool's pinned version with inline editing and a one-click upgrade
+ */
+export function ToolVersionPin({
+  version,
+  latestVersion,
+  upgradeVersion,
+  onChange,
+}: ToolVersionPinProps): React.ReactElement {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(version ?? '');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const save = async (nextVersion: string | null) => {
+    if (!onChange) return;
+    setIsSaving(true);
+    try {
+      await onChange(nextVersion);
+      setIsEditing(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isEditing) {
+    return (
+      <form
+        className="flex items-center gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          save(draft.trim() || null);
+        }}
+      >
+        <Input
+          size="sm"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="latest"
+          aria-label="Pinned version"
+          className="w-32 font-mono"
+          maxLength={50}
+          disabled={isSaving}
+        />
+        <Button type="submit" size="sm" variant="ghost" loading={isSaving} title="Save version">
+          <Icon icon="check" size="xs" />
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant="ghost"
+          onClick={() => setIsEditing(false)}
+          disabled={isSaving}
+          title="Cancel"
+        >
+          <Icon icon="x" size="xs" />
+        </Button>
+      </form>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Badge variant="outline" size="sm" className="font-mono">
+        {version ?? 'latest'}
+      </Badge>
+      {onChange && (
+        <button
+          type="button"
+          onClick={() => {
+            setDraft(version ?? '');
+            setIsEditing(true);
+          }}
+          className="text-foreground-tertiary hover:text-foreground"
+          title="Pin version"
+        >
+          <Icon icon="edit" size="xs" />
+        </button>
+      )}
+      {upgradeVersion && (
+        <>
+          <Badge variant="warning" size="sm">
+            {latestVersion ? `${latestVersion} available` : 'Update available'}
+          </Badge>
+          {onChange && (
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => save(upgradeVersion)}
+              loading={isSaving}
+              title={`Pin to ${upgradeVersion}`}
+            >
+              Upgrade
+            </Button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,254 @@
+'use client';
+
+import { Button } from '@tpmjs/ui/Button/Button';
+import { FormField } from '@tpmjs/ui/FormField/FormField';
+import { Icon } from '@tpmjs/ui/Icon/Icon';
+import { Input } from '@tpmjs/ui/Input/Input';
+import { Textarea } from '@tpmjs/ui/Textarea/Textarea';
+import { useCallback, useEffect, useState } from 'react';
+
+interface CollectionPrompt {
+  id: string;
+  name: string;
+  description: string | null;
+  template: string;
+  arguments: Array<{ name: string; description?: string; required: boolean }>;
+}
+
+interface CollectionPromptListProps {
+  collectionId: string;
+  isOwner?: boolean;
+}
+
+/**
+ * Extract unique {{argument}} placeholder names from a template
+ */
+function extractTemplateArguments(template: string): string[] {
+  const names = new Set<string>();
+  for (const match of template.matchAll(/\{\{\s*([a-zA-Z_][a-zA-Z0-9_]*)\s*\}\}/g)) {
+    if (match[1]) names.add(match[1]);
+  }
+  return [...names];
+}
+
+export function CollectionPromptList({
+  collectionId,
+  isOwner = true,
+}: CollectionPromptListProps): React.ReactElement {
+  const [prompts, setPrompts] = useState<CollectionPrompt[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [template, setTemplate] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const fetchPrompts = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/collections/${collectionId}/prompts`);
+      const result = await response.json();
+      if (result.success) {
+        setPrompts(result.data);
+      }
+    } catch (err) {
+      console.error('Failed to fetch prompts:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [collectionId]);
+
+  useEffect(() => {
+    fetchPrompts();
+  }, [fetchPrompts]);
+
+  const resetForm = () => {
+    setName('');
+    setDescription('');
+    setTemplate('');
+    setError(null);
+    setShowForm(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/collections/${collectionId}/prompts`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: name.trim(),
+          description: description.trim() || undefined,
+          template,
+          // Every placeholder in the template becomes a required argument
+          arguments: extractTemplateArguments(template).map((argName) => ({
+            name: argName,
+            required: true,
+          })),
+        }),
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        const fieldErrors = result.error?.details?.errors as Record<string, string[]> | undefined;
+        const firstFieldError = fieldErrors ? Object.values(fieldErrors)[0]?.[0] : undefined;
+        setError(firstFieldError ?? result.error?.message ?? 'Failed to add prompt');
+        return;
+      }
+
+      setPrompts((prev) => [...prev, result.data]);
+      resetForm();
+    } catch (err) {
+      console.error('Failed to add prompt:', err);
+      setError('Failed to add prompt');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (promptId: string) => {
+    if (!confirm('Delete this prompt?')) return;
+    setDeletingId(promptId);
+
+    try {
+      const response = await fetch(`/api/collections/${collectionId}/prompts/${promptId}`, {
+        method: 'DELETE',
+      });
+      const result = await response.json();
+      if (result.success) {
+        setPrompts((prev) => prev.filter((prompt) => prompt.id !== promptId));
+      }
+    } catch (err) {
+      console.error('Failed to delete prompt:', err);
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  if (isLoading) {
+    return <div className="h-16 bg-surface-secondary rounded-lg animate-pulse" />;
+  }
+
+  return (
+    <div>
+      {prompts.length === 0 && !showForm && (
+        <div className="p-4 border border-dashed border-border rounded-lg text-sm text-foreground-secondary">
+          {isOwner
+            ? 'No prompts yet. Prompt templates are served to MCP clients alongside the tools.'
+            : 'This collection has no prompts.'}
+        </div>
+      )}
+
+      {prompts.length > 0 && (
+        <div className="divide-y divide-border border border-border rounded-lg overflow-hidden">
+          {prompts.map((prompt) => (
+            <div key={prompt.id} className="p-4 bg-background">
+              <div className="flex items-start justify-between gap-4">
+                <div className="flex-1 min-w-0">
+                  <p className="font-mono text-sm font-medium text-foreground mb-1">
+                    {prompt.name}
+                  </p>
+                  {prompt.description && (
+                    <p className="text-sm text-foreground-secondary mb-2">{prompt.description}</p>
+                  )}
+                  <pre className="text-xs text-foreground-tertiary whitespace-pre-wrap line-clamp-3 font-mono">
+                    {prompt.template}
+                  </pre>
+                  {prompt.arguments.length > 0 && (
+                    <p className="text-xs text-foreground-tertiary mt-2">
+                      Arguments: {prompt.arguments.map((arg) => arg.name).join(', ')}
+                    </p>
+                  )}
+                </div>
+                {isOwner && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleDelete(prompt.id)}
+                    disabled={deletingId === prompt.id}
+                  >
+                    <Icon icon="trash" size="xs" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {isOwner && showForm && (
+        <form
+          onSubmit={handleSubmit}
+          className="mt-4 p-4 border border-border rounded-lg bg-surface space-y-4"
+        >
+          <FormField
+            label="Name"
+            htmlFor="prompt-name"
+            required
+            helperText="Lowercase letters, numbers, hyphens, and underscores"
+          >
+            <Input
+              id="prompt-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="summarize-page"
+              disabled={isSubmitting}
+              maxLength={64}
+            />
+          </FormField>
+          <FormField label="Description" htmlFor="prompt-description">
+            <Input
+              id="prompt-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Summarize a web page with the scraping tools"
+              disabled={isSubmitting}
+              maxLength={500}
+            />
+          </FormField>
+          <FormField
+            label="Template"
+            htmlFor="prompt-template"
+            required
+            helperText="Use {{argument}} placeholders; each one becomes a required argument"
+          >
+            <Textarea
+              id="prompt-template"
+              value={template}
+              onChange={(e) => setTemplate(e.target.value)}
+              placeholder="Fetch {{url}} and summarize it in three bullet points."
+              disabled={isSubmitting}
+              rows={5}
+              maxLength={10000}
+            />
+          </FormField>
+          {error && <p className="text-sm text-error">{error}</p>}
+          <div className="flex gap-3">
+            <Button
+              type="submit"
+              size="sm"
+              loading={isSubmitting}
+              disabled={isSubmitting || !name.trim() || !template.trim()}
+            >
+              Add Prompt
+            </Button>
+            <Button type="button" size="sm" variant="ghost" onClick={resetForm}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {isOwner && !showForm && (
+        <Button size="sm" variant="secondary" className="mt-3" onClick={() => setShowForm(true)}>
+          <Icon icon="plus" size="xs" className="mr-1" />
+          Add Prompt
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -3,13 +3,18 @@
 import { Badge } from '@tpmjs/ui/Badge/Badge';
 import { Button } from '@tpmjs/ui/Button/Button';
 import { Icon } from '@tpmjs/ui/Icon/Icon';
+import { Switch } from '@tpmjs/ui/Switch/Switch';
 import Link from 'next/link';
+import { ToolVersionPin } from '~/components/ToolVersionPin';
 
 interface CollectionTool {
   id: string;
   toolId: string;
   position: number;
   note: string | null;
+  version?: string | null;
+  upgradeVersion?: string | null;
+  requiresApproval?: boolean;
   addedAt: Date | string;
   tool: {
     id: string;
@@ -17,6 +22,7 @@ interface CollectionTool {
     description: string;
     package: {
       npmPackageName: string;
+      npmVersion?: string;
       category: string;
     };
   };
@@ -25,6 +31,8 @@ interface CollectionTool {
 interface CollectionToolListProps {
   tools: CollectionTool[];
   onRemove?: (toolId: string) => void;
+  onVersionChange?: (toolId: string, version: string | null) => Promise<void>;
+  onApprovalChange?: (toolId: string, requiresApproval: boolean) => Promise<void>;
   removingId?: string | null;
   isOwner?: boolean;
 }
@@ -32,6 +40,8 @@ interface CollectionToolListProps {
 export function CollectionToolList({
   tools,
   onRemove,
+  onVersionChange,
+  onApprovalChange,
   removingId,
   isOwner = true,
 }: CollectionToolListProps): React.ReactElement {
@@ -74,9 +84,35 @@ export function CollectionToolList({
               <p className="text-sm text-foreground-secondary line-clamp-2 mb-2">
                 {collectionTool.tool.description}
               </p>
-              <p className="text-xs text-foreground-tertiary">
-                {collectionTool.tool.package.npmPackageName}
-              </p>
+              <div className="flex flex-wrap items-center gap-3">
+                <p className="text-xs text-foreground-tertiary">
+                  {collectionTool.tool.package.npmPackageName}
+                </p>
+                <ToolVersionPin
+                  version={collectionTool.version ?? null}
+                  latestVersion={collectionTool.tool.package.npmVersion}
+                  upgradeVersion={collectionTool.upgradeVersion}
+                  onChange={
+                    isOwner && onVersionChange
+                      ? (version) => onVersionChange(collectionTool.toolId, version)
+                      : undefined
+                  }
+                />
+                {isOwner && onApprovalChange ? (
+                  <Switch
+                    size="sm"
+                    label="Requires approval"
+                    checked={collectionTool.requiresApproval ?? false}
+                    onChange={(checked) => onApprovalChange(collectionTool.toolId, checked)}
+                  />
+                ) : (
+                  collectionTool.requiresApproval && (
+                    <Badge variant="outline" size="sm">
+                      Requires approval
+                    </Badge>
+                  )
+                )}
+              </div>
               {collectionTool.note && (
                 <p className="text-sm text-foreground-secondary mt-2 italic">
                   &ldquo;{collectionTool.note}&rdquo;
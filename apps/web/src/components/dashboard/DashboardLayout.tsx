@@ -20,6 +20,8 @@ const navItems: NavItem[] = [
   { href: '/dashboard/agents', label: 'Agents', icon: 'terminal' },
   { href: '/dashboard/collections', label: 'Collections', icon: 'folder' },
   { href: '/dashboard/settings/api-keys', label: 'API Keys', icon: 'key' },
+  { href: '/dashboard/settings/api-tokens', label: 'API Tokens', icon: 'link' },
+  { href: '/dashboard/settings/publishers', label: 'Publishers', icon: 'check' },
 ];
 
 const likesNavItems: NavItem[] = [
@@ -9,6 +9,7 @@ export const env = createEnv({
     .string()
     .url()
     .default('https://endearing-commitment-production.up.railway.app'), // Railway service for health checks
+  SEARCH_EMBEDDER: z.string().default('hash'), // Embedding backend for semantic tool search (lib/search/embedder.ts)
 
   // Better Auth
   BETTER_AUTH_SECRET: z.string().min(32).optional(), // Required for session encryption
@@ -5,14 +5,23 @@
 import type { Agent, AgentCollection, AgentTool, Collection, Package, Tool } from '@tpmjs/db';
 import { prisma } from '@tpmjs/db';
 
-import { createToolDefinition } from '../ai-agent/tool-executor-agent';
+import {
+  createToolDefinition,
+  estimateToolDefinitionTokens,
+  type ToolExecutionHooks,
+} from '../ai-agent/tool-executor-agent';
 import { parseExecutorConfig, resolveExecutorConfig } from '../executors';
+import { mergeEnvVars, parseEnvVars } from '../executors/env-vars';
+import { buildToolNameMap, getToolName, type ToolNameMap, toolKey } from '../tool-names';
 
 // Agent type includes executor config fields from Prisma schema
 type AgentWithRelations = Agent & {
   collections: (AgentCollection & {
     collection: Collection & {
       tools: Array<{
+        version: string | null;
+        requiresApproval: boolean;
+        addedAt: Date;
         tool: Tool & { package: Package };
       }>;
     };
@@ -22,6 +31,13 @@ type AgentWithRelations = Agent & {
   })[];
 };
 
+/**
+ * AI SDK tool definition for an agent tool; `needsApproval` holds calls for the user's decision
+ */
+export type AgentToolDefinition = ReturnType<typeof createToolDefinition> & {
+  needsApproval?: boolean;
+};
+
 /**
  * Fetch a full agent with all tool relations
  * Includes executor config for cascade resolution
@@ -183,45 +199,41 @@ export async function fetchAgentByUsernameAndUidWithTools(
 }
 
 /**
- * Sanitize npm package name to valid tool name
- * OpenAI limits tool names to 64 characters
+ * Build the tool name mapping for everything an agent can call
+ * Shares the MCP naming scheme (64 char limit, deterministic collision handling)
  */
-function sanitizeToolName(name: string): string {
-  const sanitized = name.replace(/[@/]/g, '-').replace(/^-+/, '');
-  // Truncate to 64 chars (OpenAI limit)
-  return sanitized.slice(0, 64);
-}
+function getAgentToolNameMap(agent: AgentWithRelations): ToolNameMap {
+  // A collection tool joined the agent when both it and its collection were added
+  const collectionTools = agent.collections.flatMap((agentCollection) =>
+    agentCollection.collection.tools.map((ct) => ({
+      packageName: ct.tool.package.npmPackageName,
+      toolName: ct.tool.name,
+      addedAt: ct.addedAt > agentCollection.addedAt ? ct.addedAt : agentCollection.addedAt,
+    }))
+  );
+  const agentTools = agent.tools.map((agentTool) => ({
+    packageName: agentTool.tool.package.npmPackageName,
+    toolName: agentTool.tool.name,
+    addedAt: agentTool.addedAt,
+  }));
 
-/**
- * Parse environment variables from JSON field
- * Returns empty object if null/undefined or invalid
- */
-function parseEnvVars(envVars: unknown): Record<string, string> {
-  if (!envVars || typeof envVars !== 'object') {
-    return {};
-  }
-  // Validate all values are strings
-  const result: Record<string, string> = {};
-  for (const [key, value] of Object.entries(envVars)) {
-    if (typeof value === 'string') {
-      result[key] = value;
-    }
-  }
-  return result;
+  return buildToolNameMap([...collectionTools, ...agentTools]);
 }
 
 /**
- * Merge environment variables with agent envVars taking precedence
- * Collection envVars are used as base, agent envVars override
+ * Keys of the tools whose calls need the user's approval
+ * A flag on either the agent tool or any collection tool is enough (the safer setting wins)
  */
-function mergeEnvVars(
-  collectionEnvVars: Record<string, string>,
-  agentEnvVars: Record<string, string>
-): Record<string, string> {
-  return {
-    ...collectionEnvVars,
-    ...agentEnvVars, // Agent overrides collection
-  };
+function getApprovalToolKeys(agent: AgentWithRelations): Set<string> {
+  const refs = [
+    ...agent.collections.flatMap((agentCollection) => agentCollection.collection.tools),
+    ...agent.tools,
+  ];
+  return new Set(
+    refs
+      .filter((ref) => ref.requiresApproval)
+      .map((ref) => toolKey(ref.tool.package.npmPackageName, ref.tool.name))
+  );
 }
 
 /**
@@ -237,12 +249,28 @@ function mergeEnvVars(
  * - Collection env vars are used as base
  * - Agent env vars override collection env vars for same keys
  * - Both are merged together for unique keys
+ *
+ * Version pins come from the collection tool or agent tool that contributes the tool
+ * (unpinned tools run the latest version)
+ *
+ * `hooks.onRouting` receives the executor that served each tool call (including failover
+ * attempts when the resolved config is a chain); `hooks.onExecutorEvent` receives the
+ * executor's streamed log/progress/partial events while a call runs
+ *
+ * Results larger than `agent.maxToolOutputChars` (and any files in them) are stored as
+ * artifacts; the model and the conversation history get references and a preview
+ *
+ * Tools flagged `requiresApproval` on the agent tool or on any collection tool that
+ * contributes them get `needsApproval`: their calls pause the turn until the user decides
  */
 export function buildAgentTools(
-  agent: AgentWithRelations
-): Record<string, ReturnType<typeof createToolDefinition>> {
-  const tools: Record<string, ReturnType<typeof createToolDefinition>> = {};
+  agent: AgentWithRelations,
+  hooks: ToolExecutionHooks = {}
+): Record<string, AgentToolDefinition> {
+  const tools: Record<string, AgentToolDefinition> = {};
   const seenTools = new Set<string>();
+  const toolNames = getAgentToolNameMap(agent);
+  const approvalKeys = getApprovalToolKeys(agent);
 
   // Parse agent-level executor config
   const agentExecutorConfig = parseExecutorConfig(agent.executorType, agent.executorConfig);
@@ -269,14 +297,24 @@ export function buildAgentTools(
 
     for (const collectionTool of collection.tools) {
       const tool = collectionTool.tool;
-      const toolKey = `${tool.package.npmPackageName}::${tool.name}`;
+      const key = toolKey(tool.package.npmPackageName, tool.name);
 
       // Avoid duplicates
-      if (seenTools.has(toolKey)) continue;
-      seenTools.add(toolKey);
+      if (seenTools.has(key)) continue;
+      seenTools.add(key);
 
-      const toolName = sanitizeToolName(`${tool.package.npmPackageName}-${tool.name}`);
-      tools[toolName] = createToolDefinition(tool, resolvedConfig, mergedEnvVars);
+      const toolName = getToolName(toolNames, tool.package.npmPackageName, tool.name);
+      tools[toolName] = {
+        ...createToolDefinition(
+          tool,
+          resolvedConfig,
+          mergedEnvVars,
+          collectionTool.version ?? undefined,
+          hooks,
+          agent.maxToolOutputChars
+        ),
+        ...(approvalKeys.has(key) && { needsApproval: true }),
+      };
     }
   }
 
@@ -287,14 +325,24 @@ export function buildAgentTools(
 
   for (const agentTool of agent.tools) {
     const tool = agentTool.tool;
-    const toolKey = `${tool.package.npmPackageName}::${tool.name}`;
+    const key = toolKey(tool.package.npmPackageName, tool.name);
 
     // Skip if already added from collections
-    if (seenTools.has(toolKey)) continue;
-    seenTools.add(toolKey);
+    if (seenTools.has(key)) continue;
+    seenTools.add(key);
 
-    const toolName = sanitizeToolName(`${tool.package.npmPackageName}-${tool.name}`);
-    tools[toolName] = createToolDefinition(tool, individualToolConfig, agentEnvVars);
+    const toolName = getToolName(toolNames, tool.package.npmPackageName, tool.name);
+    tools[toolName] = {
+      ...createToolDefinition(
+        tool,
+        individualToolConfig,
+        agentEnvVars,
+        agentTool.version ?? undefined,
+        hooks,
+        agent.maxToolOutputChars
+      ),
+      ...(approvalKeys.has(key) && { needsApproval: true }),
+    };
   }
 
   return tools;
@@ -306,26 +354,50 @@ export function buildAgentTools(
 export function getAgentToolNames(agent: AgentWithRelations): string[] {
   const names: string[] = [];
   const seenTools = new Set<string>();
+  const toolNames = getAgentToolNameMap(agent);
 
   for (const agentCollection of agent.collections) {
     for (const collectionTool of agentCollection.collection.tools) {
       const tool = collectionTool.tool;
-      const toolKey = `${tool.package.npmPackageName}::${tool.name}`;
-      if (!seenTools.has(toolKey)) {
-        seenTools.add(toolKey);
-        names.push(sanitizeToolName(`${tool.package.npmPackageName}-${tool.name}`));
+      const key = toolKey(tool.package.npmPackageName, tool.name);
+      if (!seenTools.has(key)) {
+        seenTools.add(key);
+        names.push(getToolName(toolNames, tool.package.npmPackageName, tool.name));
       }
     }
   }
 
   for (const agentTool of agent.tools) {
     const tool = agentTool.tool;
-    const toolKey = `${tool.package.npmPackageName}::${tool.name}`;
-    if (!seenTools.has(toolKey)) {
-      seenTools.add(toolKey);
-      names.push(sanitizeToolName(`${tool.package.npmPackageName}-${tool.name}`));
+    const key = toolKey(tool.package.npmPackageName, tool.name);
+    if (!seenTools.has(key)) {
+      seenTools.add(key);
+      names.push(getToolName(toolNames, tool.package.npmPackageName, tool.name));
     }
   }
 
   return names;
 }
+
+/**
+ * Estimated tokens the agent's tool definitions take in every model request
+ */
+export function estimateAgentToolTokens(agent: AgentWithRelations): number {
+  const seenTools = new Set<string>();
+  let tokens = 0;
+
+  const tools = [
+    ...agent.collections.flatMap((agentCollection) =>
+      agentCollection.collection.tools.map((ct) => ct.tool)
+    ),
+    ...agent.tools.map((agentTool) => agentTool.tool),
+  ];
+  for (const tool of tools) {
+    const key = toolKey(tool.package.npmPackageName, tool.name);
+    if (seenTools.has(key)) continue;
+    seenTools.add(key);
+    tokens += estimateToolDefinitionTokens(tool);
+  }
+
+  return tokens;
+}
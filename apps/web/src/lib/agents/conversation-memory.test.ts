@@ -0,0 +1,237 @@
+/**
+ * Tests for conversation memory: context budgets, fitting history to them and where history
+ * is split for the rolling summary
+ */
+
+import type { Message } from '@tpmjs/db';
+import { describe, expect, it } from 'vitest';
+import {
+  computeContextBudget,
+  estimateMessageTokens,
+  fitHistoryToBudget,
+  getContextWindow,
+  renderTranscript,
+  splitForSummary,
+} from './conversation-memory';
+
+type TestMessage = Pick<
+  Message,
+  'id' | 'role' | 'content' | 'toolName' | 'toolCalls' | 'toolResult'
+>;
+
+function message(id: string, role: TestMessage['role'], chars: number): TestMessage {
+  return {
+    id,
+    role,
+    content: 'x'.repeat(chars),
+    toolName: null,
+    toolCalls: null,
+    toolResult: null,
+  };
+}
+
+// Each turn: user question, assistant tool call, tool result, assistant answer (100 tokens each)
+function turns(count: number): TestMessage[] {
+  return Array.from({ length: count }, (_, turn) => [
+    message(`u${turn}`, 'USER', 400),
+    message(`a${turn}`, 'ASSISTANT', 400),
+    message(`t${turn}`, 'TOOL', 400),
+    message(`r${turn}`, 'ASSISTANT', 400),
+  ]).flat();
+}
+
+describe('context budget', () => {
+  it('uses the model context window and falls back for unknown models', () => {
+    expect(getContextWindow('OPENAI', 'gpt-3.5-turbo')).toBe(16385);
+    expect(getContextWindow('ANTHROPIC', 'claude-3-5-haiku-20241022')).toBe(200000);
+    expect(getContextWindow('OPENAI', 'some-future-model')).toBe(32000);
+  });
+
+  it('reserves tools, prompt and response before history', () => {
+    const budget = computeContextBudget({
+      provider: 'GROQ',
+      modelId: 'mixtral-8x7b-32768',
+      toolTokens: 1000,
+      systemPrompt: 'x'.repeat(400),
+      message: 'y'.repeat(40),
+    });
+
+    expect(budget).toEqual({
+      contextWindow: 32768,
+      toolTokens: 1000,
+      promptTokens: 110,
+      responseTokens: 3276,
+      historyTokens: 25105,
+    });
+    expect(
+      computeContextBudget({
+        provider: 'GOOGLE',
+        modelId: 'gemini-1.5-pro',
+        toolTokens: 1000,
+        systemPrompt: null,
+        message: 'hi',
+      }).historyTokens
+    ).toBe(900000 - 1000 - 1 - 8192);
+  });
+
+  it('counts tool calls and results', () => {
+    expect(
+      estimateMessageTokens({
+        content: 'abcd',
+        toolCalls: null,
+        toolResult: { a: 'b'.repeat(100) },
+      })
+    ).toBeGreaterThan(25);
+  });
+});
+
+function toolResult(id: string, result: unknown): TestMessage {
+  return { ...message(id, 'TOOL', 0), toolName: 'search', toolResult: result as never };
+}
+
+describe('fitHistoryToBudget', () => {
+  it('keeps history that fits as-is', () => {
+    const history = turns(3);
+
+    expect(fitHistoryToBudget(history, 10000)).toEqual({
+      messages: history,
+      tokens: 1200,
+      elidedToolResults: 0,
+      droppedMessages: 0,
+    });
+  });
+
+  it('elides oversized tool results before dropping anything', () => {
+    const history = [
+      message('u0', 'USER', 400),
+      toolResult('big', { text: 'z'.repeat(40000) }),
+      ...turns(2),
+    ];
+
+    const fitted = fitHistoryToBudget(history, 20000);
+
+    expect(fitted.droppedMessages).toBe(0);
+    expect(fitted.elidedToolResults).toBe(1);
+    expect(fitted.messages[1]?.toolResult).toMatchObject({
+      elided: true,
+      originalChars: 40011,
+    });
+    expect(fitted.tokens).toBeLessThan(1200);
+  });
+
+  it('keeps the artifact reference of an elided truncated result', () => {
+    const fullResult = {
+      type: 'artifact',
+      sha256: 'a'.repeat(64),
+      mediaType: 'application/json',
+      sizeBytes: 90000,
+      url: `/api/artifacts/${'a'.repeat(64)}`,
+    };
+    const history = [
+      message('u0', 'USER', 40),
+      toolResult('t0', {
+        truncated: true,
+        preview: 'p'.repeat(20000),
+        originalChars: 90000,
+        fullResult,
+        note: 'Output truncated',
+      }),
+    ];
+
+    const fitted = fitHistoryToBudget(history, 4000);
+
+    expect(fitted.messages[1]?.toolResult).toMatchObject({ elided: true, fullResult });
+  });
+
+  it('elides tool results, then drops the oldest turns', () => {
+    const history = [
+      message('u0', 'USER', 40),
+      toolResult('t0', { text: 'z'.repeat(3000) }),
+      ...turns(10),
+    ];
+
+    const fitted = fitHistoryToBudget(history, 1000);
+
+    expect(fitted.elidedToolResults).toBe(1);
+    expect(fitted.messages.map((m) => m.id)).toEqual([
+      'u8',
+      'a8',
+      't8',
+      'r8',
+      'u9',
+      'a9',
+      't9',
+      'r9',
+    ]);
+    expect(fitted.droppedMessages).toBe(34);
+    expect(fitted.tokens).toBe(800);
+  });
+
+  it('always keeps the most recent turn', () => {
+    const history = [...turns(2), message('u2', 'USER', 8000)];
+
+    const fitted = fitHistoryToBudget(history, 500);
+
+    expect(fitted.messages.map((m) => m.id)).toEqual(['u2']);
+    expect(fitted.tokens).toBe(2000);
+  });
+});
+
+describe('splitForSummary', () => {
+  it('keeps everything while history fits the budget', () => {
+    const history = turns(3);
+    expect(splitForSummary(history, 10000)).toEqual({ toSummarize: [], toKeep: history });
+  });
+
+  it('summarizes older turns and keeps recent ones from a user message', () => {
+    const history = turns(10); // 4,000 tokens
+
+    const { toSummarize, toKeep } = splitForSummary(history, 2000);
+
+    expect(toSummarize.length + toKeep.length).toBe(history.length);
+    expect(toKeep[0]?.role).toBe('USER');
+    expect(toKeep.map((m) => m.id)).toEqual(['u8', 'a8', 't8', 'r8', 'u9', 'a9', 't9', 'r9']);
+  });
+
+  it('keeps an oversized last turn whole', () => {
+    const history = [...turns(2), message('u2', 'USER', 400), message('big', 'TOOL', 40000)];
+
+    const { toSummarize, toKeep } = splitForSummary(history, 2000);
+
+    expect(toKeep.map((m) => m.id)).toEqual(['u2', 'big']);
+    expect(toSummarize).toHaveLength(8);
+  });
+});
+
+describe('renderTranscript', () => {
+  it('renders tool calls and clipped tool results', () => {
+    const transcript = renderTranscript([
+      {
+        role: 'USER',
+        content: 'Weather in Paris?',
+        toolName: null,
+        toolCalls: null,
+        toolResult: null,
+      },
+      {
+        role: 'ASSISTANT',
+        content: '',
+        toolName: null,
+        toolCalls: [{ toolCallId: '1', toolName: 'weather', args: { city: 'Paris' } }],
+        toolResult: null,
+      },
+      {
+        role: 'TOOL',
+        content: '',
+        toolName: 'weather',
+        toolCalls: null,
+        toolResult: { tempC: 21, raw: 'y'.repeat(5000) },
+      },
+    ]);
+
+    expect(transcript).toContain('User: Weather in Paris?');
+    expect(transcript).toContain('Called weather({"city":"Paris"})');
+    expect(transcript).toContain('Tool result (weather): {"tempC":21');
+    expect(transcript.length).toBeLessThan(2200);
+  });
+});
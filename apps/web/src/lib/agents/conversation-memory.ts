@@ -0,0 +1,398 @@
+/**
+ * Conversation memory for agent chats
+ *
+ * History is assembled by token budget: the model's context window minus the tool definitions,
+ * the system prompt, the new message and room for the response. Oversized tool results are
+ * elided first, then older tool results, and only then are the oldest turns left out.
+ *
+ * WINDOW mode considers the last `maxMessagesInContext` messages. ROLLING_SUMMARY mode considers
+ * every message that hasn't been summarized yet; once they outgrow the history budget, the older
+ * turns are summarized by the agent's model into `Conversation.summary`, which is prepended to
+ * the context.
+ */
+
+import type { AIProvider, Conversation, MemoryMode, Message } from '@tpmjs/db';
+import { prisma } from '@tpmjs/db';
+import { PROVIDER_MODELS } from '@tpmjs/types/agent';
+import { generateText, type LanguageModel } from 'ai';
+import { isTruncatedToolOutput } from '../artifacts/tool-output';
+
+// Share of the context window reserved for the response (capped at MAX_RESPONSE_TOKENS)
+const RESPONSE_RESERVE_RATIO = 0.1;
+const MAX_RESPONSE_TOKENS = 8192;
+// Token counts are estimates; only this share of the context window is planned
+const CONTEXT_SAFETY_RATIO = 0.9;
+// A tool result over this share of the history budget is elided before anything else
+const MAX_TOOL_RESULT_SHARE = 0.25;
+// Characters of an elided tool result the model still sees
+const ELIDED_PREVIEW_CHARS = 500;
+// Share of the history budget kept verbatim after summarizing
+const KEEP_RECENT_RATIO = 0.5;
+// For model IDs not in PROVIDER_MODELS
+const DEFAULT_CONTEXT_WINDOW = 32000;
+// Tool results are clipped in the summarization transcript
+const MAX_TRANSCRIPT_TOOL_RESULT_CHARS = 2000;
+
+const SUMMARY_SYSTEM_PROMPT = `You maintain the memory of a conversation between a user and an AI agent that uses tools.
+Update the existing summary with the new messages. Keep facts, decisions, user preferences, open tasks,
+and the key results of tool calls (values, IDs, URLs, file names). Drop pleasantries and repetition.
+Write concise bullet points in English, at most 400 words. Reply with the summary only.`;
+
+export interface ConversationHistory {
+  /** Summary of the turns before `messages` (ROLLING_SUMMARY mode only) */
+  summary: string | null;
+  /** Messages to include verbatim, oldest first */
+  messages: Message[];
+}
+
+/**
+ * How the model's context window is shared for one turn (in estimated tokens)
+ */
+export interface ContextBudget {
+  contextWindow: number;
+  /** Tool descriptions and schemas */
+  toolTokens: number;
+  /** System prompt and the new user message */
+  promptTokens: number;
+  /** Room left for the response */
+  responseTokens: number;
+  /** What conversation history (and its summary) may use */
+  historyTokens: number;
+}
+
+/**
+ * History fitted to a token budget
+ */
+export interface FittedHistory<T> {
+  messages: T[];
+  tokens: number;
+  /** Tool results replaced by a preview */
+  elidedToolResults: number;
+  /** Oldest messages left out */
+  droppedMessages: number;
+}
+
+type HistoryMessage = Pick<Message, 'role' | 'content' | 'toolCalls' | 'toolResult'>;
+
+interface MemoryAgent {
+  provider: AIProvider;
+  modelId: string;
+  maxMessagesInContext: number;
+  memoryMode: MemoryMode;
+}
+
+type MemoryConversation = Pick<Conversation, 'id' | 'summary' | 'summarizedUntil'>;
+
+/**
+ * Estimated tokens a stored message takes in the model context
+ * Rough estimate (~4 characters per token), like the playground's token breakdown
+ */
+export function estimateMessageTokens(
+  message: Pick<Message, 'content' | 'toolCalls' | 'toolResult'>
+): number {
+  let chars = message.content.length;
+  if (message.toolCalls) chars += JSON.stringify(message.toolCalls).length;
+  if (message.toolResult) chars += JSON.stringify(message.toolResult).length;
+  return Math.ceil(chars / 4);
+}
+
+/**
+ * Context window of a provider's model (falls back to a conservative default)
+ */
+export function getContextWindow(provider: AIProvider, modelId: string): number {
+  const models: readonly { id: string; contextWindow: number }[] = PROVIDER_MODELS[provider] ?? [];
+  return models.find((model) => model.id === modelId)?.contextWindow ?? DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Share the model's context window between tools, prompt, response and history
+ */
+export function computeContextBudget({
+  provider,
+  modelId,
+  toolTokens,
+  systemPrompt,
+  message,
+}: {
+  provider: AIProvider;
+  modelId: string;
+  toolTokens: number;
+  systemPrompt: string | null;
+  message: string;
+}): ContextBudget {
+  const contextWindow = getContextWindow(provider, modelId);
+  const promptTokens = Math.ceil(((systemPrompt?.length ?? 0) + message.length) / 4);
+  const responseTokens = Math.min(
+    MAX_RESPONSE_TOKENS,
+    Math.floor(contextWindow * RESPONSE_RESERVE_RATIO)
+  );
+  const historyTokens = Math.max(
+    0,
+    Math.floor(contextWindow * CONTEXT_SAFETY_RATIO) - toolTokens - promptTokens - responseTokens
+  );
+  return { contextWindow, toolTokens, promptTokens, responseTokens, historyTokens };
+}
+
+/**
+ * Replace a tool result with a short preview (keeping the artifact reference of a truncated
+ * result, so the full result can still be found)
+ */
+export function elideToolResult<T extends HistoryMessage>(message: T): T {
+  const serialized = JSON.stringify(message.toolResult ?? message.content) ?? '';
+  return {
+    ...message,
+    toolResult: {
+      elided: true,
+      preview: serialized.slice(0, ELIDED_PREVIEW_CHARS),
+      originalChars: serialized.length,
+      ...(isTruncatedToolOutput(message.toolResult) && {
+        fullResult: message.toolResult.fullResult,
+      }),
+      note: 'Tool result elided to fit the context window. Call the tool again if the details are needed.',
+    },
+  };
+}
+
+/**
+ * Fit history into `budgetTokens`
+ * 1. Tool results larger than a quarter of the budget are elided
+ * 2. While over budget, older tool results (before the last turn) are elided, oldest first
+ * 3. While over budget, the oldest turns are left out, so history starts at a USER message
+ * The most recent turn is always kept
+ */
+export function fitHistoryToBudget<T extends HistoryMessage>(
+  messages: T[],
+  budgetTokens: number
+): FittedHistory<T> {
+  const maxToolResultTokens = Math.floor(budgetTokens * MAX_TOOL_RESULT_SHARE);
+  const fitted = [...messages];
+  const tokens = fitted.map(estimateMessageTokens);
+  let elidedToolResults = 0;
+
+  const elide = (index: number) => {
+    const elided = elideToolResult(fitted[index] as T);
+    const elidedTokens = estimateMessageTokens(elided);
+    if (elidedTokens >= (tokens[index] as number)) return;
+    fitted[index] = elided;
+    tokens[index] = elidedTokens;
+    elidedToolResults++;
+  };
+
+  // Oversized tool results, wherever they are
+  fitted.forEach((message, index) => {
+    if (message.role === 'TOOL' && (tokens[index] as number) > maxToolResultTokens) elide(index);
+  });
+
+  let total = tokens.reduce((sum, count) => sum + count, 0);
+  const userIndexes = fitted.flatMap((message, index) => (message.role === 'USER' ? [index] : []));
+  const lastTurn = userIndexes.at(-1) ?? fitted.length;
+
+  // Older tool results, oldest first
+  for (let index = 0; index < lastTurn && total > budgetTokens; index++) {
+    if (fitted[index]?.role !== 'TOOL') continue;
+    const before = tokens[index] as number;
+    elide(index);
+    total -= before - (tokens[index] as number);
+  }
+
+  // Leave out whole turns; the last boundary starts the most recent turn, which is always kept
+  let start = 0;
+  for (const turn of userIndexes) {
+    if (total <= budgetTokens) break;
+    total -= tokens.slice(start, turn).reduce((sum, count) => sum + count, 0);
+    start = turn;
+  }
+
+  return {
+    messages: fitted.slice(start),
+    tokens: total,
+    elidedToolResults,
+    droppedMessages: start,
+  };
+}
+
+/**
+ * Split history into messages to summarize and messages to keep
+ * Nothing is summarized while the history fits `budgetTokens`. Otherwise the most recent
+ * messages worth about half the budget are kept, starting at a USER message so a tool call is
+ * never separated from its results
+ */
+export function splitForSummary<T extends HistoryMessage>(
+  messages: T[],
+  budgetTokens: number
+): { toSummarize: T[]; toKeep: T[] } {
+  const tokens = messages.map(estimateMessageTokens);
+  const total = tokens.reduce((sum, count) => sum + count, 0);
+  if (total <= budgetTokens) {
+    return { toSummarize: [], toKeep: messages };
+  }
+
+  // Earliest index whose suffix still fits the keep budget
+  const keepBudget = budgetTokens * KEEP_RECENT_RATIO;
+  let start = messages.length;
+  let kept = 0;
+  while (start > 0 && kept + (tokens[start - 1] as number) <= keepBudget) {
+    start--;
+    kept += tokens[start] as number;
+  }
+
+  // Move forward to a turn boundary; a single oversized turn is kept from its USER message
+  const userIndexes = messages.flatMap((message, index) =>
+    message.role === 'USER' ? [index] : []
+  );
+  const split = userIndexes.find((index) => index >= start) ?? userIndexes.at(-1) ?? -1;
+  if (split <= 0) {
+    return { toSummarize: [], toKeep: messages };
+  }
+
+  return { toSummarize: messages.slice(0, split), toKeep: messages.slice(split) };
+}
+
+/**
+ * Plain-text transcript of messages for the summarizer
+ */
+export function renderTranscript(
+  messages: Pick<Message, 'role' | 'content' | 'toolName' | 'toolCalls' | 'toolResult'>[]
+): string {
+  return messages
+    .map((message) => {
+      if (message.role === 'TOOL') {
+        const result = JSON.stringify(message.toolResult ?? message.content) ?? '';
+        return `Tool result (${message.toolName ?? 'unknown'}): ${result.slice(0, MAX_TRANSCRIPT_TOOL_RESULT_CHARS)}`;
+      }
+      if (message.role === 'ASSISTANT') {
+        const calls = Array.isArray(message.toolCalls)
+          ? (message.toolCalls as Array<{ toolName: string; args?: unknown }>)
+              .map((call) => `\nCalled ${call.toolName}(${JSON.stringify(call.args ?? {})})`)
+              .join('')
+          : '';
+        return `Assistant: ${message.content}${calls}`;
+      }
+      return `${message.role === 'USER' ? 'User' : 'System'}: ${message.content}`;
+    })
+    .join('\n\n');
+}
+
+/**
+ * Fold messages into the running summary with the agent's model
+ */
+export async function summarizeMessages(
+  model: LanguageModel,
+  previousSummary: string | null,
+  messages: Message[]
+): Promise<string> {
+  const { text } = await generateText({
+    model,
+    system: SUMMARY_SYSTEM_PROMPT,
+    prompt: `Existing summary:\n${previousSummary || '(none)'}\n\nNew messages:\n${renderTranscript(messages)}`,
+  });
+  return text.trim();
+}
+
+/**
+ * Load the history to send with the next message, fitted to `budget.historyTokens`
+ * With ROLLING_SUMMARY memory, older turns are summarized first when the unsummarized history
+ * is over budget; if summarization fails, the unsummarized history is fitted as-is
+ * The budget decisions are logged for every turn
+ */
+export async function loadConversationHistory(
+  agent: MemoryAgent,
+  conversation: MemoryConversation,
+  model: LanguageModel,
+  budget: ContextBudget
+): Promise<ConversationHistory> {
+  let summary: string | null = null;
+  let messages: Message[];
+  let summarizedMessages = 0;
+
+  if (agent.memoryMode !== 'ROLLING_SUMMARY') {
+    const recent = await prisma.message.findMany({
+      where: { conversationId: conversation.id },
+      orderBy: { createdAt: 'desc' },
+      take: agent.maxMessagesInContext,
+    });
+    messages = recent.reverse();
+  } else {
+    const unsummarized = await prisma.message.findMany({
+      where: {
+        conversationId: conversation.id,
+        ...(conversation.summarizedUntil && { createdAt: { gt: conversation.summarizedUntil } }),
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+    ({ summary, messages } = await summarizeOverBudget(
+      conversation,
+      model,
+      unsummarized,
+      budget.historyTokens
+    ));
+    summarizedMessages = unsummarized.length - messages.length;
+  }
+
+  const summaryTokens = summary ? Math.ceil(summary.length / 4) : 0;
+  const fitted = fitHistoryToBudget(messages, Math.max(0, budget.historyTokens - summaryTokens));
+
+  console.log('[Agent] Context budget:', {
+    conversationId: conversation.id,
+    model: `${agent.provider}/${agent.modelId}`,
+    ...budget,
+    summaryTokens,
+    summarizedMessages,
+    historyUsed: fitted.tokens,
+    messagesKept: fitted.messages.length,
+    messagesDropped: fitted.droppedMessages,
+    toolResultsElided: fitted.elidedToolResults,
+  });
+
+  return { summary, messages: fitted.messages };
+}
+
+/**
+ * Summarize the older turns of unsummarized history that no longer fits `budgetTokens`
+ * (together with the current summary) and save the new summary
+ */
+async function summarizeOverBudget(
+  conversation: MemoryConversation,
+  model: LanguageModel,
+  messages: Message[],
+  budgetTokens: number
+): Promise<ConversationHistory> {
+  const summaryTokens = conversation.summary ? Math.ceil(conversation.summary.length / 4) : 0;
+  const { toSummarize, toKeep } = splitForSummary(
+    messages,
+    Math.max(0, budgetTokens - summaryTokens)
+  );
+  const lastSummarized = toSummarize.at(-1);
+  if (!lastSummarized) {
+    return { summary: conversation.summary, messages };
+  }
+
+  try {
+    const summary = await summarizeMessages(model, conversation.summary, toSummarize);
+    await prisma.conversation.update({
+      where: { id: conversation.id },
+      data: {
+        summary,
+        summarizedUntil: lastSummarized.createdAt,
+        summaryUpdatedAt: new Date(),
+      },
+    });
+    return { summary, messages: toKeep };
+  } catch (error) {
+    console.error('[Agent] Conversation summarization failed:', {
+      conversationId: conversation.id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return { summary: conversation.summary, messages };
+  }
+}
+
+/**
+ * System message carrying the conversation summary
+ */
+export function summaryMessage(summary: string): { role: 'system'; content: string } {
+  return {
+    role: 'system',
+    content: `Summary of the earlier conversation (older messages are not shown):\n${summary}`,
+  };
+}
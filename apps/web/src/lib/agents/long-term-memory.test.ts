@@ -0,0 +1,52 @@
+/**
+ * Tests for long-term memory retrieval, access and its system prompt section
+ */
+
+import { describe, expect, it } from 'vitest';
+import { canUseLongTermMemory, memoryPromptSection, rankMemories } from './long-term-memory';
+
+const memories = [
+  { id: 'm1', content: 'The user prefers metric units' },
+  { id: 'm2', content: 'Deploys go to the staging cluster before production' },
+  { id: 'm3', content: 'The user is called Sam and works on the billingService' },
+  { id: 'm4', content: 'Production deploys need approval from the on-call engineer' },
+];
+
+describe('rankMemories', () => {
+  it('returns the best BM25 matches first and leaves out non-matches', () => {
+    const ranked = rankMemories(memories, 'approval for production deploys?', 10);
+
+    expect(ranked.map((m) => m.id)).toEqual(['m4', 'm2']);
+  });
+
+  it('matches camelCase words and respects the limit', () => {
+    expect(rankMemories(memories, 'billing service', 10).map((m) => m.id)).toEqual(['m3']);
+    expect(rankMemories(memories, 'the user', 1)).toHaveLength(1);
+  });
+
+  it('returns nothing for an empty store or query', () => {
+    expect(rankMemories([], 'units', 5)).toEqual([]);
+    expect(rankMemories(memories, '', 5)).toEqual([]);
+  });
+});
+
+describe('memoryPromptSection', () => {
+  it('lists memories with their ids so the agent can forget them', () => {
+    const section = memoryPromptSection(memories.slice(0, 2));
+
+    expect(section).toContain('- [m1] The user prefers metric units');
+    expect(section).toContain('- [m2] Deploys go to the staging cluster');
+    expect(section).toContain('forget tool');
+  });
+});
+
+describe('canUseLongTermMemory', () => {
+  it('only gives memory to the agent owner', () => {
+    const agent = { userId: 'owner', longTermMemory: true };
+
+    expect(canUseLongTermMemory(agent, 'owner')).toBe(true);
+    expect(canUseLongTermMemory(agent, 'someone-else')).toBe(false);
+    expect(canUseLongTermMemory(agent, undefined)).toBe(false);
+    expect(canUseLongTermMemory({ ...agent, longTermMemory: false }, 'owner')).toBe(false);
+  });
+});
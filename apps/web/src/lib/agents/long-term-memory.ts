@@ -0,0 +1,181 @@
+/**
+ * Long-term memory for agents
+ *
+ * Agents with `longTermMemory` get built-in `remember`, `recall` and `forget` tools backed by
+ * `AgentMemory`. On every turn the memories most relevant to the new message (BM25 over the
+ * agent's memories) are added to the system prompt.
+ *
+ * Memories hold facts from every conversation with the agent, so (like the memories API) they
+ * are only used in the agent owner's own chats; anyone else chats without them.
+ */
+
+import type { AgentMemory } from '@tpmjs/db';
+import { prisma } from '@tpmjs/db';
+import { MEMORY_LIMITS } from '@tpmjs/types/agent';
+import { tool } from 'ai';
+import { z } from 'zod';
+
+import { scoreBM25 } from '../search/bm25';
+
+type MemoryEntry = Pick<AgentMemory, 'id' | 'content'>;
+
+/**
+ * Memories matching `query`, best first (memories without a matching term are left out)
+ */
+export function rankMemories<T extends MemoryEntry>(
+  memories: T[],
+  query: string,
+  limit: number
+): T[] {
+  const scores = scoreBM25(
+    query,
+    memories.map((memory) => memory.content)
+  );
+  return memories
+    .map((memory, index) => ({ memory, score: scores[index] ?? 0 }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ memory }) => memory);
+}
+
+/**
+ * Retrieve an agent's memories most relevant to `query` and record that they were recalled
+ */
+export async function recallMemories(
+  agentId: string,
+  query: string,
+  limit: number = MEMORY_LIMITS.MAX_RECALLED_MEMORIES
+): Promise<AgentMemory[]> {
+  const memories = await prisma.agentMemory.findMany({
+    where: { agentId },
+    orderBy: { createdAt: 'desc' },
+    take: MEMORY_LIMITS.MAX_MEMORIES_PER_AGENT,
+  });
+
+  const recalled = rankMemories(memories, query, limit);
+  if (recalled.length > 0) {
+    await prisma.agentMemory.updateMany({
+      where: { id: { in: recalled.map((memory) => memory.id) } },
+      data: { recallCount: { increment: 1 }, lastRecalledAt: new Date() },
+    });
+  }
+  return recalled;
+}
+
+/**
+ * System prompt section listing recalled memories
+ */
+export function memoryPromptSection(memories: MemoryEntry[]): string {
+  const lines = memories.map((memory) => `- [${memory.id}] ${memory.content}`);
+  return `Long-term memories relevant to this message, saved in earlier conversations (use the forget tool with the id in brackets if one is outdated):\n${lines.join('\n')}`;
+}
+
+/**
+ * Whether a chat turn by `userId` (the authenticated caller, if any) gets the agent's
+ * long-term memory: recalled memories in the prompt and the memory tools
+ */
+export function canUseLongTermMemory(
+  agent: { userId: string; longTermMemory: boolean },
+  userId: string | undefined
+): boolean {
+  return agent.longTermMemory && userId === agent.userId;
+}
+
+/**
+ * Build the system prompt for a turn: the agent's prompt plus the memories relevant to
+ * `message` when `useMemory` is set (see canUseLongTermMemory)
+ * Returns null when there is neither
+ */
+export async function buildSystemPrompt(
+  agent: { id: string; systemPrompt: string | null },
+  message: string,
+  useMemory: boolean
+): Promise<string | null> {
+  if (!useMemory) return agent.systemPrompt;
+
+  try {
+    const memories = await recallMemories(agent.id, message, MEMORY_LIMITS.MAX_PROMPT_MEMORIES);
+    const section = memories.length > 0 ? memoryPromptSection(memories) : null;
+    return [agent.systemPrompt, section].filter(Boolean).join('\n\n') || null;
+  } catch (error) {
+    console.error('[Agent] Memory retrieval failed:', {
+      agentId: agent.id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return agent.systemPrompt;
+  }
+}
+
+/**
+ * Built-in memory tools for an agent, scoped to that agent's memories
+ * `conversationId` is recorded on memories saved in this conversation
+ */
+export function buildMemoryTools(agentId: string, conversationId: string) {
+  return {
+    remember: tool({
+      description:
+        'Save a fact to long-term memory so it is available in future conversations (user preferences, decisions, names, IDs). Save one self-contained fact per call.',
+      inputSchema: z.object({
+        content: z
+          .string()
+          .min(1)
+          .max(MEMORY_LIMITS.MAX_MEMORY_LENGTH)
+          .describe('The fact, written so it makes sense without this conversation'),
+      }),
+      execute: async ({ content }) => {
+        const text = content.trim();
+        const existing = await prisma.agentMemory.findFirst({
+          where: { agentId, content: { equals: text, mode: 'insensitive' } },
+          select: { id: true },
+        });
+        if (existing) {
+          return { success: true, id: existing.id, note: 'Already remembered' };
+        }
+
+        const count = await prisma.agentMemory.count({ where: { agentId } });
+        if (count >= MEMORY_LIMITS.MAX_MEMORIES_PER_AGENT) {
+          return {
+            success: false,
+            error: `Memory is full (${MEMORY_LIMITS.MAX_MEMORIES_PER_AGENT} memories). Forget outdated memories first.`,
+          };
+        }
+
+        const memory = await prisma.agentMemory.create({
+          data: { agentId, content: text, conversationId },
+          select: { id: true },
+        });
+        return { success: true, id: memory.id };
+      },
+    }),
+
+    recall: tool({
+      description:
+        'Search long-term memory for facts saved in earlier conversations. Returns the best keyword matches.',
+      inputSchema: z.object({
+        query: z.string().min(1).max(500).describe('Keywords to search memories for'),
+      }),
+      execute: async ({ query }) => {
+        const memories = await recallMemories(agentId, query);
+        return {
+          memories: memories.map((memory) => ({
+            id: memory.id,
+            content: memory.content,
+            savedAt: memory.createdAt.toISOString(),
+          })),
+        };
+      },
+    }),
+
+    forget: tool({
+      description: 'Delete a fact from long-term memory, by the id from remember or recall.',
+      inputSchema: z.object({
+        id: z.string().min(1).describe('Id of the memory to delete'),
+      }),
+      execute: async ({ id }) => {
+        const { count } = await prisma.agentMemory.deleteMany({ where: { id, agentId } });
+        return count > 0 ? { success: true } : { success: false, error: 'Memory not found' };
+      },
+    }),
+  };
+}
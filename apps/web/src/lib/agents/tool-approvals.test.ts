@@ -0,0 +1,65 @@
+/**
+ * Tests for how decided tool calls go back to the model and how edited arguments are checked
+ */
+
+import { jsonSchema } from 'ai';
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import { deniedToolResult, parseToolArgs, toolResultOutput } from './tool-approvals';
+
+describe('toolResultOutput', () => {
+  it('returns denied calls to the model as tool errors', () => {
+    expect(deniedToolResult('Use the staging bucket')).toEqual({
+      error: 'Tool call denied by the user',
+      denied: true,
+      reason: 'Use the staging bucket',
+    });
+    expect(
+      toolResultOutput({
+        error: 'Tool call denied by the user',
+        denied: true,
+        reason: 'Use the staging bucket',
+      })
+    ).toEqual({
+      type: 'error-text',
+      value: 'Tool call denied by the user: Use the staging bucket',
+    });
+    expect(toolResultOutput({ error: 'Tool call denied by the user', denied: true })).toEqual({
+      type: 'error-text',
+      value: 'Tool call denied by the user',
+    });
+  });
+
+  it('passes other results through as JSON', () => {
+    const result = { error: 'Request timed out' };
+
+    expect(toolResultOutput(result)).toEqual({ type: 'json', value: result });
+    expect(toolResultOutput({ denied: 'no' })).toEqual({ type: 'json', value: { denied: 'no' } });
+  });
+});
+
+describe('parseToolArgs', () => {
+  const bucketSchema = jsonSchema({
+    type: 'object',
+    properties: { bucket: { type: 'string' }, force: { type: 'boolean' } },
+    required: ['bucket'],
+  });
+
+  it('accepts arguments that match a JSON Schema input', async () => {
+    expect(await parseToolArgs(bucketSchema, { bucket: 'staging' })).toEqual({
+      args: { bucket: 'staging' },
+    });
+  });
+
+  it('rejects arguments that do not match', async () => {
+    expect(await parseToolArgs(bucketSchema, { bucket: 42 })).toHaveProperty('error');
+    expect(await parseToolArgs(bucketSchema, { force: true })).toHaveProperty('error');
+  });
+
+  it('checks tools with Zod input schemas too', async () => {
+    const schema = z.object({ count: z.number() });
+
+    expect(await parseToolArgs(schema, { count: 3 })).toEqual({ args: { count: 3 } });
+    expect(await parseToolArgs(schema, { count: 'three' })).toHaveProperty('error');
+  });
+});
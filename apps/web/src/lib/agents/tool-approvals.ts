@@ -0,0 +1,414 @@
+/**
+ * Human-in-the-loop approval for sensitive tool calls
+ *
+ * Tools flagged `requiresApproval` are built with `needsApproval`, so the AI SDK stops the turn
+ * at their calls instead of running them. Each held call is stored as a `ToolApproval`; the
+ * user approves it (optionally with edited arguments), which runs the tool, or denies it, which
+ * gives the model a tool error. Once nothing is pending the turn resumes from the history.
+ *
+ * An approved call is `RUNNING` until its result is saved; the result and the final status are
+ * written together, so a decided call always has its TOOL message. Calls left `RUNNING` by a
+ * request that died are settled with an error result once they are older than any run can be.
+ */
+
+import type { Message, ToolApproval, ToolApprovalStatus } from '@tpmjs/db';
+import { Prisma, prisma } from '@tpmjs/db';
+import type { DecideToolApprovalInput } from '@tpmjs/types/agent';
+import type { ExecutorRouting } from '@tpmjs/types/executor';
+import { asSchema, type ContentPart, type ToolSet } from 'ai';
+import { z } from 'zod';
+
+import { createArtifactSaver } from '../artifacts/store';
+import { type AgentToolDefinition, buildAgentTools } from './build-tools';
+
+type AgentWithTools = Parameters<typeof buildAgentTools>[0];
+
+/**
+ * Approval request part of a streamText step (`tool-approval-request` content)
+ */
+export interface ApprovalRequestPart {
+  toolCall: { toolCallId: string; toolName: string; input: unknown };
+}
+
+/**
+ * Tool result stored for a denied call
+ */
+export interface DeniedToolResult {
+  error: string;
+  denied: true;
+  reason?: string;
+}
+
+type DecisionError =
+  | { error: 'not_found' | 'already_decided' }
+  | { error: 'invalid_args'; message: string };
+
+export type DecideToolApprovalResult =
+  | DecisionError
+  | { approval: ToolApproval; output: unknown; pendingApprovals: number };
+
+const DENIED_ERROR = 'Tool call denied by the user';
+
+/**
+ * A call still `RUNNING` after this long was abandoned (approval requests time out at 300s)
+ */
+const STALE_RUNNING_MS = 10 * 60 * 1000;
+
+/**
+ * Tool result stored for an approved call whose run was abandoned
+ */
+const ABANDONED_RESULT = { error: 'Tool call did not finish' };
+
+/**
+ * Tool result for a denied call
+ */
+export function deniedToolResult(reason?: string | null): DeniedToolResult {
+  return { error: DENIED_ERROR, denied: true, ...(reason && { reason }) };
+}
+
+function isDeniedToolResult(result: unknown): result is DeniedToolResult {
+  return (
+    typeof result === 'object' &&
+    result !== null &&
+    'denied' in result &&
+    result.denied === true &&
+    'error' in result &&
+    typeof result.error === 'string'
+  );
+}
+
+/**
+ * Tool result stored for a call whose tool threw
+ */
+export function failedToolResult(error: unknown): { error: string } {
+  return { error: error instanceof Error ? error.message : 'Tool execution failed' };
+}
+
+/**
+ * Tool results of a finished step, failed calls included
+ *
+ * The AI SDK reports a tool that threw as a `tool-error` part, which a step's `toolResults`
+ * leaves out. Those come back as `failedToolResult`s so the failure is saved as the call's
+ * TOOL message, like a failed approved run.
+ */
+export function stepToolResults(
+  content: ContentPart<ToolSet>[]
+): Array<{ toolCallId: string; toolName: string; output: unknown; isError: boolean }> {
+  return content.flatMap((part) => {
+    if (part.type === 'tool-result') {
+      const isError =
+        typeof part.output === 'object' && part.output !== null && 'error' in part.output;
+      return [
+        { toolCallId: part.toolCallId, toolName: part.toolName, output: part.output, isError },
+      ];
+    }
+    if (part.type === 'tool-error') {
+      return [
+        {
+          toolCallId: part.toolCallId,
+          toolName: part.toolName,
+          output: failedToolResult(part.error),
+          isError: true,
+        },
+      ];
+    }
+    return [];
+  });
+}
+
+/**
+ * Model message output for a stored tool result: denials go back as tool errors
+ */
+export function toolResultOutput(result: Message['toolResult']) {
+  if (isDeniedToolResult(result)) {
+    return {
+      type: 'error-text' as const,
+      value: result.reason ? `${result.error}: ${result.reason}` : result.error,
+    };
+  }
+  return { type: 'json' as const, value: result };
+}
+
+/**
+ * Store the calls a turn stopped at, waiting for the user's decision
+ */
+export async function recordApprovalRequests(
+  conversationId: string,
+  requests: ApprovalRequestPart[]
+): Promise<ToolApproval[]> {
+  return Promise.all(
+    requests.map(({ toolCall }) =>
+      prisma.toolApproval.create({
+        data: {
+          conversationId,
+          toolCallId: toolCall.toolCallId,
+          toolName: toolCall.toolName,
+          args: (toolCall.input ?? {}) as Prisma.InputJsonValue,
+        },
+      })
+    )
+  );
+}
+
+/**
+ * Calls in a conversation still waiting for a decision, oldest first
+ */
+async function getPendingApprovals(conversationId: string): Promise<ToolApproval[]> {
+  return prisma.toolApproval.findMany({
+    where: { conversationId, status: 'PENDING' },
+    orderBy: { createdAt: 'asc' },
+  });
+}
+
+/**
+ * The last user message, which a resumed turn answers
+ */
+async function getLastUserMessage(conversationId: string): Promise<string> {
+  const message = await prisma.message.findFirst({
+    where: { conversationId, role: 'USER' },
+    orderBy: { createdAt: 'desc' },
+    select: { content: true },
+  });
+  return message?.content ?? '';
+}
+
+/**
+ * Move a call from `from` to its final status and save its result as a TOOL message, in one
+ * transaction. Returns false (and saves nothing) if the call was no longer in `from`
+ */
+async function settleApproval(
+  approval: ToolApproval,
+  from: ToolApprovalStatus,
+  data: Prisma.ToolApprovalUpdateManyMutationInput,
+  output: unknown,
+  executor?: ExecutorRouting
+): Promise<boolean> {
+  return prisma.$transaction(async (tx) => {
+    const { count } = await tx.toolApproval.updateMany({
+      where: { id: approval.id, status: from },
+      data,
+    });
+    if (count === 0) return false;
+
+    await tx.message.create({
+      data: {
+        conversationId: approval.conversationId,
+        role: 'TOOL',
+        content: JSON.stringify(output),
+        toolCallId: approval.toolCallId,
+        toolName: approval.toolName,
+        toolResult: output as Prisma.InputJsonValue,
+        executor: executor ? (executor as unknown as Prisma.InputJsonValue) : Prisma.JsonNull,
+      },
+    });
+    return true;
+  });
+}
+
+/**
+ * Deny every pending call (the user moved on with a new message instead of deciding)
+ */
+export async function denyPendingApprovals(conversationId: string, reason: string): Promise<void> {
+  for (const approval of await getPendingApprovals(conversationId)) {
+    await settleApproval(
+      approval,
+      'PENDING',
+      { status: 'DENIED', reason, decidedAt: new Date() },
+      deniedToolResult(reason)
+    );
+  }
+}
+
+/**
+ * Give abandoned runs an error result so the turn can go on
+ */
+async function settleAbandonedRuns(conversationId: string): Promise<void> {
+  const abandoned = await prisma.toolApproval.findMany({
+    where: {
+      conversationId,
+      status: 'RUNNING',
+      decidedAt: { lt: new Date(Date.now() - STALE_RUNNING_MS) },
+    },
+  });
+  for (const approval of abandoned) {
+    await settleApproval(approval, 'RUNNING', { status: 'APPROVED' }, ABANDONED_RESULT);
+  }
+}
+
+/**
+ * Settle held calls before a turn: a turn needs every call decided and finished, and a new
+ * message denies the pending ones
+ * Returns the message the turn answers, or null while calls are still pending or running
+ */
+export async function prepareTurn(
+  conversationId: string,
+  userMessage: string | undefined
+): Promise<string | null> {
+  await settleAbandonedRuns(conversationId);
+  if (userMessage) {
+    await denyPendingApprovals(conversationId, 'The user sent a new message instead');
+  }
+
+  const unsettled = await prisma.toolApproval.count({
+    where: { conversationId, status: { in: ['PENDING', 'RUNNING'] } },
+  });
+  if (unsettled > 0) return null;
+  return userMessage ?? getLastUserMessage(conversationId);
+}
+
+/**
+ * Record the arguments a call actually ran with on the assistant message that made it
+ * Pending calls always belong to the conversation's latest assistant message
+ */
+async function updateToolCallArgs(approval: ToolApproval, args: unknown): Promise<void> {
+  const message = await prisma.message.findFirst({
+    where: { conversationId: approval.conversationId, role: 'ASSISTANT' },
+    orderBy: { createdAt: 'desc' },
+    select: { id: true, toolCalls: true },
+  });
+  if (!message || !Array.isArray(message.toolCalls)) return;
+
+  const toolCalls = (message.toolCalls as Array<{ toolCallId: string; args: unknown }>).map(
+    (toolCall) => (toolCall.toolCallId === approval.toolCallId ? { ...toolCall, args } : toolCall)
+  );
+  await prisma.message.update({
+    where: { id: message.id },
+    data: { toolCalls: toolCalls as unknown as Prisma.InputJsonValue },
+  });
+}
+
+/**
+ * Check edited arguments against a tool's input schema
+ * Returns the parsed arguments, or why they were rejected
+ */
+export async function parseToolArgs(
+  inputSchema: AgentToolDefinition['inputSchema'],
+  args: unknown
+): Promise<{ args: unknown } | { error: string }> {
+  const jsonSchema = await asSchema(inputSchema).jsonSchema;
+
+  let schema: z.ZodType;
+  try {
+    schema = z.fromJSONSchema(jsonSchema as Parameters<typeof z.fromJSONSchema>[0]);
+  } catch {
+    return { error: "This tool's arguments can't be checked, so they can't be edited" };
+  }
+
+  const parsed = schema.safeParse(args);
+  return parsed.success ? { args: parsed.data } : { error: z.prettifyError(parsed.error) };
+}
+
+/**
+ * Run an approved call; failures become `{ error }` results like the model would otherwise see
+ */
+async function runApprovedCall(
+  tool: AgentToolDefinition | undefined,
+  approval: ToolApproval,
+  args: unknown,
+  getExecutor: () => ExecutorRouting | undefined
+): Promise<{ output: unknown; executor?: ExecutorRouting }> {
+  try {
+    if (!tool) throw new Error(`Tool ${approval.toolName} is no longer available`);
+    const output = await tool.execute(args as Record<string, unknown>, {
+      toolCallId: approval.toolCallId,
+    });
+    return { output, executor: getExecutor() };
+  } catch (error) {
+    console.error('[Agent] Approved tool call failed:', {
+      toolName: approval.toolName,
+      toolCallId: approval.toolCallId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return { output: failedToolResult(error), executor: getExecutor() };
+  }
+}
+
+/**
+ * Deny a pending call; its denial is saved as the call's TOOL message
+ */
+async function denyApproval(
+  approval: ToolApproval,
+  reason: string | undefined
+): Promise<{ output: unknown } | DecisionError> {
+  const output = deniedToolResult(reason);
+  const denied = await settleApproval(
+    approval,
+    'PENDING',
+    { status: 'DENIED', reason: reason ?? null, decidedAt: new Date() },
+    output
+  );
+  return denied ? { output } : { error: 'already_decided' };
+}
+
+/**
+ * Approve a pending call and run it (with edited arguments if given)
+ * The call is claimed as `RUNNING` so concurrent decisions cannot both run it
+ */
+async function approveAndRun(
+  agent: AgentWithTools,
+  approval: ToolApproval,
+  editedArgs: Record<string, unknown> | undefined
+): Promise<{ output: unknown } | DecisionError> {
+  let executor: ExecutorRouting | undefined;
+  const tools = buildAgentTools(agent, {
+    saveArtifact: createArtifactSaver({ conversationId: approval.conversationId }),
+    onRouting: (_toolCallId, routing) => {
+      executor = routing;
+    },
+  });
+  const tool = tools[approval.toolName];
+
+  let args: unknown = editedArgs ?? approval.args;
+  if (editedArgs && tool) {
+    const parsed = await parseToolArgs(tool.inputSchema, editedArgs);
+    if ('error' in parsed) return { error: 'invalid_args', message: parsed.error };
+    args = parsed.args;
+  }
+
+  const { count } = await prisma.toolApproval.updateMany({
+    where: { id: approval.id, status: 'PENDING' },
+    data: {
+      status: 'RUNNING',
+      decidedAt: new Date(),
+      ...(editedArgs && { approvedArgs: args as Prisma.InputJsonValue }),
+    },
+  });
+  if (count === 0) return { error: 'already_decided' };
+
+  if (editedArgs) {
+    await updateToolCallArgs(approval, args);
+  }
+  const result = await runApprovedCall(tool, approval, args, () => executor);
+  await settleApproval(approval, 'RUNNING', { status: 'APPROVED' }, result.output, result.executor);
+  return { output: result.output };
+}
+
+/**
+ * Approve (run the tool, with edited arguments if given) or deny a pending call
+ * The result is saved as the call's TOOL message; resume the turn once nothing is pending
+ */
+export async function decideToolApproval(
+  agent: AgentWithTools,
+  conversationId: string,
+  approvalId: string,
+  decision: DecideToolApprovalInput
+): Promise<DecideToolApprovalResult> {
+  const approval = await prisma.toolApproval.findFirst({
+    where: { id: approvalId, conversationId },
+  });
+  if (!approval) return { error: 'not_found' };
+
+  const result = decision.approved
+    ? await approveAndRun(agent, approval, decision.args)
+    : await denyApproval(approval, decision.reason);
+  if ('error' in result) return result;
+
+  const [decided, pendingApprovals] = await Promise.all([
+    prisma.toolApproval.findUniqueOrThrow({ where: { id: approval.id } }),
+    // Calls other requests are still running count too: the turn can't resume before they finish
+    prisma.toolApproval.count({
+      where: { conversationId, status: { in: ['PENDING', 'RUNNING'] } },
+    }),
+  ]);
+  return { approval: decided, output: result.output, pendingApprovals };
+}
@@ -5,10 +5,17 @@
 
 import { openai } from '@ai-sdk/openai';
 import type { Package, Tool } from '@tpmjs/db';
-import type { ExecutorConfig } from '@tpmjs/types/executor';
+import type {
+  ExecuteToolResponse,
+  ExecuteToolStreamEvent,
+  ExecutorConfig,
+  ExecutorRouting,
+} from '@tpmjs/types/executor';
 import { generateText, jsonSchema, type ModelMessage } from 'ai';
 import { z } from 'zod';
 
+import type { SaveArtifact } from '../artifacts/store';
+import { prepareToolOutput } from '../artifacts/tool-output';
 import { executeWithExecutor } from '../executors';
 
 /**
@@ -22,6 +29,25 @@ interface TPMJSParameter {
   default?: unknown;
 }
 
+/**
+ * What the executor reported about a call (logs, metrics, error code), without the output
+ */
+export type ExecutionReport = Omit<ExecuteToolResponse, 'output'>;
+
+/**
+ * Per-call callbacks for agents, keyed by the AI SDK toolCallId
+ */
+export interface ToolExecutionHooks {
+  /** The executor that served the call (including failover attempts) */
+  onRouting?: (toolCallId: string, routing: ExecutorRouting) => void;
+  /** Log/progress/partial events streamed by the executor while the tool runs */
+  onExecutorEvent?: (toolCallId: string, event: ExecuteToolStreamEvent) => void;
+  /** The executor's report once the call finished (success or failure) */
+  onExecution?: (toolCallId: string, report: ExecutionReport) => void;
+  /** Stores files and oversized results for the conversation; outputs aren't capped without it */
+  saveArtifact?: SaveArtifact;
+}
+
 /**
  * Token usage breakdown
  */
@@ -90,6 +116,19 @@ export function tpmjsParamsToZodSchema(parameters: TPMJSParameter[]): z.ZodObjec
   return z.object(shape);
 }
 
+/**
+ * Store files and oversized results as artifacts when the output is capped
+ */
+async function limitToolOutput(
+  output: unknown,
+  maxOutputChars: number | undefined,
+  save: SaveArtifact | undefined
+): Promise<unknown> {
+  if (maxOutputChars === undefined || !save) return output;
+  const prepared = await prepareToolOutput(output, { maxChars: maxOutputChars, save });
+  return prepared.output;
+}
+
 /**
  * Create AI SDK v6 tool definition from TPMJS Tool
  * Requires Tool with Package relation
@@ -97,11 +136,19 @@ export function tpmjsParamsToZodSchema(parameters: TPMJSParameter[]): z.ZodObjec
  * @param tool - The tool with its package relation
  * @param executorConfig - Optional executor config for custom executors
  * @param envVars - Optional environment variables to pass to the tool
+ * @param version - Optional pinned package version or semver range (defaults to latest)
+ * @param hooks - Optional per-call callbacks (routing, streamed events, execution reports)
+ * @param maxOutputChars - Optional cap on the result's serialized size; files and larger
+ *   results are stored as artifacts (with `hooks.saveArtifact`) and the model gets references
+ *   and a preview
  */
 export function createToolDefinition(
   tool: Tool & { package: Package },
   executorConfig?: ExecutorConfig | null,
-  envVars?: Record<string, string>
+  envVars?: Record<string, string>,
+  version?: string,
+  hooks: ToolExecutionHooks = {},
+  maxOutputChars?: number
 ) {
   console.log('[createToolDefinition] Tool:', tool.package.npmPackageName, '/', tool.name);
 
@@ -128,7 +175,7 @@ export function createToolDefinition(
   return {
     description: tool.description,
     inputSchema, // AI SDK v6 uses inputSchema
-    execute: async (params: Record<string, unknown>) => {
+    execute: async (params: Record<string, unknown>, options?: { toolCallId?: string }) => {
       console.log('[Tool execute] Running:', sanitizedName, params);
       if (envVars && Object.keys(envVars).length > 0) {
         console.log('[Tool execute] With env vars:', Object.keys(envVars));
@@ -136,17 +183,44 @@ export function createToolDefinition(
 
       // Execute the actual npm package using resolved executor
       // Use the actual export name from the Tool record
-      const result = await executeWithExecutor(executorConfig ?? null, {
-        packageName: tool.package.npmPackageName,
-        name: tool.name, // Use actual export name (e.g., "helloWorldTool", "default")
-        params,
-        env: envVars && Object.keys(envVars).length > 0 ? envVars : undefined,
-      });
+      const toolCallId = options?.toolCallId;
+      const onExecutorEvent = hooks.onExecutorEvent;
+      const result = await executeWithExecutor(
+        executorConfig ?? null,
+        {
+          packageName: tool.package.npmPackageName,
+          name: tool.name, // Use actual export name (e.g., "helloWorldTool", "default")
+          version,
+          params,
+          env: envVars && Object.keys(envVars).length > 0 ? envVars : undefined,
+        },
+        {
+          // Only ask executors to stream when someone is listening
+          onEvent:
+            toolCallId && onExecutorEvent
+              ? (event) => onExecutorEvent(toolCallId, event)
+              : undefined,
+        }
+      );
+
+      if (toolCallId) {
+        hooks.onRouting?.(toolCallId, result.routing);
+        hooks.onExecution?.(toolCallId, {
+          success: result.success,
+          error: result.error,
+          executionTimeMs: result.executionTimeMs,
+          errorCode: result.errorCode,
+          logs: result.logs,
+          metrics: result.metrics,
+          resolvedVersion: result.resolvedVersion,
+        });
+      }
 
       if (!result.success) {
         // Log detailed error for debugging
         console.error('[Tool execute] FAILED:', sanitizedName, {
           error: result.error,
+          errorCode: result.errorCode,
           executionTimeMs: result.executionTimeMs,
           params: JSON.stringify(params).slice(0, 200),
         });
@@ -157,7 +231,7 @@ export function createToolDefinition(
         executionTimeMs: result.executionTimeMs,
         outputPreview: JSON.stringify(result.output).slice(0, 200),
       });
-      return result.output;
+      return limitToolOutput(result.output, maxOutputChars, hooks.saveArtifact);
     },
   };
 }
@@ -202,6 +276,20 @@ export function calculateTokenBreakdown(
   };
 }
 
+/**
+ * Estimate the tokens a tool definition (description and schema) takes in every model request
+ * Same estimate as the tool description and schema parts of calculateTokenBreakdown
+ */
+export function estimateToolDefinitionTokens(
+  tool: Pick<Tool, 'description' | 'inputSchema' | 'parameters' | 'returns'>
+): number {
+  const schema =
+    tool.inputSchema && typeof tool.inputSchema === 'object'
+      ? tool.inputSchema
+      : { parameters: tool.parameters ?? [], returns: tool.returns };
+  return countTokens(tool.description) + countTokens(JSON.stringify(schema));
+}
+
 /**
  * Sanitize npm package name to valid OpenAI tool name
  * OpenAI tool names must match: ^[a-zA-Z0-9_-]+
@@ -219,9 +307,12 @@ export async function executeToolWithAgent(
   tool: Tool & { package: Package },
   userPrompt: string,
   onChunk?: (chunk: string) => void,
-  onTokenUpdate?: (tokens: Partial<TokenBreakdown>) => void
+  onTokenUpdate?: (tokens: Partial<TokenBreakdown>) => void,
+  onExecution?: (report: ExecutionReport) => void
 ) {
-  const toolDef = createToolDefinition(tool);
+  const toolDef = createToolDefinition(tool, null, undefined, undefined, {
+    onExecution: (_toolCallId, report) => onExecution?.(report),
+  });
   const sanitizedToolName = sanitizeToolName(`${tool.package.npmPackageName}-${tool.name}`);
 
   console.log('[executeToolWithAgent] Tool name:', sanitizedToolName);
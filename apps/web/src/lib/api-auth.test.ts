@@ -0,0 +1,145 @@
+/**
+ * Tests for personal access token verification and request authentication
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  findUnique: vi.fn(),
+  update: vi.fn(),
+  getSession: vi.fn(),
+  authorization: null as string | null,
+}));
+
+vi.mock('@tpmjs/db', () => ({
+  prisma: { apiToken: { findUnique: mocks.findUnique, update: mocks.update } },
+}));
+
+vi.mock('next/headers', () => ({
+  headers: async () =>
+    new Headers(mocks.authorization ? { authorization: mocks.authorization } : {}),
+}));
+
+vi.mock('./auth', () => ({
+  auth: { api: { getSession: mocks.getSession } },
+}));
+
+import { getRequestSession, verifyApiToken } from './api-auth';
+import { hashApiToken } from './crypto/api-tokens';
+
+const TOKEN = 'tpmjs_pat_test-token';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function storedToken(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'token-1',
+    userId: 'user-1',
+    scopes: ['agents:write'],
+    expiresAt: new Date(Date.now() + DAY_MS),
+    lastUsedAt: null,
+    revokedAt: null,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  vi.resetAllMocks();
+  mocks.update.mockResolvedValue({});
+  mocks.authorization = null;
+});
+
+describe('verifyApiToken', () => {
+  it('looks tokens up by hash and returns the owner', async () => {
+    mocks.findUnique.mockResolvedValue(storedToken());
+
+    await expect(verifyApiToken(TOKEN, 'agents:write')).resolves.toEqual({
+      tokenId: 'token-1',
+      userId: 'user-1',
+      scopes: ['agents:write'],
+    });
+    expect(mocks.findUnique).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { tokenHash: hashApiToken(TOKEN) } })
+    );
+  });
+
+  it('rejects unknown tokens', async () => {
+    mocks.findUnique.mockResolvedValue(null);
+
+    await expect(verifyApiToken(TOKEN)).resolves.toBeNull();
+  });
+
+  it('rejects revoked tokens', async () => {
+    mocks.findUnique.mockResolvedValue(storedToken({ revokedAt: new Date() }));
+
+    await expect(verifyApiToken(TOKEN)).resolves.toBeNull();
+  });
+
+  it('rejects expired tokens', async () => {
+    mocks.findUnique.mockResolvedValue(storedToken({ expiresAt: new Date(Date.now() - 1000) }));
+
+    await expect(verifyApiToken(TOKEN)).resolves.toBeNull();
+  });
+
+  it('checks the required scope, letting write imply read', async () => {
+    mocks.findUnique.mockResolvedValue(storedToken({ scopes: ['agents:write'] }));
+
+    await expect(verifyApiToken(TOKEN, 'agents:read')).resolves.not.toBeNull();
+    await expect(verifyApiToken(TOKEN, 'collections:read')).resolves.toBeNull();
+
+    mocks.findUnique.mockResolvedValue(storedToken({ scopes: ['agents:read'] }));
+
+    await expect(verifyApiToken(TOKEN, 'agents:write')).resolves.toBeNull();
+  });
+
+  it('only records usage once per minute', async () => {
+    mocks.findUnique.mockResolvedValue(storedToken({ lastUsedAt: new Date(Date.now() - 5000) }));
+    await verifyApiToken(TOKEN);
+    expect(mocks.update).not.toHaveBeenCalled();
+
+    mocks.findUnique.mockResolvedValue(storedToken({ lastUsedAt: new Date(Date.now() - DAY_MS) }));
+    await verifyApiToken(TOKEN);
+    expect(mocks.update).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'token-1' } })
+    );
+  });
+});
+
+describe('getRequestSession', () => {
+  it('authenticates with a bearer token', async () => {
+    mocks.authorization = `Bearer ${TOKEN}`;
+    mocks.findUnique.mockResolvedValue(storedToken());
+
+    await expect(getRequestSession('agents:write')).resolves.toEqual({
+      user: { id: 'user-1' },
+      authMethod: 'token',
+      tokenId: 'token-1',
+    });
+    expect(mocks.getSession).not.toHaveBeenCalled();
+  });
+
+  it('does not fall back to the session cookie when the bearer token is invalid', async () => {
+    mocks.authorization = `Bearer ${TOKEN}`;
+    mocks.findUnique.mockResolvedValue(storedToken({ scopes: ['agents:read'] }));
+    mocks.getSession.mockResolvedValue({ user: { id: 'user-2' } });
+
+    await expect(getRequestSession('agents:write')).resolves.toBeNull();
+    expect(mocks.getSession).not.toHaveBeenCalled();
+  });
+
+  it('uses the session cookie when there is no TPMJS bearer token', async () => {
+    mocks.authorization = 'Bearer sk-other-service';
+    mocks.getSession.mockResolvedValue({ user: { id: 'user-2' } });
+
+    await expect(getRequestSession('agents:write')).resolves.toEqual({
+      user: { id: 'user-2' },
+      authMethod: 'session',
+    });
+    expect(mocks.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('returns null without a token or session', async () => {
+    mocks.getSession.mockResolvedValue(null);
+
+    await expect(getRequestSession()).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Request authentication for API routes
+ *
+ * Resolves the calling user from either:
+ * - A TPMJS personal access token (`Authorization: Bearer tpmjs_pat_...`)
+ * - The better-auth session cookie (dashboard / browser usage)
+ */
+
+import { prisma } from '@tpmjs/db';
+import { type ApiTokenScope, hasApiTokenScope } from '@tpmjs/types/user';
+import { headers } from 'next/headers';
+
+import { auth } from './auth';
+import { extractApiToken, hashApiToken } from './crypto/api-tokens';
+
+/**
+ * Minimum interval between lastUsedAt writes for the same token
+ */
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+
+export interface RequestSession {
+  user: { id: string };
+  /** How the caller authenticated */
+  authMethod: 'session' | 'token';
+  /** Personal access token id (only set when authMethod is 'token') */
+  tokenId?: string;
+}
+
+/**
+ * Verify a personal access token and return its owner.
+ * Returns null if the token is unknown, revoked, expired, or lacks the required scope.
+ */
+export async function verifyApiToken(
+  token: string,
+  scope?: ApiTokenScope
+): Promise<{ tokenId: string; userId: string; scopes: string[] } | null> {
+  const apiToken = await prisma.apiToken.findUnique({
+    where: { tokenHash: hashApiToken(token) },
+    select: {
+      id: true,
+      userId: true,
+      scopes: true,
+      expiresAt: true,
+      lastUsedAt: true,
+      revokedAt: true,
+    },
+  });
+
+  if (!apiToken || apiToken.revokedAt) return null;
+
+  const now = new Date();
+  if (apiToken.expiresAt <= now) return null;
+
+  if (scope && !hasApiTokenScope(apiToken.scopes, scope)) return null;
+
+  // Track usage without writing on every request (fire-and-forget)
+  if (
+    !apiToken.lastUsedAt ||
+    now.getTime() - apiToken.lastUsedAt.getTime() > LAST_USED_UPDATE_INTERVAL_MS
+  ) {
+    prisma.apiToken
+      .update({ where: { id: apiToken.id }, data: { lastUsedAt: now } })
+      .catch((error) => console.error('Failed to update API token lastUsedAt:', error));
+  }
+
+  return { tokenId: apiToken.id, userId: apiToken.userId, scopes: apiToken.scopes };
+}
+
+/**
+ * Get the authenticated caller for the current request.
+ *
+ * A TPMJS bearer token takes precedence over the session cookie. When a bearer token
+ * is present but invalid, the request is treated as unauthenticated (no cookie fallback).
+ *
+ * @param scope - Scope required when authenticating with a personal access token.
+ *                Session-cookie callers have full access.
+ */
+export async function getRequestSession(scope?: ApiTokenScope): Promise<RequestSession | null> {
+  const requestHeaders = await headers();
+
+  const token = extractApiToken(requestHeaders.get('authorization'));
+  if (token) {
+    const verified = await verifyApiToken(token, scope);
+    if (!verified) return null;
+    return { user: { id: verified.userId }, authMethod: 'token', tokenId: verified.tokenId };
+  }
+
+  const session = await auth.api.getSession({ headers: requestHeaders });
+  if (!session?.user?.id) return null;
+
+  return { user: { id: session.user.id }, authMethod: 'session' };
+}
@@ -0,0 +1,161 @@
+/**
+ * Content-addressed storage for tool artifacts
+ * Files produced by tools (and results too large for the conversation) are stored once per
+ * SHA-256 and referenced from tool results by hash
+ *
+ * Every save records the conversation or MCP collection it came from. Knowing a hash is not
+ * enough to read an artifact: it is only served to callers that can access one of its owners.
+ */
+
+import { createHash } from 'node:crypto';
+import { type Prisma, prisma, type ToolArtifact } from '@tpmjs/db';
+import type { ToolArtifactRef } from '@tpmjs/types/agent';
+import { put } from '@vercel/blob';
+
+/**
+ * Artifacts never change for a given hash, so they can be cached for a year
+ */
+const ARTIFACT_CACHE_SECONDS = 365 * 24 * 60 * 60;
+
+export interface ArtifactInput {
+  data: Buffer;
+  mediaType: string;
+  filename?: string;
+}
+
+/**
+ * Stores an artifact and returns its reference
+ */
+export type SaveArtifact = (input: ArtifactInput) => Promise<ToolArtifactRef>;
+
+/**
+ * Where an artifact was produced: an agent conversation or an MCP collection
+ */
+export type ArtifactOwner = { conversationId: string } | { collectionId: string };
+
+/**
+ * Download URL for an artifact (served by /api/artifacts/[sha256])
+ */
+export function artifactUrl(sha256: string): string {
+  return `/api/artifacts/${sha256}`;
+}
+
+/**
+ * Hex SHA-256 of the artifact bytes (its content address)
+ */
+export function hashArtifact(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Store an artifact unless one with the same content already exists, and return its id
+ * Uses Vercel Blob when BLOB_READ_WRITE_TOKEN is set, otherwise keeps the bytes in the database
+ */
+async function storeArtifact(sha256: string, { data, mediaType, filename }: ArtifactInput) {
+  const existing = await prisma.toolArtifact.findUnique({
+    where: { sha256 },
+    select: { id: true },
+  });
+  if (existing) return existing.id;
+
+  let blobUrl: string | null = null;
+  if (process.env.BLOB_READ_WRITE_TOKEN) {
+    // Random suffix: the blob is public, so its URL must not be derivable from the hash
+    const blob = await put(`artifacts/${sha256}`, data, {
+      access: 'public',
+      contentType: mediaType,
+      cacheControlMaxAge: ARTIFACT_CACHE_SECONDS,
+      addRandomSuffix: true,
+    });
+    blobUrl = blob.url;
+  }
+
+  // Upsert: concurrent calls may store the same content
+  const artifact = await prisma.toolArtifact.upsert({
+    where: { sha256 },
+    create: {
+      sha256,
+      mediaType,
+      sizeBytes: data.length,
+      filename,
+      blobUrl,
+      data: blobUrl ? null : new Uint8Array(data),
+    },
+    update: {},
+    select: { id: true },
+  });
+  return artifact.id;
+}
+
+/**
+ * Artifact storage for tool calls made by one conversation or collection
+ * Each save records the owner, so the artifact can be read from there
+ */
+export function createArtifactSaver(owner: ArtifactOwner): SaveArtifact {
+  return async (input) => {
+    const sha256 = hashArtifact(input.data);
+    const artifactId = await storeArtifact(sha256, input);
+
+    // Unique per artifact and owner: saving the same content again is a no-op
+    await prisma.toolArtifactOwner.createMany({
+      data: [{ artifactId, ...owner }],
+      skipDuplicates: true,
+    });
+
+    return {
+      type: 'artifact',
+      sha256,
+      mediaType: input.mediaType,
+      sizeBytes: input.data.length,
+      ...(input.filename && { filename: input.filename }),
+      url: artifactUrl(sha256),
+    };
+  };
+}
+
+/**
+ * Look up an artifact produced by the given conversation or collection
+ */
+export async function readArtifact(
+  sha256: string,
+  owner: ArtifactOwner
+): Promise<ToolArtifact | null> {
+  return prisma.toolArtifact.findFirst({ where: { sha256, owners: { some: owner } } });
+}
+
+/**
+ * Users whose private agents/collections a caller may read artifacts from
+ * (a token can be scoped to one kind but not the other)
+ */
+export interface ArtifactViewer {
+  agentsUserId?: string;
+  collectionsUserId?: string;
+}
+
+/**
+ * Look up an artifact the viewer can access: one produced by a public agent's conversation
+ * or a public collection, or by an agent/collection the viewer owns
+ */
+export async function readArtifactForViewer(
+  sha256: string,
+  viewer: ArtifactViewer
+): Promise<ToolArtifact | null> {
+  const agentAccess: Prisma.AgentWhereInput[] = [{ isPublic: true }];
+  if (viewer.agentsUserId) agentAccess.push({ userId: viewer.agentsUserId });
+  const collectionAccess: Prisma.CollectionWhereInput[] = [{ isPublic: true }];
+  if (viewer.collectionsUserId) collectionAccess.push({ userId: viewer.collectionsUserId });
+
+  return prisma.toolArtifact.findFirst({
+    where: {
+      sha256,
+      owners: {
+        some: {
+          OR: [
+            { conversation: { agent: { OR: agentAccess } } },
+            { collection: { OR: collectionAccess } },
+          ],
+        },
+      },
+    },
+  });
+}
@@ -0,0 +1,97 @@
+/**
+ * Tests for tool output preparation (artifact extraction and truncation)
+ * Uses an in-memory artifact store instead of the database
+ */
+
+import { describe, expect, it } from 'vitest';
+import { type ArtifactInput, artifactUrl, hashArtifact, type SaveArtifact } from './store';
+import { isArtifactRef, isTruncatedToolOutput, prepareToolOutput } from './tool-output';
+
+function memoryStore() {
+  const saved = new Map<string, ArtifactInput>();
+  const save: SaveArtifact = async (input) => {
+    const sha256 = hashArtifact(input.data);
+    saved.set(sha256, input);
+    return {
+      type: 'artifact',
+      sha256,
+      mediaType: input.mediaType,
+      sizeBytes: input.data.length,
+      ...(input.filename && { filename: input.filename }),
+      url: artifactUrl(sha256),
+    };
+  };
+  return { saved, save };
+}
+
+const PNG_BYTES = Buffer.alloc(1024, 7);
+const PNG_BASE64 = PNG_BYTES.toString('base64');
+
+describe('prepareToolOutput', () => {
+  it('leaves small outputs untouched', async () => {
+    const { saved, save } = memoryStore();
+    const output = { title: 'Hello', items: [1, 2, 3] };
+
+    const prepared = await prepareToolOutput(output, { maxChars: 1000, save });
+
+    expect(prepared.output).toEqual(output);
+    expect(prepared.files).toEqual([]);
+    expect(saved.size).toBe(0);
+  });
+
+  it('replaces base64 files and data URLs with artifact references', async () => {
+    const { saved, save } = memoryStore();
+    const output = {
+      chart: { type: 'image', data: PNG_BASE64, mimeType: 'image/png' },
+      report: { data: PNG_BASE64, mediaType: 'application/pdf', filename: 'report.pdf' },
+      thumbnail: `data:image/png;base64,${PNG_BASE64}`,
+      caption: 'data:not-a-file',
+    };
+
+    const prepared = await prepareToolOutput(output, { maxChars: 10000, save });
+    const result = prepared.output as Record<string, unknown>;
+
+    expect(isArtifactRef(result.chart)).toBe(true);
+    expect(result.report).toMatchObject({
+      type: 'artifact',
+      mediaType: 'application/pdf',
+      filename: 'report.pdf',
+      sizeBytes: PNG_BYTES.length,
+      url: `/api/artifacts/${hashArtifact(PNG_BYTES)}`,
+    });
+    expect(isArtifactRef(result.thumbnail)).toBe(true);
+    expect(result.caption).toBe('data:not-a-file');
+    expect(prepared.files).toHaveLength(3);
+    expect(prepared.files[0]?.data.equals(PNG_BYTES)).toBe(true);
+    // Same bytes, same content address
+    expect(saved.size).toBe(1);
+  });
+
+  it('stores oversized results and returns a preview', async () => {
+    const { saved, save } = memoryStore();
+    const output = { pages: Array.from({ length: 200 }, (_, i) => `page ${i} `.repeat(20)) };
+
+    const prepared = await prepareToolOutput(output, { maxChars: 2000, save });
+
+    expect(isTruncatedToolOutput(prepared.output)).toBe(true);
+    if (!isTruncatedToolOutput(prepared.output)) return;
+    const full = JSON.stringify(output, null, 2);
+    expect(prepared.output.preview).toBe(full.slice(0, 2000));
+    expect(prepared.output.originalChars).toBe(full.length);
+    expect(prepared.output.fullResult.mediaType).toBe('application/json');
+    expect(saved.get(prepared.output.fullResult.sha256)?.data.toString('utf8')).toBe(full);
+  });
+
+  it('stores long text results as text/plain', async () => {
+    const { save } = memoryStore();
+
+    const prepared = await prepareToolOutput('x'.repeat(5000), { maxChars: 1000, save });
+
+    expect(prepared.output).toMatchObject({
+      truncated: true,
+      preview: 'x'.repeat(1000),
+      originalChars: 5000,
+      fullResult: { mediaType: 'text/plain', sizeBytes: 5000 },
+    });
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Prepare tool results for the model and the conversation history
+ *
+ * - Files in the output (`{ data: <base64>, mediaType | mimeType }` objects, like AI SDK file
+ *   parts and MCP image content, and `data:` URLs) are stored as artifacts and replaced by
+ *   artifact references
+ * - Outputs still larger than the cap are stored whole as an artifact; the model gets a
+ *   truncated preview plus a reference to the full result
+ */
+
+import type { ToolArtifactRef, TruncatedToolOutput } from '@tpmjs/types/agent';
+import type { SaveArtifact } from './store';
+
+// Files in a tool result are only looked for this deep
+const MAX_SCAN_DEPTH = 8;
+// Smaller base64 payloads stay inline; they cost the model less than a round trip
+const MIN_ARTIFACT_BYTES = 256;
+
+const DATA_URL_PATTERN =
+  /^data:([\w.+-]+\/[\w.+-]+)(?:;[\w-]+=[^;,]*)*;base64,([A-Za-z0-9+/=\s]+)$/;
+const BASE64_PATTERN = /^[A-Za-z0-9+/\s]+={0,2}$/;
+
+export interface PrepareToolOutputOptions {
+  /** Serialized size above which the model gets a preview instead of the result */
+  maxChars: number;
+  /** Artifact storage, recording where the call was made (see createArtifactSaver) */
+  save: SaveArtifact;
+}
+
+/**
+ * A file extracted from a tool result, with its bytes for clients that embed files (MCP)
+ */
+export interface ExtractedFile {
+  ref: ToolArtifactRef;
+  data: Buffer;
+}
+
+export interface PreparedToolOutput {
+  /** What the model and the conversation history see */
+  output: unknown;
+  files: ExtractedFile[];
+}
+
+/**
+ * Check if a value is an artifact reference
+ */
+export function isArtifactRef(value: unknown): value is ToolArtifactRef {
+  if (!value || typeof value !== 'object') return false;
+  const obj = value as Record<string, unknown>;
+  return obj.type === 'artifact' && typeof obj.sha256 === 'string' && typeof obj.url === 'string';
+}
+
+/**
+ * Check if a value is a truncated tool output
+ */
+export function isTruncatedToolOutput(value: unknown): value is TruncatedToolOutput {
+  if (!value || typeof value !== 'object') return false;
+  const obj = value as Record<string, unknown>;
+  return obj.truncated === true && typeof obj.preview === 'string' && isArtifactRef(obj.fullResult);
+}
+
+/**
+ * Decode a file-like node (base64 object or data URL), or return null
+ */
+function decodeFile(value: unknown): { data: Buffer; mediaType: string; filename?: string } | null {
+  if (typeof value === 'string') {
+    const match = value.length >= MIN_ARTIFACT_BYTES ? DATA_URL_PATTERN.exec(value) : null;
+    if (!match) return null;
+    return { data: Buffer.from(match[2] as string, 'base64'), mediaType: match[1] as string };
+  }
+
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const obj = value as Record<string, unknown>;
+  const mediaType = typeof obj.mediaType === 'string' ? obj.mediaType : obj.mimeType;
+  if (
+    typeof obj.data !== 'string' ||
+    typeof mediaType !== 'string' ||
+    !mediaType.includes('/') ||
+    obj.data.length < MIN_ARTIFACT_BYTES ||
+    !BASE64_PATTERN.test(obj.data)
+  ) {
+    return null;
+  }
+
+  const filename =
+    typeof obj.filename === 'string'
+      ? obj.filename
+      : typeof obj.name === 'string'
+        ? obj.name
+        : undefined;
+  return { data: Buffer.from(obj.data, 'base64'), mediaType, filename };
+}
+
+/**
+ * Replace files in `value` with artifact references
+ */
+async function extractFiles(
+  value: unknown,
+  save: SaveArtifact,
+  files: ExtractedFile[],
+  depth: number
+): Promise<unknown> {
+  const file = decodeFile(value);
+  if (file) {
+    const ref = await save(file);
+    files.push({ ref, data: file.data });
+    return ref;
+  }
+
+  if (depth >= MAX_SCAN_DEPTH || !value || typeof value !== 'object') return value;
+
+  if (Array.isArray(value)) {
+    const items: unknown[] = [];
+    for (const item of value) {
+      items.push(await extractFiles(item, save, files, depth + 1));
+    }
+    return items;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = await extractFiles(item, save, files, depth + 1);
+  }
+  return result;
+}
+
+/**
+ * Store files and oversized results from a tool output as artifacts
+ * Returns the output to give the model (files replaced by references, truncated to a preview
+ * when over `maxChars`) and the extracted files
+ */
+export async function prepareToolOutput(
+  output: unknown,
+  { maxChars, save }: PrepareToolOutputOptions
+): Promise<PreparedToolOutput> {
+  const files: ExtractedFile[] = [];
+  const withRefs = await extractFiles(output, save, files, 0);
+
+  const isText = typeof withRefs === 'string';
+  const serialized = isText ? withRefs : JSON.stringify(withRefs ?? null, null, 2);
+  if (serialized.length <= maxChars) {
+    return { output: withRefs, files };
+  }
+
+  const fullResult = await save({
+    data: Buffer.from(serialized, 'utf8'),
+    mediaType: isText ? 'text/plain' : 'application/json',
+  });
+
+  const truncated: TruncatedToolOutput = {
+    truncated: true,
+    preview: serialized.slice(0, maxChars),
+    originalChars: serialized.length,
+    fullResult,
+    note: `Output truncated to the first ${maxChars} of ${serialized.length} characters. The full result is stored as an artifact.`,
+  };
+  return { output: truncated, files };
+}
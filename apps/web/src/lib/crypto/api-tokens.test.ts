@@ -0,0 +1,88 @@
+/**
+ * Tests for personal access token generation, hashing, bearer extraction and scopes
+ */
+
+import { hasApiTokenScope } from '@tpmjs/types/user';
+import { describe, expect, it } from 'vitest';
+import {
+  API_TOKEN_PREFIX,
+  extractApiToken,
+  generateApiToken,
+  hashApiToken,
+  MCP_TOKEN_PREFIX,
+  matchesTokenHash,
+} from './api-tokens';
+
+describe('generateApiToken', () => {
+  it('creates prefixed tokens whose hash matches', () => {
+    const { token, tokenHash, tokenPrefix } = generateApiToken();
+
+    expect(token.startsWith(API_TOKEN_PREFIX)).toBe(true);
+    expect(tokenPrefix).toBe(token.slice(0, API_TOKEN_PREFIX.length + 4));
+    expect(tokenHash).toBe(hashApiToken(token));
+    expect(matchesTokenHash(token, tokenHash)).toBe(true);
+  });
+
+  it('uses the given prefix for MCP tokens', () => {
+    const { token, tokenPrefix } = generateApiToken(MCP_TOKEN_PREFIX);
+
+    expect(token.startsWith(MCP_TOKEN_PREFIX)).toBe(true);
+    expect(tokenPrefix.startsWith(MCP_TOKEN_PREFIX)).toBe(true);
+  });
+
+  it('never generates the same token twice', () => {
+    expect(generateApiToken().token).not.toBe(generateApiToken().token);
+  });
+});
+
+describe('matchesTokenHash', () => {
+  it('rejects other tokens and malformed hashes', () => {
+    const { tokenHash } = generateApiToken();
+
+    expect(matchesTokenHash(generateApiToken().token, tokenHash)).toBe(false);
+    expect(matchesTokenHash('tpmjs_pat_abc', 'not-hex')).toBe(false);
+  });
+});
+
+describe('extractApiToken', () => {
+  const token = `${API_TOKEN_PREFIX}abc123`;
+
+  it('reads the token from a bearer header', () => {
+    expect(extractApiToken(`Bearer ${token}`)).toBe(token);
+    expect(extractApiToken(`bearer   ${token}`)).toBe(token);
+  });
+
+  it('returns null for missing or malformed headers', () => {
+    expect(extractApiToken(null)).toBeNull();
+    expect(extractApiToken('')).toBeNull();
+    expect(extractApiToken(token)).toBeNull();
+    expect(extractApiToken(`Basic ${token}`)).toBeNull();
+    expect(extractApiToken(`Bearer ${token} extra`)).toBeNull();
+  });
+
+  it('ignores bearer tokens with another prefix', () => {
+    expect(extractApiToken('Bearer sk-live-123')).toBeNull();
+    expect(extractApiToken(`Bearer ${MCP_TOKEN_PREFIX}abc123`)).toBeNull();
+    expect(extractApiToken(`Bearer ${MCP_TOKEN_PREFIX}abc123`, MCP_TOKEN_PREFIX)).toBe(
+      `${MCP_TOKEN_PREFIX}abc123`
+    );
+    expect(extractApiToken(`Bearer ${token}`, MCP_TOKEN_PREFIX)).toBeNull();
+  });
+});
+
+describe('hasApiTokenScope', () => {
+  it('grants scopes that were given directly', () => {
+    expect(hasApiTokenScope(['agents:read'], 'agents:read')).toBe(true);
+    expect(hasApiTokenScope(['collections:write'], 'collections:write')).toBe(true);
+  });
+
+  it('lets a write scope imply the matching read scope', () => {
+    expect(hasApiTokenScope(['agents:write'], 'agents:read')).toBe(true);
+    expect(hasApiTokenScope(['agents:write'], 'collections:read')).toBe(false);
+  });
+
+  it('rejects missing scopes', () => {
+    expect(hasApiTokenScope([], 'agents:read')).toBe(false);
+    expect(hasApiTokenScope(['agents:read'], 'agents:write')).toBe(false);
+  });
+});
@@ -0,0 +1,65 @@
+import { createHash, randomBytes, timingSafeEqual } from 'node:crypto';
+
+/**
+ * Prefix for TPMJS personal access tokens.
+ * Makes tokens recognizable in logs and secret scanners.
+ */
+export const API_TOKEN_PREFIX = 'tpmjs_pat_';
+
+/**
+ * Prefix for per-collection MCP access tokens
+ */
+export const MCP_TOKEN_PREFIX = 'tpmjs_mcp_';
+
+/**
+ * Number of random characters kept after the prefix for display
+ */
+const DISPLAY_SUFFIX_LENGTH = 4;
+
+/**
+ * Hashes a personal access token for storage and lookup (SHA-256 hex)
+ */
+export function hashApiToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Compares a plaintext token against a stored hash in constant time
+ */
+export function matchesTokenHash(token: string, tokenHash: string): boolean {
+  const expected = Buffer.from(tokenHash, 'hex');
+  const actual = Buffer.from(hashApiToken(token), 'hex');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Generates a new token (personal access token by default).
+ * The plaintext token must only be shown to the user once; store the hash.
+ */
+export function generateApiToken(prefix: string = API_TOKEN_PREFIX): {
+  token: string;
+  tokenHash: string;
+  tokenPrefix: string;
+} {
+  const token = `${prefix}${randomBytes(32).toString('base64url')}`;
+  return {
+    token,
+    tokenHash: hashApiToken(token),
+    tokenPrefix: token.slice(0, prefix.length + DISPLAY_SUFFIX_LENGTH),
+  };
+}
+
+/**
+ * Extracts a TPMJS token with the given prefix from an Authorization header value.
+ * Returns null for missing headers and for bearer tokens of another kind.
+ */
+export function extractApiToken(
+  authorization: string | null,
+  prefix: string = API_TOKEN_PREFIX
+): string | null {
+  if (!authorization) return null;
+  const match = authorization.match(/^Bearer\s+(\S+)$/i);
+  const token = match?.[1];
+  if (!token || !token.startsWith(prefix)) return null;
+  return token;
+}
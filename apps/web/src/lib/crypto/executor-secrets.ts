@@ -0,0 +1,38 @@
+import { randomBytes } from 'node:crypto';
+import type { ExecutorSigningSecret } from '@tpmjs/types/executor';
+
+import { decryptApiKey, encryptApiKey, getKeyHint } from './api-keys';
+
+/**
+ * Prefix for custom executor signing secrets
+ * Makes secrets recognizable in logs and secret scanners.
+ */
+export const EXECUTOR_SECRET_PREFIX = 'tpmjs_whsec_';
+
+/**
+ * Generates a new executor signing secret.
+ * The plaintext secret must only be shown to the user once; store the encrypted form.
+ */
+export function generateExecutorSigningSecret(): {
+  secret: string;
+  signingSecret: ExecutorSigningSecret;
+} {
+  const secret = `${EXECUTOR_SECRET_PREFIX}${randomBytes(32).toString('base64url')}`;
+  const { encrypted, iv } = encryptApiKey(secret);
+  return {
+    secret,
+    signingSecret: {
+      encrypted,
+      iv,
+      hint: getKeyHint(secret),
+      createdAt: new Date().toISOString(),
+    },
+  };
+}
+
+/**
+ * Decrypts a stored executor signing secret
+ */
+export function decryptExecutorSigningSecret(signingSecret: ExecutorSigningSecret): string {
+  return decryptApiKey(signingSecret.encrypted, signingSecret.iv);
+}
@@ -0,0 +1,191 @@
+/**
+ * Tests for custom executor request signing and streaming
+ * Captures the outgoing request and checks it with the published verification helper
+ */
+
+import {
+  EXECUTOR_SIGNATURE_HEADER,
+  EXECUTOR_STREAM_CONTENT_TYPE,
+  EXECUTOR_TIMESTAMP_HEADER,
+  type ExecuteToolStreamEvent,
+  verifyExecutorRequest,
+} from '@tpmjs/types/executor';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { executeWithCustomUrl } from './custom-url';
+
+const SECRET = 'tpmjs_whsec_test-secret';
+
+interface CapturedRequest {
+  url: string;
+  body: string;
+  headers: Record<string, string>;
+}
+
+async function captureSignedRequest(): Promise<CapturedRequest> {
+  let captured: CapturedRequest | undefined;
+  vi.spyOn(globalThis, 'fetch').mockImplementation(async (input, init) => {
+    captured = {
+      url: String(input),
+      body: String(init?.body),
+      headers: init?.headers as Record<string, string>,
+    };
+    return Response.json({ success: true, output: 'ok', executionTimeMs: 1 });
+  });
+
+  const result = await executeWithCustomUrl(
+    'https://executor.example.com',
+    undefined,
+    { packageName: 'pkg', name: 'tool', params: { query: 'hi' } },
+    { timeout: 1000, signingSecret: SECRET }
+  );
+  expect(result.success).toBe(true);
+  if (!captured) throw new Error('fetch was not called');
+  return captured;
+}
+
+const verify = (
+  request: CapturedRequest,
+  overrides: Partial<Parameters<typeof verifyExecutorRequest>[0]> = {}
+) =>
+  verifyExecutorRequest({
+    secret: SECRET,
+    method: 'POST',
+    path: new URL(request.url).pathname,
+    body: request.body,
+    headers: request.headers,
+    ...overrides,
+  });
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('custom executor request signing', () => {
+  it('signs requests so executors can verify them', async () => {
+    const request = await captureSignedRequest();
+
+    expect(request.headers[EXECUTOR_SIGNATURE_HEADER]).toMatch(/^v1=[0-9a-f]{64}$/);
+    await expect(verify(request)).resolves.toMatchObject({ valid: true });
+  });
+
+  it('rejects forged and tampered requests', async () => {
+    const request = await captureSignedRequest();
+
+    await expect(verify(request, { secret: 'wrong-secret' })).resolves.toEqual({
+      valid: false,
+      error: 'Invalid signature',
+    });
+    await expect(verify(request, { body: request.body.replace('hi', 'rm') })).resolves.toEqual({
+      valid: false,
+      error: 'Body digest mismatch',
+    });
+    await expect(verify(request, { path: '/health' })).resolves.toMatchObject({ valid: false });
+  });
+
+  it('rejects stale and replayed requests', async () => {
+    const request = await captureSignedRequest();
+    const timestamp = Number(request.headers[EXECUTOR_TIMESTAMP_HEADER]);
+
+    await expect(verify(request, { now: timestamp + 10 * 60 * 1000 })).resolves.toEqual({
+      valid: false,
+      error: 'Signature timestamp outside tolerance',
+    });
+
+    const seen = new Set<string>();
+    const isReplay = (nonce: string) => {
+      if (seen.has(nonce)) return true;
+      seen.add(nonce);
+      return false;
+    };
+    await expect(verify(request, { isReplay })).resolves.toMatchObject({ valid: true });
+    await expect(verify(request, { isReplay })).resolves.toEqual({
+      valid: false,
+      error: 'Replayed request',
+    });
+  });
+});
+
+describe('custom executor streaming', () => {
+  const request = { packageName: 'pkg', name: 'tool', params: {} };
+
+  it('forwards streamed events and returns the result event', async () => {
+    const lines = [
+      { type: 'log', level: 'info', message: 'Crawling', timestamp: 1 },
+      { type: 'progress', progress: 0.5, timestamp: 2 },
+      { type: 'result', success: true, output: { pages: 2 }, executionTimeMs: 40 },
+    ];
+    // Split mid-line to check buffering across chunks
+    const body = lines.map((line) => JSON.stringify(line)).join('\n');
+    let accept: string | undefined;
+    vi.spyOn(globalThis, 'fetch').mockImplementation(async (_input, init) => {
+      accept = (init?.headers as Record<string, string>).Accept;
+      return new Response(
+        new ReadableStream({
+          start(controller) {
+            controller.enqueue(new TextEncoder().encode(body.slice(0, 30)));
+            controller.enqueue(new TextEncoder().encode(`${body.slice(30)}\nnot json\n`));
+            controller.close();
+          },
+        }),
+        { headers: { 'Content-Type': EXECUTOR_STREAM_CONTENT_TYPE } }
+      );
+    });
+
+    const events: ExecuteToolStreamEvent[] = [];
+    const result = await executeWithCustomUrl('https://executor.example.com', undefined, request, {
+      onEvent: (event) => events.push(event),
+    });
+
+    expect(accept).toContain(EXECUTOR_STREAM_CONTENT_TYPE);
+    expect(events.map((event) => event.type)).toEqual(['log', 'progress', 'result']);
+    expect(result).toMatchObject({ success: true, output: { pages: 2 }, executionTimeMs: 40 });
+  });
+
+  it('falls back to JSON responses from executors without streaming', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+      Response.json({ success: true, output: 'done', executionTimeMs: 5 })
+    );
+
+    const onEvent = vi.fn();
+    const result = await executeWithCustomUrl('https://executor.example.com', undefined, request, {
+      onEvent,
+    });
+
+    expect(result).toMatchObject({ success: true, output: 'done' });
+    expect(onEvent).not.toHaveBeenCalled();
+  });
+
+  it('fails when the stream ends without a result', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+      new Response('{"type":"log","level":"info","message":"hi","timestamp":1}\n', {
+        headers: { 'Content-Type': EXECUTOR_STREAM_CONTENT_TYPE },
+      })
+    );
+
+    const result = await executeWithCustomUrl('https://executor.example.com', undefined, request, {
+      onEvent: () => {},
+    });
+
+    expect(result).toMatchObject({ success: false, errorClass: 'server_error' });
+  });
+
+  it('keeps the result when an event listener throws', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+      new Response(
+        [
+          '{"type":"log","level":"info","message":"hi","timestamp":1}',
+          '{"type":"result","success":true,"output":"done","executionTimeMs":5}',
+        ].join('\n'),
+        { headers: { 'Content-Type': EXECUTOR_STREAM_CONTENT_TYPE } }
+      )
+    );
+
+    const result = await executeWithCustomUrl('https://executor.example.com', undefined, request, {
+      onEvent: () => {
+        throw new TypeError('Invalid state: Controller is already closed');
+      },
+    });
+
+    expect(result).toMatchObject({ success: true, output: 'done' });
+  });
+});
@@ -0,0 +1,315 @@
+/**
+ * Custom URL Executor Adapter
+ *
+ * Runs tools on a self-hosted executor that implements the TPMJS executor API
+ * (POST /execute-tool, GET /health), using the streaming variant when the caller wants events
+ */
+
+import type {
+  CustomUrlExecutorConfig,
+  ExecuteToolRequest,
+  ExecuteToolResponse,
+  ExecuteToolStreamEvent,
+  ExecutorErrorClass,
+  ExecutorHealthResponse,
+} from '@tpmjs/types/executor';
+import {
+  EXECUTOR_STREAM_CONTENT_TYPE,
+  ExecutorSigningSecretSchema,
+  readExecuteToolStream,
+  signExecutorRequest,
+} from '@tpmjs/types/executor';
+import { decryptExecutorSigningSecret } from '../crypto/executor-secrets';
+import type { ExecutorAdapter, ExecutorResult } from './registry';
+
+const DEFAULT_TIMEOUT = 300000; // 5 minutes for custom executors
+
+/**
+ * Classify a non-2xx executor response
+ * Executors report tool failures as JSON errors (even with a 500), while proxies and
+ * crashed services answer with gateway errors or non-JSON bodies
+ */
+function classifyHttpError(status: number, reportedByExecutor: boolean): ExecutorErrorClass {
+  if (status === 429) return 'rate_limited';
+  if (status === 502 || status === 503 || status === 504) return 'unavailable';
+  if (reportedByExecutor) return 'tool_error';
+  return status >= 500 ? 'server_error' : 'tool_error';
+}
+
+/**
+ * Build auth headers for an executor request: the bearer API key and, with a signing
+ * secret, the HMAC signature headers (see signExecutorRequest)
+ */
+async function buildAuthHeaders(
+  endpoint: string,
+  method: string,
+  body: string,
+  apiKey?: string,
+  signingSecret?: string
+): Promise<Record<string, string>> {
+  const headers: Record<string, string> = {};
+
+  if (apiKey) {
+    headers.Authorization = `Bearer ${apiKey}`;
+  }
+
+  if (signingSecret) {
+    Object.assign(
+      headers,
+      await signExecutorRequest({
+        secret: signingSecret,
+        method,
+        path: new URL(endpoint).pathname,
+        body,
+      })
+    );
+  }
+
+  return headers;
+}
+
+/**
+ * Decrypt the config's signing secret for the adapter
+ * Returns an error when it can no longer be decrypted (e.g. the encryption secret changed)
+ */
+function resolveSigningSecret(config: CustomUrlExecutorConfig): {
+  secret?: string;
+  error?: string;
+} {
+  if (!config.signingSecret) return {};
+  try {
+    return { secret: decryptExecutorSigningSecret(config.signingSecret) };
+  } catch (error) {
+    return {
+      error: `Executor signing secret unavailable: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+}
+
+export interface CustomUrlExecuteOptions {
+  /** Timeout in milliseconds, including a streamed response body */
+  timeout?: number;
+  /** Abort signal for caller cancellation */
+  signal?: AbortSignal;
+  /** Plaintext secret for request signing */
+  signingSecret?: string;
+  /** Request the streaming variant and receive its events as they arrive */
+  onEvent?: (event: ExecuteToolStreamEvent) => void;
+}
+
+/**
+ * Execute a tool using a custom URL executor
+ */
+export async function executeWithCustomUrl(
+  url: string,
+  apiKey: string | undefined,
+  request: ExecuteToolRequest,
+  options: CustomUrlExecuteOptions = {}
+): Promise<ExecutorResult> {
+  const { timeout = DEFAULT_TIMEOUT, signal, signingSecret, onEvent } = options;
+  const startTime = Date.now();
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+  const onCallerAbort = () => controller.abort();
+  signal?.addEventListener('abort', onCallerAbort, { once: true });
+
+  try {
+    const endpoint = `${url}/execute-tool`;
+    const body = JSON.stringify(request);
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...(await buildAuthHeaders(endpoint, 'POST', body, apiKey, signingSecret)),
+    };
+    if (onEvent) {
+      headers.Accept = `${EXECUTOR_STREAM_CONTENT_TYPE}, application/json`;
+    }
+
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers,
+      body,
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      const errorData = (await response
+        .json()
+        .catch(() => null)) as Partial<ExecuteToolResponse> | null;
+      return {
+        success: false,
+        error: errorData?.error || `Executor error: ${response.status}`,
+        executionTimeMs: Date.now() - startTime,
+        errorCode: errorData?.errorCode,
+        logs: errorData?.logs,
+        metrics: errorData?.metrics,
+        resolvedVersion: errorData?.resolvedVersion,
+        errorClass: classifyHttpError(response.status, Boolean(errorData?.error)),
+      };
+    }
+
+    // Executors without streaming support answer with plain JSON
+    const isStream =
+      onEvent &&
+      response.body &&
+      response.headers.get('content-type')?.includes(EXECUTOR_STREAM_CONTENT_TYPE);
+    const result = isStream
+      ? await readExecuteToolStream(response.body as ReadableStream<Uint8Array>, onEvent)
+      : ((await response.json()) as ExecuteToolResponse);
+
+    if (!result) {
+      return {
+        success: false,
+        error: 'Executor stream ended without a result',
+        executionTimeMs: Date.now() - startTime,
+        errorClass: 'server_error',
+      };
+    }
+
+    return {
+      success: result.success,
+      output: result.output,
+      error: result.error,
+      executionTimeMs: result.executionTimeMs || Date.now() - startTime,
+      errorCode: result.errorCode,
+      logs: result.logs,
+      metrics: result.metrics,
+      resolvedVersion: result.resolvedVersion,
+      errorClass: result.success ? undefined : 'tool_error',
+    };
+  } catch (error) {
+    const executionTimeMs = Date.now() - startTime;
+
+    if (error instanceof Error && error.name === 'AbortError') {
+      return signal?.aborted
+        ? { success: false, error: 'Execution cancelled', executionTimeMs, errorClass: 'cancelled' }
+        : {
+            success: false,
+            error: 'Execution timeout',
+            executionTimeMs,
+            errorCode: 'TIMEOUT',
+            errorClass: 'timeout',
+          };
+    }
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+      executionTimeMs,
+      errorClass: 'network',
+    };
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', onCallerAbort);
+  }
+}
+
+/**
+ * Check the health of a custom executor URL
+ *
+ * @param url - Executor URL to check
+ * @param apiKey - Optional API key for authentication
+ * @param signingSecret - Optional plaintext secret for request signing
+ * @returns Health check response or error
+ */
+export async function checkExecutorHealth(
+  url: string,
+  apiKey?: string,
+  signingSecret?: string
+): Promise<{ healthy: boolean; response?: ExecutorHealthResponse; error?: string }> {
+  try {
+    const endpoint = `${url}/health`;
+    const headers = await buildAuthHeaders(endpoint, 'GET', '', apiKey, signingSecret);
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 10000); // 10 second timeout for health checks
+
+    const response = await fetch(endpoint, {
+      method: 'GET',
+      headers,
+      signal: controller.signal,
+    });
+
+    clearTimeout(timeoutId);
+
+    if (!response.ok) {
+      return {
+        healthy: false,
+        error: `Health check failed: ${response.status}`,
+      };
+    }
+
+    const data = (await response.json()) as ExecutorHealthResponse;
+
+    return {
+      healthy: data.status === 'ok' || data.status === 'degraded',
+      response: data,
+    };
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      return {
+        healthy: false,
+        error: 'Health check timeout',
+      };
+    }
+
+    return {
+      healthy: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+export const customUrlAdapter: ExecutorAdapter<CustomUrlExecutorConfig> = {
+  type: 'custom_url',
+
+  parseConfig(rawConfig) {
+    if (!rawConfig || typeof rawConfig !== 'object') {
+      return null;
+    }
+    const config = rawConfig as { url?: string; apiKey?: string; signingSecret?: unknown };
+    if (!config.url || typeof config.url !== 'string') {
+      return null;
+    }
+    const signingSecret = ExecutorSigningSecretSchema.safeParse(config.signingSecret);
+    return {
+      type: 'custom_url',
+      url: config.url,
+      apiKey: typeof config.apiKey === 'string' ? config.apiKey : undefined,
+      signingSecret: signingSecret.success ? signingSecret.data : undefined,
+    };
+  },
+
+  async execute(config, request, options) {
+    const signing = resolveSigningSecret(config);
+    if (signing.error) {
+      return {
+        success: false,
+        error: signing.error,
+        executionTimeMs: 0,
+        errorClass: 'unavailable',
+      };
+    }
+    return executeWithCustomUrl(config.url, config.apiKey, request, {
+      ...options,
+      signingSecret: signing.secret,
+    });
+  },
+
+  async health(config) {
+    const signing = resolveSigningSecret(config);
+    if (signing.error) {
+      return { healthy: false, error: signing.error };
+    }
+    return checkExecutorHealth(config.url, config.apiKey, signing.secret);
+  },
+
+  describe(config) {
+    try {
+      const url = new URL(config.url);
+      return `Custom: ${url.hostname}`;
+    } catch {
+      return 'Custom Executor';
+    }
+  },
+};
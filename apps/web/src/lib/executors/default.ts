@@ -0,0 +1,48 @@
+/**
+ * Default Executor Adapter
+ *
+ * Runs tools on the TPMJS-managed executor through @tpmjs/package-executor
+ * (which uses SANDBOX_EXECUTOR_URL)
+ */
+
+import { executePackage, getSandboxUrl } from '@tpmjs/package-executor';
+import type { DefaultExecutorConfig } from '@tpmjs/types/executor';
+import { checkExecutorHealth } from './custom-url';
+import type { ExecutorAdapter } from './registry';
+
+export const defaultAdapter: ExecutorAdapter<DefaultExecutorConfig> = {
+  type: 'default',
+
+  parseConfig() {
+    return { type: 'default' };
+  },
+
+  async execute(_config, request, options) {
+    const result = await executePackage(request.packageName, request.name, request.params, {
+      version: request.version,
+      env: request.env,
+      timeout: options.timeout,
+      signal: options.signal,
+      onEvent: options.onEvent,
+    });
+
+    return {
+      success: result.success,
+      output: result.output,
+      error: result.error,
+      executionTimeMs: result.executionTimeMs,
+      errorCode: result.errorCode,
+      logs: result.logs,
+      metrics: result.metrics,
+      resolvedVersion: result.resolvedVersion,
+    };
+  },
+
+  health() {
+    return checkExecutorHealth(getSandboxUrl());
+  },
+
+  describe() {
+    return 'TPMJS Default Executor';
+  },
+};
@@ -0,0 +1,73 @@
+/**
+ * Tool Environment Variables
+ *
+ * Shared env var handling for every execution path (agents, MCP):
+ * Agent envVars → Collection envVars (merged, agent overrides)
+ */
+
+/**
+ * Parse environment variables from JSON field
+ * Returns empty object if null/undefined or invalid
+ */
+export function parseEnvVars(envVars: unknown): Record<string, string> {
+  if (!envVars || typeof envVars !== 'object') {
+    return {};
+  }
+  // Validate all values are strings
+  const result: Record<string, string> = {};
+  for (const [key, value] of Object.entries(envVars)) {
+    if (typeof value === 'string') {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+/**
+ * Merge environment variables with agent envVars taking precedence
+ * Collection envVars are used as base, agent envVars override
+ */
+export function mergeEnvVars(
+  collectionEnvVars: Record<string, string>,
+  agentEnvVars: Record<string, string>
+): Record<string, string> {
+  return {
+    ...collectionEnvVars,
+    ...agentEnvVars, // Agent overrides collection
+  };
+}
+
+/**
+ * Get the env var names a package declares as required (from Package.env)
+ * Entries with `required: false` or a default value are not required
+ */
+export function getRequiredEnvVarNames(packageEnv: unknown): string[] {
+  if (!Array.isArray(packageEnv)) {
+    return [];
+  }
+
+  const names: string[] = [];
+  for (const entry of packageEnv) {
+    if (!entry || typeof entry !== 'object') continue;
+    const {
+      name,
+      required,
+      default: defaultValue,
+    } = entry as {
+      name?: unknown;
+      required?: unknown;
+      default?: unknown;
+    };
+    if (typeof name !== 'string' || !name) continue;
+    if (required === false || typeof defaultValue === 'string') continue;
+    names.push(name);
+  }
+  return names;
+}
+
+/**
+ * Find required env vars that are missing (or empty) in the provided env vars
+ */
+export function findMissingEnvVars(packageEnv: unknown, envVars: Record<string, string>): string[] {
+  return getRequiredEnvVarNames(packageEnv).filter((name) => !envVars[name]);
+}
@@ -0,0 +1,157 @@
+/**
+ * Tests for executor failover chains
+ * Replaces the custom_url adapter with a scripted fake keyed by URL
+ */
+
+import type { CustomUrlExecutorConfig } from '@tpmjs/types/executor';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { classifyExecutorError } from './failover';
+import { executeWithExecutor, parseExecutorConfig } from './index';
+import { type ExecutorResult, registerExecutorAdapter } from './registry';
+
+const scripts = new Map<string, ExecutorResult[]>();
+const latencies = new Map<string, number>();
+const calls: string[] = [];
+const timeouts: Array<number | undefined> = [];
+
+registerExecutorAdapter<'custom_url'>({
+  type: 'custom_url',
+  parseConfig: (rawConfig) => rawConfig as CustomUrlExecutorConfig,
+  async execute(config, _request, options) {
+    calls.push(config.url);
+    timeouts.push(options.timeout);
+    await new Promise((resolve) => setTimeout(resolve, latencies.get(config.url) ?? 0));
+    const next = scripts.get(config.url)?.shift();
+    return next ?? { success: true, output: config.url, executionTimeMs: 1 };
+  },
+  health: async () => ({ healthy: true }),
+  describe: (config) => `Custom: ${new URL(config.url).hostname}`,
+});
+
+const PRIMARY = 'https://primary.example.com';
+const BACKUP = 'https://backup.example.com';
+
+const failure = (errorClass: ExecutorResult['errorClass']): ExecutorResult => ({
+  success: false,
+  error: `failed: ${errorClass}`,
+  executionTimeMs: 1,
+  errorClass,
+});
+
+const run = (maxAttempts = 1, options: { backoffMs?: number; timeout?: number } = {}) =>
+  executeWithExecutor(
+    {
+      type: 'chain',
+      executors: [
+        {
+          executor: { type: 'custom_url', url: PRIMARY },
+          retry: { maxAttempts, backoffMs: options.backoffMs ?? 0 },
+        },
+        { executor: { type: 'custom_url', url: BACKUP } },
+      ],
+    },
+    { packageName: 'pkg', name: 'tool', params: {} },
+    { timeout: options.timeout }
+  );
+
+beforeEach(() => {
+  scripts.clear();
+  latencies.clear();
+  calls.length = 0;
+  timeouts.length = 0;
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+describe('executor failover', () => {
+  it('parses stored chain config', () => {
+    const executors = [{ executor: { type: 'default' } }];
+    expect(parseExecutorConfig('chain', { executors })).toEqual({ type: 'chain', executors });
+    expect(parseExecutorConfig('chain', { executors: [] })).toBeNull();
+  });
+
+  it('records the first executor when it succeeds', async () => {
+    const result = await run();
+
+    expect(result).toMatchObject({ success: true, output: PRIMARY });
+    expect(result.routing).toMatchObject({
+      servedBy: 'Custom: primary.example.com',
+      servedByIndex: 0,
+      failedOver: false,
+    });
+    expect(result.routing.attempts).toHaveLength(1);
+  });
+
+  it('retries retryable errors before failing over', async () => {
+    scripts.set(PRIMARY, [failure('network'), failure('unavailable')]);
+
+    const result = await run(2);
+
+    expect(calls).toEqual([PRIMARY, PRIMARY, BACKUP]);
+    expect(result).toMatchObject({ success: true, output: BACKUP });
+    expect(result.routing).toMatchObject({ servedByIndex: 1, failedOver: true });
+    expect(result.routing.attempts.map((attempt) => attempt.errorClass)).toEqual([
+      'network',
+      'unavailable',
+      undefined,
+    ]);
+  });
+
+  it('does not retry timeouts by default', async () => {
+    scripts.set(PRIMARY, [failure('timeout')]);
+
+    const result = await run(3);
+
+    expect(calls).toEqual([PRIMARY]);
+    expect(result).toMatchObject({ success: false, error: 'failed: timeout' });
+  });
+
+  it('shares the timeout across attempts and skips retries that would overrun it', async () => {
+    scripts.set(PRIMARY, [failure('network')]);
+
+    const result = await run(3, { backoffMs: 5000, timeout: 1000 });
+
+    // The backoff doesn't fit in the budget, so the backup runs right away with what's left
+    expect(calls).toEqual([PRIMARY, BACKUP]);
+    expect(result).toMatchObject({ success: true, output: BACKUP });
+    expect(timeouts[0]).toBeLessThanOrEqual(1000);
+    expect(timeouts[1]).toBeLessThanOrEqual(timeouts[0] as number);
+  });
+
+  it('starts no attempt after the deadline', async () => {
+    scripts.set(PRIMARY, [failure('network')]);
+    latencies.set(PRIMARY, 50);
+
+    const result = await run(1, { timeout: 20 });
+
+    expect(calls).toEqual([PRIMARY]);
+    expect(result).toMatchObject({ success: false, error: 'failed: network' });
+  });
+
+  it('does not retry or fail over on tool errors', async () => {
+    scripts.set(PRIMARY, [failure('tool_error')]);
+
+    const result = await run(3);
+
+    expect(calls).toEqual([PRIMARY]);
+    expect(result).toMatchObject({ success: false, error: 'failed: tool_error' });
+    expect(result.routing.failedOver).toBe(false);
+  });
+
+  it('classifies errors from the message when the adapter does not', () => {
+    const classify = (error: string) =>
+      classifyExecutorError({ success: false, error, executionTimeMs: 0 });
+
+    expect(classify('Execution timeout')).toBe('timeout');
+    expect(classify('fetch failed')).toBe('network');
+    expect(classify('Executor error: 503')).toBe('unavailable');
+    expect(classify('Cannot read properties of undefined')).toBe('tool_error');
+    expect(
+      classifyExecutorError({
+        success: false,
+        error: 'Execution timed out',
+        executionTimeMs: 0,
+        errorCode: 'TOOL_THREW',
+      })
+    ).toBe('tool_error');
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Executor Failover
+ *
+ * Runs a tool call through an ordered list of executors. Each executor gets up to
+ * `retry.maxAttempts` attempts with exponential backoff; when its last attempt fails with a
+ * retryable error class, the next executor is tried. Every attempt is recorded so callers
+ * can tell which executor served the call.
+ *
+ * The caller's timeout is a deadline for the whole chain: each attempt gets the time left,
+ * and no attempt starts once it has passed.
+ *
+ * A single executor config is treated as a chain of one without retries.
+ */
+
+import {
+  type ChainExecutorConfig,
+  ChainExecutorSettingsSchema,
+  type ExecuteToolRequest,
+  type ExecuteToolResponse,
+  type ExecutorAttempt,
+  type ExecutorErrorClass,
+  type ExecutorRouting,
+} from '@tpmjs/types/executor';
+import { type ExecutorExecuteOptions, type ExecutorResult, getAdapterForConfig } from './registry';
+
+const DEFAULT_BACKOFF_MS = 500;
+const DEFAULT_BACKOFF_MULTIPLIER = 2;
+
+/**
+ * Error classes that are retried (and fail over) unless a policy says otherwise
+ * Timeouts aren't: the tool may have run (and had side effects) before the executor gave up
+ */
+export const DEFAULT_RETRY_ON: ExecutorErrorClass[] = [
+  'network',
+  'unavailable',
+  'rate_limited',
+  'server_error',
+];
+
+export type ExecutorChain = ChainExecutorConfig['executors'];
+
+export interface RoutedExecuteToolResponse extends ExecuteToolResponse {
+  routing: ExecutorRouting;
+}
+
+/**
+ * Parse a failover chain from the stored executorConfig JSON
+ */
+export function parseChainConfig(rawConfig: unknown): ChainExecutorConfig | null {
+  const parsed = ChainExecutorSettingsSchema.safeParse(rawConfig);
+  return parsed.success ? { type: 'chain', ...parsed.data } : null;
+}
+
+/**
+ * Classify a failed execution, preferring the class the adapter reported, then the
+ * executor's error code. Falls back to matching the error message (e.g. for older executors)
+ */
+export function classifyExecutorError(
+  result: ExecutorResult,
+  signal?: AbortSignal
+): ExecutorErrorClass {
+  if (result.errorClass) return result.errorClass;
+  if (signal?.aborted) return 'cancelled';
+  // Executors that report an error code already know whether the tool itself failed
+  if (result.errorCode) return result.errorCode === 'TIMEOUT' ? 'timeout' : 'tool_error';
+
+  const error = (result.error ?? '').toLowerCase();
+  if (error.includes('cancelled')) return 'cancelled';
+  if (error.includes('timeout') || error.includes('timed out')) return 'timeout';
+  if (/fetch failed|econnrefused|econnreset|enotfound|socket hang up/.test(error)) {
+    return 'network';
+  }
+  if (/\b429\b|rate limit/.test(error)) return 'rate_limited';
+  if (/\b50[234]\b/.test(error)) return 'unavailable';
+  if (/service error: 5\d\d\b/.test(error)) return 'server_error';
+  return 'tool_error';
+}
+
+// Wait before a retry; ends early when the caller aborts
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Time left of the caller's timeout, shared by every attempt in a chain
+ */
+function createBudget(timeout: number | undefined) {
+  const deadline = timeout === undefined ? undefined : Date.now() + timeout;
+  return {
+    /** Unbounded without a timeout */
+    remainingMs: () =>
+      deadline === undefined ? Number.POSITIVE_INFINITY : Math.max(deadline - Date.now(), 0),
+    /** Timeout to pass to the next attempt */
+    attemptTimeout: () => (deadline === undefined ? undefined : Math.max(deadline - Date.now(), 0)),
+  };
+}
+
+type Budget = ReturnType<typeof createBudget>;
+
+interface StepOutcome {
+  result: ExecutorResult;
+  index: number;
+  label: string;
+  /** Whether the chain ends with this result (success or a failure not to retry elsewhere) */
+  final: boolean;
+}
+
+/**
+ * Run one executor of a chain with its retry policy, recording every attempt
+ */
+async function runStep(
+  step: ExecutorChain[number],
+  index: number,
+  request: ExecuteToolRequest,
+  options: ExecutorExecuteOptions,
+  budget: Budget,
+  attempts: ExecutorAttempt[]
+): Promise<StepOutcome> {
+  const adapter = getAdapterForConfig(step.executor);
+  const label = adapter.describe(step.executor);
+  const maxAttempts = step.retry?.maxAttempts ?? 1;
+  const retryOn = step.retry?.retryOn ?? DEFAULT_RETRY_ON;
+  let delayMs = step.retry?.backoffMs ?? DEFAULT_BACKOFF_MS;
+
+  for (let attempt = 1; ; attempt++) {
+    const startTime = Date.now();
+    const result = await adapter.execute(step.executor, request, {
+      ...options,
+      timeout: budget.attemptTimeout(),
+    });
+    const errorClass = result.success ? undefined : classifyExecutorError(result, options.signal);
+
+    attempts.push({
+      index,
+      type: step.executor.type,
+      executor: label,
+      attempt,
+      success: result.success,
+      error: result.error,
+      errorClass,
+      durationMs: Date.now() - startTime,
+    });
+
+    // Success, cancellation and non-retryable failures end the chain here
+    if (!errorClass || errorClass === 'cancelled' || !retryOn.includes(errorClass)) {
+      return { result, index, label, final: true };
+    }
+    // Out of attempts, or no time to back off and retry: fail over right away instead
+    if (attempt >= maxAttempts || budget.remainingMs() <= delayMs) {
+      return { result, index, label, final: false };
+    }
+
+    await sleep(delayMs, options.signal);
+    delayMs *= step.retry?.backoffMultiplier ?? DEFAULT_BACKOFF_MULTIPLIER;
+  }
+}
+
+/**
+ * Execute a tool through a failover chain
+ * `options.timeout` bounds the whole chain, retries and fallbacks included
+ */
+export async function executeWithFailover(
+  chain: ExecutorChain,
+  request: ExecuteToolRequest,
+  options: ExecutorExecuteOptions = {}
+): Promise<RoutedExecuteToolResponse> {
+  const attempts: ExecutorAttempt[] = [];
+  const budget = createBudget(options.timeout);
+  let last: StepOutcome | undefined;
+
+  for (const [index, step] of chain.entries()) {
+    if (last) {
+      // Out of time: the last failure stands
+      if (budget.remainingMs() === 0) break;
+      console.warn('[Executor] Failing over:', {
+        tool: `${request.packageName}/${request.name}`,
+        from: last.label,
+        to: getAdapterForConfig(step.executor).describe(step.executor),
+        error: last.result.error,
+      });
+    }
+
+    last = await runStep(step, index, request, options, budget, attempts);
+    if (last.final) break;
+  }
+
+  if (!last) {
+    return withRouting(
+      { success: false, error: 'No executors configured', executionTimeMs: 0 },
+      0,
+      'none',
+      attempts
+    );
+  }
+  return withRouting(last.result, last.index, last.label, attempts);
+}
+
+function withRouting(
+  result: ExecutorResult,
+  index: number,
+  label: string,
+  attempts: ExecutorAttempt[]
+): RoutedExecuteToolResponse {
+  return {
+    success: result.success,
+    output: result.output,
+    error: result.error,
+    executionTimeMs: result.executionTimeMs,
+    errorCode: result.errorCode,
+    logs: result.logs,
+    metrics: result.metrics,
+    resolvedVersion: result.resolvedVersion,
+    routing: {
+      servedBy: label,
+      servedByIndex: index,
+      failedOver: index > 0,
+      attempts,
+    },
+  };
+}
@@ -3,17 +3,46 @@
  *
  * Handles the cascade resolution for hot-swappable executors:
  * Agent Config → Collection Config → System Default
+ *
+ * Execution itself is delegated to the adapter registered for the config's type
+ * (see ./registry), through a failover chain when one is configured (see ./failover).
  */
 
-import { executePackage } from '@tpmjs/package-executor';
-import type {
-  ExecuteToolRequest,
-  ExecuteToolResponse,
-  ExecutorConfig,
-  ExecutorHealthResponse,
+import {
+  type ExecuteToolRequest,
+  type ExecutorConfig,
+  type ExecutorHealthResponse,
+  ExecutorTypeSchema,
+  type SingleExecutorConfig,
 } from '@tpmjs/types/executor';
-
-const DEFAULT_TIMEOUT = 300000; // 5 minutes for custom executors
+import { checkExecutorHealth, executeWithCustomUrl } from './custom-url';
+import {
+  type ExecutorChain,
+  executeWithFailover,
+  parseChainConfig,
+  type RoutedExecuteToolResponse,
+} from './failover';
+import {
+  type ExecutorExecuteOptions,
+  type ExecutorHealthResult,
+  getAdapterForConfig,
+  getExecutorAdapter,
+} from './registry';
+
+export { checkExecutorHealth } from './custom-url';
+export {
+  classifyExecutorError,
+  DEFAULT_RETRY_ON,
+  type RoutedExecuteToolResponse,
+} from './failover';
+export {
+  type ExecutorAdapter,
+  type ExecutorExecuteOptions,
+  type ExecutorHealthResult,
+  type ExecutorResult,
+  getExecutorAdapter,
+  registerExecutorAdapter,
+} from './registry';
 
 /**
  * Resolve executor configuration using cascade:
@@ -53,94 +82,26 @@ export function parseExecutorConfig(
     return null;
   }
 
-  if (executorType === 'default') {
-    return { type: 'default' };
+  const type = ExecutorTypeSchema.safeParse(executorType);
+  if (!type.success) {
+    return null;
   }
 
-  if (executorType === 'custom_url' && executorConfig && typeof executorConfig === 'object') {
-    const config = executorConfig as { url?: string; apiKey?: string };
-    if (config.url && typeof config.url === 'string') {
-      return {
-        type: 'custom_url',
-        url: config.url,
-        apiKey: typeof config.apiKey === 'string' ? config.apiKey : undefined,
-      };
-    }
+  if (type.data === 'chain') {
+    return parseChainConfig(executorConfig);
   }
 
-  return null;
+  return getExecutorAdapter(type.data)?.parseConfig(executorConfig) ?? null;
 }
 
 /**
- * Execute a tool using a custom URL executor
+ * Executors to try for a config, in order (a single executor is a chain of one)
  */
-async function executeWithCustomUrl(
-  url: string,
-  apiKey: string | undefined,
-  request: ExecuteToolRequest,
-  timeout: number = DEFAULT_TIMEOUT
-): Promise<ExecuteToolResponse> {
-  const startTime = Date.now();
-
-  const headers: Record<string, string> = {
-    'Content-Type': 'application/json',
-  };
-
-  if (apiKey) {
-    headers.Authorization = `Bearer ${apiKey}`;
-  }
-
-  try {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeout);
-
-    const response = await fetch(`${url}/execute-tool`, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify(request),
-      signal: controller.signal,
-    });
-
-    clearTimeout(timeoutId);
-
-    const executionTimeMs = Date.now() - startTime;
-
-    if (!response.ok) {
-      const errorData = (await response.json().catch(() => ({ error: 'Unknown error' }))) as {
-        error?: string;
-      };
-      return {
-        success: false,
-        error: errorData.error || `Executor error: ${response.status}`,
-        executionTimeMs,
-      };
-    }
-
-    const result = (await response.json()) as ExecuteToolResponse;
-
-    return {
-      success: result.success,
-      output: result.output,
-      error: result.error,
-      executionTimeMs: result.executionTimeMs || executionTimeMs,
-    };
-  } catch (error) {
-    const executionTimeMs = Date.now() - startTime;
-
-    if (error instanceof Error && error.name === 'AbortError') {
-      return {
-        success: false,
-        error: 'Execution timeout',
-        executionTimeMs,
-      };
-    }
-
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : String(error),
-      executionTimeMs,
-    };
-  }
+function toChain(config: ExecutorConfig | null): ExecutorChain {
+  const resolvedConfig = config ?? { type: 'default' };
+  return resolvedConfig.type === 'chain'
+    ? resolvedConfig.executors
+    : [{ executor: resolvedConfig as SingleExecutorConfig }];
 }
 
 /**
@@ -148,87 +109,32 @@ async function executeWithCustomUrl(
  *
  * @param config - Resolved executor config (or null for default)
  * @param request - Tool execution request
- * @returns Execution result
+ * @param options - Optional timeout override in milliseconds (defaults to 5 minutes) and an
+ *                  abort signal for caller cancellation
+ * @returns Execution result, with the executor that served it in `routing`
  */
 export async function executeWithExecutor(
   config: ExecutorConfig | null,
-  request: ExecuteToolRequest
-): Promise<ExecuteToolResponse> {
-  const resolvedConfig = config ?? { type: 'default' };
-
-  // Use custom URL executor
-  if (resolvedConfig.type === 'custom_url' && resolvedConfig.url) {
-    return executeWithCustomUrl(resolvedConfig.url, resolvedConfig.apiKey, request);
-  }
-
-  // Default: use existing package-executor (which uses SANDBOX_EXECUTOR_URL)
-  const result = await executePackage(request.packageName, request.name, request.params, {
-    env: request.env,
-  });
-
-  return {
-    success: result.success,
-    output: result.output,
-    error: result.error,
-    executionTimeMs: result.executionTimeMs,
-  };
+  request: ExecuteToolRequest,
+  options: ExecutorExecuteOptions = {}
+): Promise<RoutedExecuteToolResponse> {
+  return executeWithFailover(toChain(config), request, options);
 }
 
 /**
- * Check the health of a custom executor URL
- *
- * @param url - Executor URL to check
- * @param apiKey - Optional API key for authentication
- * @returns Health check response or error
+ * Check the health of the executor a config resolves to
+ * A chain is healthy when any of its executors is
  */
-export async function checkExecutorHealth(
-  url: string,
-  apiKey?: string
-): Promise<{ healthy: boolean; response?: ExecutorHealthResponse; error?: string }> {
-  const headers: Record<string, string> = {};
-
-  if (apiKey) {
-    headers.Authorization = `Bearer ${apiKey}`;
-  }
-
-  try {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 10000); // 10 second timeout for health checks
-
-    const response = await fetch(`${url}/health`, {
-      method: 'GET',
-      headers,
-      signal: controller.signal,
-    });
-
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      return {
-        healthy: false,
-        error: `Health check failed: ${response.status}`,
-      };
-    }
-
-    const data = (await response.json()) as ExecutorHealthResponse;
-
-    return {
-      healthy: data.status === 'ok' || data.status === 'degraded',
-      response: data,
-    };
-  } catch (error) {
-    if (error instanceof Error && error.name === 'AbortError') {
-      return {
-        healthy: false,
-        error: 'Health check timeout',
-      };
-    }
-
-    return {
-      healthy: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-    };
+export async function checkExecutorConfigHealth(
+  config: ExecutorConfig | null
+): Promise<ExecutorHealthResult> {
+  let firstFailure: ExecutorHealthResult | undefined;
+  for (const { executor } of toChain(config)) {
+    const result = await getAdapterForConfig(executor).health(executor);
+    if (result.healthy) return result;
+    firstFailure ??= result;
   }
+  return firstFailure ?? { healthy: false, error: 'No executors configured' };
 }
 
 /**
@@ -236,11 +142,13 @@ export async function checkExecutorHealth(
  *
  * @param url - Executor URL to test
  * @param apiKey - Optional API key for authentication
+ * @param signingSecret - Optional plaintext secret for request signing
  * @returns Test execution result
  */
 export async function testExecutor(
   url: string,
-  apiKey?: string
+  apiKey?: string,
+  signingSecret?: string
 ): Promise<{ success: boolean; executionTimeMs: number; error?: string }> {
   const testRequest: ExecuteToolRequest = {
     packageName: '@tpmjs/hello',
@@ -249,7 +157,10 @@ export async function testExecutor(
     params: { includeTimestamp: true },
   };
 
-  const result = await executeWithCustomUrl(url, apiKey, testRequest, 30000); // 30 second timeout for test (includes npm install)
+  const result = await executeWithCustomUrl(url, apiKey, testRequest, {
+    timeout: 30000, // 30 second timeout for test (includes npm install)
+    signingSecret,
+  });
 
   return {
     success: result.success,
@@ -263,11 +174,13 @@ export async function testExecutor(
  *
  * @param url - Executor URL to verify
  * @param apiKey - Optional API key for authentication
+ * @param signingSecret - Optional plaintext secret for request signing
  * @returns Verification result
  */
 export async function verifyExecutor(
   url: string,
-  apiKey?: string
+  apiKey?: string,
+  signingSecret?: string
 ): Promise<{
   valid: boolean;
   healthCheck?: { healthy: boolean; response?: ExecutorHealthResponse };
@@ -288,7 +201,7 @@ export async function verifyExecutor(
   }
 
   // Check health endpoint
-  const healthResult = await checkExecutorHealth(url, apiKey);
+  const healthResult = await checkExecutorHealth(url, apiKey, signingSecret);
   if (!healthResult.healthy) {
     errors.push(healthResult.error || 'Health check failed');
   }
@@ -296,7 +209,7 @@ export async function verifyExecutor(
   // Test execution (only if health check passed)
   let testResult: { success: boolean; executionTimeMs: number } | undefined;
   if (healthResult.healthy) {
-    const execResult = await testExecutor(url, apiKey);
+    const execResult = await testExecutor(url, apiKey, signingSecret);
     testResult = {
       success: execResult.success,
       executionTimeMs: execResult.executionTimeMs,
@@ -321,18 +234,8 @@ export async function verifyExecutor(
  * Get executor description for display
  */
 export function getExecutorDescription(config: ExecutorConfig | null): string {
-  if (!config || config.type === 'default') {
-    return 'TPMJS Default Executor';
-  }
-
-  if (config.type === 'custom_url') {
-    try {
-      const url = new URL(config.url);
-      return `Custom: ${url.hostname}`;
-    } catch {
-      return 'Custom Executor';
-    }
-  }
-
-  return 'Unknown Executor';
+  const labels = toChain(config).map(({ executor }) =>
+    getAdapterForConfig(executor).describe(executor)
+  );
+  return labels.length > 1 ? `Failover: ${labels.join(' → ')}` : (labels[0] ?? 'Unknown Executor');
 }
@@ -0,0 +1,180 @@
+/**
+ * Tests for the local_process executor adapter
+ * Runs fixture tools in real child processes (no network executor)
+ */
+
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { executeWithExecutor, getExecutorDescription, parseExecutorConfig } from './index';
+import { LOCAL_PROCESS_INSTALL_ROOT } from './local-process';
+
+const FIXTURE_SOURCE = `
+export const echoTool = {
+  description: 'Echo params and the API key the tool can see',
+  execute: async (params) => {
+    console.log('echoing', params);
+    console.warn('careful');
+    return { params, apiKey: process.env.TEST_API_KEY ?? null, databaseUrl: process.env.DATABASE_URL ?? null };
+  },
+};
+
+export const failingTool = {
+  description: 'Always throws',
+  execute: async () => {
+    throw new Error('upstream exploded');
+  },
+};
+
+export const createGreetingTool = (config) => {
+  const greeting = config.GREETING;
+  return { description: 'Factory tool', execute: async ({ name }) => greeting + ', ' + name };
+};
+
+export const slowTool = {
+  description: 'Never finishes',
+  execute: () => new Promise(() => setInterval(() => {}, 1000)),
+};
+
+export const hungryTool = {
+  description: 'Allocates until it runs out of heap',
+  execute: async () => {
+    const chunks = [];
+    for (;;) chunks.push(new Array(1e6).fill(Math.random()));
+  },
+};
+`;
+
+let fixtureDir: string;
+let importUrl: string;
+
+beforeAll(() => {
+  fixtureDir = mkdtempSync(join(tmpdir(), 'tpmjs-local-executor-'));
+  const fixturePath = join(fixtureDir, 'tools.mjs');
+  writeFileSync(fixturePath, FIXTURE_SOURCE);
+  importUrl = pathToFileURL(fixturePath).href;
+});
+
+afterAll(() => {
+  rmSync(fixtureDir, { recursive: true, force: true });
+});
+
+const run = (
+  name: string,
+  options: { params?: Record<string, unknown>; env?: Record<string, string> } = {},
+  limits: { memoryLimitMb?: number; timeoutMs?: number } = {}
+) =>
+  executeWithExecutor(
+    { type: 'local_process', ...limits },
+    {
+      packageName: 'fixture-tools',
+      name,
+      importUrl,
+      params: options.params ?? {},
+      env: options.env,
+    }
+  );
+
+describe('local_process executor', () => {
+  it('parses stored config through the adapter registry', () => {
+    expect(parseExecutorConfig('local_process', null)).toEqual({ type: 'local_process' });
+    expect(parseExecutorConfig('local_process', { memoryLimitMb: 128 })).toEqual({
+      type: 'local_process',
+      memoryLimitMb: 128,
+    });
+    expect(parseExecutorConfig('local_process', { url: 'https://example.com' })).toBeNull();
+    expect(parseExecutorConfig('docker', {})).toBeNull();
+    expect(getExecutorDescription({ type: 'local_process', memoryLimitMb: 128 })).toBe(
+      'Local process (128 MB)'
+    );
+  });
+
+  it('executes a tool with only the request env', async () => {
+    process.env.DATABASE_URL ??= 'postgres://server-secret';
+
+    const result = await run('echoTool', {
+      params: { query: 'hi' },
+      env: { TEST_API_KEY: 'key-1' },
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.output).toEqual({ params: { query: 'hi' }, apiKey: 'key-1', databaseUrl: null });
+    expect(result.logs?.map(({ stream, message }) => ({ stream, message }))).toEqual([
+      { stream: 'stdout', message: 'echoing {"query":"hi"}' },
+      { stream: 'stderr', message: 'careful' },
+    ]);
+    expect(result.metrics?.peakMemoryBytes).toBeGreaterThan(0);
+  });
+
+  it('initializes factory exports with the env vars', async () => {
+    const result = await run('createGreetingTool', {
+      params: { name: 'Ada' },
+      env: { GREETING: 'Hello' },
+    });
+
+    expect(result).toMatchObject({ success: true, output: 'Hello, Ada' });
+  });
+
+  it('reports missing exports', async () => {
+    const result = await run('missingTool');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('not found');
+    expect(result.errorCode).toBe('IMPORT_FAILED');
+  });
+
+  it('reports errors thrown by the tool', async () => {
+    const result = await run('failingTool');
+
+    expect(result).toMatchObject({
+      success: false,
+      error: 'upstream exploded',
+      errorCode: 'TOOL_THREW',
+    });
+  });
+
+  it('kills tools that exceed the time budget', async () => {
+    const result = await run('slowTool', {}, { timeoutMs: 1000 });
+
+    expect(result).toMatchObject({
+      success: false,
+      error: 'Execution timeout',
+      errorCode: 'TIMEOUT',
+    });
+    expect(result.executionTimeMs).toBeLessThan(5000);
+  });
+
+  it('fails tools that exceed the memory budget', async () => {
+    const result = await run('hungryTool', {}, { memoryLimitMb: 32 });
+
+    expect(result).toMatchObject({ success: false, error: 'Memory limit exceeded (32 MB)' });
+  });
+
+  it('runs a pinned version from its install directory', async () => {
+    // A previously installed pin is reused without running npm
+    const installDir = join(LOCAL_PROCESS_INSTALL_ROOT, 'fixture-pinned@1.0.0');
+    const packageDir = join(installDir, 'node_modules', 'fixture-pinned');
+    mkdirSync(packageDir, { recursive: true });
+    writeFileSync(
+      join(packageDir, 'package.json'),
+      JSON.stringify({ name: 'fixture-pinned', version: '1.0.0', type: 'module', main: 'index.js' })
+    );
+    writeFileSync(
+      join(packageDir, 'index.js'),
+      "export const versionTool = { description: 'v1', execute: async () => 'v1' };"
+    );
+
+    try {
+      const result = await executeWithExecutor(
+        { type: 'local_process' },
+        { packageName: 'fixture-pinned', name: 'versionTool', version: '1.0.0', params: {} }
+      );
+
+      expect(result).toMatchObject({ success: true, output: 'v1', resolvedVersion: '1.0.0' });
+    } finally {
+      rmSync(installDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,399 @@
+/**
+ * Local Process Executor Adapter
+ *
+ * Runs each tool call in a child Node process on the same machine, with a heap limit
+ * (--max-old-space-size) and a wall-clock limit. Packages are imported with Node module
+ * resolution from the server's working directory (or from `importUrl`, e.g. a file:// URL),
+ * so the installed version is used and no network executor is needed. A version pin the
+ * installed version doesn't satisfy is installed with npm into a per-version directory the
+ * child runs from.
+ *
+ * Meant for development and tests: disabled in production unless
+ * LOCAL_PROCESS_EXECUTOR_ENABLED=true.
+ */
+
+import { type ChildProcess, execFile, spawn } from 'node:child_process';
+import { createRequire } from 'node:module';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { promisify } from 'node:util';
+import type { ExecuteToolRequest, LocalProcessExecutorConfig } from '@tpmjs/types/executor';
+import { LocalProcessExecutorSettingsSchema } from '@tpmjs/types/executor';
+import semver from 'semver';
+import { isValidVersionPin } from '../versions';
+import type { ExecutorAdapter, ExecutorResult } from './registry';
+
+const DEFAULT_MEMORY_LIMIT_MB = 256;
+const DEFAULT_TIMEOUT = 60000; // 1 minute
+const STDERR_TAIL_BYTES = 2000;
+const MAX_LOG_LINES = 200;
+const OUT_OF_MEMORY_MARKER = 'heap out of memory';
+
+// Pinned versions are installed under here, one directory per package and pin
+export const LOCAL_PROCESS_INSTALL_ROOT = join(tmpdir(), 'tpmjs-local-executor');
+
+// Installs running on this server, so concurrent calls share one npm run per pin
+const installs = new Map<string, Promise<void>>();
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Child process entry point: receives one request over IPC, replies with the result
+ * The reply includes the tool's console output and the child's peak RSS
+ */
+const RUNNER_SOURCE = `
+import { createRequire } from 'node:module';
+
+const logs = [];
+const format = (arg) => {
+  if (typeof arg === 'string') return arg;
+  try {
+    return JSON.stringify(arg);
+  } catch {
+    return String(arg);
+  }
+};
+for (const [method, stream] of [['log', 'stdout'], ['info', 'stdout'], ['debug', 'stdout'], ['warn', 'stderr'], ['error', 'stderr']]) {
+  const original = console[method].bind(console);
+  console[method] = (...args) => {
+    original(...args);
+    if (logs.length < ${MAX_LOG_LINES}) {
+      logs.push({ stream, message: args.map(format).join(' '), timestamp: Date.now() });
+    }
+  };
+}
+
+const resolveVersion = (packageName) => {
+  try {
+    return createRequire(process.cwd() + '/')(packageName + '/package.json').version;
+  } catch {
+    return undefined;
+  }
+};
+
+const reply = (result) =>
+  process.send(
+    {
+      ...result,
+      logs,
+      metrics: { peakMemoryBytes: process.resourceUsage().maxRSS * 1024, cacheHit: false },
+    },
+    () => process.exit(0)
+  );
+
+process.once('message', async (request) => {
+  let mod;
+  try {
+    mod = await import(request.importUrl || request.packageName);
+  } catch (error) {
+    return reply({ success: false, error: error instanceof Error ? error.message : String(error), errorCode: 'IMPORT_FAILED' });
+  }
+  try {
+    const resolvedVersion = request.importUrl ? undefined : resolveVersion(request.packageName);
+    let tool = mod[request.name];
+    if (!tool) {
+      return reply({ success: false, error: 'Tool "' + request.name + '" not found in ' + request.packageName, errorCode: 'IMPORT_FAILED', resolvedVersion });
+    }
+    // Factory exports: try no args, then the env vars as a config object
+    if (typeof tool === 'function' && typeof tool.execute !== 'function') {
+      let created;
+      try {
+        created = await tool();
+      } catch {
+        // Needs a config object
+      }
+      tool = typeof created?.execute === 'function' ? created : await tool({ ...request.env });
+    }
+    if (typeof tool?.execute !== 'function') {
+      return reply({ success: false, error: 'Tool missing execute function', errorCode: 'IMPORT_FAILED', resolvedVersion });
+    }
+    try {
+      const output = await tool.execute(request.params, {
+        abortSignal: new AbortController().signal,
+        messages: [],
+        toolCallId: 'local_' + Date.now(),
+      });
+      reply({ success: true, output: JSON.parse(JSON.stringify(output ?? null)), resolvedVersion });
+    } catch (error) {
+      const errorCode = error?.name === 'ZodError' ? 'INVALID_INPUT' : 'TOOL_THREW';
+      reply({ success: false, error: error instanceof Error ? error.message : String(error), errorCode, resolvedVersion });
+    }
+  } catch (error) {
+    // Factory calls that throw
+    reply({ success: false, error: error instanceof Error ? error.message : String(error), errorCode: 'IMPORT_FAILED' });
+  }
+});
+`;
+
+/**
+ * Whether tools may be run in local child processes
+ */
+export function isLocalProcessExecutorEnabled(): boolean {
+  return (
+    process.env.NODE_ENV !== 'production' || process.env.LOCAL_PROCESS_EXECUTOR_ENABLED === 'true'
+  );
+}
+
+/**
+ * Child env: request env vars only (plus PATH/NODE_ENV), never the server's own secrets
+ */
+function buildChildEnv(requestEnv: Record<string, string> | undefined): NodeJS.ProcessEnv {
+  return { PATH: process.env.PATH, NODE_ENV: process.env.NODE_ENV, ...requestEnv };
+}
+
+/**
+ * Version of a package as resolved from a directory, if installed there
+ */
+function installedVersion(packageName: string, dir: string): string | undefined {
+  try {
+    return createRequire(join(dir, '/'))(`${packageName}/package.json`).version;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Directory the child resolves the package from so a version pin is honoured
+ * Unpinned requests, and pins the server's installed version satisfies, use the working
+ * directory; other pins are installed once into their own directory.
+ * @throws Error if npm fails to install the pinned version
+ */
+async function resolvePackageDir(
+  request: ExecuteToolRequest,
+  options: { timeoutMs: number; signal?: AbortSignal }
+): Promise<string> {
+  const pin = request.version;
+  if (request.importUrl || !pin || pin === 'latest' || !isValidVersionPin(pin)) {
+    return process.cwd();
+  }
+
+  const current = installedVersion(request.packageName, process.cwd());
+  if (current && semver.satisfies(current, pin)) {
+    return process.cwd();
+  }
+
+  const installDir = join(
+    LOCAL_PROCESS_INSTALL_ROOT,
+    `${request.packageName}@${pin}`.replace(/[^\w.@^~-]/g, '_')
+  );
+  if (installedVersion(request.packageName, installDir)) {
+    return installDir;
+  }
+
+  let install = installs.get(installDir);
+  if (!install) {
+    install = execFileAsync(
+      'npm',
+      [
+        'install',
+        `${request.packageName}@${pin}`,
+        '--prefix',
+        installDir,
+        '--no-save',
+        '--no-package-lock',
+        '--ignore-scripts',
+        '--no-audit',
+        '--no-fund',
+      ],
+      { timeout: options.timeoutMs, signal: options.signal }
+    )
+      .then(() => undefined)
+      .finally(() => installs.delete(installDir));
+    installs.set(installDir, install);
+  }
+  await install;
+  return installDir;
+}
+
+/**
+ * Run a tool in a child Node process within the given memory and time budget
+ * Installing a pinned version counts towards the time budget
+ */
+export async function executeInLocalProcess(
+  request: ExecuteToolRequest,
+  limits: { memoryLimitMb: number; timeoutMs: number },
+  signal?: AbortSignal
+): Promise<ExecutorResult> {
+  const startTime = Date.now();
+
+  let packageDir: string;
+  try {
+    packageDir = await resolvePackageDir(request, { timeoutMs: limits.timeoutMs, signal });
+  } catch (error) {
+    if (signal?.aborted) {
+      return {
+        success: false,
+        error: 'Execution cancelled',
+        executionTimeMs: Date.now() - startTime,
+        errorClass: 'cancelled',
+      };
+    }
+    return {
+      success: false,
+      error: `Failed to install ${request.packageName}@${request.version}: ${error instanceof Error ? error.message : String(error)}`,
+      errorCode: 'IMPORT_FAILED',
+      executionTimeMs: Date.now() - startTime,
+      errorClass: 'tool_error',
+    };
+  }
+  const remainingMs = Math.max(limits.timeoutMs - (Date.now() - startTime), 0);
+
+  return new Promise((resolve) => {
+    let stderr = '';
+    let outOfMemory = false;
+    let settled = false;
+
+    const child: ChildProcess = spawn(
+      process.execPath,
+      [
+        `--max-old-space-size=${limits.memoryLimitMb}`,
+        '--input-type=module',
+        '--eval',
+        RUNNER_SOURCE,
+      ],
+      {
+        cwd: packageDir,
+        env: buildChildEnv(request.env),
+        stdio: ['ignore', 'inherit', 'pipe', 'ipc'],
+      }
+    );
+
+    const settle = (result: Omit<ExecutorResult, 'executionTimeMs'>) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onCallerAbort);
+      if (child.exitCode === null && child.signalCode === null) {
+        child.kill('SIGKILL');
+      }
+      resolve({ ...result, executionTimeMs: Date.now() - startTime });
+    };
+
+    const timeoutId = setTimeout(
+      () =>
+        settle({
+          success: false,
+          error: 'Execution timeout',
+          errorCode: 'TIMEOUT',
+          errorClass: 'timeout',
+        }),
+      remainingMs
+    );
+    const onCallerAbort = () =>
+      settle({ success: false, error: 'Execution cancelled', errorClass: 'cancelled' });
+    if (signal?.aborted) {
+      onCallerAbort();
+      return;
+    }
+    signal?.addEventListener('abort', onCallerAbort, { once: true });
+
+    child.stderr?.on('data', (chunk: Buffer) => {
+      // V8 prints a long stack after the OOM message, so check before keeping only the tail
+      stderr += chunk.toString();
+      outOfMemory ||= stderr.includes(OUT_OF_MEMORY_MARKER);
+      stderr = stderr.slice(-STDERR_TAIL_BYTES);
+    });
+
+    child.on('message', (message) => {
+      const result = message as Omit<ExecutorResult, 'executionTimeMs'>;
+      settle({
+        success: result.success,
+        output: result.output,
+        error: result.error,
+        errorCode: result.errorCode,
+        logs: result.logs,
+        metrics: result.metrics,
+        resolvedVersion: result.resolvedVersion,
+        errorClass: result.success ? undefined : 'tool_error',
+      });
+    });
+
+    child.on('error', (error) => {
+      settle({
+        success: false,
+        error: `Failed to start process: ${error.message}`,
+        errorClass: 'unavailable',
+      });
+    });
+
+    // 'close' fires after the IPC channel drains, so a reply is never mistaken for a crash
+    child.on('close', (code, exitSignal) => {
+      if (outOfMemory) {
+        settle({
+          success: false,
+          error: `Memory limit exceeded (${limits.memoryLimitMb} MB)`,
+          errorClass: 'tool_error',
+        });
+        return;
+      }
+      const reason = exitSignal ? `signal ${exitSignal}` : `code ${code}`;
+      const details = stderr.trim() ? `: ${stderr.trim().split('\n').slice(-3).join(' ')}` : '';
+      settle({
+        success: false,
+        error: `Process exited with ${reason}${details}`,
+        errorClass: 'server_error',
+      });
+    });
+
+    child.send({
+      packageName: request.packageName,
+      name: request.name,
+      importUrl: request.importUrl,
+      params: request.params ?? {},
+      env: request.env ?? {},
+    });
+  });
+}
+
+export const localProcessAdapter: ExecutorAdapter<LocalProcessExecutorConfig> = {
+  type: 'local_process',
+
+  parseConfig(rawConfig) {
+    const parsed = LocalProcessExecutorSettingsSchema.safeParse(rawConfig ?? {});
+    return parsed.success ? { type: 'local_process', ...parsed.data } : null;
+  },
+
+  async execute(config, request, options) {
+    if (!isLocalProcessExecutorEnabled()) {
+      return {
+        success: false,
+        error: 'Local process executor is disabled in production',
+        executionTimeMs: 0,
+        errorClass: 'unavailable',
+      };
+    }
+
+    // The config budget is a ceiling; a shorter caller timeout still applies
+    const timeoutMs = Math.min(
+      config.timeoutMs ?? DEFAULT_TIMEOUT,
+      options.timeout ?? Number.POSITIVE_INFINITY
+    );
+
+    return executeInLocalProcess(
+      request,
+      { memoryLimitMb: config.memoryLimitMb ?? DEFAULT_MEMORY_LIMIT_MB, timeoutMs },
+      options.signal
+    );
+  },
+
+  async health(config) {
+    if (!isLocalProcessExecutorEnabled()) {
+      return { healthy: false, error: 'Local process executor is disabled in production' };
+    }
+    return {
+      healthy: true,
+      response: {
+        status: 'ok',
+        version: process.versions.node,
+        info: {
+          memoryLimitMb: config.memoryLimitMb ?? DEFAULT_MEMORY_LIMIT_MB,
+          timeoutMs: config.timeoutMs ?? DEFAULT_TIMEOUT,
+        },
+      },
+    };
+  },
+
+  describe(config) {
+    return `Local process (${config.memoryLimitMb ?? DEFAULT_MEMORY_LIMIT_MB} MB)`;
+  },
+};
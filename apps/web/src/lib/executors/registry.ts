@@ -0,0 +1,86 @@
+/**
+ * Executor Adapter Registry
+ *
+ * Every executor type is an adapter with the same interface (parse, execute, health,
+ * describe). Execution paths look adapters up by `ExecutorConfig.type` instead of
+ * branching on the type themselves. Failover chains are not adapters; they run a list
+ * of adapters in order (see ./failover).
+ */
+
+import type {
+  ExecuteToolRequest,
+  ExecuteToolResponse,
+  ExecuteToolStreamEvent,
+  ExecutorErrorClass,
+  ExecutorHealthResponse,
+  SingleExecutorConfig,
+} from '@tpmjs/types/executor';
+import { customUrlAdapter } from './custom-url';
+import { defaultAdapter } from './default';
+import { localProcessAdapter } from './local-process';
+
+export interface ExecutorExecuteOptions {
+  /** Timeout override in milliseconds (for a failover chain, the budget of the whole chain) */
+  timeout?: number;
+  /** Abort signal for caller cancellation */
+  signal?: AbortSignal;
+  /** Receive log/progress/partial events while the tool runs (when the executor streams) */
+  onEvent?: (event: ExecuteToolStreamEvent) => void;
+}
+
+export interface ExecutorResult extends ExecuteToolResponse {
+  /** Failure class for retry policies, when the adapter knows it (see classifyExecutorError) */
+  errorClass?: ExecutorErrorClass;
+}
+
+export interface ExecutorHealthResult {
+  healthy: boolean;
+  response?: ExecutorHealthResponse;
+  error?: string;
+}
+
+export interface ExecutorAdapter<TConfig extends SingleExecutorConfig = SingleExecutorConfig> {
+  type: TConfig['type'];
+  /** Build a config from the stored executorConfig JSON (null when invalid) */
+  parseConfig(rawConfig: unknown): TConfig | null;
+  execute(
+    config: TConfig,
+    request: ExecuteToolRequest,
+    options: ExecutorExecuteOptions
+  ): Promise<ExecutorResult>;
+  health(config: TConfig): Promise<ExecutorHealthResult>;
+  /** Short label for display */
+  describe(config: TConfig): string;
+}
+
+type AdapterType = SingleExecutorConfig['type'];
+type AdapterFor<T extends AdapterType> = ExecutorAdapter<
+  Extract<SingleExecutorConfig, { type: T }>
+>;
+
+const adapters = new Map<AdapterType, ExecutorAdapter>();
+
+/**
+ * Register (or replace) the adapter for an executor type
+ */
+export function registerExecutorAdapter<T extends AdapterType>(adapter: AdapterFor<T>): void {
+  adapters.set(adapter.type, adapter as unknown as ExecutorAdapter);
+}
+
+/**
+ * Get the adapter for an executor type
+ */
+export function getExecutorAdapter<T extends AdapterType>(type: T): AdapterFor<T> | undefined {
+  return adapters.get(type) as AdapterFor<T> | undefined;
+}
+
+/**
+ * Get the adapter for a config, falling back to the default executor
+ */
+export function getAdapterForConfig(config: SingleExecutorConfig): ExecutorAdapter {
+  return adapters.get(config.type) ?? (defaultAdapter as unknown as ExecutorAdapter);
+}
+
+registerExecutorAdapter(defaultAdapter);
+registerExecutorAdapter(customUrlAdapter);
+registerExecutorAdapter(localProcessAdapter);
@@ -0,0 +1,23 @@
+/**
+ * Tests for health check error classification
+ */
+
+import { describe, expect, it } from 'vitest';
+import { isNonBreakingError } from './error-classification';
+
+describe('isNonBreakingError', () => {
+  it('trusts executor error codes', () => {
+    expect(isNonBreakingError('Unauthorized', 'ENV_MISSING')).toBe(true);
+    expect(isNonBreakingError('Invalid input: query: Required', 'INVALID_INPUT')).toBe(true);
+    // Messages that look like config errors don't rescue import failures or timeouts
+    expect(isNonBreakingError('API key is required', 'IMPORT_FAILED')).toBe(false);
+    expect(isNonBreakingError('Execution timed out after 30000ms', 'TIMEOUT')).toBe(false);
+  });
+
+  it('matches the message for TOOL_THREW and executors without error codes', () => {
+    expect(isNonBreakingError('OPENAI_API_KEY is not set', 'TOOL_THREW')).toBe(true);
+    expect(isNonBreakingError('Expected string, received number')).toBe(true);
+    expect(isNonBreakingError('Cannot read properties of undefined', 'TOOL_THREW')).toBe(false);
+    expect(isNonBreakingError(null)).toBe(false);
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Health Check Error Classification
+ * Decides whether a failed import/execution means the tool is broken
+ */
+
+import type { ExecutorErrorCode } from '@tpmjs/types/executor';
+
+/**
+ * Error codes that mean the tool works but needs setup or got bad input
+ */
+const NON_BREAKING_ERROR_CODES: ExecutorErrorCode[] = ['ENV_MISSING', 'INVALID_INPUT'];
+
+/**
+ * Check if an error is due to missing environment variables (configuration issue)
+ * rather than a broken tool (code issue)
+ */
+export function isEnvironmentConfigError(error: string | null): boolean {
+  if (!error) return false;
+
+  const envErrorPatterns = [
+    /is required/i,
+    /is not set/i,
+    /missing.*environment/i,
+    /environment.*missing/i,
+    /api key.*required/i,
+    /api key.*not provided/i,
+    /missing.*api key/i,
+    /must be set/i,
+    /not found.*environment/i,
+    /please set/i,
+    /please provide/i,
+    /configure.*environment/i,
+  ];
+
+  return envErrorPatterns.some((pattern) => pattern.test(error));
+}
+
+/**
+ * Check if an error is due to input validation (Zod validation, URL format, etc.)
+ * These errors mean the tool is working correctly - it's validating input as expected
+ */
+export function isInputValidationError(error: string | null): boolean {
+  if (!error) return false;
+
+  const validationErrorPatterns = [
+    /must have a valid.*domain/i, // URL validation
+    /valid.*path/i, // Path validation
+    /invalid.*url/i, // URL format
+    /invalid.*format/i, // General format validation
+    /expected.*received/i, // Zod type errors
+    /must be.*string/i, // Type validation
+    /must be.*number/i,
+    /must be.*boolean/i,
+    /must be.*array/i,
+    /must be.*object/i,
+    /validation.*failed/i, // General validation
+    /does not match/i, // Pattern/regex validation
+    /too short/i, // Length validation
+    /too long/i,
+    /minimum.*length/i,
+    /maximum.*length/i,
+  ];
+
+  return validationErrorPatterns.some((pattern) => pattern.test(error));
+}
+
+/**
+ * Check if an error is a configuration or input issue (not a broken tool)
+ * Trusts the executor's error code when there is one; TOOL_THREW and executors without
+ * error codes fall back to matching the message
+ */
+export function isNonBreakingError(
+  error: string | null,
+  errorCode?: ExecutorErrorCode | null
+): boolean {
+  if (errorCode && errorCode !== 'TOOL_THREW') {
+    return NON_BREAKING_ERROR_CODES.includes(errorCode);
+  }
+  return isEnvironmentConfigError(error) || isInputValidationError(error);
+}
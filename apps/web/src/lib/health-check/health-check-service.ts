@@ -4,7 +4,15 @@
  */
 
 import { type HealthStatus, type Package, type Prisma, type Tool, prisma } from '@tpmjs/db';
+import type {
+  ExecuteToolResponse,
+  ExecutionMetrics,
+  ExecutorErrorCode,
+  ExecutorLogLine,
+} from '@tpmjs/types/executor';
 import { env } from '~/env';
+import { recordToolVersionHealth } from '~/lib/package-versions';
+import { isNonBreakingError } from './error-classification';
 
 const RAILWAY_EXECUTOR_URL = env.RAILWAY_EXECUTOR_URL;
 
@@ -16,9 +24,31 @@ interface HealthCheckResult {
   executionStatus: HealthStatus;
   executionError: string | null;
   executionTimeMs: number | null;
+  executionErrorCode: ExecutorErrorCode | null;
+  executionMetrics: ExecutionMetrics | null;
+  resolvedVersion: string | null;
   overallStatus: HealthStatus;
 }
 
+/**
+ * Result of the execution check, including the executor's structured report
+ */
+interface ExecutionCheckResult {
+  status: HealthStatus;
+  error: string | null;
+  timeMs: number;
+  testParams: Record<string, unknown>;
+  errorCode?: ExecutorErrorCode;
+  logs?: ExecutorLogLine[];
+  metrics?: ExecutionMetrics;
+  resolvedVersion?: string;
+}
+
+/**
+ * Error codes that mean the tool itself is broken, whatever the HTTP status
+ */
+const BREAKING_ERROR_CODES: ExecutorErrorCode[] = ['IMPORT_FAILED', 'TIMEOUT'];
+
 /**
  * Check if a tool can be imported (load-and-describe)
  */
@@ -98,15 +128,13 @@ async function checkImportHealth(tool: Tool & { package: Package }): Promise<{
  * Check if a tool can execute with test parameters
  *
  * IMPORTANT: If the tool executes at all (even with errors), it's HEALTHY.
- * We only mark as BROKEN for infrastructure failures (timeouts, network errors).
+ * We only mark as BROKEN for infrastructure failures (timeouts, network errors) and for
+ * IMPORT_FAILED/TIMEOUT error codes.
  * Validation errors mean the tool IS working - it's correctly rejecting bad input.
  */
-async function checkExecutionHealth(tool: Tool & { package: Package }): Promise<{
-  status: HealthStatus;
-  error: string | null;
-  timeMs: number;
-  testParams: Record<string, unknown>;
-}> {
+async function checkExecutionHealth(
+  tool: Tool & { package: Package }
+): Promise<ExecutionCheckResult> {
   const startTime = Date.now();
 
   // Generate test parameters based on tool schema
@@ -127,32 +155,45 @@ async function checkExecutionHealth(tool: Tool & { package: Package }): Promise<
     });
 
     const timeMs = Date.now() - startTime;
+    const data = (await response.json().catch(() => ({}))) as Partial<ExecuteToolResponse>;
+    const report = {
+      timeMs,
+      testParams,
+      errorCode: data.errorCode,
+      logs: data.logs,
+      metrics: data.metrics,
+      resolvedVersion: data.resolvedVersion,
+    };
 
     // If we got a response from the executor, the tool executed
     // Any error in the response is from the tool itself (validation, env, etc.)
     // which means the tool IS working - it's correctly processing/rejecting input
     if (response.ok) {
       // Executor responded - tool executed (success or tool-level error)
-      return { status: 'HEALTHY', error: null, timeMs, testParams };
+      return { status: 'HEALTHY', error: null, ...report };
     }
 
     // HTTP error from executor - could be tool-level or infrastructure
-    const data = await response.json().catch(() => ({}));
     const error = data.error || `HTTP ${response.status}`;
 
+    // The tool could not be loaded or hung
+    if (data.errorCode && BREAKING_ERROR_CODES.includes(data.errorCode)) {
+      return { status: 'BROKEN', error, ...report };
+    }
+
     // Check if this is a config/validation error (tool is working, just missing setup)
-    // The executor returns 500 for all tool errors, so we need to inspect the message
-    if (isNonBreakingError(error)) {
-      return { status: 'HEALTHY', error: null, timeMs, testParams };
+    // Uses the executor's error code, or the message for executors without one
+    if (isNonBreakingError(error, data.errorCode)) {
+      return { status: 'HEALTHY', error: null, ...report };
     }
 
     // True infrastructure failures (executor down, rate limited, etc.)
     if (response.status >= 500) {
-      return { status: 'BROKEN', error, timeMs, testParams };
+      return { status: 'BROKEN', error, ...report };
     }
 
     // 4xx errors are likely tool-level validation/config issues
-    return { status: 'HEALTHY', error: null, timeMs, testParams };
+    return { status: 'HEALTHY', error: null, ...report };
   } catch (error) {
     // Network/timeout errors are infrastructure issues
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -167,67 +208,6 @@ async function checkExecutionHealth(tool: Tool & { package: Package }): Promise<
   }
 }
 
-/**
- * Check if an error is due to missing environment variables (configuration issue)
- * rather than a broken tool (code issue)
- */
-function isEnvironmentConfigError(error: string | null): boolean {
-  if (!error) return false;
-
-  const envErrorPatterns = [
-    /is required/i,
-    /is not set/i,
-    /missing.*environment/i,
-    /environment.*missing/i,
-    /api key.*required/i,
-    /api key.*not provided/i,
-    /missing.*api key/i,
-    /must be set/i,
-    /not found.*environment/i,
-    /please set/i,
-    /please provide/i,
-    /configure.*environment/i,
-  ];
-
-  return envErrorPatterns.some((pattern) => pattern.test(error));
-}
-
-/**
- * Check if an error is due to input validation (Zod validation, URL format, etc.)
- * These errors mean the tool is working correctly - it's validating input as expected
- */
-function isInputValidationError(error: string | null): boolean {
-  if (!error) return false;
-
-  const validationErrorPatterns = [
-    /must have a valid.*domain/i, // URL validation
-    /valid.*path/i, // Path validation
-    /invalid.*url/i, // URL format
-    /invalid.*format/i, // General format validation
-    /expected.*received/i, // Zod type errors
-    /must be.*string/i, // Type validation
-    /must be.*number/i,
-    /must be.*boolean/i,
-    /must be.*array/i,
-    /must be.*object/i,
-    /validation.*failed/i, // General validation
-    /does not match/i, // Pattern/regex validation
-    /too short/i, // Length validation
-    /too long/i,
-    /minimum.*length/i,
-    /maximum.*length/i,
-  ];
-
-  return validationErrorPatterns.some((pattern) => pattern.test(error));
-}
-
-/**
- * Check if an error is a configuration or input issue (not a broken tool)
- */
-function isNonBreakingError(error: string | null): boolean {
-  return isEnvironmentConfigError(error) || isInputValidationError(error);
-}
-
 /**
  * Generate minimal test parameters for a tool
  * Uses required parameters with sensible defaults
@@ -293,11 +273,11 @@ export async function performHealthCheck(
   );
 
   // Only check execution if import succeeded
-  let executionResult: Awaited<ReturnType<typeof checkExecutionHealth>>;
+  let executionResult: ExecutionCheckResult;
   if (importResult.status === 'HEALTHY') {
     executionResult = await checkExecutionHealth(tool);
     console.log(
-      `  Execution: ${executionResult.status} ${executionResult.error ? `(${executionResult.error})` : ''}`
+      `  Execution: ${executionResult.status} ${executionResult.error ? `(${executionResult.error})` : ''}${executionResult.errorCode ? ` [${executionResult.errorCode}]` : ''}`
     );
   } else {
     // Skip execution check if import failed
@@ -326,6 +306,7 @@ export async function performHealthCheck(
       toolId: tool.id,
       checkType: 'FULL',
       triggerSource,
+      packageVersion: tool.package.npmVersion,
       importStatus: importResult.status,
       importError: importResult.error,
       importTimeMs: importResult.timeMs,
@@ -333,6 +314,10 @@ export async function performHealthCheck(
       executionError: executionResult.error,
       executionTimeMs: executionResult.timeMs,
       testParameters: executionResult.testParams as Prisma.InputJsonValue,
+      executionErrorCode: executionResult.errorCode,
+      executionLogs: executionResult.logs as unknown as Prisma.InputJsonValue | undefined,
+      executionMetrics: executionResult.metrics as Prisma.InputJsonValue | undefined,
+      resolvedVersion: executionResult.resolvedVersion,
       overallStatus,
     },
   });
@@ -348,6 +333,13 @@ export async function performHealthCheck(
     },
   });
 
+  // Keep the result on the checked version's history entry
+  await recordToolVersionHealth(tool.packageId, tool.package.npmVersion, tool.name, {
+    importHealth: importResult.status,
+    executionHealth: executionResult.status,
+    healthCheckError: importResult.error || executionResult.error,
+  });
+
   return {
     toolId: tool.id,
     importStatus: importResult.status,
@@ -356,6 +348,9 @@ export async function performHealthCheck(
     executionStatus: executionResult.status,
     executionError: executionResult.error,
     executionTimeMs: executionResult.timeMs,
+    executionErrorCode: executionResult.errorCode ?? null,
+    executionMetrics: executionResult.metrics ?? null,
+    resolvedVersion: executionResult.resolvedVersion ?? null,
     overallStatus,
   };
 }
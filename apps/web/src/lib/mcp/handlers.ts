@@ -1,9 +1,20 @@
 import { prisma } from '@tpmjs/db';
+import { DEFAULT_MAX_TOOL_OUTPUT_CHARS } from '@tpmjs/types/agent';
 
+import { createArtifactSaver, readArtifact } from '../artifacts/store';
+import {
+  type ExtractedFile,
+  isTruncatedToolOutput,
+  prepareToolOutput,
+} from '../artifacts/tool-output';
 import { executeWithExecutor, parseExecutorConfig } from '../executors';
-import { convertToMcpTool, parseToolName } from './tool-converter';
+import { findMissingEnvVars, parseEnvVars } from '../executors/env-vars';
+import { getToolName } from '../tool-names';
+import { convertToMcpTool, getCollectionToolNameMap } from './tool-converter';
 
 const DB_TIMEOUT_MS = 10000; // 10 second timeout for database queries
+// Stay under the MCP route's maxDuration (60s) so timeouts surface as tool errors
+const EXECUTION_TIMEOUT_MS = 50000;
 
 type JsonRpcId = string | number | null;
 
@@ -24,20 +35,41 @@ function withTimeout<T>(promise: Promise<T>, ms: number, errorMessage: string):
   ]);
 }
 
+/**
+ * Protocol versions this server speaks, newest first
+ */
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-03-26', '2024-11-05'] as const;
+
+/**
+ * Pick the protocol version for a session: the client's requested version if we support
+ * it, otherwise our latest (the client decides whether it can proceed)
+ */
+export function negotiateProtocolVersion(requestedVersion: unknown): string {
+  const supported: readonly string[] = SUPPORTED_PROTOCOL_VERSIONS;
+  if (typeof requestedVersion === 'string' && supported.includes(requestedVersion)) {
+    return requestedVersion;
+  }
+  return SUPPORTED_PROTOCOL_VERSIONS[0];
+}
+
 /**
  * Handle MCP initialize request
  */
-export function handleInitialize(collectionName: string, requestId: JsonRpcId): JsonRpcResponse {
+export function handleInitialize(
+  collectionName: string,
+  requestId: JsonRpcId,
+  requestedVersion?: unknown
+): JsonRpcResponse {
   return {
     jsonrpc: '2.0',
     id: requestId,
     result: {
-      protocolVersion: '2024-11-05',
+      protocolVersion: negotiateProtocolVersion(requestedVersion),
       serverInfo: {
         name: `TPMJS: ${collectionName}`,
         version: '1.0.0',
       },
-      capabilities: { tools: {} },
+      capabilities: { tools: {}, resources: {}, prompts: {} },
     },
   };
 }
@@ -64,7 +96,14 @@ export async function handleToolsList(
       'Database query timed out'
     );
 
-    const tools = collection?.tools.map((ct) => convertToMcpTool(ct.tool)) ?? [];
+    const collectionTools = collection?.tools ?? [];
+    const toolNames = getCollectionToolNameMap(collectionTools);
+    const tools = collectionTools.map((ct) =>
+      convertToMcpTool(
+        ct.tool,
+        getToolName(toolNames, ct.tool.package.npmPackageName, ct.tool.name)
+      )
+    );
 
     return {
       jsonrpc: '2.0',
@@ -88,22 +127,15 @@ interface ToolsCallParams {
 
 /**
  * Handle MCP tools/call request
+ * The optional signal aborts the executor request (client cancellation)
  */
 export async function handleToolsCall(
   collectionId: string,
   params: ToolsCallParams,
-  requestId: JsonRpcId
+  requestId: JsonRpcId,
+  options: { signal?: AbortSignal } = {}
 ): Promise<JsonRpcResponse> {
   try {
-    const parsed = parseToolName(params.name);
-    if (!parsed) {
-      return {
-        jsonrpc: '2.0',
-        id: requestId,
-        error: { code: -32602, message: `Invalid tool name: ${params.name}` },
-      };
-    }
-
     // Verify tool exists in collection and get executor config
     const collection = await withTimeout(
       prisma.collection.findUnique({
@@ -111,6 +143,7 @@ export async function handleToolsCall(
         select: {
           executorType: true,
           executorConfig: true,
+          envVars: true,
           tools: {
             include: { tool: { include: { package: true } } },
           },
@@ -120,10 +153,15 @@ export async function handleToolsCall(
       'Database query timed out'
     );
 
-    const collectionTool = collection?.tools.find(
-      (ct) =>
-        ct.tool.package.npmPackageName === parsed.packageName && ct.tool.name === parsed.toolName
-    );
+    // Resolve the name through the collection's name mapping (names aren't parseable)
+    const collectionTools = collection?.tools ?? [];
+    const ref = getCollectionToolNameMap(collectionTools).refs.get(params.name);
+    const collectionTool = ref
+      ? collectionTools.find(
+          (ct) =>
+            ct.tool.package.npmPackageName === ref.packageName && ct.tool.name === ref.toolName
+        )
+      : undefined;
 
     if (!collectionTool) {
       return {
@@ -139,12 +177,39 @@ export async function handleToolsCall(
       collection?.executorConfig
     );
 
+    // Collection env vars (no agent context for MCP, so nothing to merge over them)
+    const envVars = parseEnvVars(collection?.envVars);
+
+    const missingEnvVars = findMissingEnvVars(collectionTool.tool.package.env, envVars);
+    if (missingEnvVars.length > 0) {
+      return {
+        jsonrpc: '2.0',
+        id: requestId,
+        result: {
+          content: [
+            {
+              type: 'text',
+              text: `Error: Missing required environment variables: ${missingEnvVars.join(', ')}. Add them to the collection's environment variables.`,
+            },
+          ],
+          isError: true,
+          _meta: { missingEnvVars },
+        },
+      };
+    }
+
     // Execute via resolved executor
-    const result = await executeWithExecutor(executorConfig, {
-      packageName: parsed.packageName,
-      name: parsed.toolName,
-      params: params.arguments ?? {},
-    });
+    const result = await executeWithExecutor(
+      executorConfig,
+      {
+        packageName: collectionTool.tool.package.npmPackageName,
+        name: collectionTool.tool.name,
+        version: collectionTool.version ?? undefined,
+        params: params.arguments ?? {},
+        env: Object.keys(envVars).length > 0 ? envVars : undefined,
+      },
+      { timeout: EXECUTION_TIMEOUT_MS, signal: options.signal }
+    );
 
     if (!result.success) {
       return {
@@ -157,6 +222,12 @@ export async function handleToolsCall(
       };
     }
 
+    // Files become image/resource content; the text keeps references to them
+    const prepared = await prepareToolOutput(result.output, {
+      maxChars: DEFAULT_MAX_TOOL_OUTPUT_CHARS,
+      save: createArtifactSaver({ collectionId }),
+    });
+
     return {
       jsonrpc: '2.0',
       id: requestId,
@@ -165,10 +236,19 @@ export async function handleToolsCall(
           {
             type: 'text',
             text:
-              typeof result.output === 'string'
-                ? result.output
-                : JSON.stringify(result.output, null, 2),
+              typeof prepared.output === 'string'
+                ? prepared.output
+                : JSON.stringify(prepared.output, null, 2),
           },
+          ...(isTruncatedToolOutput(prepared.output)
+            ? [
+                {
+                  type: 'text',
+                  text: `Full result: ${artifactResourceUri(prepared.output.fullResult.sha256)} (use resources/read)`,
+                },
+              ]
+            : []),
+          ...prepared.files.map(toMcpFileContent),
         ],
       },
     };
@@ -181,3 +261,453 @@ export async function handleToolsCall(
     };
   }
 }
+
+/**
+ * MCP content for a file from a tool result: images inline, anything else as an embedded resource
+ */
+function toMcpFileContent({ ref, data }: ExtractedFile) {
+  if (ref.mediaType.startsWith('image/')) {
+    return { type: 'image', data: data.toString('base64'), mimeType: ref.mediaType };
+  }
+  return {
+    type: 'resource',
+    resource: {
+      uri: artifactResourceUri(ref.sha256),
+      mimeType: ref.mediaType,
+      blob: data.toString('base64'),
+    },
+  };
+}
+
+// ============================================================================
+// Resources
+// ============================================================================
+
+const ABOUT_RESOURCE_URI = 'tpmjs://collection/about';
+const NOTE_RESOURCE_PATTERN = /^tpmjs:\/\/collection\/tools\/([^/]+)\/([^/]+)\/note$/;
+const README_RESOURCE_PATTERN = /^tpmjs:\/\/packages\/([^/]+)\/readme$/;
+const ARTIFACT_RESOURCE_PATTERN = /^tpmjs:\/\/artifacts\/([0-9a-f]{64})$/;
+
+function noteResourceUri(packageName: string, toolName: string): string {
+  return `tpmjs://collection/tools/${encodeURIComponent(packageName)}/${encodeURIComponent(toolName)}/note`;
+}
+
+function artifactResourceUri(sha256: string): string {
+  return `tpmjs://artifacts/${sha256}`;
+}
+
+function readmeResourceUri(packageName: string): string {
+  return `tpmjs://packages/${encodeURIComponent(packageName)}/readme`;
+}
+
+/**
+ * Handle MCP resources/list request
+ * Exposes the collection description, tool notes, and package READMEs
+ */
+export async function handleResourcesList(
+  collectionId: string,
+  requestId: JsonRpcId
+): Promise<JsonRpcResponse> {
+  try {
+    const collection = await withTimeout(
+      prisma.collection.findUnique({
+        where: { id: collectionId },
+        select: {
+          name: true,
+          tools: {
+            select: {
+              note: true,
+              tool: {
+                select: {
+                  name: true,
+                  package: { select: { id: true, npmPackageName: true } },
+                },
+              },
+            },
+            orderBy: { position: 'asc' },
+          },
+        },
+      }),
+      DB_TIMEOUT_MS,
+      'Database query timed out'
+    );
+
+    if (!collection) {
+      return { jsonrpc: '2.0', id: requestId, result: { resources: [] } };
+    }
+
+    const resources: Array<{ uri: string; name: string; description?: string; mimeType: string }> =
+      [
+        {
+          uri: ABOUT_RESOURCE_URI,
+          name: `About ${collection.name}`,
+          description: 'Collection description and tool overview',
+          mimeType: 'text/markdown',
+        },
+      ];
+
+    for (const ct of collection.tools) {
+      if (!ct.note) continue;
+      resources.push({
+        uri: noteResourceUri(ct.tool.package.npmPackageName, ct.tool.name),
+        name: `Note: ${ct.tool.name}`,
+        description: `Collection owner's note for ${ct.tool.package.npmPackageName}/${ct.tool.name}`,
+        mimeType: 'text/plain',
+      });
+    }
+
+    // Only list READMEs that exist (without loading their contents)
+    const packageIds = [...new Set(collection.tools.map((ct) => ct.tool.package.id))];
+    const packagesWithReadme = await withTimeout(
+      prisma.package.findMany({
+        where: { id: { in: packageIds }, npmReadme: { not: null } },
+        select: { npmPackageName: true },
+      }),
+      DB_TIMEOUT_MS,
+      'Database query timed out'
+    );
+
+    for (const pkg of packagesWithReadme) {
+      resources.push({
+        uri: readmeResourceUri(pkg.npmPackageName),
+        name: `README: ${pkg.npmPackageName}`,
+        description: `npm README for ${pkg.npmPackageName}`,
+        mimeType: 'text/markdown',
+      });
+    }
+
+    return { jsonrpc: '2.0', id: requestId, result: { resources } };
+  } catch (error) {
+    console.error('[MCP resources/list] Error:', error);
+    return {
+      jsonrpc: '2.0',
+      id: requestId,
+      error: { code: -32603, message: error instanceof Error ? error.message : 'Internal error' },
+    };
+  }
+}
+
+/**
+ * Build the markdown for the collection "about" resource
+ */
+function buildAboutMarkdown(collection: {
+  name: string;
+  description: string | null;
+  tools: Array<{
+    note: string | null;
+    tool: { name: string; description: string; package: { npmPackageName: string } };
+  }>;
+}): string {
+  const lines = [`# ${collection.name}`, ''];
+  if (collection.description) {
+    lines.push(collection.description, '');
+  }
+  lines.push('## Tools', '');
+  for (const ct of collection.tools) {
+    lines.push(`- **${ct.tool.name}** (${ct.tool.package.npmPackageName}): ${ct.tool.description}`);
+    if (ct.note) {
+      lines.push(`  - Note: ${ct.note}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Resource contents for an artifact stored by this collection's tool calls, or null if there
+ * is none (artifacts from other collections and agents are never served here)
+ */
+async function readArtifactContents(uri: string, sha256: string, collectionId: string) {
+  const artifact = await withTimeout(
+    readArtifact(sha256, { collectionId }),
+    DB_TIMEOUT_MS,
+    'Database query timed out'
+  );
+  if (!artifact) return null;
+
+  let data: Buffer | null = artifact.data ? Buffer.from(artifact.data) : null;
+  if (artifact.blobUrl) {
+    const response = await fetch(artifact.blobUrl);
+    if (!response.ok) return null;
+    data = Buffer.from(await response.arrayBuffer());
+  }
+  if (!data) return null;
+
+  return { uri, mimeType: artifact.mediaType, blob: data.toString('base64') };
+}
+
+/**
+ * Handle MCP resources/read request
+ */
+// biome-ignore lint/complexity/noExcessiveCognitiveComplexity: One branch per resource URI scheme
+export async function handleResourcesRead(
+  collectionId: string,
+  params: { uri?: string },
+  requestId: JsonRpcId
+): Promise<JsonRpcResponse> {
+  try {
+    const uri = params?.uri;
+    if (!uri) {
+      return {
+        jsonrpc: '2.0',
+        id: requestId,
+        error: { code: -32602, message: 'Missing resource uri' },
+      };
+    }
+
+    const notFound: JsonRpcResponse = {
+      jsonrpc: '2.0',
+      id: requestId,
+      error: { code: -32002, message: `Resource not found: ${uri}` },
+    };
+
+    if (uri === ABOUT_RESOURCE_URI) {
+      const collection = await withTimeout(
+        prisma.collection.findUnique({
+          where: { id: collectionId },
+          select: {
+            name: true,
+            description: true,
+            tools: {
+              select: {
+                note: true,
+                tool: {
+                  select: {
+                    name: true,
+                    description: true,
+                    package: { select: { npmPackageName: true } },
+                  },
+                },
+              },
+              orderBy: { position: 'asc' },
+            },
+          },
+        }),
+        DB_TIMEOUT_MS,
+        'Database query timed out'
+      );
+      if (!collection) return notFound;
+
+      return {
+        jsonrpc: '2.0',
+        id: requestId,
+        result: {
+          contents: [{ uri, mimeType: 'text/markdown', text: buildAboutMarkdown(collection) }],
+        },
+      };
+    }
+
+    const noteMatch = uri.match(NOTE_RESOURCE_PATTERN);
+    if (noteMatch?.[1] && noteMatch[2]) {
+      const collectionTool = await withTimeout(
+        prisma.collectionTool.findFirst({
+          where: {
+            collectionId,
+            tool: {
+              name: decodeURIComponent(noteMatch[2]),
+              package: { npmPackageName: decodeURIComponent(noteMatch[1]) },
+            },
+          },
+          select: { note: true },
+        }),
+        DB_TIMEOUT_MS,
+        'Database query timed out'
+      );
+      if (!collectionTool?.note) return notFound;
+
+      return {
+        jsonrpc: '2.0',
+        id: requestId,
+        result: { contents: [{ uri, mimeType: 'text/plain', text: collectionTool.note }] },
+      };
+    }
+
+    const readmeMatch = uri.match(README_RESOURCE_PATTERN);
+    if (readmeMatch?.[1]) {
+      const packageName = decodeURIComponent(readmeMatch[1]);
+      // Only serve READMEs for packages that have a tool in this collection
+      const pkg = await withTimeout(
+        prisma.package.findFirst({
+          where: {
+            npmPackageName: packageName,
+            tools: { some: { collections: { some: { collectionId } } } },
+          },
+          select: { npmReadme: true },
+        }),
+        DB_TIMEOUT_MS,
+        'Database query timed out'
+      );
+      if (!pkg?.npmReadme) return notFound;
+
+      return {
+        jsonrpc: '2.0',
+        id: requestId,
+        result: { contents: [{ uri, mimeType: 'text/markdown', text: pkg.npmReadme }] },
+      };
+    }
+
+    // Artifacts from this collection's tool results (not listed; the sha256 comes from a
+    // tools/call result)
+    const artifactMatch = uri.match(ARTIFACT_RESOURCE_PATTERN);
+    if (artifactMatch?.[1]) {
+      const contents = await readArtifactContents(uri, artifactMatch[1], collectionId);
+      if (!contents) return notFound;
+      return { jsonrpc: '2.0', id: requestId, result: { contents: [contents] } };
+    }
+
+    return notFound;
+  } catch (error) {
+    console.error('[MCP resources/read] Error:', error);
+    return {
+      jsonrpc: '2.0',
+      id: requestId,
+      error: { code: -32603, message: error instanceof Error ? error.message : 'Internal error' },
+    };
+  }
+}
+
+// ============================================================================
+// Prompts
+// ============================================================================
+
+interface PromptArgument {
+  name: string;
+  description?: string;
+  required: boolean;
+}
+
+/**
+ * Parse prompt argument definitions from the database JSON
+ */
+function parsePromptArguments(value: unknown): PromptArgument[] {
+  if (!Array.isArray(value)) return [];
+  const args: PromptArgument[] = [];
+  for (const entry of value) {
+    if (!entry || typeof entry !== 'object') continue;
+    const arg = entry as { name?: unknown; description?: unknown; required?: unknown };
+    if (typeof arg.name !== 'string') continue;
+    args.push({
+      name: arg.name,
+      description: typeof arg.description === 'string' ? arg.description : undefined,
+      required: arg.required === true,
+    });
+  }
+  return args;
+}
+
+/**
+ * Replace {{argument}} placeholders in a prompt template
+ * Placeholders without a value are replaced with an empty string
+ */
+function renderPromptTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(
+    /\{\{\s*([a-zA-Z_][a-zA-Z0-9_]*)\s*\}\}/g,
+    (_, name: string) => values[name] ?? ''
+  );
+}
+
+/**
+ * Handle MCP prompts/list request
+ */
+export async function handlePromptsList(
+  collectionId: string,
+  requestId: JsonRpcId
+): Promise<JsonRpcResponse> {
+  try {
+    const prompts = await withTimeout(
+      prisma.collectionPrompt.findMany({
+        where: { collectionId },
+        orderBy: { position: 'asc' },
+      }),
+      DB_TIMEOUT_MS,
+      'Database query timed out'
+    );
+
+    return {
+      jsonrpc: '2.0',
+      id: requestId,
+      result: {
+        prompts: prompts.map((prompt) => ({
+          name: prompt.name,
+          description: prompt.description ?? undefined,
+          arguments: parsePromptArguments(prompt.arguments),
+        })),
+      },
+    };
+  } catch (error) {
+    console.error('[MCP prompts/list] Error:', error);
+    return {
+      jsonrpc: '2.0',
+      id: requestId,
+      error: { code: -32603, message: error instanceof Error ? error.message : 'Internal error' },
+    };
+  }
+}
+
+/**
+ * Handle MCP prompts/get request
+ */
+export async function handlePromptsGet(
+  collectionId: string,
+  params: { name?: string; arguments?: Record<string, string> },
+  requestId: JsonRpcId
+): Promise<JsonRpcResponse> {
+  try {
+    if (!params?.name) {
+      return {
+        jsonrpc: '2.0',
+        id: requestId,
+        error: { code: -32602, message: 'Missing prompt name' },
+      };
+    }
+
+    const prompt = await withTimeout(
+      prisma.collectionPrompt.findUnique({
+        where: { collectionId_name: { collectionId, name: params.name } },
+      }),
+      DB_TIMEOUT_MS,
+      'Database query timed out'
+    );
+
+    if (!prompt) {
+      return {
+        jsonrpc: '2.0',
+        id: requestId,
+        error: { code: -32602, message: `Prompt not found: ${params.name}` },
+      };
+    }
+
+    const values = params.arguments ?? {};
+    const missing = parsePromptArguments(prompt.arguments)
+      .filter((arg) => arg.required && !values[arg.name])
+      .map((arg) => arg.name);
+
+    if (missing.length > 0) {
+      return {
+        jsonrpc: '2.0',
+        id: requestId,
+        error: { code: -32602, message: `Missing required arguments: ${missing.join(', ')}` },
+      };
+    }
+
+    return {
+      jsonrpc: '2.0',
+      id: requestId,
+      result: {
+        description: prompt.description ?? undefined,
+        messages: [
+          {
+            role: 'user',
+            content: { type: 'text', text: renderPromptTemplate(prompt.template, values) },
+          },
+        ],
+      },
+    };
+  } catch (error) {
+    console.error('[MCP prompts/get] Error:', error);
+    return {
+      jsonrpc: '2.0',
+      id: requestId,
+      error: { code: -32603, message: error instanceof Error ? error.message : 'Internal error' },
+    };
+  }
+}
@@ -1,4 +1,13 @@
-export { convertToMcpTool, parseToolName, sanitizeMcpName } from './tool-converter';
+export {
+  handleInitialize,
+  handlePromptsGet,
+  handlePromptsList,
+  handleResourcesList,
+  handleResourcesRead,
+  handleToolsCall,
+  handleToolsList,
+  negotiateProtocolVersion,
+  SUPPORTED_PROTOCOL_VERSIONS,
+} from './handlers';
 export type { McpToolDefinition } from './tool-converter';
-
-export { handleInitialize, handleToolsCall, handleToolsList } from './handlers';
+export { convertToMcpTool, getCollectionToolNameMap } from './tool-converter';
@@ -0,0 +1,203 @@
+import { kv } from '@vercel/kv';
+
+/**
+ * MCP session and cancellation store (Streamable HTTP transport)
+ *
+ * Uses Vercel KV in production so sessions and cancellations work across serverless
+ * instances. Falls back to in-memory storage when KV is not available (development).
+ */
+
+const SESSION_TTL_SECONDS = 60 * 60; // Sessions expire after 1 hour of inactivity
+const CANCELLATION_TTL_SECONDS = 5 * 60;
+const KV_TIMEOUT_MS = 2000;
+const MAX_MEMORY_SESSIONS = 10000;
+
+export interface McpSession {
+  id: string;
+  collectionId: string;
+  protocolVersion: string;
+  createdAt: number;
+}
+
+const isKVAvailable = !!process.env.KV_REST_API_URL;
+
+// In-memory fallback stores
+const memorySessions = new Map<string, { session: McpSession; expiresAt: number }>();
+const memoryCancellations = new Map<string, number>();
+
+// Abort controllers for requests running on this instance
+const inFlightRequests = new Map<string, AbortController>();
+
+function sessionKey(sessionId: string): string {
+  return `mcp:session:${sessionId}`;
+}
+
+function cancellationKey(sessionId: string, requestId: string | number): string {
+  return `mcp:cancel:${sessionId}:${requestId}`;
+}
+
+/**
+ * Helper to add timeout to KV calls (resolves null on timeout)
+ */
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T | null> {
+  const timeout = new Promise<null>((resolve) => setTimeout(() => resolve(null), timeoutMs));
+  return Promise.race([promise, timeout]);
+}
+
+/**
+ * Remove expired entries from the in-memory fallback stores
+ */
+function cleanupMemoryStores(): void {
+  const now = Date.now();
+  for (const [id, entry] of memorySessions.entries()) {
+    if (entry.expiresAt <= now) memorySessions.delete(id);
+  }
+  for (const [key, expiresAt] of memoryCancellations.entries()) {
+    if (expiresAt <= now) memoryCancellations.delete(key);
+  }
+}
+
+/**
+ * Create a new session after a successful initialize
+ * Throws when the session could not be stored, so the client is never handed an id
+ * that later requests would reject as unknown.
+ */
+export async function createMcpSession(
+  collectionId: string,
+  protocolVersion: string
+): Promise<McpSession> {
+  const session: McpSession = {
+    id: crypto.randomUUID(),
+    collectionId,
+    protocolVersion,
+    createdAt: Date.now(),
+  };
+
+  if (isKVAvailable) {
+    let stored: unknown;
+    try {
+      stored = await withTimeout(
+        kv.set(sessionKey(session.id), session, { ex: SESSION_TTL_SECONDS }),
+        KV_TIMEOUT_MS
+      );
+    } catch (error) {
+      console.error('[MCP Sessions] KV set error:', error);
+      throw new Error('Failed to store MCP session');
+    }
+    // withTimeout resolves null when KV did not answer in time
+    if (stored === null) throw new Error('Timed out storing MCP session');
+    return session;
+  }
+
+  if (memorySessions.size >= MAX_MEMORY_SESSIONS) cleanupMemoryStores();
+  memorySessions.set(session.id, {
+    session,
+    expiresAt: Date.now() + SESSION_TTL_SECONDS * 1000,
+  });
+  return session;
+}
+
+/**
+ * Look up a session and extend its expiry
+ * Returns null for unknown or expired sessions
+ */
+export async function getMcpSession(sessionId: string): Promise<McpSession | null> {
+  if (isKVAvailable) {
+    try {
+      const session = await withTimeout(kv.get<McpSession>(sessionKey(sessionId)), KV_TIMEOUT_MS);
+      if (session) {
+        withTimeout(kv.expire(sessionKey(sessionId), SESSION_TTL_SECONDS), KV_TIMEOUT_MS).catch(
+          (error) => console.error('[MCP Sessions] KV expire error:', error)
+        );
+      }
+      return session;
+    } catch (error) {
+      console.error('[MCP Sessions] KV get error:', error);
+      return null;
+    }
+  }
+
+  const entry = memorySessions.get(sessionId);
+  if (!entry) return null;
+  if (entry.expiresAt <= Date.now()) {
+    memorySessions.delete(sessionId);
+    return null;
+  }
+  entry.expiresAt = Date.now() + SESSION_TTL_SECONDS * 1000;
+  return entry.session;
+}
+
+/**
+ * Terminate a session (client DELETE)
+ */
+export async function deleteMcpSession(sessionId: string): Promise<void> {
+  if (isKVAvailable) {
+    try {
+      await withTimeout(kv.del(sessionKey(sessionId)), KV_TIMEOUT_MS);
+    } catch (error) {
+      console.error('[MCP Sessions] KV del error:', error);
+    }
+    return;
+  }
+  memorySessions.delete(sessionId);
+}
+
+/**
+ * Track an in-flight request so a later notifications/cancelled can abort it
+ * Returns a cleanup function to call once the request finishes
+ */
+export function registerInFlightRequest(
+  sessionId: string,
+  requestId: string | number,
+  controller: AbortController
+): () => void {
+  const key = cancellationKey(sessionId, requestId);
+  inFlightRequests.set(key, controller);
+  return () => {
+    if (inFlightRequests.get(key) === controller) {
+      inFlightRequests.delete(key);
+    }
+  };
+}
+
+/**
+ * Handle notifications/cancelled from the client
+ * Aborts the request if it runs on this instance, and records the cancellation so
+ * an instance running it elsewhere picks it up on its next progress tick.
+ */
+export async function cancelRequest(sessionId: string, requestId: string | number): Promise<void> {
+  const key = cancellationKey(sessionId, requestId);
+  inFlightRequests.get(key)?.abort();
+
+  if (isKVAvailable) {
+    try {
+      await withTimeout(kv.set(key, 1, { ex: CANCELLATION_TTL_SECONDS }), KV_TIMEOUT_MS);
+    } catch (error) {
+      console.error('[MCP Sessions] KV set error:', error);
+    }
+    return;
+  }
+  memoryCancellations.set(key, Date.now() + CANCELLATION_TTL_SECONDS * 1000);
+}
+
+/**
+ * Check whether the client cancelled a request (possibly via another instance)
+ */
+export async function isRequestCancelled(
+  sessionId: string,
+  requestId: string | number
+): Promise<boolean> {
+  const key = cancellationKey(sessionId, requestId);
+
+  if (isKVAvailable) {
+    try {
+      return !!(await withTimeout(kv.get(key), KV_TIMEOUT_MS));
+    } catch (error) {
+      console.error('[MCP Sessions] KV get error:', error);
+      return false;
+    }
+  }
+
+  const expiresAt = memoryCancellations.get(key);
+  return !!expiresAt && expiresAt > Date.now();
+}
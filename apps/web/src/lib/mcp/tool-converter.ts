@@ -1,5 +1,7 @@
 import type { Package, Tool } from '@prisma/client';
 
+import { buildToolNameMap, type ToolNameMap } from '../tool-names';
+
 export interface McpToolDefinition {
   name: string;
   description: string;
@@ -7,22 +9,36 @@ export interface McpToolDefinition {
 }
 
 /**
- * Sanitize package name and tool name into a valid MCP tool name.
- * MCP tool names must match ^[a-zA-Z0-9_-]+
+ * Build the MCP tool name mapping for a collection's tools.
+ * MCP tool names must match ^[a-zA-Z0-9_-]+ and stay within 64 characters.
  *
  * Example: @tpmjs/hello + helloWorldTool → tpmjs-hello--helloWorldTool
  */
-export function sanitizeMcpName(packageName: string, toolName: string): string {
-  const sanitizedPkg = packageName.replace(/^@/, '').replace(/\//g, '-');
-  return `${sanitizedPkg}--${toolName}`;
+export function getCollectionToolNameMap(
+  collectionTools: Array<{
+    addedAt: Date;
+    tool: { name: string; package: { npmPackageName: string } };
+  }>
+): ToolNameMap {
+  return buildToolNameMap(
+    collectionTools.map((ct) => ({
+      packageName: ct.tool.package.npmPackageName,
+      toolName: ct.tool.name,
+      addedAt: ct.addedAt,
+    }))
+  );
 }
 
 /**
  * Convert a TPMJS Tool to an MCP tool definition.
+ * The name comes from the collection's tool name mapping.
  */
-export function convertToMcpTool(tool: Tool & { package: Package }): McpToolDefinition {
+export function convertToMcpTool(
+  tool: Tool & { package: Package },
+  name: string
+): McpToolDefinition {
   return {
-    name: sanitizeMcpName(tool.package.npmPackageName, tool.name),
+    name,
     description: tool.description,
     inputSchema: (tool.inputSchema as Record<string, unknown>) ?? {
       type: 'object',
@@ -30,23 +46,3 @@ export function convertToMcpTool(tool: Tool & { package: Package }): McpToolDefi
     },
   };
 }
-
-/**
- * Parse an MCP tool name back into package name and tool name.
- * Returns null if the name doesn't match the expected format.
- *
- * Example: tpmjs-hello--helloWorldTool → { packageName: "@tpmjs/hello", toolName: "helloWorldTool" }
- */
-export function parseToolName(mcpName: string): { packageName: string; toolName: string } | null {
-  const match = mcpName.match(/^(.+)--(.+)$/);
-  if (!match || !match[1] || !match[2]) return null;
-
-  const pkg = match[1];
-  const toolName = match[2];
-
-  // Reconstruct @scope/name format if it looks scoped
-  // tpmjs-hello → @tpmjs/hello (first dash becomes @scope/)
-  const packageName = pkg.includes('-') ? `@${pkg.replace('-', '/')}` : pkg;
-
-  return { packageName, toolName };
-}
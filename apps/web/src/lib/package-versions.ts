@@ -0,0 +1,74 @@
+/**
+ * Package version history
+ *
+ * `Package` and `Tool` only describe the latest synced version. Every sync also records a
+ * PackageVersion (with its tpmjs field) and a ToolVersion per tool holding the schema and
+ * health for that version, so schema changes between versions can be reviewed later.
+ */
+
+import { type HealthStatus, type PackageVersion, type Prisma, prisma } from '@tpmjs/db';
+import type { SchemaExtractionResult } from './schema-extraction';
+
+/**
+ * Record (or refresh) a synced package version
+ */
+export async function recordPackageVersion(
+  packageId: string,
+  data: { version: string; publishedAt?: string | null; tpmjs?: unknown }
+): Promise<PackageVersion> {
+  const publishedAt = data.publishedAt ? new Date(data.publishedAt) : undefined;
+  const tpmjs = (data.tpmjs ?? undefined) as Prisma.InputJsonValue | undefined;
+
+  return prisma.packageVersion.upsert({
+    where: { packageId_version: { packageId, version: data.version } },
+    create: { packageId, version: data.version, publishedAt, tpmjs },
+    update: { publishedAt, tpmjs },
+  });
+}
+
+/**
+ * Record a tool's schema for a package version
+ * A failed extraction keeps whatever an earlier sync of the same version stored
+ */
+export async function recordToolVersion(
+  packageVersionId: string,
+  toolName: string,
+  toolDef: { description?: string; parameters?: unknown },
+  schemaResult: SchemaExtractionResult
+): Promise<void> {
+  const snapshot = schemaResult.success
+    ? {
+        description: toolDef.description || schemaResult.description,
+        inputSchema: schemaResult.inputSchema as Prisma.InputJsonValue,
+        schemaSource: 'extracted',
+      }
+    : {
+        description: toolDef.description,
+        schemaSource: toolDef.parameters ? 'author' : undefined,
+      };
+
+  await prisma.toolVersion.upsert({
+    where: { packageVersionId_toolName: { packageVersionId, toolName } },
+    create: { packageVersionId, toolName, ...snapshot },
+    update: schemaResult.success ? snapshot : { description: snapshot.description },
+  });
+}
+
+/**
+ * Store health check results on the tool's snapshot for the checked package version
+ */
+export async function recordToolVersionHealth(
+  packageId: string,
+  version: string,
+  toolName: string,
+  health: {
+    importHealth: HealthStatus;
+    executionHealth: HealthStatus;
+    healthCheckError: string | null;
+  }
+): Promise<void> {
+  await prisma.toolVersion.updateMany({
+    where: { toolName, packageVersion: { packageId, version } },
+    data: { ...health, lastHealthCheck: new Date() },
+  });
+}
@@ -0,0 +1,24 @@
+/**
+ * Tests for publisher verification
+ */
+
+import { describe, expect, it } from 'vitest';
+import { generateVerificationToken, isOfficialPackage } from './verification';
+
+describe('isOfficialPackage', () => {
+  it('requires the @tpmjs scope and a verified publisher', () => {
+    expect(isOfficialPackage('@tpmjs/hello', 'user_1')).toBe(true);
+    expect(isOfficialPackage('@tpmjs/hello', null)).toBe(false);
+    // A verified publisher outside the scope is verified, not official
+    expect(isOfficialPackage('tpmjs-hello', 'user_1')).toBe(false);
+    expect(isOfficialPackage('@tpmjs-fake/hello', 'user_1')).toBe(false);
+  });
+});
+
+describe('generateVerificationToken', () => {
+  it('generates unique prefixed tokens', () => {
+    const token = generateVerificationToken();
+    expect(token).toMatch(/^tpmjs-verify-[0-9a-f]{32}$/);
+    expect(generateVerificationToken()).not.toBe(token);
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Publisher verification
+ *
+ * Users link npm accounts and GitHub orgs and prove they own them. A package is published by
+ * a verified publisher when the npm account that published it is verified, or when its npm
+ * provenance attestation shows it was built from a repository of a verified GitHub org.
+ * Only packages in the @tpmjs scope with a verified publisher are official.
+ */
+
+import { randomBytes } from 'node:crypto';
+import type { PublisherAccount } from '@tpmjs/db';
+import { Prisma, prisma } from '@tpmjs/db';
+import {
+  fetchGitHubFile,
+  fetchMaintainerEmail,
+  fetchPackageProvenance,
+  type PackageProvenance,
+  type PackageVersionWithReadme,
+} from '@tpmjs/npm-client';
+import { GITHUB_VERIFICATION_FILE } from '@tpmjs/types/user';
+
+const OFFICIAL_SCOPE = '@tpmjs/';
+
+/**
+ * Package columns describing who published the synced version
+ */
+export interface PackagePublisherFields {
+  npmPublisher: string | null;
+  provenance: Prisma.InputJsonValue | typeof Prisma.JsonNull;
+  verifiedPublisherId: string | null;
+  isOfficial: boolean;
+}
+
+export type VerificationCheck = { verified: true } | { verified: false; reason: string };
+
+export type VerifyPublisherAccountResult =
+  | { error: 'not_found' | 'claimed' }
+  | { account: PublisherAccount; check: VerificationCheck };
+
+/**
+ * Token a GitHub org puts in its verification file
+ */
+export function generateVerificationToken(): string {
+  return `tpmjs-verify-${randomBytes(16).toString('hex')}`;
+}
+
+/**
+ * Only members of the @tpmjs npm org can publish to its scope, so a verified publisher there
+ * is a verified TPMJS maintainer
+ */
+export function isOfficialPackage(
+  packageName: string,
+  verifiedPublisherId: string | null
+): boolean {
+  return packageName.startsWith(OFFICIAL_SCOPE) && verifiedPublisherId !== null;
+}
+
+/**
+ * User who verified the publishing npm account or the GitHub org the package was built in
+ */
+async function findVerifiedPublisher(
+  npmPublisher: string | null,
+  provenance: PackageProvenance | null
+): Promise<string | null> {
+  const candidates: Prisma.PublisherAccountWhereInput[] = [
+    ...(npmPublisher ? [{ type: 'NPM' as const, name: npmPublisher.toLowerCase() }] : []),
+    ...(provenance?.owner ? [{ type: 'GITHUB_ORG' as const, name: provenance.owner }] : []),
+  ];
+  if (candidates.length === 0) return null;
+
+  const account = await prisma.publisherAccount.findFirst({
+    where: { verifiedAt: { not: null }, OR: candidates },
+    orderBy: { verifiedAt: 'asc' },
+    select: { userId: true },
+  });
+  return account?.userId ?? null;
+}
+
+/**
+ * Publisher fields for a synced package version: who published it, its provenance, and
+ * whether either belongs to a verified publisher
+ */
+export async function resolvePackagePublisher(
+  pkg: PackageVersionWithReadme
+): Promise<PackagePublisherFields> {
+  let provenance: PackageProvenance | null = null;
+  if (pkg.dist?.attestations) {
+    try {
+      provenance = await fetchPackageProvenance(pkg.name, pkg.version);
+    } catch (error) {
+      console.error(`Failed to fetch provenance for ${pkg.name}@${pkg.version}:`, error);
+    }
+  }
+
+  const npmPublisher = pkg._npmUser?.name ?? null;
+  const verifiedPublisherId = await findVerifiedPublisher(npmPublisher, provenance);
+  return {
+    npmPublisher,
+    provenance: provenance ? (provenance as unknown as Prisma.InputJsonValue) : Prisma.JsonNull,
+    verifiedPublisherId,
+    isOfficial: isOfficialPackage(pkg.name, verifiedPublisherId),
+  };
+}
+
+/**
+ * Re-evaluate the packages an account publishes after it was verified or unlinked
+ * Returns the number of packages checked
+ */
+export async function refreshAccountPackages(
+  account: Pick<PublisherAccount, 'type' | 'name'>
+): Promise<number> {
+  const packages = await prisma.package.findMany({
+    where:
+      account.type === 'NPM'
+        ? { npmPublisher: { equals: account.name, mode: 'insensitive' } }
+        : { provenance: { path: ['owner'], equals: account.name } },
+    select: { id: true, npmPackageName: true, npmPublisher: true, provenance: true },
+  });
+
+  for (const pkg of packages) {
+    const verifiedPublisherId = await findVerifiedPublisher(
+      pkg.npmPublisher,
+      pkg.provenance as unknown as PackageProvenance | null
+    );
+    await prisma.package.update({
+      where: { id: pkg.id },
+      data: {
+        verifiedPublisherId,
+        isOfficial: isOfficialPackage(pkg.npmPackageName, verifiedPublisherId),
+      },
+    });
+  }
+  return packages.length;
+}
+
+/**
+ * npm keeps account emails verified, so a matching verified email proves ownership
+ */
+async function checkNpmAccount(
+  name: string,
+  user: { email: string; emailVerified: boolean }
+): Promise<VerificationCheck> {
+  if (!user.emailVerified) {
+    return { verified: false, reason: 'Verify your email address first' };
+  }
+
+  const email = await fetchMaintainerEmail(name);
+  if (!email) {
+    return { verified: false, reason: `npm account ${name} maintains no public packages` };
+  }
+  if (email.toLowerCase() !== user.email.toLowerCase()) {
+    return {
+      verified: false,
+      reason: `The email of npm account ${name} doesn't match your account email`,
+    };
+  }
+  return { verified: true };
+}
+
+/**
+ * Only org members with write access can add the token file to the org's .github repository
+ */
+async function checkGitHubOrg(name: string, token: string): Promise<VerificationCheck> {
+  const contents = await fetchGitHubFile(name, '.github', GITHUB_VERIFICATION_FILE);
+  if (contents === null) {
+    return {
+      verified: false,
+      reason: `${GITHUB_VERIFICATION_FILE} was not found in the ${name}/.github repository`,
+    };
+  }
+  if (!contents.includes(token)) {
+    return {
+      verified: false,
+      reason: `${GITHUB_VERIFICATION_FILE} doesn't contain your verification token`,
+    };
+  }
+  return { verified: true };
+}
+
+/**
+ * Check that the user owns a linked account; once verified, the packages it publishes show the
+ * user as their verified publisher
+ */
+export async function verifyPublisherAccount(
+  userId: string,
+  accountId: string
+): Promise<VerifyPublisherAccountResult> {
+  const account = await prisma.publisherAccount.findFirst({ where: { id: accountId, userId } });
+  if (!account) return { error: 'not_found' };
+  if (account.verifiedAt) return { account, check: { verified: true } };
+
+  const claimed = await prisma.publisherAccount.findFirst({
+    where: {
+      type: account.type,
+      name: account.name,
+      verifiedAt: { not: null },
+      userId: { not: userId },
+    },
+    select: { id: true },
+  });
+  if (claimed) return { error: 'claimed' };
+
+  const user = await prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { email: true, emailVerified: true },
+  });
+  const check =
+    account.type === 'NPM'
+      ? await checkNpmAccount(account.name, user)
+      : await checkGitHubOrg(account.name, account.verificationToken);
+  if (!check.verified) return { account, check };
+
+  const verified = await prisma.publisherAccount.update({
+    where: { id: account.id },
+    data: { verifiedAt: new Date() },
+  });
+  await refreshAccountPackages(verified);
+  return { account: verified, check };
+}
+
+/**
+ * Unlink an account; packages it published lose their verified publisher
+ * Returns false when the user has no such account
+ */
+export async function unlinkPublisherAccount(userId: string, accountId: string): Promise<boolean> {
+  const account = await prisma.publisherAccount.findFirst({ where: { id: accountId, userId } });
+  if (!account) return false;
+
+  await prisma.publisherAccount.delete({ where: { id: account.id } });
+  if (account.verifiedAt) {
+    await refreshAccountPackages(account);
+  }
+  return true;
+}
@@ -0,0 +1,85 @@
+/**
+ * Tests for the tool quality score
+ */
+
+import { describe, expect, it } from 'vitest';
+import { computeQualityScore, percentile, QUALITY_WEIGHTS, schemaComponent } from './score';
+
+const now = new Date('2026-06-01T00:00:00Z');
+
+const baseInputs = {
+  health: { checks: 0, passed: 0, latenciesMs: [] },
+  executions: { succeeded: 0, failed: 0 },
+  inputSchema: null,
+  parameters: null,
+  likeCount: 0,
+  publishedAt: now,
+  downloads: 0,
+  githubStars: 0,
+  now,
+};
+
+describe('computeQualityScore', () => {
+  it('weights components that sum to 1 and explains each', () => {
+    const total = Object.values(QUALITY_WEIGHTS).reduce((sum, weight) => sum + weight, 0);
+    expect(total).toBeCloseTo(1);
+
+    const breakdown = computeQualityScore(baseInputs);
+    expect(breakdown.components.map((c) => c.key)).toEqual(Object.keys(QUALITY_WEIGHTS));
+    expect(breakdown.computedAt).toBe(now.toISOString());
+    expect(breakdown.components.find((c) => c.key === 'health')?.detail).toBe(
+      'Not health checked yet'
+    );
+  });
+
+  it('ranks a healthy, used, documented tool above a broken one', () => {
+    const good = computeQualityScore({
+      ...baseInputs,
+      health: { checks: 20, passed: 20, latenciesMs: [400, 600, 800] },
+      executions: { succeeded: 95, failed: 5 },
+      inputSchema: { type: 'object', properties: { q: { type: 'string', description: 'Query' } } },
+      likeCount: 99,
+    });
+    const broken = computeQualityScore({
+      ...baseInputs,
+      health: { checks: 20, passed: 2, latenciesMs: [30000, 30000] },
+      executions: { succeeded: 1, failed: 30 },
+      publishedAt: new Date('2023-06-01T00:00:00Z'),
+    });
+
+    expect(good.score).toBeGreaterThan(0.8);
+    expect(broken.score).toBeLessThan(0.2);
+    const latency = good.components.find((c) => c.key === 'latency');
+    expect(latency?.score).toBe(1);
+    expect(latency?.detail).toBe('p50 600 ms, p95 800 ms over 3 checks');
+  });
+
+  it('smooths rates with few samples toward neutral', () => {
+    const breakdown = computeQualityScore({
+      ...baseInputs,
+      health: { checks: 1, passed: 1, latenciesMs: [] },
+    });
+    expect(breakdown.components.find((c) => c.key === 'health')?.score).toBe(0.6);
+  });
+});
+
+describe('schemaComponent', () => {
+  it('scores described JSON Schemas above legacy parameters and missing schemas', () => {
+    const described = schemaComponent(
+      { properties: { a: { type: 'string', description: 'A' }, b: { type: 'number' } } },
+      null
+    );
+    expect(described.score).toBeCloseTo(0.8);
+    expect(schemaComponent({ type: 'object', properties: {} }, null).score).toBe(1);
+    expect(schemaComponent(null, [{ name: 'a', description: 'A' }]).score).toBeCloseTo(0.6);
+    expect(schemaComponent(null, null).score).toBe(0);
+  });
+});
+
+describe('percentile', () => {
+  it('uses nearest rank', () => {
+    expect(percentile([5, 1, 3, 2, 4], 50)).toBe(3);
+    expect(percentile([5, 1, 3, 2, 4], 95)).toBe(5);
+    expect(percentile([], 50)).toBeNull();
+  });
+});
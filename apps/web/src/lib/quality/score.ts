@@ -0,0 +1,255 @@
+/**
+ * Tool quality score
+ *
+ * Combines whether a tool works (health check pass rate and latency, success rate of real
+ * agent and playground runs) with how usable and maintained it is (input schema completeness,
+ * likes, publish recency, downloads and stars). Each component scores 0-1 and the total is
+ * their weighted sum; the breakdown is stored so the tool page can explain the score.
+ */
+
+import type { QualityBreakdown, QualityComponent, QualityComponentKey } from '@tpmjs/types/tool';
+
+/**
+ * Share of the total score per component (sums to 1)
+ */
+export const QUALITY_WEIGHTS: Record<QualityComponentKey, number> = {
+  health: 0.25,
+  executions: 0.2,
+  schema: 0.2,
+  latency: 0.1,
+  likes: 0.1,
+  popularity: 0.1,
+  recency: 0.05,
+};
+
+// Rates are smoothed toward PRIOR_RATE as if PRIOR_WEIGHT extra samples had that rate, so a
+// tool with one passing check doesn't outrank one with 99 of 100
+const PRIOR_RATE = 0.5;
+const PRIOR_WEIGHT = 4;
+
+// p95 latency at or below FAST_MS scores 1, at or above SLOW_MS scores 0 (log scale between)
+const FAST_MS = 1000;
+const SLOW_MS = 30000;
+
+// Publish age after which the recency component has halved
+const RECENCY_HALF_LIFE_DAYS = 365;
+
+// Without data, latency scores neutral rather than good or bad
+const NEUTRAL_SCORE = 0.5;
+
+/**
+ * Health checks of a tool, most recent first
+ */
+export interface HealthSignal {
+  checks: number;
+  passed: number;
+  /** Execution times of checks that ran the tool */
+  latenciesMs: number[];
+}
+
+/**
+ * Runs of a tool in agent conversations and the playground
+ */
+export interface ExecutionSignal {
+  succeeded: number;
+  failed: number;
+}
+
+export interface QualityInputs {
+  health: HealthSignal;
+  executions: ExecutionSignal;
+  inputSchema: unknown;
+  parameters: unknown;
+  likeCount: number;
+  publishedAt: Date;
+  downloads: number;
+  githubStars: number;
+  now?: Date;
+}
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function smoothedRate(successes: number, total: number): number {
+  return (successes + PRIOR_RATE * PRIOR_WEIGHT) / (total + PRIOR_WEIGHT);
+}
+
+/**
+ * Nearest-rank percentile (p in 0-100) of unsorted values
+ */
+export function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1] ?? null;
+}
+
+function formatMs(ms: number): string {
+  return ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+function healthComponent(health: HealthSignal): Omit<QualityComponent, 'key' | 'weight'> {
+  return {
+    label: 'Health checks',
+    score: smoothedRate(health.passed, health.checks),
+    detail:
+      health.checks > 0
+        ? `${health.passed} of ${health.checks} recent health checks passed`
+        : 'Not health checked yet',
+  };
+}
+
+function latencyComponent(health: HealthSignal): Omit<QualityComponent, 'key' | 'weight'> {
+  const p50 = percentile(health.latenciesMs, 50);
+  const p95 = percentile(health.latenciesMs, 95);
+  if (p50 === null || p95 === null) {
+    return { label: 'Latency', score: NEUTRAL_SCORE, detail: 'No timed executions yet' };
+  }
+
+  const score =
+    1 -
+    (Math.log(Math.max(p95, FAST_MS)) - Math.log(FAST_MS)) /
+      (Math.log(SLOW_MS) - Math.log(FAST_MS));
+  return {
+    label: 'Latency',
+    score: clamp01(score),
+    detail: `p50 ${formatMs(p50)}, p95 ${formatMs(p95)} over ${health.latenciesMs.length} checks`,
+  };
+}
+
+function executionsComponent(
+  executions: ExecutionSignal
+): Omit<QualityComponent, 'key' | 'weight'> {
+  const total = executions.succeeded + executions.failed;
+  return {
+    label: 'Real-world runs',
+    score: smoothedRate(executions.succeeded, total),
+    detail:
+      total > 0
+        ? `${executions.succeeded} of ${total} agent and playground runs succeeded`
+        : 'No agent or playground runs recently',
+  };
+}
+
+/**
+ * Share of documented parameters: a JSON Schema with described, typed properties scores best;
+ * the legacy parameters array scores lower, and no schema at all scores 0
+ */
+export function schemaComponent(
+  inputSchema: unknown,
+  parameters: unknown
+): Omit<QualityComponent, 'key' | 'weight'> {
+  const label = 'Input schema';
+
+  if (inputSchema && typeof inputSchema === 'object') {
+    const properties = (inputSchema as { properties?: unknown }).properties;
+    const props =
+      properties && typeof properties === 'object'
+        ? Object.values(properties as Record<string, unknown>)
+        : [];
+    if (props.length === 0) {
+      return { label, score: 1, detail: 'Takes no parameters' };
+    }
+
+    const described = props.filter(
+      (prop) =>
+        prop &&
+        typeof prop === 'object' &&
+        typeof (prop as { description?: unknown }).description === 'string'
+    ).length;
+    const typed = props.filter(
+      (prop) =>
+        prop &&
+        typeof prop === 'object' &&
+        ('type' in prop || 'enum' in prop || 'anyOf' in prop || 'oneOf' in prop || '$ref' in prop)
+    ).length;
+    return {
+      label,
+      score: 0.4 + 0.4 * (described / props.length) + 0.2 * (typed / props.length),
+      detail: `JSON Schema with ${described} of ${props.length} parameters described`,
+    };
+  }
+
+  if (Array.isArray(parameters) && parameters.length > 0) {
+    const described = parameters.filter(
+      (param) =>
+        param &&
+        typeof param === 'object' &&
+        Boolean((param as { description?: unknown }).description)
+    ).length;
+    return {
+      label,
+      score: 0.3 + 0.3 * (described / parameters.length),
+      detail: `Legacy parameter list with ${described} of ${parameters.length} parameters described (no JSON Schema)`,
+    };
+  }
+
+  return { label, score: 0, detail: 'No input schema' };
+}
+
+function likesComponent(likeCount: number): Omit<QualityComponent, 'key' | 'weight'> {
+  return {
+    label: 'Likes',
+    // 100 likes scores full marks
+    score: clamp01(Math.log10(likeCount + 1) / 2),
+    detail: `${likeCount.toLocaleString('en-US')} like${likeCount === 1 ? '' : 's'}`,
+  };
+}
+
+function recencyComponent(publishedAt: Date, now: Date): Omit<QualityComponent, 'key' | 'weight'> {
+  const ageDays = Math.max(0, (now.getTime() - publishedAt.getTime()) / 86_400_000);
+  return {
+    label: 'Recency',
+    score: 0.5 ** (ageDays / RECENCY_HALF_LIFE_DAYS),
+    detail: `Last published ${Math.floor(ageDays)} day${Math.floor(ageDays) === 1 ? '' : 's'} ago`,
+  };
+}
+
+function popularityComponent(
+  downloads: number,
+  githubStars: number
+): Omit<QualityComponent, 'key' | 'weight'> {
+  // 100k downloads a month and 10k stars score full marks
+  const downloadsScore = clamp01(Math.log10(downloads + 1) / 5);
+  const starsScore = clamp01(Math.log10(githubStars + 1) / 4);
+  return {
+    label: 'Popularity',
+    score: 0.7 * downloadsScore + 0.3 * starsScore,
+    detail: `${downloads.toLocaleString('en-US')} downloads/month, ${githubStars.toLocaleString('en-US')} GitHub stars`,
+  };
+}
+
+/**
+ * Compute a tool's quality score (0.00-1.00) with its per-component breakdown
+ */
+export function computeQualityScore(inputs: QualityInputs): QualityBreakdown {
+  const now = inputs.now ?? new Date();
+  const parts: Record<QualityComponentKey, Omit<QualityComponent, 'key' | 'weight'>> = {
+    health: healthComponent(inputs.health),
+    executions: executionsComponent(inputs.executions),
+    schema: schemaComponent(inputs.inputSchema, inputs.parameters),
+    latency: latencyComponent(inputs.health),
+    likes: likesComponent(inputs.likeCount),
+    popularity: popularityComponent(inputs.downloads, inputs.githubStars),
+    recency: recencyComponent(inputs.publishedAt, now),
+  };
+
+  const components = (Object.keys(QUALITY_WEIGHTS) as QualityComponentKey[]).map((key) => ({
+    key,
+    weight: QUALITY_WEIGHTS[key],
+    ...parts[key],
+    score: round2(clamp01(parts[key].score)),
+  }));
+  const score = components.reduce((sum, component) => sum + component.weight * component.score, 0);
+
+  return {
+    score: round2(clamp01(score)),
+    computedAt: now.toISOString(),
+    components,
+  };
+}
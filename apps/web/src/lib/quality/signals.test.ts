@@ -0,0 +1,114 @@
+/**
+ * Tests for execution outcomes counted from agent conversations
+ */
+
+import { generateText, jsonSchema, tool } from 'ai';
+import { MockLanguageModelV3 } from 'ai/test';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { stepToolResults } from '../agents/tool-approvals';
+import { toolNameCandidates } from '../tool-names';
+
+type StoredToolMessage = { toolName: string; toolResult: unknown };
+
+const mocks = vi.hoisted(() => ({ messages: [] as StoredToolMessage[] }));
+
+vi.mock('@tpmjs/db', () => ({
+  prisma: {
+    simulation: { groupBy: async () => [] },
+    // Aggregates the stored TOOL messages the way the query does: a result with an
+    // `error` key is a failure, denied calls are left out
+    $queryRaw: async (strings: TemplateStringsArray) => {
+      expect(strings.join('?')).toContain("tool_result -> 'error' IS NOT NULL");
+      const rows = new Map<string, { tool_name: string; succeeded: bigint; failed: bigint }>();
+      for (const message of mocks.messages) {
+        const result = message.toolResult as Record<string, unknown>;
+        if ('denied' in result) continue;
+        const row = rows.get(message.toolName) ?? {
+          tool_name: message.toolName,
+          succeeded: 0n,
+          failed: 0n,
+        };
+        if ('error' in result) row.failed += 1n;
+        else row.succeeded += 1n;
+        rows.set(message.toolName, row);
+      }
+      return Array.from(rows.values());
+    },
+  },
+}));
+
+import { loadExecutionSignals } from './signals';
+
+const helloTool = {
+  id: 'tool-1',
+  name: 'helloWorldTool',
+  package: { npmPackageName: '@tpmjs/hello' },
+};
+const [helloToolName] = toolNameCandidates('@tpmjs/hello', 'helloWorldTool');
+
+/**
+ * Run one agent step that calls the tool, saving its results like the conversation routes do
+ */
+async function runAgentStep(execute: () => Promise<unknown>): Promise<void> {
+  await generateText({
+    model: new MockLanguageModelV3({
+      doGenerate: async () => ({
+        content: [
+          {
+            type: 'tool-call',
+            toolCallId: 'call-1',
+            toolName: helloToolName as string,
+            input: '{}',
+          },
+        ],
+        finishReason: { unified: 'tool-calls', raw: undefined },
+        usage: {
+          inputTokens: { total: 10, noCache: 10, cacheRead: undefined, cacheWrite: undefined },
+          outputTokens: { total: 5, text: 5, reasoning: undefined },
+        },
+        warnings: [],
+      }),
+    }),
+    prompt: 'Say hello',
+    tools: {
+      [helloToolName as string]: tool({
+        description: 'Says hello',
+        inputSchema: jsonSchema<Record<string, never>>({ type: 'object', properties: {} }),
+        execute,
+      }),
+    },
+    onStepFinish: ({ content }) => {
+      for (const result of stepToolResults(content)) {
+        mocks.messages.push({ toolName: result.toolName, toolResult: result.output });
+      }
+    },
+  });
+}
+
+beforeEach(() => {
+  mocks.messages = [];
+});
+
+describe('loadExecutionSignals', () => {
+  it('counts agent tool calls that threw as failures', async () => {
+    await runAgentStep(async () => {
+      throw new Error('Upstream API returned 500');
+    });
+
+    expect(mocks.messages).toEqual([
+      { toolName: helloToolName, toolResult: { error: 'Upstream API returned 500' } },
+    ]);
+    const signals = await loadExecutionSignals([helloTool]);
+    expect(signals.get('tool-1')).toEqual({ succeeded: 0, failed: 1 });
+  });
+
+  it('counts successful agent tool calls', async () => {
+    await runAgentStep(async () => ({ greeting: 'Hello' }));
+    await runAgentStep(async () => {
+      throw new Error('Timed out');
+    });
+
+    const signals = await loadExecutionSignals([helloTool]);
+    expect(signals.get('tool-1')).toEqual({ succeeded: 1, failed: 1 });
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Usage and health signals behind the quality score
+ * Loads health check history and execution outcomes of agent conversations and playground runs
+ */
+
+import { prisma } from '@tpmjs/db';
+
+import { toolNameCandidates } from '../tool-names';
+import type { ExecutionSignal, HealthSignal } from './score';
+
+// Health checks considered per tool (most recent first)
+const HEALTH_CHECK_WINDOW = 20;
+
+// Executions older than this don't count
+export const EXECUTION_WINDOW_DAYS = 90;
+
+interface ToolIdentity {
+  id: string;
+  name: string;
+  package: { npmPackageName: string };
+}
+
+/**
+ * Recent health checks of a tool: pass rate and execution latencies
+ * Checks that couldn't decide (UNKNOWN) are left out
+ */
+export async function loadHealthSignal(toolId: string): Promise<HealthSignal> {
+  const checks = await prisma.healthCheck.findMany({
+    where: { toolId, overallStatus: { not: 'UNKNOWN' } },
+    orderBy: { createdAt: 'desc' },
+    take: HEALTH_CHECK_WINDOW,
+    select: { overallStatus: true, executionStatus: true, executionTimeMs: true },
+  });
+
+  return {
+    checks: checks.length,
+    passed: checks.filter((check) => check.overallStatus === 'HEALTHY').length,
+    latenciesMs: checks
+      .filter((check) => check.executionStatus !== 'UNKNOWN' && check.executionTimeMs !== null)
+      .map((check) => check.executionTimeMs as number),
+  };
+}
+
+/**
+ * Execution outcomes per tool id over the last EXECUTION_WINDOW_DAYS
+ *
+ * Playground simulations carry their tool id. Agent TOOL messages only carry the client-facing
+ * tool name, so names are matched back through toolNameCandidates; a name that could belong to
+ * more than one tool is ignored. Calls the user denied are not the tool's fault and don't count.
+ */
+export async function loadExecutionSignals(
+  tools: ToolIdentity[]
+): Promise<Map<string, ExecutionSignal>> {
+  const since = new Date(Date.now() - EXECUTION_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+  const [simulations, toolMessages] = await Promise.all([
+    prisma.simulation.groupBy({
+      by: ['toolId', 'status'],
+      where: { createdAt: { gte: since }, status: { in: ['success', 'error', 'timeout'] } },
+      _count: { id: true },
+    }),
+    prisma.$queryRaw<{ tool_name: string; succeeded: bigint; failed: bigint }[]>`
+      SELECT
+        tool_name,
+        SUM(CASE WHEN tool_result -> 'error' IS NULL THEN 1 ELSE 0 END) as succeeded,
+        SUM(CASE WHEN tool_result -> 'error' IS NOT NULL THEN 1 ELSE 0 END) as failed
+      FROM messages
+      WHERE role = 'TOOL'
+        AND tool_name IS NOT NULL
+        AND created_at >= ${since}
+        AND tool_result -> 'denied' IS NULL
+      GROUP BY tool_name
+    `,
+  ]);
+
+  const signals = new Map<string, ExecutionSignal>();
+  const signalFor = (toolId: string): ExecutionSignal => {
+    let signal = signals.get(toolId);
+    if (!signal) {
+      signal = { succeeded: 0, failed: 0 };
+      signals.set(toolId, signal);
+    }
+    return signal;
+  };
+
+  for (const row of simulations) {
+    const signal = signalFor(row.toolId);
+    if (row.status === 'success') signal.succeeded += row._count.id;
+    else signal.failed += row._count.id;
+  }
+
+  // Client-facing name → tool id, or null when the name is ambiguous
+  const toolIdsByName = new Map<string, string | null>();
+  for (const tool of tools) {
+    for (const name of toolNameCandidates(tool.package.npmPackageName, tool.name)) {
+      toolIdsByName.set(name, toolIdsByName.has(name) ? null : tool.id);
+    }
+  }
+
+  for (const row of toolMessages) {
+    const toolId = toolIdsByName.get(row.tool_name);
+    if (!toolId) continue;
+    const signal = signalFor(toolId);
+    signal.succeeded += Number(row.succeeded);
+    signal.failed += Number(row.failed);
+  }
+
+  return signals;
+}
@@ -0,0 +1,64 @@
+/**
+ * Tests for input schema diffs between package versions
+ */
+
+import { describe, expect, it } from 'vitest';
+import { diffInputSchemas } from './schema-diff';
+
+const baseSchema = {
+  type: 'object',
+  properties: {
+    url: { type: 'string' },
+    limit: { type: 'number' },
+  },
+  required: ['url'],
+};
+
+describe('diffInputSchemas', () => {
+  it('reports no changes for identical schemas', () => {
+    expect(diffInputSchemas(baseSchema, baseSchema)).toEqual({ changes: [], breaking: false });
+  });
+
+  it('treats new optional parameters and relaxed requirements as non-breaking', () => {
+    const diff = diffInputSchemas(baseSchema, {
+      type: 'object',
+      properties: { ...baseSchema.properties, format: { type: 'string' } },
+      required: [],
+    });
+
+    expect(diff.breaking).toBe(false);
+    expect(diff.changes).toEqual([
+      { kind: 'no_longer_required', parameter: 'url', breaking: false },
+      { kind: 'added', parameter: 'format', breaking: false },
+    ]);
+  });
+
+  it('flags removed, newly required and retyped parameters as breaking', () => {
+    const diff = diffInputSchemas(baseSchema, {
+      type: 'object',
+      properties: {
+        url: { type: ['string', 'null'] },
+        selector: { type: 'string' },
+      },
+      required: ['url', 'selector'],
+    });
+
+    expect(diff.breaking).toBe(true);
+    expect(diff.changes).toEqual([
+      {
+        kind: 'type_changed',
+        parameter: 'url',
+        breaking: true,
+        from: 'string',
+        to: 'null | string',
+      },
+      { kind: 'removed', parameter: 'limit', breaking: true },
+      { kind: 'newly_required', parameter: 'selector', breaking: true },
+    ]);
+  });
+
+  it('handles missing schemas', () => {
+    expect(diffInputSchemas(null, baseSchema).changes).toHaveLength(2);
+    expect(diffInputSchemas(baseSchema, undefined).breaking).toBe(true);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Compare tool input schemas between package versions
+ *
+ * Only top-level parameters are compared (the same view the parameters API exposes).
+ * A change is breaking when existing calls could start failing: a parameter was removed,
+ * became required (or was added as required), or changed type.
+ */
+
+export type SchemaChangeKind =
+  | 'added'
+  | 'removed'
+  | 'newly_required'
+  | 'no_longer_required'
+  | 'type_changed';
+
+export interface SchemaChange {
+  kind: SchemaChangeKind;
+  parameter: string;
+  breaking: boolean;
+  /** Previous type (type_changed only) */
+  from?: string;
+  /** New type (type_changed only) */
+  to?: string;
+}
+
+export interface SchemaDiff {
+  changes: SchemaChange[];
+  breaking: boolean;
+}
+
+interface ParameterInfo {
+  type: string;
+  required: boolean;
+}
+
+function readParameters(inputSchema: unknown): Map<string, ParameterInfo> {
+  const parameters = new Map<string, ParameterInfo>();
+  if (!inputSchema || typeof inputSchema !== 'object') return parameters;
+
+  const schema = inputSchema as Record<string, unknown>;
+  const properties = schema.properties as Record<string, Record<string, unknown>> | undefined;
+  const required = Array.isArray(schema.required) ? (schema.required as string[]) : [];
+  if (!properties || typeof properties !== 'object') return parameters;
+
+  for (const [name, prop] of Object.entries(properties)) {
+    const type = prop?.type;
+    parameters.set(name, {
+      type: Array.isArray(type) ? [...type].sort().join(' | ') : String(type ?? 'unknown'),
+      required: required.includes(name),
+    });
+  }
+  return parameters;
+}
+
+/**
+ * Diff two input schemas (previous → next)
+ */
+export function diffInputSchemas(previous: unknown, next: unknown): SchemaDiff {
+  const before = readParameters(previous);
+  const after = readParameters(next);
+  const changes: SchemaChange[] = [];
+
+  for (const [name, prev] of before) {
+    const curr = after.get(name);
+    if (!curr) {
+      changes.push({ kind: 'removed', parameter: name, breaking: true });
+      continue;
+    }
+    if (prev.type !== curr.type) {
+      changes.push({
+        kind: 'type_changed',
+        parameter: name,
+        breaking: true,
+        from: prev.type,
+        to: curr.type,
+      });
+    }
+    if (!prev.required && curr.required) {
+      changes.push({ kind: 'newly_required', parameter: name, breaking: true });
+    } else if (prev.required && !curr.required) {
+      changes.push({ kind: 'no_longer_required', parameter: name, breaking: false });
+    }
+  }
+
+  for (const [name, curr] of after) {
+    if (before.has(name)) continue;
+    changes.push(
+      curr.required
+        ? { kind: 'newly_required', parameter: name, breaking: true }
+        : { kind: 'added', parameter: name, breaking: false }
+    );
+  }
+
+  return { changes, breaking: changes.some((change) => change.breaking) };
+}
@@ -0,0 +1,90 @@
+/**
+ * BM25 keyword scoring
+ * Shared by the registry search API and agent long-term memory retrieval
+ */
+
+// BM25 parameters
+export const BM25_K1 = 1.5; // term frequency saturation parameter
+export const BM25_B = 0.75; // length normalization parameter
+
+// Split camelCase and PascalCase into words
+function splitCamelCase(text: string): string {
+  return text
+    .replace(/([a-z])([A-Z])/g, '$1 $2') // camelCase -> camel Case
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2'); // XMLParser -> XML Parser
+}
+
+// Tokenize text into words (handles camelCase)
+export function tokenize(text: string): string[] {
+  return splitCamelCase(text)
+    .toLowerCase()
+    .replace(/[^\w\s]/g, ' ')
+    .split(/\s+/)
+    .filter((t) => t.length > 0);
+}
+
+// Calculate term frequency
+function termFrequency(term: string, tokens: string[]): number {
+  return tokens.filter((t) => t === term).length;
+}
+
+/**
+ * Inverse document frequency of a term found in `docFreq` of `totalDocs` documents
+ */
+export function bm25Idf(totalDocs: number, docFreq: number): number {
+  return Math.log((totalDocs - docFreq + 0.5) / (docFreq + 0.5) + 1);
+}
+
+// Calculate BM25 score
+export function calculateBM25(
+  query: string,
+  document: string,
+  avgDocLength: number,
+  totalDocs: number,
+  docFrequencies: Map<string, number>
+): number {
+  const queryTokens = tokenize(query);
+  const docTokens = tokenize(document);
+  const docLength = docTokens.length;
+
+  let score = 0;
+
+  for (const term of queryTokens) {
+    const tf = termFrequency(term, docTokens);
+    if (tf === 0) continue;
+
+    const idf = bm25Idf(totalDocs, docFrequencies.get(term) || 0);
+
+    // BM25 formula
+    const numerator = tf * (BM25_K1 + 1);
+    const denominator = tf + BM25_K1 * (1 - BM25_B + BM25_B * (docLength / avgDocLength));
+
+    score += idf * (numerator / denominator);
+  }
+
+  return score;
+}
+
+/**
+ * BM25 score of every document for a query (same order as `documents`)
+ * Document frequencies and the average length are computed over `documents`
+ */
+export function scoreBM25(query: string, documents: string[]): number[] {
+  if (documents.length === 0) return [];
+
+  const docTokens = documents.map(tokenize);
+
+  // Calculate document frequencies (IDF)
+  const docFrequencies = new Map<string, number>();
+  for (const term of tokenize(query)) {
+    docFrequencies.set(term, docTokens.filter((tokens) => tokens.includes(term)).length);
+  }
+
+  // Calculate average document length
+  const totalTokens = docTokens.reduce((sum, tokens) => sum + tokens.length, 0);
+  const avgDocLength = totalTokens / documents.length;
+
+  return documents.map((document) =>
+    calculateBM25(query, document, avgDocLength, documents.length, docFrequencies)
+  );
+}
@@ -0,0 +1,67 @@
+/**
+ * Tests for the semantic search embedders
+ */
+
+import { describe, expect, it } from 'vitest';
+import { cosineSimilarity, getEmbedder, HashingEmbedder, stem } from './embedder';
+
+const embedder = new HashingEmbedder();
+
+async function similarity(a: string, b: string): Promise<number> {
+  const [va = [], vb = []] = await embedder.embed([a, b]);
+  return cosineSimilarity(va, vb);
+}
+
+describe('HashingEmbedder', () => {
+  it('produces deterministic unit vectors', async () => {
+    const [first = [], second = []] = await embedder.embed([
+      'Fetch a web page',
+      'Fetch a web page',
+    ]);
+    expect(first).toHaveLength(512);
+    expect(first).toEqual(second);
+    expect(cosineSimilarity(first, first)).toBeCloseTo(1);
+  });
+
+  it('embeds text without content words as a zero vector', async () => {
+    const [vector = []] = await embedder.embed(['the of and']);
+    expect(vector.every((value) => value === 0)).toBe(true);
+  });
+
+  it('ranks related wording above unrelated text', async () => {
+    const related = await similarity(
+      'grab the contents of a website',
+      'fetchUrl: Fetch URL content and return the page HTML'
+    );
+    const unrelated = await similarity(
+      'grab the contents of a website',
+      'weatherForecast: Get the temperature forecast for a city'
+    );
+    expect(related).toBeGreaterThan(0.2);
+    expect(related).toBeGreaterThan(unrelated);
+  });
+
+  it('matches word forms and typos through stems and trigrams', async () => {
+    expect(await similarity('scraping', 'scraped')).toBeCloseTo(1);
+    expect(await similarity('summarise', 'summarize')).toBeGreaterThan(0.3);
+  });
+
+  it('includes the dimensions in its id', () => {
+    expect(new HashingEmbedder(256).id).toBe('hash-v1-256');
+  });
+});
+
+describe('stem', () => {
+  it('strips common suffixes from long words only', () => {
+    expect(stem('scraping')).toBe('scrap');
+    expect(stem('images')).toBe('imag');
+    expect(stem('uses')).toBe('uses');
+  });
+});
+
+describe('getEmbedder', () => {
+  it('falls back to the hashing embedder for unknown names', () => {
+    expect(getEmbedder('hash').id).toBe('hash-v1-512');
+    expect(getEmbedder('missing').id).toBe('hash-v1-512');
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Text embedders for semantic tool search
+ *
+ * An embedder turns text into a fixed-size, L2-normalized vector so that cosine similarity
+ * reflects how related two texts are. Backends are registered in EMBEDDERS and selected with
+ * the SEARCH_EMBEDDER env var; each has an id stored with its vectors, so changing the backend
+ * (or its settings) marks the existing index stale instead of mixing incompatible vectors.
+ */
+
+import { tokenize } from './bm25';
+
+export interface Embedder {
+  /** Stored with every vector, e.g. "hash-v1-512" */
+  id: string;
+  dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// Words that carry no meaning for matching tools
+const STOPWORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'are',
+  'as',
+  'at',
+  'be',
+  'by',
+  'for',
+  'from',
+  'i',
+  'in',
+  'is',
+  'it',
+  'me',
+  'my',
+  'of',
+  'on',
+  'or',
+  'that',
+  'the',
+  'this',
+  'to',
+  'tool',
+  'tools',
+  'with',
+  'you',
+  'your',
+]);
+
+// Words with the same meaning in tool descriptions share a concept feature, so "grab a web page"
+// finds a tool described as "fetch URL content"
+const CONCEPTS: string[][] = [
+  ['fetch', 'get', 'retrieve', 'download', 'grab', 'load', 'pull'],
+  ['scrape', 'crawl', 'extract', 'parse', 'harvest'],
+  ['search', 'find', 'lookup', 'query', 'discover', 'locate'],
+  ['web', 'website', 'page', 'url', 'html', 'site', 'browser'],
+  ['image', 'picture', 'photo', 'png', 'jpeg', 'jpg', 'screenshot'],
+  ['summarize', 'summary', 'tldr', 'condense', 'digest'],
+  ['translate', 'translation', 'language', 'localize'],
+  ['email', 'mail', 'inbox', 'smtp'],
+  ['message', 'chat', 'slack', 'discord', 'notify', 'notification'],
+  ['weather', 'forecast', 'temperature', 'climate'],
+  ['file', 'document', 'pdf', 'docx', 'csv'],
+  ['database', 'sql', 'postgres', 'query', 'table'],
+  ['code', 'repository', 'github', 'git', 'commit'],
+  ['security', 'vulnerability', 'cve', 'scan', 'audit'],
+  ['money', 'price', 'payment', 'invoice', 'currency', 'stock', 'finance'],
+  ['calendar', 'schedule', 'event', 'meeting', 'date'],
+  ['generate', 'create', 'make', 'write', 'produce'],
+  ['convert', 'transform', 'format', 'encode', 'decode'],
+  ['news', 'article', 'headline', 'blog'],
+  ['map', 'location', 'geocode', 'address', 'place'],
+];
+
+const CONCEPT_OF = new Map<string, string[]>();
+for (const [index, words] of CONCEPTS.entries()) {
+  for (const word of words) {
+    CONCEPT_OF.set(word, [...(CONCEPT_OF.get(word) ?? []), `concept:${index}`]);
+  }
+}
+
+/**
+ * Strip common English suffixes so "scraping", "scraped" and "scrapes" share a stem
+ */
+export function stem(word: string): string {
+  for (const suffix of ['ing', 'ed', 'es', 's']) {
+    if (word.length > suffix.length + 3 && word.endsWith(suffix)) {
+      return word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+}
+
+// FNV-1a: fast, stable across runtimes
+function hash32(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Deterministic, offline embedder using the hashing trick
+ *
+ * Each word contributes its stem, its character trigrams (so spelling variants and typos still
+ * overlap) and any concept it belongs to, hashed into a signed bucket. Weights are sublinear
+ * in term frequency. Good enough to match related wording without a model download.
+ */
+export class HashingEmbedder implements Embedder {
+  readonly id: string;
+
+  constructor(readonly dimensions = 512) {
+    this.id = `hash-v1-${dimensions}`;
+  }
+
+  private features(text: string): Map<string, number> {
+    const features = new Map<string, number>();
+    const add = (feature: string, weight: number) => {
+      features.set(feature, (features.get(feature) ?? 0) + weight);
+    };
+
+    for (const token of tokenize(text)) {
+      if (STOPWORDS.has(token) || /^\d+$/.test(token)) continue;
+
+      const word = stem(token);
+      add(`w:${word}`, 1);
+      for (const concept of CONCEPT_OF.get(token) ?? CONCEPT_OF.get(word) ?? []) {
+        add(concept, 1);
+      }
+      const padded = `#${word}#`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        add(`t:${padded.slice(i, i + 3)}`, 0.3);
+      }
+    }
+    return features;
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const [feature, weight] of this.features(text)) {
+      const h = hash32(feature);
+      const sign = h & 0x80000000 ? -1 : 1;
+      const bucket = h % this.dimensions;
+      vector[bucket] = (vector[bucket] ?? 0) + sign * Math.log1p(weight);
+    }
+    return normalize(vector);
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedOne(text));
+  }
+}
+
+/**
+ * Scale a vector to unit length (all-zero vectors stay zero)
+ */
+export function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map((value) => value / norm);
+}
+
+/**
+ * Cosine similarity of two L2-normalized vectors
+ */
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let dot = 0;
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    dot += (a[i] ?? 0) * (b[i] ?? 0);
+  }
+  return dot;
+}
+
+/**
+ * Available embedding backends by SEARCH_EMBEDDER name
+ * Register model-backed embedders (e.g. an ONNX sentence encoder) here
+ */
+export const EMBEDDERS: Record<string, () => Embedder> = {
+  hash: () => new HashingEmbedder(),
+};
+
+/**
+ * The embedder for a SEARCH_EMBEDDER name, falling back to the hashing embedder
+ */
+export function getEmbedder(name: string): Embedder {
+  const create = EMBEDDERS[name];
+  if (!create) {
+    console.warn(`[Search] Unknown embedder "${name}", using hash`);
+    return new HashingEmbedder();
+  }
+  return create();
+}
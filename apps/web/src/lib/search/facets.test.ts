@@ -0,0 +1,77 @@
+/**
+ * Tests for tool listing facets
+ */
+
+import { Prisma } from '@tpmjs/db';
+import { describe, expect, it } from 'vitest';
+import { facetCountsSql, facetsFromCounts, facetWhere, parseFacetFilters } from './facets';
+
+describe('facetsFromCounts', () => {
+  it('groups counts per facet, most common first', () => {
+    const facets = facetsFromCounts([
+      { facet: 'category', value: 'web', count: 2 },
+      { facet: 'category', value: 'data', count: 1 },
+      { facet: 'category', value: 'security', count: 2 },
+      { facet: 'health', value: 'BROKEN', count: 1 },
+      { facet: 'health', value: 'HEALTHY', count: 4 },
+    ]);
+
+    expect(facets.category).toEqual([
+      { value: 'security', count: 2 },
+      { value: 'web', count: 2 },
+      { value: 'data', count: 1 },
+    ]);
+    expect(facets.health).toEqual([
+      { value: 'HEALTHY', count: 4 },
+      { value: 'BROKEN', count: 1 },
+    ]);
+    expect(facets.framework).toEqual([]);
+  });
+});
+
+describe('facetCountsSql', () => {
+  // The count query of one facet (facets are counted in order, joined with UNION ALL)
+  function facetQuery(sql: Prisma.Sql, index: number): string {
+    return sql.sql.split(' UNION ALL ')[index] ?? '';
+  }
+
+  it('counts every facet in one query over the given conditions', () => {
+    const sql = facetCountsSql(Prisma.sql`p.is_official = ${true}`, {});
+
+    expect(sql.sql.split(' UNION ALL ')).toHaveLength(7);
+    expect(sql.sql).toContain('GROUP BY v.value');
+    expect(sql.values.filter((value) => value === true)).toHaveLength(7);
+  });
+
+  it('applies every active filter except the facet being counted', () => {
+    const sql = facetCountsSql(Prisma.sql`TRUE`, { category: 'security' });
+
+    // category is counted first: without its own filter
+    expect(facetQuery(sql, 0)).not.toContain('EXISTS');
+    expect(facetQuery(sql, 1)).toContain('EXISTS');
+    expect(sql.values.filter((value) => value === 'security')).toHaveLength(6);
+  });
+});
+
+describe('parseFacetFilters', () => {
+  it('reads facet query parameters', () => {
+    expect(
+      parseFacetFilters(new URLSearchParams('category=web&env=none&quality=high&limit=5'))
+    ).toEqual({ category: 'web', env: 'none', quality: 'high' });
+  });
+
+  it('rejects values outside a fixed set', () => {
+    expect(() => parseFacetFilters(new URLSearchParams('health=GOOD'))).toThrow(
+      'Invalid health: must be one of HEALTHY, BROKEN, UNKNOWN'
+    );
+  });
+});
+
+describe('facetWhere', () => {
+  it('builds one condition per active filter', () => {
+    expect(facetWhere({ category: 'web', framework: 'langchain' })).toEqual([
+      { package: { category: 'web' } },
+      { package: { frameworks: { has: 'langchain' } } },
+    ]);
+  });
+});
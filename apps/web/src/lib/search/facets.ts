@@ -0,0 +1,194 @@
+/**
+ * Faceted filtering and counts for the tool listing
+ *
+ * Every facet is both a filter (a query parameter holding one value) and a set of counts. A facet
+ * is counted over tools matching all other active filters but not its own, so picking a category
+ * still shows how many tools the other categories have.
+ *
+ * Counts are grouped in SQL (one `GROUP BY` per facet in a single query), so listing with facets
+ * doesn't load the matching tools.
+ */
+
+import { Prisma } from '@tpmjs/db';
+import {
+  EnvFacetValueSchema,
+  HealthFacetValueSchema,
+  QualityBucketSchema,
+  type ToolFacetKey,
+  ToolFacetKeySchema,
+  type ToolFacets,
+} from '@tpmjs/types/tool';
+
+export type FacetFilters = Partial<Record<ToolFacetKey, string>>;
+
+// Lower bounds of the quality buckets (qualityScore is 0-1)
+export const QUALITY_BUCKETS = {
+  high: 0.7,
+  medium: 0.4,
+} as const;
+
+interface FacetDefinition {
+  /** Accepted filter values, for facets with a fixed set */
+  values?: readonly string[];
+  where(value: string): Prisma.ToolWhereInput;
+  /**
+   * Facet values a tool counts towards, as a subquery over `tools t` and `packages p` returning
+   * `value` rows (the SQL counterpart of `where`)
+   */
+  valuesSql: Prisma.Sql;
+}
+
+const HEALTHY: Prisma.ToolWhereInput = { importHealth: 'HEALTHY', executionHealth: 'HEALTHY' };
+const BROKEN: Prisma.ToolWhereInput = {
+  OR: [{ importHealth: 'BROKEN' }, { executionHealth: 'BROKEN' }],
+};
+
+// Env vars default to required; a package needs keys if any is required
+const REQUIRES_ENV: Prisma.ToolWhereInput = {
+  package: { env: { array_contains: [{ required: true }] } },
+};
+
+const QUALITY_WHERE: Record<string, Prisma.ToolWhereInput> = {
+  high: { qualityScore: { gte: QUALITY_BUCKETS.high } },
+  medium: { qualityScore: { gte: QUALITY_BUCKETS.medium, lt: QUALITY_BUCKETS.high } },
+  low: { qualityScore: { lt: QUALITY_BUCKETS.medium } },
+  unscored: { qualityScore: null },
+};
+
+const FACETS: Record<ToolFacetKey, FacetDefinition> = {
+  category: {
+    where: (category) => ({ package: { category } }),
+    valuesSql: Prisma.sql`SELECT p.category AS value`,
+  },
+  framework: {
+    where: (framework) => ({ package: { frameworks: { has: framework } } }),
+    valuesSql: Prisma.sql`SELECT DISTINCT unnest(p.frameworks) AS value`,
+  },
+  license: {
+    where: (license) => ({ package: { npmLicense: license } }),
+    valuesSql: Prisma.sql`SELECT p.npm_license AS value WHERE p.npm_license IS NOT NULL`,
+  },
+  tier: {
+    where: (tier) => ({ package: { tier } }),
+    valuesSql: Prisma.sql`SELECT p.tier AS value`,
+  },
+  health: {
+    values: HealthFacetValueSchema.options,
+    where: (health) =>
+      health === 'HEALTHY' ? HEALTHY : health === 'BROKEN' ? BROKEN : { NOT: [HEALTHY, BROKEN] },
+    valuesSql: Prisma.sql`SELECT CASE
+      WHEN t.import_health = 'BROKEN' OR t.execution_health = 'BROKEN' THEN 'BROKEN'
+      WHEN t.import_health = 'HEALTHY' AND t.execution_health = 'HEALTHY' THEN 'HEALTHY'
+      ELSE 'UNKNOWN'
+    END AS value`,
+  },
+  env: {
+    values: EnvFacetValueSchema.options,
+    where: (env) =>
+      env === 'required'
+        ? REQUIRES_ENV
+        : { OR: [{ package: { env: { equals: Prisma.DbNull } } }, { NOT: REQUIRES_ENV }] },
+    valuesSql: Prisma.sql`SELECT CASE
+      WHEN p.env @> '[{"required": true}]'::jsonb THEN 'required'
+      ELSE 'none'
+    END AS value`,
+  },
+  quality: {
+    values: QualityBucketSchema.options,
+    where: (bucket) => QUALITY_WHERE[bucket] ?? {},
+    valuesSql: Prisma.sql`SELECT CASE
+      WHEN t.quality_score IS NULL THEN 'unscored'
+      WHEN t.quality_score >= ${QUALITY_BUCKETS.high} THEN 'high'
+      WHEN t.quality_score >= ${QUALITY_BUCKETS.medium} THEN 'medium'
+      ELSE 'low'
+    END AS value`,
+  },
+};
+
+/**
+ * One counted facet value
+ */
+export interface FacetCountRow {
+  facet: ToolFacetKey;
+  value: string;
+  count: number;
+}
+
+/**
+ * Facet filters from query parameters
+ * @throws Error if a facet with a fixed set of values gets another value
+ */
+export function parseFacetFilters(searchParams: URLSearchParams): FacetFilters {
+  const filters: FacetFilters = {};
+  for (const key of ToolFacetKeySchema.options) {
+    const value = searchParams.get(key);
+    if (!value) continue;
+
+    const allowed = FACETS[key].values;
+    if (allowed && !allowed.includes(value)) {
+      throw new Error(`Invalid ${key}: must be one of ${allowed.join(', ')}`);
+    }
+    filters[key] = value;
+  }
+  return filters;
+}
+
+function activeFilters(
+  filters: FacetFilters,
+  except?: ToolFacetKey
+): Array<[ToolFacetKey, string]> {
+  return Object.entries(filters).filter(
+    (entry): entry is [ToolFacetKey, string] => entry[0] !== except && Boolean(entry[1])
+  );
+}
+
+/**
+ * Where conditions for the active facet filters (AND them with the other conditions)
+ */
+export function facetWhere(filters: FacetFilters): Prisma.ToolWhereInput[] {
+  return activeFilters(filters).map(([key, value]) => FACETS[key].where(value));
+}
+
+// SQL condition for an active facet filter: the tool counts towards the value
+function facetFilterSql(key: ToolFacetKey, value: string): Prisma.Sql {
+  return Prisma.sql`EXISTS (SELECT 1 FROM (${FACETS[key].valuesSql}) f WHERE f.value = ${value})`;
+}
+
+/**
+ * Query counting tools per facet value, each facet with every filter but its own applied
+ * `where` is the SQL condition for the query and non-facet filters over `tools t` and
+ * `packages p`; the query returns FacetCountRows
+ */
+export function facetCountsSql(where: Prisma.Sql, filters: FacetFilters): Prisma.Sql {
+  const counts = ToolFacetKeySchema.options.map((key) => {
+    const conditions = [
+      where,
+      ...activeFilters(filters, key).map(([other, value]) => facetFilterSql(other, value)),
+    ];
+    return Prisma.sql`(
+      SELECT ${key}::text AS facet, v.value::text AS value, COUNT(*)::int AS count
+      FROM tools t
+      JOIN packages p ON p.id = t.package_id
+      CROSS JOIN LATERAL (${FACETS[key].valuesSql}) v
+      WHERE ${Prisma.join(conditions, ' AND ')}
+      GROUP BY v.value
+    )`;
+  });
+  return Prisma.join(counts, ' UNION ALL ');
+}
+
+/**
+ * Facets from the rows of facetCountsSql, most common value first
+ */
+export function facetsFromCounts(rows: FacetCountRow[]): ToolFacets {
+  const facets = Object.fromEntries(
+    ToolFacetKeySchema.options.map((key) => [key, []])
+  ) as unknown as ToolFacets;
+  for (const { facet, value, count } of rows) {
+    facets[facet].push({ value, count });
+  }
+  for (const key of ToolFacetKeySchema.options) {
+    facets[key].sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+  }
+  return facets;
+}
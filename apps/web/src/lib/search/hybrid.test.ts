@@ -0,0 +1,35 @@
+/**
+ * Tests for hybrid keyword/semantic ranking
+ */
+
+import { describe, expect, it } from 'vitest';
+import { HYBRID_WEIGHTS, hybridScores } from './hybrid';
+
+describe('hybridScores', () => {
+  it('scales BM25 by the best candidate and blends in similarity', () => {
+    const [best, half] = hybridScores([
+      { bm25: 8, similarity: 0.5, exactName: false },
+      { bm25: 4, similarity: 0, exactName: false },
+    ]);
+    expect(best?.score).toBeCloseTo(HYBRID_WEIGHTS.keyword + HYBRID_WEIGHTS.semantic * 0.5);
+    expect(half?.score).toBeCloseTo(HYBRID_WEIGHTS.keyword * 0.5);
+  });
+
+  it('classifies how each tool matched', () => {
+    const scores = hybridScores([
+      { bm25: 3, similarity: 0.4, exactName: true },
+      { bm25: 3, similarity: 0.4, exactName: false },
+      { bm25: 0, similarity: 0.4, exactName: false },
+    ]);
+    expect(scores.map((s) => s.matchType)).toEqual(['exact', 'fuzzy', 'semantic']);
+  });
+
+  it('ranks on similarity alone when no tool matched keywords', () => {
+    const [close, far] = hybridScores([
+      { bm25: 0, similarity: 0.8, exactName: false },
+      { bm25: 0, similarity: 0.3, exactName: false },
+    ]);
+    expect(close?.score).toBeGreaterThan(far?.score ?? 0);
+    expect(close?.matchType).toBe('semantic');
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * Hybrid ranking of keyword (BM25) and semantic (embedding) search results
+ *
+ * BM25 scores are unbounded, so they are scaled by the best candidate's score before being
+ * blended with cosine similarity. A tool found only by similarity is a semantic match.
+ */
+
+export type MatchType = 'exact' | 'fuzzy' | 'semantic';
+
+export interface HybridCandidate {
+  bm25: number;
+  /** Cosine similarity to the query, 0 when the tool wasn't a semantic neighbour */
+  similarity: number;
+  exactName: boolean;
+}
+
+export interface HybridScore {
+  /** 0-1 blend of keyword and semantic relevance */
+  score: number;
+  matchType: MatchType;
+}
+
+export const HYBRID_WEIGHTS = {
+  keyword: 0.6,
+  semantic: 0.4,
+} as const;
+
+/**
+ * Blend keyword and semantic relevance (same order as `candidates`)
+ */
+export function hybridScores(candidates: HybridCandidate[]): HybridScore[] {
+  const maxBm25 = Math.max(0, ...candidates.map(({ bm25 }) => bm25));
+
+  return candidates.map(({ bm25, similarity, exactName }) => {
+    const keyword = maxBm25 > 0 ? bm25 / maxBm25 : 0;
+    const semantic = Math.max(0, similarity);
+    return {
+      score: HYBRID_WEIGHTS.keyword * keyword + HYBRID_WEIGHTS.semantic * semantic,
+      matchType: exactName ? 'exact' : bm25 > 0 ? 'fuzzy' : 'semantic',
+    };
+  });
+}
@@ -0,0 +1,302 @@
+/**
+ * Persistent inverted index for BM25 tool search
+ *
+ * The sync routes write each tool's terms to tool_search_terms (one row per field and term) and
+ * its field lengths to tool_search_documents. Queries score only the postings of their terms in
+ * SQL, using BM25F with document frequencies over the whole registry, so request cost no longer
+ * grows with the number of candidate documents.
+ *
+ * Query tokens are expanded on the term index too: prefix matches are range scans
+ * (`term LIKE 'abc%'` on a text_pattern_ops index), typo candidates come from the bucket of terms
+ * with the token's first letter and a length within its typo budget, and document frequencies
+ * are only computed for the terms a query can use.
+ */
+
+import { createHash } from 'node:crypto';
+import { Prisma, prisma } from '@tpmjs/db';
+import { BM25_B, BM25_K1, bm25Idf, tokenize } from './bm25';
+import {
+  expandQueryTokens,
+  FIELD_WEIGHTS,
+  isTypoMatch,
+  MATCH_WEIGHTS,
+  MAX_EXPANSIONS,
+  MIN_PREFIX_LENGTH,
+  SEARCH_FIELDS,
+  type SearchField,
+  termFrequencies,
+  toolSearchFields,
+  typoBudget,
+} from './terms';
+
+// How long corpus statistics are reused before reloading them
+const STATS_TTL_MS = 5 * 60 * 1000;
+
+// Query tokens beyond this (e.g. long chat context) add cost but little precision
+const MAX_QUERY_TOKENS = 32;
+
+export interface KeywordMatch {
+  toolId: string;
+  score: number;
+}
+
+interface CorpusStats {
+  totalDocs: number;
+  avgLengths: Record<SearchField, number>;
+  loadedAt: number;
+}
+
+let cachedStats: CorpusStats | null = null;
+
+async function loadCorpusStats(): Promise<CorpusStats> {
+  if (cachedStats && Date.now() - cachedStats.loadedAt < STATS_TTL_MS) {
+    return cachedStats;
+  }
+
+  const [totals] = await prisma.$queryRaw<
+    Array<{
+      total: number;
+      name: number | null;
+      description: number | null;
+      package: number | null;
+      keywords: number | null;
+    }>
+  >`
+    SELECT
+      COUNT(*)::int AS total,
+      AVG(name_length)::float8 AS name,
+      AVG(description_length)::float8 AS description,
+      AVG(package_length)::float8 AS package,
+      AVG(keywords_length)::float8 AS keywords
+    FROM tool_search_documents
+  `;
+  cachedStats = {
+    totalDocs: totals?.total ?? 0,
+    avgLengths: {
+      name: totals?.name || 1,
+      description: totals?.description || 1,
+      package: totals?.package || 1,
+      keywords: totals?.keywords || 1,
+    },
+    loadedAt: Date.now(),
+  };
+  return cachedStats;
+}
+
+// LIKE pattern matching terms that start with `prefix`
+function likePrefix(prefix: string): string {
+  return `${prefix.replace(/[\\%_]/g, '\\$&')}%`;
+}
+
+/**
+ * Index terms within the typo budget of a query token
+ * Only terms with the token's first letter and a length within its budget are compared, so a
+ * typo in the first letter isn't matched
+ */
+async function findTypoTerms(tokens: string[]): Promise<string[]> {
+  const buckets = tokens
+    .filter((token) => typoBudget(token) > 0)
+    .map((token) => {
+      const budget = typoBudget(token);
+      return Prisma.sql`
+        SELECT term
+        FROM tool_search_terms
+        WHERE term LIKE ${likePrefix(token.slice(0, 1))}
+          AND length(term) BETWEEN ${token.length - budget} AND ${token.length + budget}
+      `;
+    });
+  if (buckets.length === 0) return [];
+
+  const rows = await prisma.$queryRaw<Array<{ term: string }>>`
+    SELECT DISTINCT term FROM (${Prisma.join(buckets, ' UNION ALL ')}) AS candidates
+  `;
+  return rows
+    .map((row) => row.term)
+    .filter((term) => tokens.some((token) => isTypoMatch(token, term)));
+}
+
+/**
+ * Document frequencies of the index terms query tokens can match: the tokens themselves, their
+ * typo matches, and the most common terms each token is a prefix of
+ */
+async function loadTermFrequencies(
+  tokens: string[],
+  typoTerms: string[]
+): Promise<Map<string, number>> {
+  const prefixMatches = tokens
+    .filter((token) => token.length >= MIN_PREFIX_LENGTH)
+    .map(
+      (token) => Prisma.sql`(
+        SELECT term, COUNT(DISTINCT tool_id)::int AS df
+        FROM tool_search_terms
+        WHERE term LIKE ${likePrefix(token)}
+        GROUP BY term
+        ORDER BY df DESC
+        LIMIT ${MAX_EXPANSIONS + 1}
+      )`
+    );
+  const exactMatches = Prisma.sql`(
+    SELECT term, COUNT(DISTINCT tool_id)::int AS df
+    FROM tool_search_terms
+    WHERE term = ANY(${[...tokens, ...typoTerms]}::text[])
+    GROUP BY term
+  )`;
+
+  const rows = await prisma.$queryRaw<Array<{ term: string; df: number }>>`
+    ${Prisma.join([...prefixMatches, exactMatches], ' UNION ')}
+  `;
+  return new Map(rows.map(({ term, df }) => [term, df]));
+}
+
+/**
+ * Ids of tools missing from the index or changed since they were indexed
+ */
+export async function findStaleSearchToolIds(limit: number): Promise<string[]> {
+  const rows = await prisma.$queryRaw<Array<{ id: string }>>`
+    SELECT t.id
+    FROM tools t
+    JOIN packages p ON p.id = t.package_id
+    LEFT JOIN tool_search_documents d ON d.tool_id = t.id
+    WHERE d.tool_id IS NULL
+      OR d.updated_at < t.updated_at
+      OR d.updated_at < p.updated_at
+    ORDER BY d.updated_at ASC NULLS FIRST
+    LIMIT ${limit}
+  `;
+  return rows.map((row) => row.id);
+}
+
+/**
+ * Write the terms of tools whose indexed fields changed and mark unchanged ones as current
+ * Returns the number of tools re-indexed
+ */
+export async function indexToolSearchTerms(toolIds: string[]): Promise<number> {
+  const tools = await prisma.tool.findMany({
+    where: { id: { in: toolIds } },
+    select: {
+      id: true,
+      name: true,
+      description: true,
+      searchDocument: { select: { contentHash: true } },
+      package: { select: { npmPackageName: true, npmDescription: true, npmKeywords: true } },
+    },
+  });
+
+  let indexed = 0;
+  for (const tool of tools) {
+    const fields = toolSearchFields(tool);
+    const contentHash = createHash('sha256').update(JSON.stringify(fields)).digest('hex');
+    if (tool.searchDocument?.contentHash === contentHash) {
+      // Touch updatedAt so the tool is no longer selected as stale
+      await prisma.toolSearchDocument.update({ where: { toolId: tool.id }, data: { contentHash } });
+      continue;
+    }
+
+    const lengths = {
+      nameLength: fields.name.length,
+      descriptionLength: fields.description.length,
+      packageLength: fields.package.length,
+      keywordsLength: fields.keywords.length,
+    };
+    await prisma.$transaction([
+      prisma.toolSearchTerm.deleteMany({ where: { toolId: tool.id } }),
+      prisma.toolSearchTerm.createMany({
+        data: SEARCH_FIELDS.flatMap((field) =>
+          [...termFrequencies(fields[field])].map(([term, tf]) => ({
+            toolId: tool.id,
+            field,
+            term,
+            tf,
+          }))
+        ),
+      }),
+      prisma.toolSearchDocument.upsert({
+        where: { toolId: tool.id },
+        create: { toolId: tool.id, ...lengths, contentHash },
+        update: { ...lengths, contentHash },
+      }),
+    ]);
+    indexed++;
+  }
+
+  if (indexed > 0) {
+    cachedStats = null;
+  }
+  return indexed;
+}
+
+/**
+ * Re-index every tool of a package after a sync wrote it
+ */
+export async function indexPackageSearchTerms(packageId: string): Promise<number> {
+  const tools = await prisma.tool.findMany({ where: { packageId }, select: { id: true } });
+  return indexToolSearchTerms(tools.map((tool) => tool.id));
+}
+
+// Length-normalized, field-weighted term frequency of one posting (BM25F)
+function weightedTf(field: SearchField, avgLength: number): Prisma.Sql {
+  const column = Prisma.raw(`d.${field}_length`);
+  return Prisma.sql`WHEN ${field} THEN ${FIELD_WEIGHTS[field]}::float8 / (1 - ${BM25_B}::float8 + ${BM25_B}::float8 * ${column} / ${avgLength}::float8)`;
+}
+
+/**
+ * Tools matching a query by BM25F over the inverted index, best first
+ *
+ * Each query token scores its best matching index term (exact, prefix or typo, weighted by
+ * MATCH_WEIGHTS) with registry-wide IDF; token scores are summed.
+ */
+export async function searchToolIndex(
+  query: string,
+  options: { limit: number; category?: string | null }
+): Promise<KeywordMatch[]> {
+  const tokens = [...new Set(tokenize(query))].slice(0, MAX_QUERY_TOKENS);
+  if (tokens.length === 0) return [];
+
+  const [stats, typoTerms] = await Promise.all([loadCorpusStats(), findTypoTerms(tokens)]);
+  const frequencies = await loadTermFrequencies(tokens, typoTerms);
+  const matches = expandQueryTokens(tokens, frequencies);
+  if (matches.length === 0) return [];
+
+  const weights = matches.map(
+    ({ term, kind }) => MATCH_WEIGHTS[kind] * bm25Idf(stats.totalDocs, frequencies.get(term) ?? 0)
+  );
+  const categoryFilter = options.category
+    ? Prisma.sql`JOIN tools t ON t.id = s.tool_id JOIN packages p ON p.id = t.package_id AND p.category = ${options.category}`
+    : Prisma.empty;
+
+  return prisma.$queryRaw<KeywordMatch[]>`
+    WITH query_terms AS (
+      SELECT *
+      FROM unnest(
+        ${matches.map((m) => m.token)}::int[],
+        ${matches.map((m) => m.term)}::text[],
+        ${weights}::float8[]
+      ) AS q(token, term, weight)
+    ),
+    term_scores AS (
+      SELECT s.tool_id, q.token, q.weight,
+        SUM(s.tf * CASE s.field
+          ${Prisma.join(
+            SEARCH_FIELDS.map((field) => weightedTf(field, stats.avgLengths[field])),
+            ' '
+          )}
+          ELSE 0
+        END) AS tf
+      FROM tool_search_terms s
+      JOIN query_terms q ON q.term = s.term
+      JOIN tool_search_documents d ON d.tool_id = s.tool_id
+      ${categoryFilter}
+      GROUP BY s.tool_id, q.token, q.term, q.weight
+    ),
+    token_scores AS (
+      SELECT tool_id, token, MAX(weight * tf * ${BM25_K1 + 1}::float8 / (tf + ${BM25_K1}::float8)) AS score
+      FROM term_scores
+      GROUP BY tool_id, token
+    )
+    SELECT tool_id AS "toolId", SUM(score)::float8 AS score
+    FROM token_scores
+    GROUP BY tool_id
+    ORDER BY score DESC
+    LIMIT ${options.limit}
+  `;
+}
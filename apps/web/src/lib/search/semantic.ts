@@ -0,0 +1,189 @@
+/**
+ * Semantic tool search
+ *
+ * Every tool has an embedding of its name, description, package metadata and README, kept in
+ * tool_embeddings by the embeddings sync job. Queries are embedded with the same backend and
+ * compared against an in-memory copy of the index, refreshed every few minutes.
+ */
+
+import { createHash } from 'node:crypto';
+import { prisma } from '@tpmjs/db';
+import { env } from '~/env';
+import { cosineSimilarity, type Embedder, getEmbedder } from './embedder';
+
+// README text beyond this adds noise rather than meaning
+const README_CHARS = 1500;
+
+// How long the in-memory index is reused before reloading it
+const INDEX_TTL_MS = 5 * 60 * 1000;
+
+export interface EmbeddableTool {
+  id: string;
+  name: string;
+  description: string;
+  package: {
+    npmPackageName: string;
+    npmDescription: string | null;
+    npmKeywords: string[];
+    npmReadme: string | null;
+  };
+}
+
+export interface SemanticMatch {
+  toolId: string;
+  similarity: number;
+}
+
+let embedder: Embedder | null = null;
+
+/**
+ * The embedder selected by SEARCH_EMBEDDER
+ */
+export function searchEmbedder(): Embedder {
+  embedder ??= getEmbedder(env.SEARCH_EMBEDDER);
+  return embedder;
+}
+
+/**
+ * Text embedded for a tool; the name and description come first so they dominate the vector
+ */
+export function toolEmbeddingText(tool: EmbeddableTool): string {
+  return [
+    tool.name,
+    tool.description,
+    tool.package.npmPackageName,
+    tool.package.npmDescription ?? '',
+    tool.package.npmKeywords.join(' '),
+    (tool.package.npmReadme ?? '').slice(0, README_CHARS),
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Ids of tools with no embedding from the current embedder, or changed since they were embedded
+ */
+export async function findStaleToolIds(limit: number): Promise<string[]> {
+  const rows = await prisma.$queryRaw<Array<{ id: string }>>`
+    SELECT t.id
+    FROM tools t
+    JOIN packages p ON p.id = t.package_id
+    LEFT JOIN tool_embeddings e ON e.tool_id = t.id
+    WHERE e.tool_id IS NULL
+      OR e.model <> ${searchEmbedder().id}
+      OR e.updated_at < t.updated_at
+      OR e.updated_at < p.updated_at
+    ORDER BY e.updated_at ASC NULLS FIRST
+    LIMIT ${limit}
+  `;
+  return rows.map((row) => row.id);
+}
+
+/**
+ * Embed tools whose text changed and mark unchanged ones as current
+ * Returns the number of tools re-embedded
+ */
+export async function indexToolEmbeddings(toolIds: string[]): Promise<number> {
+  const model = searchEmbedder().id;
+  const tools = await prisma.tool.findMany({
+    where: { id: { in: toolIds } },
+    select: {
+      id: true,
+      name: true,
+      description: true,
+      embedding: { select: { model: true, contentHash: true } },
+      package: {
+        select: {
+          npmPackageName: true,
+          npmDescription: true,
+          npmKeywords: true,
+          npmReadme: true,
+        },
+      },
+    },
+  });
+
+  const changed: Array<{ id: string; text: string; contentHash: string }> = [];
+  for (const tool of tools) {
+    const text = toolEmbeddingText(tool);
+    const contentHash = createHash('sha256').update(text).digest('hex');
+    if (tool.embedding?.model === model && tool.embedding.contentHash === contentHash) {
+      // Touch updatedAt so the tool is no longer selected as stale
+      await prisma.toolEmbedding.update({ where: { toolId: tool.id }, data: { contentHash } });
+    } else {
+      changed.push({ id: tool.id, text, contentHash });
+    }
+  }
+
+  const vectors = await searchEmbedder().embed(changed.map(({ text }) => text));
+  for (const [index, { id, contentHash }] of changed.entries()) {
+    const vector = vectors[index] ?? [];
+    await prisma.toolEmbedding.upsert({
+      where: { toolId: id },
+      create: { toolId: id, model, vector, contentHash },
+      update: { model, vector, contentHash },
+    });
+  }
+
+  if (changed.length > 0) {
+    cachedIndex = null;
+  }
+  return changed.length;
+}
+
+interface LoadedIndex {
+  model: string;
+  toolIds: string[];
+  vectors: Float32Array[];
+  loadedAt: number;
+}
+
+let cachedIndex: LoadedIndex | null = null;
+
+async function loadIndex(): Promise<LoadedIndex> {
+  const model = searchEmbedder().id;
+  if (
+    cachedIndex &&
+    cachedIndex.model === model &&
+    Date.now() - cachedIndex.loadedAt < INDEX_TTL_MS
+  ) {
+    return cachedIndex;
+  }
+
+  const rows = await prisma.toolEmbedding.findMany({
+    where: { model },
+    select: { toolId: true, vector: true },
+  });
+  cachedIndex = {
+    model,
+    toolIds: rows.map((row) => row.toolId),
+    vectors: rows.map((row) => Float32Array.from(row.vector)),
+    loadedAt: Date.now(),
+  };
+  return cachedIndex;
+}
+
+/**
+ * Tools most similar to a query, best first
+ * Empty when no tools are embedded yet, so callers fall back to keyword search
+ */
+export async function semanticSearch(
+  query: string,
+  options: { limit: number; minSimilarity: number }
+): Promise<SemanticMatch[]> {
+  if (!query.trim()) return [];
+
+  const index = await loadIndex();
+  if (index.toolIds.length === 0) return [];
+
+  const [queryVector = []] = await searchEmbedder().embed([query]);
+  const matches: SemanticMatch[] = [];
+  for (const [i, vector] of index.vectors.entries()) {
+    const similarity = cosineSimilarity(queryVector, vector);
+    if (similarity >= options.minSimilarity) {
+      matches.push({ toolId: index.toolIds[i] as string, similarity });
+    }
+  }
+
+  return matches.sort((a, b) => b.similarity - a.similarity).slice(0, options.limit);
+}
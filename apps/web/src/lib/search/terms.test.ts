@@ -0,0 +1,112 @@
+/**
+ * Tests for search index terms and query expansion
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  editDistance,
+  expandQueryTokens,
+  isTypoMatch,
+  termFrequencies,
+  toolSearchFields,
+  typoBudget,
+} from './terms';
+
+describe('toolSearchFields', () => {
+  it('tokenizes each field separately', () => {
+    const fields = toolSearchFields({
+      name: 'webScraper',
+      description: 'Scrape a web page',
+      package: {
+        npmPackageName: '@tpmjs/scraper',
+        npmDescription: null,
+        npmKeywords: ['tpmjs', 'html-parsing'],
+      },
+    });
+    expect(fields).toEqual({
+      name: ['web', 'scraper'],
+      description: ['scrape', 'a', 'web', 'page'],
+      package: ['tpmjs', 'scraper'],
+      keywords: ['tpmjs', 'html', 'parsing'],
+    });
+  });
+});
+
+describe('termFrequencies', () => {
+  it('counts occurrences of each token', () => {
+    expect(termFrequencies(['web', 'page', 'web'])).toEqual(
+      new Map([
+        ['web', 2],
+        ['page', 1],
+      ])
+    );
+  });
+});
+
+describe('editDistance', () => {
+  it('counts insertions, deletions, substitutions and transpositions', () => {
+    expect(editDistance('weather', 'weather', 2)).toBe(0);
+    expect(editDistance('wether', 'weather', 2)).toBe(1);
+    expect(editDistance('wheather', 'weather', 2)).toBe(1);
+    expect(editDistance('summarise', 'summarize', 2)).toBe(1);
+    expect(editDistance('scarpe', 'scrape', 2)).toBe(1);
+  });
+
+  it('stops at max + 1', () => {
+    expect(editDistance('email', 'weather', 1)).toBe(2);
+    expect(editDistance('a', 'abcdef', 2)).toBe(3);
+  });
+});
+
+describe('typoBudget', () => {
+  it('allows more edits for longer tokens', () => {
+    expect(typoBudget('pdf')).toBe(0);
+    expect(typoBudget('2024')).toBe(0);
+    expect(typoBudget('scrape')).toBe(1);
+    expect(typoBudget('translation')).toBe(2);
+  });
+});
+
+describe('isTypoMatch', () => {
+  it('matches terms within the typo budget but not the token itself', () => {
+    expect(isTypoMatch('wether', 'weather')).toBe(true);
+    expect(isTypoMatch('wether', 'wether')).toBe(false);
+    expect(isTypoMatch('wether', 'whether')).toBe(true);
+    expect(isTypoMatch('wether', 'leather')).toBe(false);
+    expect(isTypoMatch('pdf', 'pdx')).toBe(false);
+  });
+});
+
+describe('expandQueryTokens', () => {
+  const vocabulary = new Map([
+    ['scrape', 10],
+    ['scraper', 4],
+    ['scraping', 7],
+    ['weather', 3],
+    ['pdf', 5],
+    ['pdfs', 1],
+  ]);
+
+  it('matches exact terms, prefixes and typos', () => {
+    expect(expandQueryTokens(['scrape', 'wether'], vocabulary)).toEqual([
+      { token: 0, term: 'scrape', kind: 'exact' },
+      { token: 0, term: 'scraper', kind: 'prefix' },
+      { token: 1, term: 'weather', kind: 'typo' },
+    ]);
+  });
+
+  it('orders expansions by document frequency', () => {
+    expect(expandQueryTokens(['scra'], vocabulary).map((m) => m.term)).toEqual([
+      'scrape',
+      'scraping',
+      'scraper',
+    ]);
+  });
+
+  it('matches short tokens by prefix only', () => {
+    expect(expandQueryTokens(['pd', 'xyz'], vocabulary)).toEqual([
+      { token: 0, term: 'pdf', kind: 'prefix' },
+      { token: 0, term: 'pdfs', kind: 'prefix' },
+    ]);
+  });
+});
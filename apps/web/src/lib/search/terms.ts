@@ -0,0 +1,177 @@
+/**
+ * Search terms for the tool inverted index
+ *
+ * Tools are indexed per field so BM25 can weight a match in the tool name above one in its
+ * description. Query tokens are expanded against index terms into exact, prefix and
+ * typo-tolerant matches, each scored below an exact match.
+ */
+
+import { tokenize } from './bm25';
+
+export type SearchField = 'name' | 'description' | 'package' | 'keywords';
+
+export const SEARCH_FIELDS: SearchField[] = ['name', 'description', 'package', 'keywords'];
+
+/**
+ * How much a term occurrence counts in each field
+ */
+export const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 3,
+  keywords: 2,
+  description: 1,
+  package: 1,
+};
+
+export type TermMatchKind = 'exact' | 'prefix' | 'typo';
+
+/**
+ * How much a matched index term counts relative to the query token it was expanded from
+ */
+export const MATCH_WEIGHTS: Record<TermMatchKind, number> = {
+  exact: 1,
+  prefix: 0.7,
+  typo: 0.5,
+};
+
+// Longer terms are noise (hashes, base64) and don't fit the term column
+const MAX_TERM_LENGTH = 100;
+
+/**
+ * Prefix and typo matches considered per query token, most common first
+ */
+export const MAX_EXPANSIONS = 8;
+
+/**
+ * Shorter query tokens only match exactly (every term starts with some one-letter prefix)
+ */
+export const MIN_PREFIX_LENGTH = 2;
+
+export interface IndexableTool {
+  name: string;
+  description: string;
+  package: {
+    npmPackageName: string;
+    npmDescription: string | null;
+    npmKeywords: string[];
+  };
+}
+
+export interface QueryTermMatch {
+  /** Position of the query token the term was expanded from */
+  token: number;
+  term: string;
+  kind: TermMatchKind;
+}
+
+/**
+ * Tokens of each indexed field of a tool
+ */
+export function toolSearchFields(tool: IndexableTool): Record<SearchField, string[]> {
+  const terms = (text: string) => tokenize(text).filter((t) => t.length <= MAX_TERM_LENGTH);
+  return {
+    name: terms(tool.name),
+    description: terms(tool.description),
+    package: terms(`${tool.package.npmPackageName} ${tool.package.npmDescription ?? ''}`),
+    keywords: terms(tool.package.npmKeywords.join(' ')),
+  };
+}
+
+/**
+ * Occurrences of each distinct token
+ */
+export function termFrequencies(tokens: string[]): Map<string, number> {
+  const frequencies = new Map<string, number>();
+  for (const token of tokens) {
+    frequencies.set(token, (frequencies.get(token) ?? 0) + 1);
+  }
+  return frequencies;
+}
+
+/**
+ * Edits allowed when matching a query token with a typo; short tokens must match exactly
+ */
+export function typoBudget(token: string): number {
+  if (token.length < 4 || /^\d+$/.test(token)) return 0;
+  return token.length < 8 ? 1 : 2;
+}
+
+// Whether a[i-2..i] and b[j-2..j] are the same two characters swapped
+function isTransposition(a: string, b: string, i: number, j: number): boolean {
+  return i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1];
+}
+
+/**
+ * Damerau-Levenshtein distance (optimal string alignment), or max + 1 once it exceeds max
+ */
+// biome-ignore lint/complexity/noExcessiveCognitiveComplexity: Standard dynamic programming recurrence
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const transposed = isTransposition(a, b, i, j);
+      row.push(
+        Math.min(
+          (prev[j] ?? 0) + 1, // deletion
+          (row[j - 1] ?? 0) + 1, // insertion
+          (prev[j - 1] ?? 0) + (a[i - 1] === b[j - 1] ? 0 : 1), // substitution
+          transposed ? (prevPrev[j - 2] ?? 0) + 1 : Number.POSITIVE_INFINITY
+        )
+      );
+    }
+    if (Math.min(...row) > max) return max + 1;
+    prevPrev = prev;
+    prev = row;
+  }
+  return Math.min(prev[b.length] ?? 0, max + 1);
+}
+
+/**
+ * Whether an index term is within a query token's typo budget
+ */
+export function isTypoMatch(query: string, term: string): boolean {
+  const budget = typoBudget(query);
+  return budget > 0 && term !== query && editDistance(query, term, budget) <= budget;
+}
+
+// How a non-identical index term matches a query token, if at all
+function matchKind(query: string, term: string, budget: number): TermMatchKind | null {
+  if (query.length >= MIN_PREFIX_LENGTH && term.startsWith(query)) return 'prefix';
+  if (budget > 0 && editDistance(query, term, budget) <= budget) return 'typo';
+  return null;
+}
+
+/**
+ * Index terms each query token matches: itself, terms it is a prefix of, and terms within its
+ * typo budget. `vocabulary` maps candidate index terms (at least every term a token can match
+ * among the MAX_EXPANSIONS most common) to their document frequency.
+ */
+export function expandQueryTokens(
+  tokens: string[],
+  vocabulary: ReadonlyMap<string, number>
+): QueryTermMatch[] {
+  const matches: QueryTermMatch[] = [];
+
+  for (const [token, query] of tokens.entries()) {
+    if (vocabulary.has(query)) {
+      matches.push({ token, term: query, kind: 'exact' });
+    }
+
+    const budget = typoBudget(query);
+    const expansions: Array<{ term: string; kind: TermMatchKind; df: number }> = [];
+    for (const [term, df] of vocabulary) {
+      const kind = term === query ? null : matchKind(query, term, budget);
+      if (kind) expansions.push({ term, kind, df });
+    }
+
+    expansions.sort((a, b) => b.df - a.df);
+    for (const { term, kind } of expansions.slice(0, MAX_EXPANSIONS)) {
+      matches.push({ token, term, kind });
+    }
+  }
+
+  return matches;
+}
@@ -0,0 +1,114 @@
+/**
+ * Tests for the tool listing filters shared by the listing and the facet counts
+ */
+
+import { describe, expect, it } from 'vitest';
+import { parseToolListFilters, toolListWhere, toolListWhereSql } from './tool-filters';
+
+const filtersFor = (params: string) => parseToolListFilters(new URLSearchParams(params));
+
+// SQL conditions after the leading TRUE (no filter condition contains " AND ")
+const sqlConditions = (params: string) =>
+  toolListWhereSql(filtersFor(params)).sql.split(' AND ').slice(1);
+
+describe('parseToolListFilters', () => {
+  it('reads the listing filters', () => {
+    expect(filtersFor('q=search&official=false&importHealth=HEALTHY')).toEqual({
+      query: 'search',
+      official: false,
+      broken: false,
+      importHealth: 'HEALTHY',
+      executionHealth: null,
+    });
+    expect(filtersFor('')).toEqual({
+      query: null,
+      official: null,
+      broken: false,
+      importHealth: null,
+      executionHealth: null,
+    });
+  });
+
+  it('lets broken override the health statuses', () => {
+    expect(filtersFor('broken=true&importHealth=HEALTHY')).toMatchObject({
+      broken: true,
+      importHealth: null,
+    });
+  });
+
+  it('rejects unknown health statuses', () => {
+    expect(() => filtersFor('executionHealth=FLAKY')).toThrow(/Invalid executionHealth/);
+  });
+});
+
+describe('toolListWhere and toolListWhereSql', () => {
+  const cases = [
+    '',
+    'q=web',
+    'official=true',
+    'official=false',
+    'broken=true',
+    'importHealth=BROKEN',
+    'executionHealth=UNKNOWN',
+    'q=web&official=true&importHealth=HEALTHY&executionHealth=HEALTHY',
+    'q=web&official=false&broken=true',
+  ];
+
+  it.each(cases)('apply the same filters for "%s"', (params) => {
+    const where = toolListWhere(filtersFor(params));
+
+    expect(where.AND ?? []).toHaveLength(sqlConditions(params).length);
+  });
+
+  it('match the query against the description and package name', () => {
+    const filters = filtersFor('q=50%_off');
+
+    expect(toolListWhere(filters)).toEqual({
+      AND: [
+        {
+          OR: [
+            { description: { contains: '50%_off', mode: 'insensitive' } },
+            { package: { npmPackageName: { contains: '50%_off', mode: 'insensitive' } } },
+          ],
+        },
+      ],
+    });
+    const sql = toolListWhereSql(filters);
+    expect(sql.sql).toBe('TRUE AND (t.description ILIKE ? OR p.npm_package_name ILIKE ?)');
+    expect(sql.values).toEqual(['%50\\%\\_off%', '%50\\%\\_off%']);
+  });
+
+  it('apply the official filter to every search match', () => {
+    const filters = filtersFor('q=web&official=true');
+
+    expect(toolListWhere(filters).AND).toContainEqual({ package: { isOfficial: true } });
+    expect(toolListWhereSql(filters).sql).toContain('p.is_official = ?');
+    expect(toolListWhereSql(filters).values).toContain(true);
+  });
+
+  it('filter on health in both forms', () => {
+    expect(toolListWhere(filtersFor('broken=true')).AND).toEqual([
+      { OR: [{ importHealth: 'BROKEN' }, { executionHealth: 'BROKEN' }] },
+    ]);
+    expect(sqlConditions('broken=true')).toEqual([
+      "(t.import_health = 'BROKEN' OR t.execution_health = 'BROKEN')",
+    ]);
+
+    const filters = filtersFor('importHealth=HEALTHY&executionHealth=UNKNOWN');
+    expect(toolListWhere(filters).AND).toEqual([
+      { importHealth: 'HEALTHY' },
+      { executionHealth: 'UNKNOWN' },
+    ]);
+    expect(toolListWhereSql(filters).values).toEqual(['HEALTHY', 'UNKNOWN']);
+  });
+
+  it('add facet conditions to the listing only', () => {
+    const facet = { package: { category: 'web' } };
+
+    expect(toolListWhere(filtersFor('official=true'), [facet]).AND).toEqual([
+      { package: { isOfficial: true } },
+      facet,
+    ]);
+    expect(toolListWhere(filtersFor(''))).toEqual({});
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Search and status filters of the tool listing (everything but the facets)
+ *
+ * Like the facets, each filter is defined once in both forms: the Prisma condition that lists
+ * the tools, and the SQL condition over `tools t` and `packages p` the facet counts run on. The
+ * counts therefore always cover the same tools as the listing.
+ */
+
+import { Prisma } from '@tpmjs/db';
+
+const VALID_HEALTH_STATUSES = ['HEALTHY', 'BROKEN', 'UNKNOWN'] as const;
+type HealthStatus = (typeof VALID_HEALTH_STATUSES)[number];
+
+export interface ToolListFilters {
+  /** Case-insensitive match on the tool description or package name */
+  query: string | null;
+  official: boolean | null;
+  /** At least one health check failed (overrides importHealth/executionHealth) */
+  broken: boolean;
+  importHealth: HealthStatus | null;
+  executionHealth: HealthStatus | null;
+}
+
+interface FilterCondition {
+  where: Prisma.ToolWhereInput;
+  sql: Prisma.Sql;
+}
+
+function parseHealthStatus(value: string | null, fieldName: string): HealthStatus | null {
+  if (!value) return null;
+  if (VALID_HEALTH_STATUSES.includes(value as HealthStatus)) {
+    return value as HealthStatus;
+  }
+  throw new Error(`Invalid ${fieldName}: must be one of ${VALID_HEALTH_STATUSES.join(', ')}`);
+}
+
+/**
+ * Listing filters from query parameters (q, official, broken, importHealth, executionHealth)
+ * @throws Error if a health status is invalid
+ */
+export function parseToolListFilters(searchParams: URLSearchParams): ToolListFilters {
+  const official = searchParams.get('official');
+  const broken = searchParams.get('broken') === 'true';
+
+  return {
+    query: searchParams.get('q') || null,
+    official: official === null ? null : official === 'true',
+    broken,
+    importHealth: broken
+      ? null
+      : parseHealthStatus(searchParams.get('importHealth'), 'importHealth'),
+    executionHealth: broken
+      ? null
+      : parseHealthStatus(searchParams.get('executionHealth'), 'executionHealth'),
+  };
+}
+
+function filterConditions(filters: ToolListFilters): FilterCondition[] {
+  const conditions: FilterCondition[] = [];
+
+  if (filters.query) {
+    const { query } = filters;
+    const pattern = `%${query.replace(/[\\%_]/g, '\\$&')}%`;
+    conditions.push({
+      where: {
+        OR: [
+          { description: { contains: query, mode: 'insensitive' } },
+          { package: { npmPackageName: { contains: query, mode: 'insensitive' } } },
+        ],
+      },
+      sql: Prisma.sql`(t.description ILIKE ${pattern} OR p.npm_package_name ILIKE ${pattern})`,
+    });
+  }
+
+  if (filters.official !== null) {
+    conditions.push({
+      where: { package: { isOfficial: filters.official } },
+      sql: Prisma.sql`p.is_official = ${filters.official}`,
+    });
+  }
+
+  if (filters.broken) {
+    conditions.push({
+      where: { OR: [{ importHealth: 'BROKEN' }, { executionHealth: 'BROKEN' }] },
+      sql: Prisma.sql`(t.import_health = 'BROKEN' OR t.execution_health = 'BROKEN')`,
+    });
+  }
+  if (filters.importHealth) {
+    conditions.push({
+      where: { importHealth: filters.importHealth },
+      sql: Prisma.sql`t.import_health::text = ${filters.importHealth}`,
+    });
+  }
+  if (filters.executionHealth) {
+    conditions.push({
+      where: { executionHealth: filters.executionHealth },
+      sql: Prisma.sql`t.execution_health::text = ${filters.executionHealth}`,
+    });
+  }
+
+  return conditions;
+}
+
+/**
+ * Where clause for listing tools: every filter plus the extra (facet) conditions
+ */
+export function toolListWhere(
+  filters: ToolListFilters,
+  extra: Prisma.ToolWhereInput[] = []
+): Prisma.ToolWhereInput {
+  const conditions = [...filterConditions(filters).map((condition) => condition.where), ...extra];
+  return conditions.length > 0 ? { AND: conditions } : {};
+}
+
+/**
+ * The same filters as an SQL condition over `tools t` and `packages p` (for facetCountsSql)
+ */
+export function toolListWhereSql(filters: ToolListFilters): Prisma.Sql {
+  return Prisma.join(
+    [Prisma.sql`TRUE`, ...filterConditions(filters).map((condition) => condition.sql)],
+    ' AND '
+  );
+}
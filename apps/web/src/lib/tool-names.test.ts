@@ -0,0 +1,95 @@
+/**
+ * Tests for the shared MCP / agent tool name mapping
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  buildToolNameMap,
+  getToolName,
+  MAX_TOOL_NAME_LENGTH,
+  toolKey,
+  toolNameCandidates,
+} from './tool-names';
+
+const addedAt = new Date('2025-01-01T00:00:00Z');
+const later = new Date('2025-02-01T00:00:00Z');
+
+describe('buildToolNameMap', () => {
+  it('keeps readable names for simple tools', () => {
+    const map = buildToolNameMap([
+      { packageName: '@tpmjs/hello', toolName: 'helloWorldTool', addedAt },
+    ]);
+
+    expect(map.names.get(toolKey('@tpmjs/hello', 'helloWorldTool'))).toBe(
+      'tpmjs-hello--helloWorldTool'
+    );
+  });
+
+  it('reverses unscoped packages with dashes and tools with double dashes', () => {
+    const tools = [
+      { packageName: 'ai-tools', toolName: 'foo' },
+      { packageName: '@acme/kit', toolName: 'fetch--page' },
+    ];
+    const map = buildToolNameMap(tools.map((ref) => ({ ...ref, addedAt })));
+
+    for (const ref of tools) {
+      expect(map.refs.get(getToolName(map, ref.packageName, ref.toolName))).toEqual(ref);
+    }
+  });
+
+  it('enforces the length limit with unique names', () => {
+    const longPackage = `@tpmjs/${'a'.repeat(80)}`;
+    const map = buildToolNameMap([
+      { packageName: longPackage, toolName: 'first', addedAt },
+      { packageName: longPackage, toolName: 'second', addedAt },
+    ]);
+
+    const names = [...map.refs.keys()];
+    expect(names).toHaveLength(2);
+    for (const name of names) {
+      expect(name.length).toBeLessThanOrEqual(MAX_TOOL_NAME_LENGTH);
+      expect(name).toMatch(/^[a-zA-Z0-9_-]+$/);
+    }
+  });
+
+  it('resolves collisions independent of input order', () => {
+    // Both format to "a-b-c--run"
+    const tools = [
+      { packageName: '@a/b-c', toolName: 'run', addedAt },
+      { packageName: '@a-b/c', toolName: 'run', addedAt },
+    ];
+    const forward = buildToolNameMap(tools);
+    const reversed = buildToolNameMap([...tools].reverse());
+
+    expect(forward.refs.size).toBe(2);
+    expect([...forward.names.entries()].sort()).toEqual([...reversed.names.entries()].sort());
+  });
+
+  it('keeps the readable name of a tool when a colliding tool is added later', () => {
+    const first = { packageName: '@a-b/c', toolName: 'run', addedAt };
+    const before = buildToolNameMap([first]);
+    const after = buildToolNameMap([
+      { packageName: '@a/b-c', toolName: 'run', addedAt: later },
+      first,
+    ]);
+
+    expect(getToolName(after, '@a-b/c', 'run')).toBe('a-b-c--run');
+    expect(getToolName(after, '@a-b/c', 'run')).toBe(getToolName(before, '@a-b/c', 'run'));
+    expect(getToolName(after, '@a/b-c', 'run')).not.toBe('a-b-c--run');
+  });
+});
+
+describe('toolNameCandidates', () => {
+  it('covers the name a tool gets with or without collisions', () => {
+    const tools = [
+      { packageName: '@a-b/c', toolName: 'run', addedAt },
+      { packageName: '@a/b-c', toolName: 'run', addedAt: later },
+    ];
+    const colliding = buildToolNameMap(tools);
+    const alone = buildToolNameMap([{ packageName: '@a/b-c', toolName: 'run', addedAt }]);
+    const candidates = toolNameCandidates('@a/b-c', 'run');
+
+    expect(candidates).toContain(getToolName(colliding, '@a/b-c', 'run'));
+    expect(candidates).toContain(getToolName(alone, '@a/b-c', 'run'));
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Tool name mapping shared by MCP and agents
+ *
+ * Client-facing tool names must match ^[a-zA-Z0-9_-]+ and some clients (OpenAI, Claude
+ * Desktop) cap them at 64 characters, so names can't be reversed reliably by parsing.
+ * Instead a set of tools is mapped to unique names and callers look names up in the map.
+ */
+
+import { createHash } from 'node:crypto';
+
+export const MAX_TOOL_NAME_LENGTH = 64;
+
+const HASH_SUFFIX_LENGTH = 8;
+
+export interface ToolRef {
+  packageName: string;
+  toolName: string;
+}
+
+export interface ToolNameMap {
+  /** Tool key (see toolKey) → client-facing name */
+  names: Map<string, string>;
+  /** Client-facing name → package and tool */
+  refs: Map<string, ToolRef>;
+}
+
+/**
+ * Stable identity for a tool within a package
+ */
+export function toolKey(packageName: string, toolName: string): string {
+  return `${packageName}::${toolName}`;
+}
+
+/**
+ * Format a package and tool name as a readable tool name (before length/collision handling)
+ *
+ * Example: @tpmjs/hello + helloWorldTool → tpmjs-hello--helloWorldTool
+ */
+export function formatToolName(packageName: string, toolName: string): string {
+  const pkg = packageName.replace(/^@/, '').replace(/\//g, '-');
+  return `${pkg}--${toolName}`.replace(/[^a-zA-Z0-9_-]/g, '_');
+}
+
+/**
+ * Truncate a name and append a short hash of the seed so it stays unique within the limit
+ */
+function withHashSuffix(name: string, seed: string): string {
+  const hash = createHash('sha256').update(seed).digest('hex').slice(0, HASH_SUFFIX_LENGTH);
+  return `${name.slice(0, MAX_TOOL_NAME_LENGTH - HASH_SUFFIX_LENGTH - 1)}_${hash}`;
+}
+
+/**
+ * Every name a tool can get from buildToolNameMap in some set of tools: its readable name
+ * (when short enough) and its hash-suffixed name
+ * Lets callers attribute stored tool calls (e.g. agent TOOL messages) back to tools
+ */
+export function toolNameCandidates(packageName: string, toolName: string): string[] {
+  const base = formatToolName(packageName, toolName);
+  const hashed = withHashSuffix(base, toolKey(packageName, toolName));
+  return base.length > MAX_TOOL_NAME_LENGTH ? [hashed] : [base, hashed];
+}
+
+/**
+ * A tool in a set to name, with the time it joined the set
+ */
+export interface NamedToolInput extends ToolRef {
+  addedAt: Date;
+}
+
+/**
+ * Build a reversible, collision-free name mapping for a set of tools.
+ *
+ * Each tool keeps its readable name unless that name is too long or already taken by a tool
+ * added to the set earlier; those get a hash suffix derived from the tool's own key. Adding a
+ * tool never renames the ones already in the set, so names stay stable for clients and stored
+ * tool calls. The result doesn't depend on input order.
+ */
+export function buildToolNameMap(tools: NamedToolInput[]): ToolNameMap {
+  // A tool listed more than once (e.g. via two agent collections) joined when first added
+  const unique = new Map<string, NamedToolInput>();
+  for (const tool of tools) {
+    const key = toolKey(tool.packageName, tool.toolName);
+    const existing = unique.get(key);
+    if (!existing || tool.addedAt < existing.addedAt) {
+      unique.set(key, tool);
+    }
+  }
+  const entries = [...unique.entries()].sort(
+    ([keyA, a], [keyB, b]) =>
+      a.addedAt.getTime() - b.addedAt.getTime() || (keyA < keyB ? -1 : keyA > keyB ? 1 : 0)
+  );
+
+  const names = new Map<string, string>();
+  const refs = new Map<string, ToolRef>();
+  for (const [key, { packageName, toolName }] of entries) {
+    const base = formatToolName(packageName, toolName);
+    let name = base.length > MAX_TOOL_NAME_LENGTH ? withHashSuffix(base, key) : base;
+
+    // Taken by an earlier tool: fall back to the hash-suffixed name, which a collision with
+    // is practically impossible, but stay safe
+    for (let attempt = 1; refs.has(name); attempt++) {
+      name = withHashSuffix(base, attempt === 1 ? key : `${key}#${attempt}`);
+    }
+
+    names.set(key, name);
+    refs.set(name, { packageName, toolName });
+  }
+
+  return { names, refs };
+}
+
+/**
+ * Client-facing name of a tool in the mapped set
+ * @throws Error if the tool isn't part of the set
+ */
+export function getToolName(map: ToolNameMap, packageName: string, toolName: string): string {
+  const name = map.names.get(toolKey(packageName, toolName));
+  if (!name) {
+    throw new Error(`Tool ${toolKey(packageName, toolName)} is not in the name map`);
+  }
+  return name;
+}
@@ -0,0 +1,53 @@
+/**
+ * Tests for version pin validation and upgrade suggestions
+ */
+
+import { describe, expect, it } from 'vitest';
+import { getUpgradeVersion, isValidVersionPin } from './versions';
+
+describe('isValidVersionPin', () => {
+  it('accepts exact versions', () => {
+    expect(isValidVersionPin('1.2.3')).toBe(true);
+    expect(isValidVersionPin('2.0.0-beta.1')).toBe(true);
+  });
+
+  it('accepts ranges', () => {
+    expect(isValidVersionPin('^1.2.0')).toBe(true);
+    expect(isValidVersionPin('~1.2.0')).toBe(true);
+    expect(isValidVersionPin('>=1.0.0 <2.0.0')).toBe(true);
+  });
+
+  it('rejects pins npm cannot resolve', () => {
+    expect(isValidVersionPin('latest-ish')).toBe(false);
+    expect(isValidVersionPin('^one.two')).toBe(false);
+    expect(isValidVersionPin('>=>1')).toBe(false);
+  });
+});
+
+describe('getUpgradeVersion', () => {
+  it('suggests the latest version for an outdated exact pin', () => {
+    expect(getUpgradeVersion('1.2.0', '2.0.0')).toBe('2.0.0');
+  });
+
+  it('keeps the range operator of an outdated range', () => {
+    expect(getUpgradeVersion('^1.2.0', '2.0.0')).toBe('^2.0.0');
+    expect(getUpgradeVersion('~1.2.0', '1.3.0')).toBe('~1.3.0');
+  });
+
+  it('offers no upgrade when the pin is already the latest', () => {
+    expect(getUpgradeVersion('2.0.0', '2.0.0')).toBeNull();
+    expect(getUpgradeVersion('^1.2.0', '1.4.0')).toBeNull();
+  });
+
+  it('offers no upgrade when the pin is ahead of the latest version', () => {
+    expect(getUpgradeVersion('3.0.0', '2.0.0')).toBeNull();
+  });
+
+  it('offers no upgrade for unpinned tools or invalid input', () => {
+    expect(getUpgradeVersion(null, '2.0.0')).toBeNull();
+    expect(getUpgradeVersion(undefined, '2.0.0')).toBeNull();
+    expect(getUpgradeVersion('^1.0.0', null)).toBeNull();
+    expect(getUpgradeVersion('not-a-pin', '2.0.0')).toBeNull();
+    expect(getUpgradeVersion('^1.0.0', 'not-a-version')).toBeNull();
+  });
+});
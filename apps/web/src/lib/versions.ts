@@ -0,0 +1,37 @@
+/**
+ * Version pinning helpers for collection and agent tools
+ *
+ * A pin is an exact version ("1.2.3") or a semver range ("^1.2.0"); no pin means the
+ * executor always runs the latest published version.
+ */
+
+import semver from 'semver';
+
+/**
+ * Check that a pin is an exact version or a range npm can resolve
+ */
+export function isValidVersionPin(pin: string): boolean {
+  return semver.validRange(pin) !== null;
+}
+
+/**
+ * Suggest a new pin when the latest published version falls outside the current one
+ *
+ * Keeps the pin's style: "^1.2.0" → "^2.0.0", "~1.2.0" → "~1.3.0", "1.2.0" → "2.0.0".
+ * Returns null when the tool is unpinned or the pin already covers the latest version.
+ */
+export function getUpgradeVersion(
+  pin: string | null | undefined,
+  latestVersion: string | null | undefined
+): string | null {
+  if (!pin || !latestVersion || !semver.valid(latestVersion) || !isValidVersionPin(pin)) {
+    return null;
+  }
+
+  if (semver.satisfies(latestVersion, pin) || !semver.gtr(latestVersion, pin)) {
+    return null;
+  }
+
+  const operator = pin.trim().match(/^[\^~]/)?.[0];
+  return operator ? `${operator}${latestVersion}` : latestVersion;
+}
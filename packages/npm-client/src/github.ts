@@ -121,6 +121,44 @@ export async function fetchGitHubStars(owner: string, repo: string): Promise<num
   }
 }
 
+/**
+ * Fetches a file from a GitHub repository's default branch
+ * @param owner - Repository owner (user or organization)
+ * @param repo - Repository name
+ * @param path - File path within the repository
+ * @returns The file contents, or null if the repository or file doesn't exist
+ */
+export async function fetchGitHubFile(
+  owner: string,
+  repo: string,
+  path: string
+): Promise<string | null> {
+  const url = `${GITHUB_API_URL}/repos/${owner}/${repo}/contents/${path}`;
+
+  const headers: Record<string, string> = {
+    Accept: 'application/vnd.github.raw+json',
+    'User-Agent': 'tpmjs-registry',
+  };
+
+  // Add GitHub token if available for higher rate limits
+  const token = process.env.GITHUB_TOKEN;
+  if (token) {
+    headers.Authorization = `Bearer ${token}`;
+  }
+
+  const response = await fetch(url, { headers });
+
+  if (response.status === 404) {
+    return null;
+  }
+
+  if (!response.ok) {
+    throw new Error(`GitHub API error: ${response.status} ${response.statusText}`);
+  }
+
+  return response.text();
+}
+
 /**
  * Fetches star count from a repository URL or object
  * @param repository - Repository URL string or object with url property
@@ -16,6 +16,7 @@ export {
 export {
   searchByKeyword,
   searchAllByKeyword,
+  fetchMaintainerEmail,
   type SearchPackage,
   type SearchResult,
   type SearchResponse,
@@ -33,6 +34,13 @@ export {
   type PackageVersionWithReadme,
 } from './package';
 
+// Provenance attestations
+export {
+  fetchPackageProvenance,
+  parseProvenancePredicate,
+  type PackageProvenance,
+} from './provenance';
+
 // Download statistics
 export { fetchDownloadStats, fetchBulkDownloadStats, type DownloadsResponse } from './stats';
 
@@ -40,6 +48,7 @@ export { fetchDownloadStats, fetchBulkDownloadStats, type DownloadsResponse } fr
 export {
   fetchGitHubStars,
   fetchGitHubStarsFromRepository,
+  fetchGitHubFile,
   parseGitHubUrl,
   type GitHubRepoResponse,
 } from './github';
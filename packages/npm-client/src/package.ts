@@ -51,6 +51,20 @@ const PackageVersionSchema = z.object({
     .object({
       shasum: z.string(),
       tarball: z.string(),
+      // Present when the version was published with provenance (npm publish --provenance)
+      attestations: z
+        .object({
+          url: z.string(),
+          provenance: z.object({ predicateType: z.string() }).optional(),
+        })
+        .optional(),
+    })
+    .optional(),
+  // npm account that published this version
+  _npmUser: z
+    .object({
+      name: z.string(),
+      email: z.string().optional(),
     })
     .optional(),
   // Publishing metadata
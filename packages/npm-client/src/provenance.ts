@@ -0,0 +1,190 @@
+/**
+ * NPM Package Provenance Client
+ * Reads the SLSA provenance attestation npm stores for versions published with --provenance
+ *
+ * The registry verifies the attestation's Sigstore signature when the version is published,
+ * so the statement is trusted as returned here rather than re-verified.
+ */
+
+import { z } from 'zod';
+
+import { parseGitHubUrl } from './github';
+
+const NPM_ATTESTATIONS_URL = 'https://registry.npmjs.org/-/npm/v1/attestations';
+
+const SLSA_PROVENANCE_PREFIX = 'https://slsa.dev/provenance/';
+
+/**
+ * Schema for the attestations endpoint response
+ */
+const AttestationsResponseSchema = z.object({
+  attestations: z.array(
+    z.object({
+      predicateType: z.string(),
+      bundle: z.object({
+        dsseEnvelope: z.object({
+          payload: z.string(), // base64 in-toto statement
+        }),
+      }),
+    })
+  ),
+});
+
+/**
+ * Schema for the parts of a SLSA provenance predicate we use (v1 and v0.2)
+ */
+const ProvenancePredicateSchema = z.object({
+  // SLSA v1
+  buildDefinition: z
+    .object({
+      externalParameters: z
+        .object({
+          workflow: z
+            .object({
+              repository: z.string().optional(),
+              path: z.string().optional(),
+              ref: z.string().optional(),
+            })
+            .optional(),
+        })
+        .optional(),
+      resolvedDependencies: z
+        .array(
+          z.object({
+            uri: z.string().optional(),
+            digest: z.record(z.string(), z.string()).optional(),
+          })
+        )
+        .optional(),
+    })
+    .optional(),
+  runDetails: z
+    .object({
+      builder: z.object({ id: z.string() }).optional(),
+    })
+    .optional(),
+  // SLSA v0.2
+  builder: z.object({ id: z.string() }).optional(),
+  invocation: z
+    .object({
+      configSource: z
+        .object({
+          uri: z.string().optional(),
+          digest: z.record(z.string(), z.string()).optional(),
+          entryPoint: z.string().optional(),
+        })
+        .optional(),
+    })
+    .optional(),
+});
+
+/**
+ * Where and how a package version was built, from its provenance attestation
+ */
+export interface PackageProvenance {
+  /** Source repository URL, e.g. "https://github.com/tpmjs/tpmjs" */
+  repository: string;
+  /** GitHub owner of the repository (lowercase), null for other hosts */
+  owner: string | null;
+  /** Workflow file that built the package */
+  workflow: string | null;
+  /** Git ref that was built */
+  ref: string | null;
+  /** Commit that was built */
+  commit: string | null;
+  /** Build platform, e.g. "https://github.com/actions/runner/github-hosted" */
+  builder: string | null;
+  predicateType: string;
+}
+
+/**
+ * Split "git+https://github.com/owner/repo@refs/heads/main" into repository URL and ref
+ */
+function parseSourceUri(uri: string): { repository: string; ref: string | null } {
+  const withoutPrefix = uri.replace(/^git\+/, '');
+  const at = withoutPrefix.lastIndexOf('@');
+  return at > withoutPrefix.indexOf('://') + 3
+    ? { repository: withoutPrefix.slice(0, at), ref: withoutPrefix.slice(at + 1) }
+    : { repository: withoutPrefix, ref: null };
+}
+
+/**
+ * Extracts the build source from a decoded SLSA provenance predicate
+ * @returns The provenance, or null if the predicate has no source repository
+ */
+export function parseProvenancePredicate(
+  predicateType: string,
+  predicate: unknown
+): PackageProvenance | null {
+  const parsed = ProvenancePredicateSchema.safeParse(predicate);
+  if (!parsed.success) {
+    return null;
+  }
+
+  const { buildDefinition, runDetails, builder, invocation } = parsed.data;
+  const workflow = buildDefinition?.externalParameters?.workflow;
+  const dependency = buildDefinition?.resolvedDependencies?.[0];
+  const configSource = invocation?.configSource;
+
+  const source = workflow?.repository
+    ? { repository: workflow.repository, ref: workflow.ref ?? null }
+    : configSource?.uri
+      ? parseSourceUri(configSource.uri)
+      : null;
+  if (!source) {
+    return null;
+  }
+
+  const github = parseGitHubUrl(source.repository);
+  return {
+    repository: source.repository,
+    owner: github ? github.owner.toLowerCase() : null,
+    workflow: workflow?.path ?? configSource?.entryPoint ?? null,
+    ref: source.ref,
+    commit: dependency?.digest?.gitCommit ?? configSource?.digest?.sha1 ?? null,
+    builder: runDetails?.builder?.id ?? builder?.id ?? null,
+    predicateType,
+  };
+}
+
+/**
+ * Fetches the provenance of a package version
+ * @param packageName - The name of the package
+ * @param version - The exact version
+ * @returns The provenance, or null if the version was published without one
+ */
+export async function fetchPackageProvenance(
+  packageName: string,
+  version: string
+): Promise<PackageProvenance | null> {
+  // Encode the package name to handle scoped packages (@scope/name)
+  const encodedName = packageName.replace('/', '%2F');
+  const url = `${NPM_ATTESTATIONS_URL}/${encodedName}@${version}`;
+
+  const response = await fetch(url, {
+    headers: {
+      Accept: 'application/json',
+    },
+  });
+
+  if (response.status === 404) {
+    return null;
+  }
+
+  if (!response.ok) {
+    throw new Error(`NPM registry error: ${response.status} ${response.statusText}`);
+  }
+
+  const data = AttestationsResponseSchema.parse(await response.json());
+  const attestation = data.attestations.find((a) =>
+    a.predicateType.startsWith(SLSA_PROVENANCE_PREFIX)
+  );
+  if (!attestation) {
+    return null;
+  }
+
+  const statement = JSON.parse(
+    Buffer.from(attestation.bundle.dsseEnvelope.payload, 'base64').toString('utf8')
+  ) as { predicate?: unknown };
+  return parseProvenancePredicate(attestation.predicateType, statement.predicate);
+}
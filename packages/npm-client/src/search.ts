@@ -145,3 +145,32 @@ export async function searchAllByKeyword(keyword: string): Promise<SearchResult[
 
   return allResults;
 }
+
+/**
+ * Looks up the public email of an npm account from a package it maintains
+ * @param username - The npm username
+ * @returns The account's email, or null if it maintains no public packages
+ */
+export async function fetchMaintainerEmail(username: string): Promise<string | null> {
+  const url = new URL(NPM_SEARCH_URL);
+  url.searchParams.set('text', `maintainer:${username}`);
+  url.searchParams.set('size', '1');
+
+  const response = await fetch(url.toString(), {
+    headers: {
+      Accept: 'application/json',
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`NPM search error: ${response.status} ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  const parsed = SearchResponseSchema.parse(data);
+
+  const maintainer = parsed.objects[0]?.package.maintainers?.find(
+    (m) => m.username.toLowerCase() === username.toLowerCase()
+  );
+  return maintainer?.email ?? null;
+}
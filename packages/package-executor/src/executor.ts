@@ -3,12 +3,15 @@
  * Calls the remote sandbox service for secure package execution
  */
 
-import type { ExecutionResult, ExecutorOptions } from './types.js';
+import type { ExecutionEvent, ExecutionResult, ExecutorOptions } from './types.js';
 
 const DEFAULT_TIMEOUT = 300000; // 5 minutes - some tools need significant time
+const STREAM_CONTENT_TYPE = 'application/x-ndjson';
 
-// Get sandbox URL at runtime (not build time) for serverless environments
-function getSandboxUrl(): string {
+/**
+ * Get sandbox URL at runtime (not build time) for serverless environments
+ */
+export function getSandboxUrl(): string {
   const url = process.env.SANDBOX_EXECUTOR_URL || 'http://localhost:3000';
   // If URL doesn't start with http:// or https://, add https://
   if (!url.startsWith('http://') && !url.startsWith('https://')) {
@@ -17,8 +20,87 @@ function getSandboxUrl(): string {
   return url;
 }
 
+/**
+ * Build the sandbox request body, only including env if provided
+ */
+function buildRequestBody(
+  packageName: string,
+  functionName: string,
+  params: Record<string, unknown>,
+  options: ExecutorOptions
+): Record<string, unknown> {
+  const requestBody: Record<string, unknown> = {
+    packageName,
+    name: functionName,
+    version: options.version || 'latest',
+    params,
+  };
+  if (options.env && Object.keys(options.env).length > 0) {
+    requestBody.env = options.env;
+  }
+  return requestBody;
+}
+
+/**
+ * Copy the result fields of an executor response (JSON body or `result` event)
+ */
+function toExecutionResult(body: ExecutionResult, fallbackTimeMs: number): ExecutionResult {
+  return {
+    success: body.success,
+    output: body.output,
+    error: body.error,
+    executionTimeMs: body.executionTimeMs || fallbackTimeMs,
+    errorCode: body.errorCode,
+    logs: body.logs,
+    metrics: body.metrics,
+    resolvedVersion: body.resolvedVersion,
+  };
+}
+
+/**
+ * Read an NDJSON event stream, forwarding events and returning the final result
+ * Malformed lines are skipped; returns null if no result event arrived
+ */
+async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: ExecutionEvent) => void
+): Promise<ExecutionResult | null> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let result: ExecutionResult | null = null;
+
+  const handleLine = (line: string) => {
+    if (!line.trim()) return;
+    let event: ExecutionEvent;
+    try {
+      event = JSON.parse(line) as ExecutionEvent;
+    } catch {
+      return;
+    }
+    if (!event || typeof event !== 'object' || typeof event.type !== 'string') return;
+    onEvent(event);
+    if (event.type === 'result') {
+      result = toExecutionResult(event, 0);
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) handleLine(line);
+  }
+  handleLine(buffer + decoder.decode());
+
+  return result;
+}
+
 /**
  * Execute a package function with parameters via remote sandbox
+ * With `onEvent`, requests the streaming response (executors without it reply with JSON)
  */
 export async function executePackage(
   packageName: string,
@@ -29,68 +111,69 @@ export async function executePackage(
   const startTime = Date.now();
   const timeout = options.timeout || DEFAULT_TIMEOUT;
 
+  // The timeout also covers a streamed response body
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+  const onCallerAbort = () => controller.abort();
+  options.signal?.addEventListener('abort', onCallerAbort, { once: true });
+
   try {
     // Call the remote sandbox service
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeout);
-
-    // Build request body, only include env if provided
-    const requestBody: Record<string, unknown> = {
-      packageName,
-      name: functionName,
-      version: 'latest',
-      params,
+    const requestBody = buildRequestBody(packageName, functionName, params, options);
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
     };
-    if (options.env && Object.keys(options.env).length > 0) {
-      requestBody.env = options.env;
+    if (options.onEvent) {
+      headers.Accept = `${STREAM_CONTENT_TYPE}, application/json`;
     }
 
     const response = await fetch(`${getSandboxUrl()}/execute-tool`, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
+      headers,
       body: JSON.stringify(requestBody),
       signal: controller.signal,
     });
 
-    clearTimeout(timeoutId);
-
     const executionTimeMs = Date.now() - startTime;
 
     if (!response.ok) {
-      const errorData = (await response.json().catch(() => ({ error: 'Unknown error' }))) as {
-        error?: string;
-      };
+      const errorData = (await response
+        .json()
+        .catch(() => ({ error: 'Unknown error' }))) as Partial<ExecutionResult>;
       return {
-        success: false,
+        ...toExecutionResult({ ...errorData, success: false, executionTimeMs }, executionTimeMs),
         error: errorData.error || `Sandbox service error: ${response.status}`,
-        executionTimeMs,
       };
     }
 
-    const result = (await response.json()) as {
-      success: boolean;
-      output?: unknown;
-      error?: string;
-      executionTimeMs?: number;
-    };
+    const isStream =
+      options.onEvent &&
+      response.body &&
+      response.headers.get('content-type')?.includes(STREAM_CONTENT_TYPE);
+    const result = isStream
+      ? await readEventStream(
+          response.body as ReadableStream<Uint8Array>,
+          options.onEvent as (event: ExecutionEvent) => void
+        )
+      : ((await response.json()) as ExecutionResult);
+
+    if (!result) {
+      return {
+        success: false,
+        error: 'Sandbox stream ended without a result',
+        executionTimeMs: Date.now() - startTime,
+      };
+    }
 
-    return {
-      success: result.success,
-      output: result.output,
-      error: result.error,
-      executionTimeMs: result.executionTimeMs || executionTimeMs,
-    };
+    return toExecutionResult(result, executionTimeMs);
   } catch (error) {
     const executionTimeMs = Date.now() - startTime;
 
     if (error instanceof Error && error.name === 'AbortError') {
-      return {
-        success: false,
-        error: 'Execution timeout',
-        executionTimeMs,
-      };
+      return options.signal?.aborted
+        ? { success: false, error: 'Execution cancelled', executionTimeMs }
+        : { success: false, error: 'Execution timeout', errorCode: 'TIMEOUT', executionTimeMs };
     }
 
     return {
@@ -98,6 +181,9 @@ export async function executePackage(
       error: error instanceof Error ? error.message : String(error),
       executionTimeMs,
     };
+  } finally {
+    clearTimeout(timeoutId);
+    options.signal?.removeEventListener('abort', onCallerAbort);
   }
 }
 
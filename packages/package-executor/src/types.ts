@@ -7,8 +7,48 @@ export interface ExecutionResult {
   output?: unknown;
   error?: string;
   executionTimeMs: number;
+  /** Why the execution failed, when the executor reports it */
+  errorCode?: ExecutionErrorCode;
+  /** Console output of the tool */
+  logs?: ExecutionLogLine[];
+  metrics?: ExecutionMetrics;
+  /** Exact package version that ran */
+  resolvedVersion?: string;
 }
 
+/**
+ * Mirrors ExecutorErrorCode in @tpmjs/types/executor
+ */
+export type ExecutionErrorCode =
+  | 'IMPORT_FAILED'
+  | 'TIMEOUT'
+  | 'ENV_MISSING'
+  | 'INVALID_INPUT'
+  | 'TOOL_THREW';
+
+export interface ExecutionLogLine {
+  stream: 'stdout' | 'stderr';
+  message: string;
+  timestamp: number;
+}
+
+export interface ExecutionMetrics {
+  /** Peak executor memory (RSS) while the tool ran, in bytes */
+  peakMemoryBytes?: number;
+  /** Whether the tool module was already loaded */
+  cacheHit?: boolean;
+}
+
+/**
+ * Event from the streaming variant of /execute-tool (one JSON object per NDJSON line)
+ * Mirrors ExecuteToolStreamEvent in @tpmjs/types/executor
+ */
+export type ExecutionEvent =
+  | { type: 'log'; level: 'debug' | 'info' | 'warn' | 'error'; message: string; timestamp: number }
+  | { type: 'progress'; progress?: number; message?: string; timestamp: number }
+  | { type: 'partial'; output?: unknown; timestamp: number }
+  | ({ type: 'result' } & ExecutionResult);
+
 export interface PackageInfo {
   name: string;
   version: string;
@@ -18,6 +58,12 @@ export interface PackageInfo {
 export interface ExecutorOptions {
   timeout?: number; // Milliseconds
   cacheDir?: string;
+  /** Package version or semver range to execute (defaults to latest) */
+  version?: string;
   /** Environment variables to inject during execution */
   env?: Record<string, string>;
+  /** Aborts the sandbox request (e.g. when the caller cancels) */
+  signal?: AbortSignal;
+  /** Request the streaming response and receive log/progress/partial events as they arrive */
+  onEvent?: (event: ExecutionEvent) => void;
 }
@@ -1,16 +1,27 @@
 import { z } from 'zod';
 
-import { ExecutorTypeSchema } from './executor';
+import { VersionPinSchema } from './collection';
+import {
+  ChainExecutorSettingsSchema,
+  ExecutorSigningSecretSchema,
+  ExecutorTypeSchema,
+  LocalProcessExecutorSettingsSchema,
+} from './executor';
 
 // Regex for valid agent UID: lowercase alphanumeric and hyphens
 const UID_REGEX = /^[a-z0-9][a-z0-9-]*[a-z0-9]$|^[a-z0-9]$/;
 
 // Executor config for updates (simplified schema that maps to database JSON)
 const ExecutorConfigUpdateSchema = z
-  .object({
-    url: z.string().url(),
-    apiKey: z.string().optional(),
-  })
+  .union([
+    z.object({
+      url: z.string().url(),
+      apiKey: z.string().optional(),
+      signingSecret: ExecutorSigningSecretSchema.optional(),
+    }),
+    LocalProcessExecutorSettingsSchema,
+    ChainExecutorSettingsSchema,
+  ])
   .nullable()
   .optional();
 
@@ -22,8 +33,54 @@ export const AIProviderSchema = z.enum(['OPENAI', 'ANTHROPIC', 'GOOGLE', 'GROQ',
 
 export const MessageRoleSchema = z.enum(['USER', 'ASSISTANT', 'TOOL', 'SYSTEM']);
 
+/**
+ * WINDOW keeps the last `maxMessagesInContext` messages; ROLLING_SUMMARY folds older turns
+ * into a stored conversation summary once history outgrows the model's context budget
+ */
+export const MemoryModeSchema = z.enum(['WINDOW', 'ROLLING_SUMMARY']);
+
 export type AIProvider = z.infer<typeof AIProviderSchema>;
 export type MessageRole = z.infer<typeof MessageRoleSchema>;
+export type MemoryMode = z.infer<typeof MemoryModeSchema>;
+
+// ============================================================================
+// Tool Output
+// ============================================================================
+
+/**
+ * Default cap on a tool result's serialized size before the model gets a preview instead
+ */
+export const DEFAULT_MAX_TOOL_OUTPUT_CHARS = 20000;
+
+const ToolOutputCharsSchema = z.number().int().min(1000).max(1000000);
+
+/**
+ * Reference to a content-addressed artifact, stored in place of file bytes or an
+ * oversized result. `url` downloads the artifact
+ */
+export const ToolArtifactRefSchema = z.object({
+  type: z.literal('artifact'),
+  sha256: z.string().regex(/^[0-9a-f]{64}$/),
+  mediaType: z.string(),
+  sizeBytes: z.number().int().nonnegative(),
+  filename: z.string().optional(),
+  url: z.string(),
+});
+
+/**
+ * A tool result that exceeded the agent's cap: the model sees `preview`, the full result is
+ * the `fullResult` artifact (application/json)
+ */
+export const TruncatedToolOutputSchema = z.object({
+  truncated: z.literal(true),
+  preview: z.string(),
+  originalChars: z.number().int(),
+  fullResult: ToolArtifactRefSchema,
+  note: z.string(),
+});
+
+export type ToolArtifactRef = z.infer<typeof ToolArtifactRefSchema>;
+export type TruncatedToolOutput = z.infer<typeof TruncatedToolOutputSchema>;
 
 // ============================================================================
 // Agent Schemas
@@ -44,6 +101,9 @@ export const CreateAgentSchema = z.object({
   temperature: z.number().min(0).max(2).default(0.7),
   maxToolCallsPerTurn: z.number().int().min(1).max(100).default(20),
   maxMessagesInContext: z.number().int().min(1).max(100).default(10),
+  maxToolOutputChars: ToolOutputCharsSchema.default(DEFAULT_MAX_TOOL_OUTPUT_CHARS),
+  memoryMode: MemoryModeSchema.default('WINDOW'),
+  longTermMemory: z.boolean().default(false),
   isPublic: z.boolean().default(true),
   collectionIds: z.array(z.string()).optional(),
   toolIds: z.array(z.string()).optional(),
@@ -59,6 +119,9 @@ export const UpdateAgentSchema = z.object({
   temperature: z.number().min(0).max(2).optional(),
   maxToolCallsPerTurn: z.number().int().min(1).max(100).optional(),
   maxMessagesInContext: z.number().int().min(1).max(100).optional(),
+  maxToolOutputChars: ToolOutputCharsSchema.optional(),
+  memoryMode: MemoryModeSchema.optional(),
+  longTermMemory: z.boolean().optional(),
   isPublic: z.boolean().optional(),
   // Executor configuration
   executorType: ExecutorTypeSchema.nullable().optional(),
@@ -75,6 +138,14 @@ export const AddCollectionToAgentSchema = z.object({
 export const AddToolToAgentSchema = z.object({
   toolId: z.string().min(1, 'Tool ID is required'),
   position: z.number().int().min(0).optional(),
+  version: VersionPinSchema.optional(),
+});
+
+export const UpdateAgentToolSchema = z.object({
+  // null unpins (tracks latest)
+  version: VersionPinSchema.nullable().optional(),
+  // Calls wait for the user to approve (or edit) them before running
+  requiresApproval: z.boolean().optional(),
 });
 
 // ============================================================================
@@ -123,9 +194,41 @@ export const CreateConversationSchema = z.object({
   title: z.string().max(200).optional(),
 });
 
-export const SendMessageSchema = z.object({
-  message: z.string().min(1, 'Message is required').max(50000, 'Message too long'),
-  env: z.record(z.string(), z.string()).optional(),
+/**
+ * Send a message, or (`resume`) continue the turn once every pending tool approval is decided
+ */
+export const SendMessageSchema = z
+  .object({
+    message: z.string().min(1, 'Message is required').max(50000, 'Message too long').optional(),
+    resume: z.boolean().optional(),
+    env: z.record(z.string(), z.string()).optional(),
+  })
+  .refine((data) => Boolean(data.message) !== Boolean(data.resume), {
+    message: 'Send either a message or resume: true',
+  });
+
+// ============================================================================
+// Tool Approval Schemas
+// ============================================================================
+
+export const ToolApprovalStatusSchema = z.enum(['PENDING', 'RUNNING', 'APPROVED', 'DENIED']);
+
+/**
+ * Approve a pending tool call (optionally with edited arguments) or deny it
+ */
+export const DecideToolApprovalSchema = z.object({
+  approved: z.boolean(),
+  // Replaces the model's arguments when approving
+  args: z.record(z.string(), z.unknown()).optional(),
+  // Returned to the model with a denial
+  reason: z.string().max(1000, 'Reason must be 1,000 characters or less').optional(),
+});
+
+/**
+ * Edit a conversation's rolling summary; null clears it so the full history is used again
+ */
+export const UpdateConversationSummarySchema = z.object({
+  summary: z.string().max(20000, 'Summary must be 20,000 characters or less').nullable(),
 });
 
 // ============================================================================
@@ -166,6 +269,9 @@ export const AgentSchema = z.object({
   temperature: z.number(),
   maxToolCallsPerTurn: z.number(),
   maxMessagesInContext: z.number(),
+  maxToolOutputChars: z.number(),
+  memoryMode: MemoryModeSchema,
+  longTermMemory: z.boolean(),
   isPublic: z.boolean(),
   toolCount: z.number(),
   collectionCount: z.number(),
@@ -178,6 +284,8 @@ export const ConversationSchema = z.object({
   agentId: z.string(),
   slug: z.string(),
   title: z.string().nullable(),
+  summary: z.string().nullable(),
+  summarizedUntil: z.date().nullable(),
   createdAt: z.date(),
   updatedAt: z.date(),
   messageCount: z.number().optional(),
@@ -187,6 +295,36 @@ export const ConversationWithMessagesSchema = ConversationSchema.extend({
   messages: z.array(MessageSchema),
 });
 
+/**
+ * A tool call held for the user's decision
+ */
+export const ToolApprovalSchema = z.object({
+  id: z.string(),
+  conversationId: z.string(),
+  toolCallId: z.string(),
+  toolName: z.string(),
+  args: z.unknown(),
+  status: ToolApprovalStatusSchema,
+  approvedArgs: z.unknown().nullable(),
+  reason: z.string().nullable(),
+  createdAt: z.date(),
+  decidedAt: z.date().nullable(),
+});
+
+/**
+ * A fact in an agent's long-term memory
+ */
+export const AgentMemorySchema = z.object({
+  id: z.string(),
+  agentId: z.string(),
+  content: z.string(),
+  conversationId: z.string().nullable(),
+  recallCount: z.number(),
+  lastRecalledAt: z.date().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
 // ============================================================================
 // Type Exports
 // ============================================================================
@@ -195,16 +333,22 @@ export type CreateAgentInput = z.infer<typeof CreateAgentSchema>;
 export type UpdateAgentInput = z.infer<typeof UpdateAgentSchema>;
 export type AddCollectionToAgentInput = z.infer<typeof AddCollectionToAgentSchema>;
 export type AddToolToAgentInput = z.infer<typeof AddToolToAgentSchema>;
+export type UpdateAgentToolInput = z.infer<typeof UpdateAgentToolSchema>;
 export type CloneAgentInput = z.infer<typeof CloneAgentSchema>;
 export type AddApiKeyInput = z.infer<typeof AddApiKeySchema>;
 export type ApiKeyInfo = z.infer<typeof ApiKeyInfoSchema>;
 export type CreateConversationInput = z.infer<typeof CreateConversationSchema>;
 export type SendMessageInput = z.infer<typeof SendMessageSchema>;
+export type UpdateConversationSummaryInput = z.infer<typeof UpdateConversationSummarySchema>;
+export type ToolApprovalStatus = z.infer<typeof ToolApprovalStatusSchema>;
+export type DecideToolApprovalInput = z.infer<typeof DecideToolApprovalSchema>;
+export type ToolApproval = z.infer<typeof ToolApprovalSchema>;
 export type ToolCall = z.infer<typeof ToolCallSchema>;
 export type Message = z.infer<typeof MessageSchema>;
 export type Agent = z.infer<typeof AgentSchema>;
 export type Conversation = z.infer<typeof ConversationSchema>;
 export type ConversationWithMessages = z.infer<typeof ConversationWithMessagesSchema>;
+export type AgentMemory = z.infer<typeof AgentMemorySchema>;
 
 // ============================================================================
 // Constants
@@ -227,6 +371,14 @@ export const CONVERSATION_LIMITS = {
   MAX_SLUG_LENGTH: 100,
 } as const;
 
+export const MEMORY_LIMITS = {
+  MAX_MEMORIES_PER_AGENT: 500,
+  MAX_MEMORY_LENGTH: 1000,
+  // Memories recalled by the recall tool and injected into the system prompt
+  MAX_RECALLED_MEMORIES: 10,
+  MAX_PROMPT_MEMORIES: 5,
+} as const;
+
 // ============================================================================
 // Provider Model Mappings
 // ============================================================================
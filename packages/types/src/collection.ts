@@ -1,16 +1,26 @@
 import { z } from 'zod';
 
-import { ExecutorTypeSchema } from './executor';
+import {
+  ChainExecutorSettingsSchema,
+  ExecutorSigningSecretSchema,
+  ExecutorTypeSchema,
+  LocalProcessExecutorSettingsSchema,
+} from './executor';
 
 // Regex for valid collection names: letters, numbers, spaces, hyphens, underscores
 const NAME_REGEX = /^[a-zA-Z0-9\s\-_]+$/;
 
 // Executor config for updates (simplified schema that maps to database JSON)
 const ExecutorConfigUpdateSchema = z
-  .object({
-    url: z.string().url(),
-    apiKey: z.string().optional(),
-  })
+  .union([
+    z.object({
+      url: z.string().url(),
+      apiKey: z.string().optional(),
+      signingSecret: ExecutorSigningSecretSchema.optional(),
+    }),
+    LocalProcessExecutorSettingsSchema,
+    ChainExecutorSettingsSchema,
+  ])
   .nullable()
   .optional();
 
@@ -52,21 +62,80 @@ export const UpdateCollectionSchema = z.object({
 // Collection Tool Schemas
 // ============================================================================
 
+// Pinned package version: an exact version ("1.2.3") or semver range ("^1.2.0")
+export const VersionPinSchema = z
+  .string()
+  .trim()
+  .min(1, 'Version is required')
+  .max(50, 'Version must be 50 characters or less')
+  .regex(/^[0-9A-Za-z.^~<>=|*+\-\s]+$/, 'Version must be a version number or semver range');
+
 export const AddToolToCollectionSchema = z.object({
   toolId: z.string().min(1, 'Tool ID is required'),
   note: z.string().max(500, 'Note must be 500 characters or less').optional(),
   position: z.number().int().min(0).optional(),
+  version: VersionPinSchema.optional(),
 });
 
 export const UpdateCollectionToolSchema = z.object({
   note: z.string().max(500, 'Note must be 500 characters or less').nullable().optional(),
   position: z.number().int().min(0).optional(),
+  // null unpins (tracks latest)
+  version: VersionPinSchema.nullable().optional(),
+  // Calls wait for the user to approve (or edit) them before running
+  requiresApproval: z.boolean().optional(),
 });
 
 export const ReorderToolsSchema = z.object({
   toolIds: z.array(z.string().min(1)),
 });
 
+// ============================================================================
+// Collection Prompt Schemas (served as MCP prompts)
+// ============================================================================
+
+// Prompt names are used as MCP prompt identifiers: lowercase, numbers, hyphens, underscores
+const PROMPT_NAME_REGEX = /^[a-z0-9][a-z0-9\-_]*$/;
+
+export const CollectionPromptArgumentSchema = z.object({
+  name: z
+    .string()
+    .min(1, 'Argument name is required')
+    .max(64, 'Argument name must be 64 characters or less')
+    .regex(/^[a-zA-Z_][a-zA-Z0-9_]*$/, 'Argument name must be a valid identifier'),
+  description: z.string().max(200, 'Description must be 200 characters or less').optional(),
+  required: z.boolean().default(false),
+});
+
+export const CreateCollectionPromptSchema = z.object({
+  name: z
+    .string()
+    .min(1, 'Name is required')
+    .max(64, 'Name must be 64 characters or less')
+    .regex(
+      PROMPT_NAME_REGEX,
+      'Name can only contain lowercase letters, numbers, hyphens, and underscores'
+    ),
+  description: z.string().max(500, 'Description must be 500 characters or less').optional(),
+  template: z
+    .string()
+    .min(1, 'Template is required')
+    .max(10000, 'Template must be 10000 characters or less'),
+  arguments: z.array(CollectionPromptArgumentSchema).max(20).default([]),
+});
+
+export const UpdateCollectionPromptSchema = z.object({
+  name: CreateCollectionPromptSchema.shape.name.optional(),
+  description: z
+    .string()
+    .max(500, 'Description must be 500 characters or less')
+    .nullable()
+    .optional(),
+  template: CreateCollectionPromptSchema.shape.template.optional(),
+  arguments: z.array(CollectionPromptArgumentSchema).max(20).optional(),
+  position: z.number().int().min(0).optional(),
+});
+
 // ============================================================================
 // Clone Schemas
 // ============================================================================
@@ -100,6 +169,8 @@ export const CollectionToolSchema = z.object({
   toolId: z.string(),
   position: z.number(),
   note: z.string().nullable(),
+  version: z.string().nullable(),
+  requiresApproval: z.boolean(),
   addedAt: z.date(),
   tool: z.object({
     id: z.string(),
@@ -127,6 +198,9 @@ export type AddToolToCollectionInput = z.infer<typeof AddToolToCollectionSchema>
 export type UpdateCollectionToolInput = z.infer<typeof UpdateCollectionToolSchema>;
 export type ReorderToolsInput = z.infer<typeof ReorderToolsSchema>;
 export type CloneCollectionInput = z.infer<typeof CloneCollectionSchema>;
+export type CollectionPromptArgument = z.infer<typeof CollectionPromptArgumentSchema>;
+export type CreateCollectionPromptInput = z.infer<typeof CreateCollectionPromptSchema>;
+export type UpdateCollectionPromptInput = z.infer<typeof UpdateCollectionPromptSchema>;
 export type Collection = z.infer<typeof CollectionSchema>;
 export type CollectionTool = z.infer<typeof CollectionToolSchema>;
 export type CollectionWithTools = z.infer<typeof CollectionWithToolsSchema>;
@@ -141,4 +215,5 @@ export const COLLECTION_LIMITS = {
   MAX_NAME_LENGTH: 100,
   MAX_DESCRIPTION_LENGTH: 500,
   MAX_NOTE_LENGTH: 500,
+  MAX_PROMPTS_PER_COLLECTION: 20,
 } as const;
@@ -41,8 +41,78 @@ export interface ExecuteToolResponse {
   error?: string;
   /** Execution duration in milliseconds */
   executionTimeMs: number;
+  /** Machine-readable failure reason (see ExecutorErrorCode) */
+  errorCode?: ExecutorErrorCode;
+  /** Console output captured during the execution, in order */
+  logs?: ExecutorLogLine[];
+  /** Resource usage of the execution */
+  metrics?: ExecutionMetrics;
+  /** Exact package version that was executed (e.g. "1.4.2" when "latest" was requested) */
+  resolvedVersion?: string;
 }
 
+/**
+ * Why an execution failed
+ * - IMPORT_FAILED: the package could not be loaded or does not export the tool
+ * - TIMEOUT: the execution did not finish in time
+ * - ENV_MISSING: the tool needs an environment variable (usually an API key) that was not set
+ * - INVALID_INPUT: the parameters did not match the tool's input schema
+ * - TOOL_THREW: the tool's execute() threw any other error
+ */
+export type ExecutorErrorCode =
+  | 'IMPORT_FAILED'
+  | 'TIMEOUT'
+  | 'ENV_MISSING'
+  | 'INVALID_INPUT'
+  | 'TOOL_THREW';
+
+/**
+ * A console line written by the tool; stdout for log/info/debug, stderr for warn/error
+ */
+export interface ExecutorLogLine {
+  stream: 'stdout' | 'stderr';
+  message: string;
+  timestamp: number;
+}
+
+/**
+ * Resource usage reported by the executor
+ */
+export interface ExecutionMetrics {
+  /** Peak memory (RSS) of the executor process while the tool ran, in bytes */
+  peakMemoryBytes?: number;
+  /** True when the tool module was already loaded, false when it was imported for this call */
+  cacheHit?: boolean;
+}
+
+/**
+ * Content type of the streaming variant of POST /execute-tool
+ *
+ * Clients opt in with `Accept: application/x-ndjson`. The executor then answers with one
+ * JSON event per line: any number of `log`, `progress` and `partial` events, then exactly
+ * one `result` event carrying the ExecuteToolResponse. Executors without streaming support
+ * ignore the header and answer with a single ExecuteToolResponse as before.
+ */
+export const EXECUTOR_STREAM_CONTENT_TYPE = 'application/x-ndjson';
+
+/**
+ * Event in a streamed /execute-tool response
+ * - log: console output from the tool
+ * - progress: completion fraction (0-1) and/or a status message
+ * - partial: preliminary output (e.g. a value yielded by an async generator execute)
+ * - result: the final response; always the last event
+ */
+export type ExecuteToolStreamEvent =
+  | {
+      type: 'log';
+      level: 'debug' | 'info' | 'warn' | 'error';
+      message: string;
+      timestamp: number;
+    }
+  | { type: 'progress'; progress?: number; message?: string; timestamp: number }
+  | { type: 'partial'; output?: unknown; timestamp: number }
+  | ({ type: 'result' } & ExecuteToolResponse);
+
 /**
  * Response from GET /health (optional but recommended)
  */
@@ -62,7 +132,7 @@ export interface ExecutorHealthResponse {
 /**
  * Executor type enum
  */
-export const ExecutorTypeSchema = z.enum(['default', 'custom_url']);
+export const ExecutorTypeSchema = z.enum(['default', 'custom_url', 'local_process', 'chain']);
 export type ExecutorType = z.infer<typeof ExecutorTypeSchema>;
 
 /**
@@ -72,6 +142,20 @@ export const DefaultExecutorConfigSchema = z.object({
   type: z.literal('default'),
 });
 
+/**
+ * HMAC signing secret for a custom executor, encrypted at rest (AES-256-GCM, like UserApiKey)
+ * The plaintext is shown once when generated and never stored
+ */
+export const ExecutorSigningSecretSchema = z.object({
+  encrypted: z.string().min(1),
+  iv: z.string().min(1),
+  /** Last 4 characters, for display */
+  hint: z.string().max(10).optional(),
+  /** ISO timestamp of generation (rotation) */
+  createdAt: z.string().optional(),
+});
+export type ExecutorSigningSecret = z.infer<typeof ExecutorSigningSecretSchema>;
+
 /**
  * Custom URL executor config
  */
@@ -81,19 +165,139 @@ export const CustomUrlExecutorConfigSchema = z.object({
   url: z.string().url(),
   /** Optional API key for Bearer token authentication */
   apiKey: z.string().optional(),
+  /** Optional secret for HMAC request signing (see signExecutorRequest) */
+  signingSecret: ExecutorSigningSecretSchema.optional(),
 });
 
+const localProcessLimits = {
+  /** Heap limit for the child process in MB (default 256) */
+  memoryLimitMb: z.number().int().min(32).max(4096).optional(),
+  /** Wall-clock limit per execution in milliseconds (default 60s) */
+  timeoutMs: z.number().int().min(1000).max(300000).optional(),
+};
+
+/**
+ * Local process executor config (runs tools in a child Node process, for development and tests)
+ */
+export const LocalProcessExecutorConfigSchema = z.object({
+  type: z.literal('local_process'),
+  ...localProcessLimits,
+});
+
+/**
+ * Local process limits as stored in the executorConfig column
+ */
+export const LocalProcessExecutorSettingsSchema = z.strictObject(localProcessLimits);
+
+/**
+ * Executor configs that run tools themselves (everything except chains)
+ */
+export const SingleExecutorConfigSchema = z.discriminatedUnion('type', [
+  DefaultExecutorConfigSchema,
+  CustomUrlExecutorConfigSchema,
+  LocalProcessExecutorConfigSchema,
+]);
+
+/**
+ * Failure classes used by retry policies
+ * - tool_error: the tool itself failed (or rejected its input); retrying elsewhere won't help
+ * - cancelled: the caller aborted; never retried
+ */
+export const ExecutorErrorClassSchema = z.enum([
+  'timeout',
+  'network',
+  'unavailable',
+  'rate_limited',
+  'server_error',
+  'tool_error',
+  'cancelled',
+]);
+export type ExecutorErrorClass = z.infer<typeof ExecutorErrorClassSchema>;
+
+/**
+ * Retry policy for one executor in a failover chain
+ */
+export const ExecutorRetryPolicySchema = z.object({
+  /** Attempts on this executor before failing over (default 1 = no retries) */
+  maxAttempts: z.number().int().min(1).max(5).optional(),
+  /** Delay before the first retry in milliseconds (default 500) */
+  backoffMs: z.number().int().min(0).max(30000).optional(),
+  /** Multiplier applied to the delay after each retry (default 2) */
+  backoffMultiplier: z.number().min(1).max(10).optional(),
+  /** Failure classes that are retried and fail over (default: all but timeout/tool_error/cancelled) */
+  retryOn: z.array(ExecutorErrorClassSchema).optional(),
+});
+export type ExecutorRetryPolicy = z.infer<typeof ExecutorRetryPolicySchema>;
+
+const chainExecutors = z
+  .array(
+    z.object({
+      executor: SingleExecutorConfigSchema,
+      retry: ExecutorRetryPolicySchema.optional(),
+    })
+  )
+  .min(1)
+  .max(5);
+
+/**
+ * Failover chain config (executors are tried in order)
+ */
+export const ChainExecutorConfigSchema = z.object({
+  type: z.literal('chain'),
+  executors: chainExecutors,
+});
+
+/**
+ * Failover chain as stored in the executorConfig column
+ */
+export const ChainExecutorSettingsSchema = z.strictObject({ executors: chainExecutors });
+
 /**
  * Union of all executor config types
  */
 export const ExecutorConfigSchema = z.discriminatedUnion('type', [
   DefaultExecutorConfigSchema,
   CustomUrlExecutorConfigSchema,
+  LocalProcessExecutorConfigSchema,
+  ChainExecutorConfigSchema,
 ]);
 
 export type ExecutorConfig = z.infer<typeof ExecutorConfigSchema>;
+export type SingleExecutorConfig = z.infer<typeof SingleExecutorConfigSchema>;
 export type DefaultExecutorConfig = z.infer<typeof DefaultExecutorConfigSchema>;
 export type CustomUrlExecutorConfig = z.infer<typeof CustomUrlExecutorConfigSchema>;
+export type LocalProcessExecutorConfig = z.infer<typeof LocalProcessExecutorConfigSchema>;
+export type ChainExecutorConfig = z.infer<typeof ChainExecutorConfigSchema>;
+
+/**
+ * One attempt on one executor while serving a tool call
+ */
+export interface ExecutorAttempt {
+  /** Position of the executor in the chain (0 for single executors) */
+  index: number;
+  type: ExecutorType;
+  /** Display label, e.g. "Custom: exec.example.com" */
+  executor: string;
+  /** 1-based attempt number on this executor */
+  attempt: number;
+  success: boolean;
+  error?: string;
+  errorClass?: ExecutorErrorClass;
+  durationMs: number;
+}
+
+/**
+ * Which executor served a tool call, and what was tried first
+ * Recorded by TPMJS (not part of the executor API)
+ */
+export interface ExecutorRouting {
+  /** Label of the executor that produced the final result */
+  servedBy: string;
+  servedByIndex: number;
+  /** True when an earlier executor in the chain failed */
+  failedOver: boolean;
+  attempts: ExecutorAttempt[];
+}
 
 // =============================================================================
 // Zod Schemas for Request/Response Validation
@@ -108,13 +312,108 @@ export const ExecuteToolRequestSchema = z.object({
   env: z.record(z.string(), z.string()).optional(),
 });
 
+export const ExecutorErrorCodeSchema = z.enum([
+  'IMPORT_FAILED',
+  'TIMEOUT',
+  'ENV_MISSING',
+  'INVALID_INPUT',
+  'TOOL_THREW',
+]);
+
+export const ExecutorLogLineSchema = z.object({
+  stream: z.enum(['stdout', 'stderr']),
+  message: z.string(),
+  timestamp: z.number(),
+});
+
+export const ExecutionMetricsSchema = z.object({
+  peakMemoryBytes: z.number().nonnegative().optional(),
+  cacheHit: z.boolean().optional(),
+});
+
 export const ExecuteToolResponseSchema = z.object({
   success: z.boolean(),
   output: z.unknown().optional(),
   error: z.string().optional(),
   executionTimeMs: z.number(),
+  errorCode: ExecutorErrorCodeSchema.optional(),
+  logs: z.array(ExecutorLogLineSchema).optional(),
+  metrics: ExecutionMetricsSchema.optional(),
+  resolvedVersion: z.string().optional(),
 });
 
+export const ExecuteToolStreamEventSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('log'),
+    level: z.enum(['debug', 'info', 'warn', 'error']),
+    message: z.string(),
+    timestamp: z.number(),
+  }),
+  z.object({
+    type: z.literal('progress'),
+    progress: z.number().min(0).max(1).optional(),
+    message: z.string().optional(),
+    timestamp: z.number(),
+  }),
+  z.object({
+    type: z.literal('partial'),
+    output: z.unknown().optional(),
+    timestamp: z.number(),
+  }),
+  ExecuteToolResponseSchema.extend({ type: z.literal('result') }),
+]);
+
+/**
+ * Read a streamed /execute-tool response body
+ * Calls onEvent for every valid event (malformed lines are skipped; listener errors are
+ * ignored) and resolves with the final response, or null if the stream ended without a
+ * `result` event
+ */
+export async function readExecuteToolStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent?: (event: ExecuteToolStreamEvent) => void
+): Promise<ExecuteToolResponse | null> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let result: ExecuteToolResponse | null = null;
+
+  const handleLine = (line: string) => {
+    if (!line.trim()) return;
+    let json: unknown;
+    try {
+      json = JSON.parse(line);
+    } catch {
+      return;
+    }
+    const parsed = ExecuteToolStreamEventSchema.safeParse(json);
+    if (!parsed.success) return;
+
+    const event = parsed.data as ExecuteToolStreamEvent;
+    try {
+      onEvent?.(event);
+    } catch {
+      // A failing listener (e.g. a client that went away) must not fail the execution
+    }
+    if (event.type === 'result') {
+      const { type: _type, ...response } = event;
+      result = response;
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) handleLine(line);
+  }
+  handleLine(buffer + decoder.decode());
+
+  return result;
+}
+
 export const ExecutorHealthResponseSchema = z.object({
   status: z.enum(['ok', 'degraded', 'error']),
   version: z.string().optional(),
@@ -128,11 +427,13 @@ export const ExecutorHealthResponseSchema = z.object({
 export const VerifyExecutorRequestSchema = z.object({
   url: z.string().url(),
   apiKey: z.string().optional(),
+  signingSecret: ExecutorSigningSecretSchema.optional(),
 });
 
 export interface VerifyExecutorRequest {
   url: string;
   apiKey?: string;
+  signingSecret?: ExecutorSigningSecret;
 }
 
 export interface VerifyExecutorResponse {
@@ -144,3 +445,194 @@ export interface VerifyExecutorResponse {
   };
   errors?: string[];
 }
+
+// =============================================================================
+// Request Signing
+// =============================================================================
+//
+// When a custom executor has a signing secret, TPMJS signs every request:
+//
+//   x-tpmjs-timestamp       Unix time in milliseconds
+//   x-tpmjs-nonce           Random value, unique per request
+//   x-tpmjs-content-sha256  Hex SHA-256 of the raw request body
+//   x-tpmjs-signature       v1=<hex HMAC-SHA256(secret, canonical string)>
+//
+// The canonical string is the lines "v1", timestamp, nonce, method, path and body
+// digest joined with "\n". Executors call verifyExecutorRequest() with the raw body
+// before parsing it. Uses Web Crypto, so it runs in Node 18+, Deno, Bun and edge runtimes.
+
+export const EXECUTOR_SIGNATURE_HEADER = 'x-tpmjs-signature';
+export const EXECUTOR_TIMESTAMP_HEADER = 'x-tpmjs-timestamp';
+export const EXECUTOR_NONCE_HEADER = 'x-tpmjs-nonce';
+export const EXECUTOR_CONTENT_DIGEST_HEADER = 'x-tpmjs-content-sha256';
+
+/** Maximum clock difference accepted by verifyExecutorRequest (5 minutes) */
+export const EXECUTOR_SIGNATURE_TOLERANCE_MS = 5 * 60 * 1000;
+
+const SIGNATURE_VERSION = 'v1';
+
+export interface SignExecutorRequestOptions {
+  /** Plaintext signing secret */
+  secret: string;
+  /** HTTP method, e.g. "POST" */
+  method: string;
+  /** Request path, e.g. "/execute-tool" */
+  path: string;
+  /** Raw request body ("" for GET) */
+  body: string;
+  /** Defaults to Date.now() */
+  timestamp?: number;
+  /** Defaults to a random UUID */
+  nonce?: string;
+}
+
+export interface VerifyExecutorRequestOptions {
+  secret: string;
+  method: string;
+  path: string;
+  /** Raw request body, exactly as received */
+  body: string;
+  headers: Headers | Record<string, string | string[] | undefined>;
+  /** Defaults to EXECUTOR_SIGNATURE_TOLERANCE_MS */
+  toleranceMs?: number;
+  /** Defaults to Date.now() */
+  now?: number;
+  /**
+   * Return true if the nonce was already seen within the tolerance window
+   * Without it, replays are only rejected once the timestamp expires
+   */
+  isReplay?: (nonce: string) => boolean | Promise<boolean>;
+}
+
+export type ExecutorSignatureVerification =
+  | { valid: true; timestamp: number; nonce: string }
+  | { valid: false; error: string };
+
+const textEncoder = new TextEncoder();
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', textEncoder.encode(value)));
+}
+
+async function hmacSha256Hex(secret: string, value: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    textEncoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return toHex(await crypto.subtle.sign('HMAC', key, textEncoder.encode(value)));
+}
+
+function canonicalString(
+  timestamp: string,
+  nonce: string,
+  method: string,
+  path: string,
+  digest: string
+): string {
+  return [SIGNATURE_VERSION, timestamp, nonce, method.toUpperCase(), path, digest].join('\n');
+}
+
+/** Compare without short-circuiting, so timing does not reveal the matching prefix */
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+function readHeader(
+  headers: VerifyExecutorRequestOptions['headers'],
+  name: string
+): string | undefined {
+  if (typeof (headers as Headers).get === 'function') {
+    return (headers as Headers).get(name) ?? undefined;
+  }
+  const record = headers as Record<string, string | string[] | undefined>;
+  const key = Object.keys(record).find((header) => header.toLowerCase() === name);
+  const value = key ? record[key] : undefined;
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Build the signature headers for an executor request
+ */
+export async function signExecutorRequest(
+  options: SignExecutorRequestOptions
+): Promise<Record<string, string>> {
+  const timestamp = String(options.timestamp ?? Date.now());
+  const nonce = options.nonce ?? crypto.randomUUID();
+  const digest = await sha256Hex(options.body);
+  const signature = await hmacSha256Hex(
+    options.secret,
+    canonicalString(timestamp, nonce, options.method, options.path, digest)
+  );
+
+  return {
+    [EXECUTOR_TIMESTAMP_HEADER]: timestamp,
+    [EXECUTOR_NONCE_HEADER]: nonce,
+    [EXECUTOR_CONTENT_DIGEST_HEADER]: digest,
+    [EXECUTOR_SIGNATURE_HEADER]: `${SIGNATURE_VERSION}=${signature}`,
+  };
+}
+
+/**
+ * Verify a signed executor request
+ * Rejects missing or malformed headers, stale timestamps, body tampering, bad signatures
+ * and (with isReplay) reused nonces
+ */
+export async function verifyExecutorRequest(
+  options: VerifyExecutorRequestOptions
+): Promise<ExecutorSignatureVerification> {
+  const timestampHeader = readHeader(options.headers, EXECUTOR_TIMESTAMP_HEADER);
+  const nonce = readHeader(options.headers, EXECUTOR_NONCE_HEADER);
+  const digestHeader = readHeader(options.headers, EXECUTOR_CONTENT_DIGEST_HEADER);
+  const signatureHeader = readHeader(options.headers, EXECUTOR_SIGNATURE_HEADER);
+
+  if (!timestampHeader || !nonce || !digestHeader || !signatureHeader) {
+    return { valid: false, error: 'Missing signature headers' };
+  }
+
+  const timestamp = Number(timestampHeader);
+  if (!Number.isSafeInteger(timestamp)) {
+    return { valid: false, error: 'Invalid signature timestamp' };
+  }
+
+  const now = options.now ?? Date.now();
+  const toleranceMs = options.toleranceMs ?? EXECUTOR_SIGNATURE_TOLERANCE_MS;
+  if (Math.abs(now - timestamp) > toleranceMs) {
+    return { valid: false, error: 'Signature timestamp outside tolerance' };
+  }
+
+  const digest = await sha256Hex(options.body);
+  if (!timingSafeEqual(digest, digestHeader.toLowerCase())) {
+    return { valid: false, error: 'Body digest mismatch' };
+  }
+
+  const prefix = `${SIGNATURE_VERSION}=`;
+  if (!signatureHeader.startsWith(prefix)) {
+    return { valid: false, error: 'Unsupported signature version' };
+  }
+
+  const expected = await hmacSha256Hex(
+    options.secret,
+    canonicalString(timestampHeader, nonce, options.method, options.path, digest)
+  );
+  if (!timingSafeEqual(expected, signatureHeader.slice(prefix.length).toLowerCase())) {
+    return { valid: false, error: 'Invalid signature' };
+  }
+
+  if (options.isReplay && (await options.isReplay(nonce))) {
+    return { valid: false, error: 'Replayed request' };
+  }
+
+  return { valid: true, timestamp, nonce };
+}
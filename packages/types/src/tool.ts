@@ -19,3 +19,86 @@ export const ToolSchema = z.object({
 
 export type Tool = z.infer<typeof ToolSchema>;
 export type ToolParameter = z.infer<typeof ToolParameterSchema>;
+
+// ============================================================================
+// Quality Score
+// ============================================================================
+
+export const QualityComponentKeySchema = z.enum([
+  'health',
+  'latency',
+  'executions',
+  'schema',
+  'likes',
+  'recency',
+  'popularity',
+]);
+
+/**
+ * One signal behind a tool's quality score
+ */
+export const QualityComponentSchema = z.object({
+  key: QualityComponentKeySchema,
+  label: z.string(),
+  // Share of the total score (weights sum to 1)
+  weight: z.number().min(0).max(1),
+  score: z.number().min(0).max(1),
+  // Why the component scored what it did, e.g. "47 of 50 recent health checks passed"
+  detail: z.string(),
+});
+
+/**
+ * How a tool's quality score was computed (stored with the score)
+ */
+export const QualityBreakdownSchema = z.object({
+  score: z.number().min(0).max(1),
+  computedAt: z.string(),
+  components: z.array(QualityComponentSchema),
+});
+
+export type QualityComponentKey = z.infer<typeof QualityComponentKeySchema>;
+export type QualityComponent = z.infer<typeof QualityComponentSchema>;
+export type QualityBreakdown = z.infer<typeof QualityBreakdownSchema>;
+
+// ============================================================================
+// Search Facets
+// ============================================================================
+
+/**
+ * Facets of GET /api/tools; each is also a query parameter filtering on one of its values
+ */
+export const ToolFacetKeySchema = z.enum([
+  'category',
+  'framework',
+  'license',
+  'tier',
+  'health',
+  'env',
+  'quality',
+]);
+
+// Overall health: BROKEN if either check failed, HEALTHY if both passed
+export const HealthFacetValueSchema = z.enum(['HEALTHY', 'BROKEN', 'UNKNOWN']);
+
+// Whether a package needs environment variables (API keys) set before use
+export const EnvFacetValueSchema = z.enum(['none', 'required']);
+
+export const QualityBucketSchema = z.enum(['high', 'medium', 'low', 'unscored']);
+
+export const ToolFacetValueSchema = z.object({
+  value: z.string(),
+  count: z.number().int().min(0),
+});
+
+/**
+ * Tool counts per facet value, most common first
+ * Each facet is counted with every other active filter applied, but not its own
+ */
+export const ToolFacetsSchema = z.record(ToolFacetKeySchema, z.array(ToolFacetValueSchema));
+
+export type ToolFacetKey = z.infer<typeof ToolFacetKeySchema>;
+export type HealthFacetValue = z.infer<typeof HealthFacetValueSchema>;
+export type EnvFacetValue = z.infer<typeof EnvFacetValueSchema>;
+export type QualityBucket = z.infer<typeof QualityBucketSchema>;
+export type ToolFacetValue = z.infer<typeof ToolFacetValueSchema>;
+export type ToolFacets = z.infer<typeof ToolFacetsSchema>;
@@ -84,6 +84,57 @@ export const CheckUsernameSchema = z.object({
     .transform((val) => val.toLowerCase()),
 });
 
+// ============================================================================
+// API Token Schemas
+// ============================================================================
+
+/**
+ * Scopes that can be granted to a personal access token.
+ * A `:write` scope implies the matching `:read` scope.
+ */
+export const API_TOKEN_SCOPES = [
+  'collections:read',
+  'collections:write',
+  'agents:read',
+  'agents:write',
+  'user:read',
+  'user:write',
+] as const;
+
+export const ApiTokenScopeSchema = z.enum(API_TOKEN_SCOPES);
+
+export const CreateApiTokenSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100, 'Name must be 100 characters or less'),
+  scopes: z.array(ApiTokenScopeSchema).min(1, 'At least one scope is required'),
+  expiresInDays: z.number().int().min(1).max(365).default(90),
+});
+
+// ============================================================================
+// Publisher Account Schemas
+// ============================================================================
+
+/**
+ * Accounts a user can verify as theirs so the packages they publish show as verified:
+ * an npm account (its public email must match the user's verified email) or a GitHub org
+ * (a token file in its `.github` repository; packages count when their provenance
+ * attestation shows they were built from one of the org's repositories)
+ */
+export const PUBLISHER_ACCOUNT_TYPES = ['NPM', 'GITHUB_ORG'] as const;
+
+export const PublisherAccountTypeSchema = z.enum(PUBLISHER_ACCOUNT_TYPES);
+
+export const LinkPublisherAccountSchema = z.object({
+  type: PublisherAccountTypeSchema,
+  // npm usernames and GitHub logins are case-insensitive
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Account name is required')
+    .max(214)
+    .regex(/^[a-zA-Z0-9][a-zA-Z0-9._-]*$/, 'Invalid account name')
+    .transform((val) => val.toLowerCase()),
+});
+
 // ============================================================================
 // Response Types
 // ============================================================================
@@ -110,6 +161,26 @@ export const UsernameAvailabilitySchema = z.object({
   reason: z.string().optional(),
 });
 
+export const ApiTokenInfoSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  tokenPrefix: z.string(),
+  scopes: z.array(ApiTokenScopeSchema),
+  expiresAt: z.date(),
+  lastUsedAt: z.date().nullable(),
+  revokedAt: z.date().nullable(),
+  createdAt: z.date(),
+});
+
+export const PublisherAccountInfoSchema = z.object({
+  id: z.string(),
+  type: PublisherAccountTypeSchema,
+  name: z.string(),
+  verificationToken: z.string(),
+  verifiedAt: z.date().nullable(),
+  createdAt: z.date(),
+});
+
 // ============================================================================
 // Type Exports
 // ============================================================================
@@ -119,6 +190,30 @@ export type CheckUsernameInput = z.infer<typeof CheckUsernameSchema>;
 export type UserProfile = z.infer<typeof UserProfileSchema>;
 export type PublicUser = z.infer<typeof PublicUserSchema>;
 export type UsernameAvailability = z.infer<typeof UsernameAvailabilitySchema>;
+export type ApiTokenScope = z.infer<typeof ApiTokenScopeSchema>;
+export type CreateApiTokenInput = z.infer<typeof CreateApiTokenSchema>;
+export type ApiTokenInfo = z.infer<typeof ApiTokenInfoSchema>;
+export type PublisherAccountType = z.infer<typeof PublisherAccountTypeSchema>;
+export type LinkPublisherAccountInput = z.infer<typeof LinkPublisherAccountSchema>;
+export type PublisherAccountInfo = z.infer<typeof PublisherAccountInfoSchema>;
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const API_TOKEN_LIMITS = {
+  MAX_TOKENS_PER_USER: 20,
+  MAX_EXPIRY_DAYS: 365,
+} as const;
+
+export const PUBLISHER_ACCOUNT_LIMITS = {
+  MAX_ACCOUNTS_PER_USER: 20,
+} as const;
+
+/**
+ * File a GitHub org adds to its `.github` repository, containing the verification token
+ */
+export const GITHUB_VERIFICATION_FILE = 'tpmjs-verification.txt';
 
 // ============================================================================
 // Helper Functions
@@ -144,3 +239,13 @@ export function suggestUsername(name: string): string {
 export function isValidUsername(username: string): boolean {
   return UsernameSchema.safeParse(username).success;
 }
+
+/**
+ * Check whether a set of granted token scopes satisfies a required scope.
+ * `collections:write` also satisfies `collections:read`.
+ */
+export function hasApiTokenScope(granted: readonly string[], required: ApiTokenScope): boolean {
+  if (granted.includes(required)) return true;
+  const [resource, access] = required.split(':');
+  return access === 'read' && granted.includes(`${resource}:write`);
+}
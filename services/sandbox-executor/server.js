@@ -3,6 +3,7 @@
  * Securely executes npm packages using isolated-vm
  */
 
+import { AsyncLocalStorage } from 'async_hooks';
 import { execSync } from 'child_process';
 import { existsSync, mkdirSync } from 'fs';
 import { join } from 'path';
@@ -24,6 +25,33 @@ const MAX_MEMORY_MB = 128;
 const MAX_TIMEOUT_MS = 10000;
 const ALLOWED_ORIGINS = process.env.ALLOWED_ORIGINS?.split(',') || ['*'];
 
+// Streaming responses: one JSON event per line (log, progress, partial, then result)
+const STREAM_CONTENT_TYPE = 'application/x-ndjson';
+// Console lines returned per execution
+const MAX_LOG_LINES = 200;
+
+// Event sink of the execution currently running (console output is attributed to it)
+const eventSinks = new AsyncLocalStorage();
+
+for (const [method, level] of [
+  ['log', 'info'],
+  ['info', 'info'],
+  ['debug', 'debug'],
+  ['warn', 'warn'],
+  ['error', 'error'],
+]) {
+  const original = console[method].bind(console);
+  console[method] = (...args) => {
+    original(...args);
+    eventSinks.getStore()?.({
+      type: 'log',
+      level,
+      message: args.map((arg) => (typeof arg === 'string' ? arg : safeStringify(arg))).join(' '),
+      timestamp: Date.now(),
+    });
+  };
+}
+
 app.use(
   cors({
     origin: ALLOWED_ORIGINS.includes('*') ? true : ALLOWED_ORIGINS,
@@ -46,21 +74,49 @@ app.get('/health', (req, res) => {
 
 /**
  * Execute package endpoint
+ * With `Accept: application/x-ndjson`, streams log/progress/partial events and ends with a
+ * result event instead of returning a single JSON body
  */
 app.post('/execute', async (req, res) => {
   const startTime = Date.now();
+  const streaming = (req.get('accept') || '').includes(STREAM_CONTENT_TYPE);
+  // Console output of the package, returned as stdout/stderr lines
+  const logs = [];
+  // Failures before the package function runs are import failures
+  let errorCode = 'IMPORT_FAILED';
+
+  const emit = (event) => {
+    if (streaming && !res.writableEnded) {
+      res.write(`${JSON.stringify(event)}\n`);
+    }
+  };
+  const send = (status, body) => {
+    if (!streaming) {
+      return res.status(status).json(body);
+    }
+    emit({ type: 'result', executionTimeMs: Date.now() - startTime, ...body });
+    res.end();
+  };
+
+  if (streaming) {
+    res.status(200).type(STREAM_CONTENT_TYPE);
+    res.setHeader('Cache-Control', 'no-cache');
+    res.flushHeaders();
+  }
 
   try {
     const { packageName, functionName = 'default', params = {} } = req.body;
 
     if (!packageName) {
-      return res.status(400).json({
+      return send(400, {
         success: false,
         error: 'packageName is required',
+        errorCode: 'INVALID_INPUT',
       });
     }
 
     // Ensure package is installed
+    emit({ type: 'progress', message: `Installing ${packageName}`, timestamp: Date.now() });
     const packageDir = await ensurePackageInstalled(packageName);
 
     // Create isolated VM
@@ -120,25 +176,47 @@ app.post('/execute', async (req, res) => {
         throw new Error(`Package does not export a function named '${functionName}'`);
       }
 
-      return await fn(params);
+      emit({ type: 'progress', message: `Running ${functionName}`, timestamp: Date.now() });
+
+      // Context for progress updates; async iterables stream each value as a partial
+      const executionContext = {
+        onProgress: ({ progress, message } = {}) =>
+          emit({ type: 'progress', progress, message, timestamp: Date.now() }),
+      };
+      errorCode = 'TOOL_THREW';
+      const sink = (event) => {
+        if (event.type === 'log' && logs.length < MAX_LOG_LINES) {
+          logs.push({
+            stream: event.level === 'warn' || event.level === 'error' ? 'stderr' : 'stdout',
+            message: event.message,
+            timestamp: event.timestamp,
+          });
+        }
+        emit(event);
+      };
+      return await eventSinks.run(sink, async () =>
+        resolveOutput(await fn(params, executionContext), emit)
+      );
     }, MAX_TIMEOUT_MS);
 
     const executionTimeMs = Date.now() - startTime;
 
-    res.json({
+    send(200, {
       success: true,
       output: result,
       executionTimeMs,
-      logs: [],
+      logs,
     });
   } catch (error) {
     const executionTimeMs = Date.now() - startTime;
     console.error('Execution error:', error);
 
-    res.status(500).json({
+    send(500, {
       success: false,
       error: error.message,
+      errorCode: error.message === 'Execution timeout' ? 'TIMEOUT' : errorCode,
       executionTimeMs,
+      logs,
     });
   }
 });
@@ -157,6 +235,34 @@ app.post('/cache/clear', async (req, res) => {
   }
 });
 
+/**
+ * Resolve a function's output; async iterables emit each value as a partial event and
+ * the last value is the output
+ */
+async function resolveOutput(value, emit) {
+  if (!value || typeof value[Symbol.asyncIterator] !== 'function') {
+    return value;
+  }
+  let last;
+  for await (const chunk of value) {
+    last = chunk;
+    emit({ type: 'partial', output: chunk, timestamp: Date.now() });
+  }
+  return last;
+}
+
+/**
+ * JSON.stringify that falls back to String() for circular or exotic values
+ */
+function safeStringify(value) {
+  if (value instanceof Error) return value.stack || value.message;
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return String(value);
+  }
+}
+
 /**
  * Execute function with timeout
  */
@@ -5,6 +5,7 @@
  * Execute a TPMJS tool in an isolated Vercel Sandbox VM
  */
 
+import { verifyExecutorRequest } from '@tpmjs/types/executor';
 import { Sandbox } from '@vercel/sandbox';
 import { type NextRequest, NextResponse } from 'next/server';
 
@@ -28,6 +29,20 @@ interface ExecuteToolResponse {
   executionTimeMs: number;
 }
 
+// Nonces seen within the signature tolerance window (per instance)
+const seenNonces = new Map<string, number>();
+const NONCE_TTL_MS = 5 * 60 * 1000;
+
+function isReplayedNonce(nonce: string): boolean {
+  const now = Date.now();
+  for (const [seen, expiresAt] of seenNonces) {
+    if (expiresAt < now) seenNonces.delete(seen);
+  }
+  if (seenNonces.has(nonce)) return true;
+  seenNonces.set(nonce, now + NONCE_TTL_MS);
+  return false;
+}
+
 export async function POST(req: NextRequest): Promise<NextResponse<ExecuteToolResponse>> {
   const startTime = Date.now();
 
@@ -43,10 +58,32 @@ export async function POST(req: NextRequest): Promise<NextResponse<ExecuteToolRe
     }
   }
 
+  // Read the raw body once: signature verification needs the exact bytes
+  const rawBody = await req.text();
+
+  // Verify the HMAC request signature if EXECUTOR_SIGNING_SECRET is set
+  const signingSecret = process.env.EXECUTOR_SIGNING_SECRET;
+  if (signingSecret) {
+    const verification = await verifyExecutorRequest({
+      secret: signingSecret,
+      method: req.method,
+      path: new URL(req.url).pathname,
+      body: rawBody,
+      headers: req.headers,
+      isReplay: isReplayedNonce,
+    });
+    if (!verification.valid) {
+      return NextResponse.json(
+        { success: false, error: verification.error, executionTimeMs: Date.now() - startTime },
+        { status: 401 }
+      );
+    }
+  }
+
   let sandbox: Sandbox | null = null;
 
   try {
-    const body: ExecuteToolRequest = await req.json();
+    const body: ExecuteToolRequest = JSON.parse(rawBody);
     const { packageName, name, version = 'latest', params, env } = body;
 
     if (!packageName || !name) {
@@ -246,7 +283,8 @@ export async function OPTIONS(): Promise<NextResponse> {
     headers: {
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      'Access-Control-Allow-Headers':
+        'Content-Type, Authorization, X-TPMJS-Timestamp, X-TPMJS-Nonce, X-TPMJS-Content-SHA256, X-TPMJS-Signature',
     },
   });
 }